@@ -5,8 +5,8 @@
 import { GameLoop, type GameConfig } from './GameLoop';
 import { BrowserClock, SeededRng, LocalStorage, WebAudio } from '../shared/adapters';
 import type { Clock, Rng, Storage, AudioPort } from '../shared/ports';
-import type { GameState } from '../modules/core';
 import { WorldManager, WorldStateManager } from '../modules/worlds';
+import { SaveSlotManager, type SaveSlotInfo } from '../modules/save';
 
 export interface AppConfig {
   canvasWidth?: number;
@@ -23,12 +23,14 @@ export class App {
   private storage: Storage;
   private audio: AudioPort;
   private worldManager: WorldManager;
+  private saveSlots: SaveSlotManager;
 
   constructor(config: AppConfig = {}) {
     this.clock = new BrowserClock();
     this.rng = new SeededRng(config.seed);
     this.storage = new LocalStorage();
     this.audio = new WebAudio();
+    this.saveSlots = new SaveSlotManager(this.storage, { autosaveSlots: 3 });
     
     // Initialize world management
     const worldStateManager = new WorldStateManager(this.storage);
@@ -51,7 +53,7 @@ export class App {
       throw new Error('Canvas element with id "gameCanvas" not found');
     }
 
-    this.gameLoop = new GameLoop(canvas, this.clock, this.rng, this.audio, this.worldManager, config);
+    this.gameLoop = new GameLoop(canvas, this.clock, this.rng, this.audio, this.worldManager, config, this.saveSlots, this.storage);
   }
 
   /**
@@ -69,6 +71,12 @@ export class App {
     } catch (error) {
       console.warn('Audio initialization failed, continuing without audio:', error);
     }
+
+    try {
+      await this.gameLoop.loadKeyBindings();
+    } catch (error) {
+      console.warn('Could not load key bindings, using the defaults:', error);
+    }
     
     this.gameLoop.start();
   }
@@ -130,56 +138,44 @@ export class App {
   }
 
   /**
-   * Save current game state
+   * Save current game state to a slot
    */
-  async saveGame(saveName: string = 'autosave'): Promise<void> {
+  async saveGame(saveName: string = 'slot-1'): Promise<void> {
     if (!this.gameLoop) {
       throw new Error('Game loop not initialized');
     }
-
-    const gameState = this.gameLoop.getGameState();
-    const saveData = {
-      gameState,
-      timestamp: Date.now(),
-      version: '1.0.0',
-    };
-
-    await this.storage.save(saveName, saveData);
+    await this.gameLoop.saveToSlot(saveName);
   }
 
   /**
-   * Load saved game state
+   * Load a save slot, migrating older saves.
+   * Returns false when the slot is empty; throws SaveError for corrupt or too-new saves.
    */
-  async loadGame(saveName: string = 'autosave'): Promise<boolean> {
+  async loadGame(saveName: string = 'slot-1'): Promise<boolean> {
     if (!this.gameLoop) {
       throw new Error('Game loop not initialized');
     }
 
     try {
-      const saveData = await this.storage.load<{
-        gameState: GameState;
-        timestamp: number;
-        version: string;
-      }>(saveName);
-
-      if (!saveData) {
-        return false; // No save data found
-      }
-
-      // Restore the game state
-      this.gameLoop.loadGameState(saveData.gameState);
-      return true;
+      return await this.gameLoop.loadFromSlot(saveName);
     } catch (error) {
-      console.error('Failed to load game:', error);
-      return false;
+      console.error(`Failed to load save "${saveName}":`, error);
+      throw error;
     }
   }
 
+  /**
+   * List save slots with their metadata, newest first
+   */
+  async listSaves(): Promise<SaveSlotInfo[]> {
+    return this.saveSlots.listSlots();
+  }
+
   /**
    * Check if a save exists
    */
-  async hasSave(saveName: string = 'autosave'): Promise<boolean> {
-    return await this.storage.exists(saveName);
+  async hasSave(saveName: string = 'slot-1'): Promise<boolean> {
+    return await this.saveSlots.exists(saveName);
   }
 
   /**
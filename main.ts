@@ -22,13 +22,14 @@ app.start().catch(console.error);
 
 // Expose equipping methods for testing
 import { equipItem, unequipItem } from './modules/core';
+import type { EquipmentSlot } from './modules/core';
 
 (window as any).equipItem = (itemType: string) => {
   const gameState = (window as any).gameLoop.getGameState();
   return equipItem(gameState.player, itemType);
 };
 
-(window as any).unequipItem = () => {
+(window as any).unequipItem = (slot: EquipmentSlot) => {
   const gameState = (window as any).gameLoop.getGameState();
-  return unequipItem(gameState.player);
+  return unequipItem(gameState.player, slot);
 };
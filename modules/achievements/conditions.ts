@@ -0,0 +1,30 @@
+/**
+ * Achievement conditions - what has to be true about the game right now
+ */
+
+import type { AchievementCondition, AchievementSnapshot } from './types';
+import { hasItem, isEquipped } from '../core';
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+export function checkAchievementCondition(condition: AchievementCondition, snapshot: AchievementSnapshot): boolean {
+  const { player, time } = snapshot;
+  switch (condition.kind) {
+    case 'stat':
+      return inRange(player.stats[condition.stat], condition.min, condition.max);
+    case 'hasAnyItem':
+      return condition.items.some(item => hasItem(player.inventory, item, 1));
+    case 'equipped':
+      return isEquipped(player, condition.item);
+    case 'playedHours':
+      return time.totalMinutes / 60 >= condition.hours;
+    case 'timeOfDay':
+      return time.day === condition.day && time.hour >= condition.fromHour;
+    case 'awardsUnlocked':
+      return snapshot.awardsUnlocked >= condition.count;
+    case 'all':
+      return condition.conditions.every(inner => checkAchievementCondition(inner, snapshot));
+  }
+}
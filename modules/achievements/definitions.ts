@@ -0,0 +1,229 @@
+/**
+ * Every achievement and award, declared as a rule
+ */
+
+import type { AchievementCondition, AchievementDefinition } from './types';
+
+const HAPPY: AchievementCondition = { kind: 'stat', stat: 'mood', min: 80 };
+
+const BALANCED: AchievementCondition = {
+  kind: 'all',
+  conditions: [
+    { kind: 'stat', stat: 'energy', min: 70 },
+    { kind: 'stat', stat: 'mood', min: 70 },
+    { kind: 'stat', stat: 'thirst', min: 70 },
+    { kind: 'stat', stat: 'hunger', min: 70 },
+  ],
+};
+
+export const ACHIEVEMENT_DEFINITIONS: Record<string, AchievementDefinition> = {
+  'playa-wanderer': {
+    id: 'playa-wanderer',
+    name: 'Playa Wanderer',
+    description: 'Traveled 6km across the playa',
+    emoji: '🏃‍♂️',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'playaKm', target: 6, unit: 'km' }
+  },
+  'playa-explorer': {
+    id: 'playa-explorer',
+    name: 'Playa Explorer',
+    description: 'Traveled 15km across the playa',
+    emoji: '🗺️',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'playaKm', target: 15, unit: 'km' }
+  },
+  'playa-nomad': {
+    id: 'playa-nomad',
+    name: 'Playa Nomad',
+    description: 'Traveled 30km across the playa',
+    emoji: '🌵',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'playaKm', target: 30, unit: 'km' }
+  },
+  'mood-streak-5min': {
+    id: 'mood-streak-5min',
+    name: 'Mood Master',
+    description: 'Stayed happy for 5 minutes straight',
+    emoji: '😊',
+    category: 'achievement',
+    rule: { kind: 'streak', condition: HAPPY, minutes: 5 }
+  },
+  'mood-streak-10min': {
+    id: 'mood-streak-10min',
+    name: 'Zen Master',
+    description: 'Stayed happy for 10 minutes straight',
+    emoji: '🧘',
+    category: 'achievement',
+    rule: { kind: 'streak', condition: HAPPY, minutes: 10 }
+  },
+  'mood-streak-20min': {
+    id: 'mood-streak-20min',
+    name: 'Bliss Master',
+    description: 'Stayed happy for 20 minutes straight',
+    emoji: '✨',
+    category: 'achievement',
+    rule: { kind: 'streak', condition: HAPPY, minutes: 20 }
+  },
+  'mood-bounce': {
+    id: 'mood-bounce',
+    name: 'Mood Bouncer',
+    description: 'Bounced from depressed to ecstatic',
+    emoji: '🎢',
+    category: 'achievement',
+    rule: { kind: 'sequence', steps: [{ kind: 'stat', stat: 'mood', max: 20 }, HAPPY] }
+  },
+  'balanced-burner': {
+    id: 'balanced-burner',
+    name: 'Balanced Burner',
+    description: 'Maintained all stats above 70 for 10 minutes',
+    emoji: '⚖️',
+    category: 'achievement',
+    rule: { kind: 'streak', condition: BALANCED, minutes: 10 }
+  },
+  'gifter-10': {
+    id: 'gifter-10',
+    name: 'Generous Gifter',
+    description: 'Gifted 10 items to others',
+    emoji: '🎁',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'itemsGifted', target: 10, unit: 'gifts' }
+  },
+  'gifter-50': {
+    id: 'gifter-50',
+    name: 'Radical Gifter',
+    description: 'Gifted 50 items to others',
+    emoji: '🎁',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'itemsGifted', target: 50, unit: 'gifts' }
+  },
+  'gifter-200': {
+    id: 'gifter-200',
+    name: 'Gifting Legend',
+    description: 'Gifted 200 items to others',
+    emoji: '🎁',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'itemsGifted', target: 200, unit: 'gifts' }
+  },
+  'karma-gifter-50': {
+    id: 'karma-gifter-50',
+    name: 'Karma Builder',
+    description: 'Gave 50+ karma worth of gifts',
+    emoji: '✨',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'karmaGifted', target: 50, unit: 'karma' }
+  },
+  'karma-gifter-250': {
+    id: 'karma-gifter-250',
+    name: 'Karma Master',
+    description: 'Gave 250+ karma worth of gifts',
+    emoji: '✨',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'karmaGifted', target: 250, unit: 'karma' }
+  },
+  'karma-gifter-1000': {
+    id: 'karma-gifter-1000',
+    name: 'Karma Legend',
+    description: 'Gave 1000+ karma worth of gifts',
+    emoji: '✨',
+    category: 'achievement',
+    rule: { kind: 'counter', counter: 'karmaGifted', target: 1000, unit: 'karma' }
+  },
+  'man-burn-totemist': {
+    id: 'man-burn-totemist',
+    name: 'Man Burn Totemist',
+    description: 'Used Totem during the Man Burn',
+    emoji: '🪩',
+    category: 'achievement',
+    rule: {
+      kind: 'condition',
+      condition: { kind: 'all', conditions: [{ kind: 'timeOfDay', day: 8, fromHour: 18 }, { kind: 'equipped', item: 'Totem' }] }
+    }
+  },
+  'first-moop': {
+    id: 'first-moop',
+    name: 'First Cleanup',
+    description: 'Picked up your first piece of moop',
+    emoji: '🗑️',
+    category: 'award',
+    rule: { kind: 'counter', counter: 'moopCollected', target: 1, unit: 'moop' }
+  },
+  'moop-collector': {
+    id: 'moop-collector',
+    name: 'Moop Collector',
+    description: 'Collected 50 pieces of moop',
+    emoji: '🧹',
+    category: 'award',
+    rule: { kind: 'counter', counter: 'moopCollected', target: 50, unit: 'moop' }
+  },
+  'art-car-rider': {
+    id: 'art-car-rider',
+    name: 'Art Car Rider',
+    description: 'Rode an art car for the first time',
+    emoji: '🚗',
+    category: 'award',
+    rule: { kind: 'counter', counter: 'artCarRides', target: 1, unit: 'rides' }
+  },
+  'not-a-darkwad': {
+    id: 'not-a-darkwad',
+    name: 'Not a Darkwad',
+    description: 'Found your first light bulb',
+    emoji: '💡',
+    category: 'award',
+    rule: { kind: 'counter', counter: 'lightBulbsFound', target: 1, unit: 'lights' }
+  },
+  'psychedelic-pioneer': {
+    id: 'psychedelic-pioneer',
+    name: 'Psychedelic Pioneer',
+    description: 'Experienced multiple altered states',
+    emoji: '🌈',
+    category: 'award',
+    rule: { kind: 'counter', counter: 'drugsTaken', target: 5, unit: 'doses' }
+  },
+  'craft-artisan': {
+    id: 'craft-artisan',
+    name: 'Craft Artisan',
+    description: 'Created your first crafted item',
+    emoji: '🔨',
+    category: 'award',
+    rule: { kind: 'condition', condition: { kind: 'hasAnyItem', items: ['Totem', 'Cape', 'Costume'] } }
+  },
+  'party-survivor': {
+    id: 'party-survivor',
+    name: 'Party Survivor',
+    description: 'Consumed various party substances',
+    emoji: '🍻',
+    category: 'award',
+    rule: { kind: 'condition', condition: { kind: 'hasAnyItem', items: ['Beer', 'Vodka'] } }
+  },
+  'desert-wanderer': {
+    id: 'desert-wanderer',
+    name: 'Desert Wanderer',
+    description: 'Spent significant time exploring the playa',
+    emoji: '🏜️',
+    category: 'award',
+    rule: { kind: 'condition', condition: { kind: 'playedHours', hours: 4 } }
+  },
+  'spiritual-journey': {
+    id: 'spiritual-journey',
+    name: 'Spiritual Journey',
+    description: 'Achieved high karma through good deeds',
+    emoji: '✨',
+    category: 'award',
+    rule: { kind: 'condition', condition: { kind: 'stat', stat: 'karma', min: 100 } }
+  },
+  'burning-man-master': {
+    id: 'burning-man-master',
+    name: 'Burning Man Master',
+    description: 'Completed the ultimate Burning Man experience',
+    emoji: '👑',
+    category: 'award',
+    rule: {
+      kind: 'condition',
+      condition: {
+        kind: 'all',
+        conditions: [{ kind: 'stat', stat: 'karma', min: 200 }, { kind: 'playedHours', hours: 8 }, { kind: 'awardsUnlocked', count: 3 }]
+      }
+    }
+  },
+};
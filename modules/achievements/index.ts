@@ -0,0 +1,32 @@
+/**
+ * Achievement module - achievements and awards declared as rules over counters, streaks and events
+ */
+
+// Types
+export type {
+  AchievementCounter,
+  AchievementEvent,
+  AchievementCondition,
+  AchievementRule,
+  AchievementCategory,
+  AchievementDefinition,
+  AchievementSnapshot,
+  AchievementView,
+} from './types';
+
+// Definitions
+export { ACHIEVEMENT_DEFINITIONS } from './definitions';
+
+// Conditions
+export { checkAchievementCondition } from './conditions';
+
+// Progress
+export {
+  createAchievementProgress,
+  createAwards,
+  getAchievementDefinition,
+  recordAchievementEvent,
+  updateAchievementProgress,
+  findUnlockedAchievements,
+  getAchievementLog,
+} from './progress';
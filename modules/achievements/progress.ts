@@ -0,0 +1,134 @@
+/**
+ * Achievement progress - counting events, timing streaks and deciding what unlocks
+ */
+
+import type { AchievementProgress, Award } from '../core';
+import type {
+  AchievementCounter, AchievementDefinition, AchievementEvent, AchievementRule, AchievementSnapshot, AchievementView,
+} from './types';
+import { ACHIEVEMENT_DEFINITIONS } from './definitions';
+import { checkAchievementCondition } from './conditions';
+
+const PIXELS_PER_KM = 1000; // Approximate, as the playa is drawn
+
+type EventCounters = {
+  [K in AchievementEvent['kind']]: (event: Extract<AchievementEvent, { kind: K }>) => Partial<Record<AchievementCounter, number>>;
+};
+
+/**
+ * How much each event adds to which counters
+ */
+const EVENT_COUNTERS: EventCounters = {
+  travelled: ({ distance }) => ({ playaKm: distance / PIXELS_PER_KM }),
+  moopCollected: () => ({ moopCollected: 1 }),
+  gifted: ({ quantity, karma }) => ({ itemsGifted: quantity, karmaGifted: karma }),
+  drugTaken: () => ({ drugsTaken: 1 }),
+  artCarRidden: () => ({ artCarRides: 1 }),
+  lightBulbFound: () => ({ lightBulbsFound: 1 }),
+};
+
+/**
+ * Achievement progress for a new game: nothing counted yet
+ */
+export function createAchievementProgress(): AchievementProgress {
+  return { counters: {}, streaks: {}, steps: {} };
+}
+
+/**
+ * Awards for a new game, none unlocked yet
+ */
+export function createAwards(): Award[] {
+  return Object.values(ACHIEVEMENT_DEFINITIONS)
+    .filter(definition => definition.category === 'award')
+    .map(({ id, name, description, emoji }) => ({ id, name, description, emoji, unlocked: false }));
+}
+
+export function getAchievementDefinition(id: string): AchievementDefinition | undefined {
+  return ACHIEVEMENT_DEFINITIONS[id];
+}
+
+/**
+ * Add an event to the counters it counts towards
+ */
+export function recordAchievementEvent(progress: AchievementProgress, event: AchievementEvent): void {
+  const counts = (EVENT_COUNTERS[event.kind] as (event: AchievementEvent) => Partial<Record<AchievementCounter, number>>)(event);
+  Object.entries(counts).forEach(([counter, amount]) => {
+    progress.counters[counter] = (progress.counters[counter] ?? 0) + (amount ?? 0);
+  });
+}
+
+function getLocked(unlocked: ReadonlySet<string>): AchievementDefinition[] {
+  return Object.values(ACHIEVEMENT_DEFINITIONS).filter(definition => !unlocked.has(definition.id));
+}
+
+/**
+ * Time the streaks and advance the sequences of achievements still locked;
+ * a streak starts over whenever its condition stops holding
+ */
+export function updateAchievementProgress(
+  progress: AchievementProgress,
+  snapshot: AchievementSnapshot,
+  seconds: number,
+  unlocked: ReadonlySet<string>
+): void {
+  getLocked(unlocked).forEach(({ id, rule }) => {
+    if (rule.kind === 'streak') {
+      progress.streaks[id] = checkAchievementCondition(rule.condition, snapshot) ? (progress.streaks[id] ?? 0) + seconds : 0;
+    } else if (rule.kind === 'sequence') {
+      const step = progress.steps[id] ?? 0;
+      if (step < rule.steps.length && checkAchievementCondition(rule.steps[step], snapshot)) {
+        progress.steps[id] = step + 1;
+      }
+    }
+  });
+}
+
+/**
+ * How far along a rule is and what it counts up to
+ */
+function measureRule(id: string, rule: AchievementRule, progress: AchievementProgress, snapshot: AchievementSnapshot) {
+  switch (rule.kind) {
+    case 'counter':
+      return { count: progress.counters[rule.counter] ?? 0, target: rule.target, unit: rule.unit };
+    case 'streak':
+      return { count: (progress.streaks[id] ?? 0) / 60, target: rule.minutes, unit: 'min' };
+    case 'sequence':
+      return { count: progress.steps[id] ?? 0, target: rule.steps.length, unit: 'steps' };
+    case 'condition':
+      return { count: checkAchievementCondition(rule.condition, snapshot) ? 1 : 0, target: 1, unit: '' };
+  }
+}
+
+/**
+ * Locked achievements whose rule is now met
+ */
+export function findUnlockedAchievements(
+  progress: AchievementProgress,
+  snapshot: AchievementSnapshot,
+  unlocked: ReadonlySet<string>
+): AchievementDefinition[] {
+  return getLocked(unlocked).filter(({ id, rule }) => {
+    const { count, target } = measureRule(id, rule, progress, snapshot);
+    return count >= target;
+  });
+}
+
+/**
+ * Every achievement with its progress, closest to unlocking first and unlocked ones last
+ */
+export function getAchievementLog(
+  progress: AchievementProgress,
+  snapshot: AchievementSnapshot,
+  unlocked: ReadonlySet<string>
+): AchievementView[] {
+  const views = Object.values(ACHIEVEMENT_DEFINITIONS).map(definition => {
+    const measured = measureRule(definition.id, definition.rule, progress, snapshot);
+    const isUnlocked = unlocked.has(definition.id);
+    const count = isUnlocked ? measured.target : Math.min(measured.count, measured.target);
+    const label = `${Math.floor(count)}/${measured.target}${measured.unit ? ` ${measured.unit}` : ''}`;
+    return { definition, unlocked: isUnlocked, count, target: measured.target, label };
+  });
+
+  const order = (view: AchievementView) => (view.unlocked ? 2 : 1 - view.count / view.target);
+  return views.sort((a, b) => order(a) - order(b));
+}
@@ -0,0 +1,86 @@
+/**
+ * Achievement module types
+ */
+
+import type { GameTime, ItemType, Player, PlayerStats } from '../core';
+
+/**
+ * Running totals that events add to
+ */
+export type AchievementCounter =
+  | 'playaKm'
+  | 'moopCollected'
+  | 'itemsGifted'
+  | 'karmaGifted'
+  | 'drugsTaken'
+  | 'artCarRides'
+  | 'lightBulbsFound';
+
+/**
+ * Something that happened in the game that counters may count
+ */
+export type AchievementEvent =
+  | { kind: 'travelled'; distance: number } // Pixels moved on the playa
+  | { kind: 'moopCollected' }
+  | { kind: 'gifted'; quantity: number; karma: number }
+  | { kind: 'drugTaken' }
+  | { kind: 'artCarRidden' }
+  | { kind: 'lightBulbFound' };
+
+/**
+ * Something true about the game right now
+ */
+export type AchievementCondition =
+  | { kind: 'stat'; stat: keyof PlayerStats; min?: number; max?: number }
+  | { kind: 'hasAnyItem'; items: ItemType[] }
+  | { kind: 'equipped'; item: ItemType }
+  | { kind: 'playedHours'; hours: number } // Game hours since the start of the week
+  | { kind: 'timeOfDay'; day: number; fromHour: number }
+  | { kind: 'awardsUnlocked'; count: number }
+  | { kind: 'all'; conditions: AchievementCondition[] };
+
+/**
+ * When an achievement unlocks: a counter reaching its target, a condition
+ * holding for long enough, conditions met one after another, or a
+ * condition met once
+ */
+export type AchievementRule =
+  | { kind: 'counter'; counter: AchievementCounter; target: number; unit: string }
+  | { kind: 'streak'; condition: AchievementCondition; minutes: number } // Real minutes in a row
+  | { kind: 'sequence'; steps: AchievementCondition[] }
+  | { kind: 'condition'; condition: AchievementCondition };
+
+/**
+ * Achievements unlock with a notification; awards are handed out quietly and
+ * shown on the end screen
+ */
+export type AchievementCategory = 'achievement' | 'award';
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  emoji: string;
+  category: AchievementCategory;
+  rule: AchievementRule;
+}
+
+/**
+ * What conditions look at
+ */
+export interface AchievementSnapshot {
+  player: Player;
+  time: GameTime;
+  awardsUnlocked: number;
+}
+
+/**
+ * One achievement as the achievements panel shows it
+ */
+export interface AchievementView {
+  definition: AchievementDefinition;
+  unlocked: boolean;
+  count: number;
+  target: number;
+  label: string; // "32/50 moop"
+}
@@ -0,0 +1,60 @@
+/**
+ * Composite nodes. Composites re-evaluate their children from the first one
+ * on every tick, so a higher-priority branch can take over a running one.
+ */
+
+import type { BehaviorContext, BehaviorNode, NodeStatus } from './types';
+
+/**
+ * Runs children in order until one does not succeed
+ */
+export function sequence<C extends BehaviorContext>(name: string, ...children: BehaviorNode<C>[]): BehaviorNode<C> {
+  return {
+    name,
+    tick: context => {
+      for (const child of children) {
+        const status = child.tick(context);
+        if (status !== 'success') return status;
+      }
+      return 'success';
+    },
+  };
+}
+
+/**
+ * Runs children in order until one does not fail
+ */
+export function selector<C extends BehaviorContext>(name: string, ...children: BehaviorNode<C>[]): BehaviorNode<C> {
+  return {
+    name,
+    tick: context => {
+      for (const child of children) {
+        const status = child.tick(context);
+        if (status !== 'failure') return status;
+      }
+      return 'failure';
+    },
+  };
+}
+
+/**
+ * Ticks every child; succeeds once successThreshold children succeed and fails
+ * once that is no longer reachable
+ */
+export function parallel<C extends BehaviorContext>(
+  name: string,
+  successThreshold: number,
+  ...children: BehaviorNode<C>[]
+): BehaviorNode<C> {
+  return {
+    name,
+    tick: context => {
+      const statuses: NodeStatus[] = children.map(child => child.tick(context));
+      const successes = statuses.filter(status => status === 'success').length;
+      const failures = statuses.filter(status => status === 'failure').length;
+      if (successes >= successThreshold) return 'success';
+      if (children.length - failures < successThreshold) return 'failure';
+      return 'running';
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Decorator nodes that wrap a single child
+ */
+
+import type { BehaviorContext, BehaviorNode } from './types';
+
+/**
+ * Swaps success and failure; running passes through
+ */
+export function inverter<C extends BehaviorContext>(child: BehaviorNode<C>): BehaviorNode<C> {
+  return {
+    name: `not ${child.name}`,
+    tick: context => {
+      const status = child.tick(context);
+      if (status === 'running') return status;
+      return status === 'success' ? 'failure' : 'success';
+    },
+  };
+}
+
+/**
+ * Reports success whenever the child finishes, even if it failed
+ */
+export function succeeder<C extends BehaviorContext>(child: BehaviorNode<C>): BehaviorNode<C> {
+  return {
+    name: child.name,
+    tick: context => (child.tick(context) === 'running' ? 'running' : 'success'),
+  };
+}
+
+/**
+ * Only ticks the child while the predicate holds, failing otherwise
+ */
+export function guard<C extends BehaviorContext>(
+  name: string,
+  predicate: (context: C) => boolean,
+  child: BehaviorNode<C>
+): BehaviorNode<C> {
+  return {
+    name,
+    tick: context => (predicate(context) ? child.tick(context) : 'failure'),
+  };
+}
+
+/**
+ * Fails for durationMs after the child succeeds. The start time is kept in the
+ * blackboard timers under key, so one tree can serve many agents.
+ */
+export function cooldown<C extends BehaviorContext>(key: string, durationMs: number, child: BehaviorNode<C>): BehaviorNode<C> {
+  return {
+    name: `${child.name} (cooldown)`,
+    tick: context => {
+      const { timers } = context.blackboard;
+      if (timers[key] !== undefined && context.now < timers[key] + durationMs) return 'failure';
+
+      const status = child.tick(context);
+      if (status === 'success') timers[key] = context.now;
+      return status;
+    },
+  };
+}
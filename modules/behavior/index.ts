@@ -0,0 +1,34 @@
+/**
+ * Behavior module - stateless behavior trees over a JSON-safe blackboard
+ */
+
+// Types
+export type {
+  NodeStatus,
+  Blackboard,
+  BehaviorContext,
+  BehaviorNode,
+} from './types';
+
+// Composites
+export {
+  sequence,
+  selector,
+  parallel,
+} from './composites';
+
+// Decorators
+export {
+  inverter,
+  succeeder,
+  guard,
+  cooldown,
+} from './decorators';
+
+// Leaves
+export {
+  condition,
+  action,
+  wait,
+  createBlackboard,
+} from './leaves';
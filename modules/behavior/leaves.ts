@@ -0,0 +1,43 @@
+/**
+ * Leaf nodes: conditions, actions and waits
+ */
+
+import type { Blackboard, BehaviorContext, BehaviorNode, NodeStatus } from './types';
+
+/**
+ * Succeeds when the predicate holds
+ */
+export function condition<C extends BehaviorContext>(name: string, predicate: (context: C) => boolean): BehaviorNode<C> {
+  return {
+    name,
+    tick: context => (predicate(context) ? 'success' : 'failure'),
+  };
+}
+
+/**
+ * Runs a function that reports its own status
+ */
+export function action<C extends BehaviorContext>(name: string, run: (context: C) => NodeStatus): BehaviorNode<C> {
+  return { name, tick: run };
+}
+
+/**
+ * Keeps running for durationMs from its first tick, then succeeds once and resets
+ */
+export function wait<C extends BehaviorContext>(key: string, durationMs: number): BehaviorNode<C> {
+  return {
+    name: `wait ${key}`,
+    tick: context => {
+      const { timers } = context.blackboard;
+      timers[key] ??= context.now + durationMs;
+      if (context.now < timers[key]) return 'running';
+
+      delete timers[key];
+      return 'success';
+    },
+  };
+}
+
+export function createBlackboard(): Blackboard {
+  return { timers: {} };
+}
@@ -0,0 +1,26 @@
+/**
+ * Behavior tree types
+ */
+
+export type NodeStatus = 'success' | 'failure' | 'running';
+
+/**
+ * Per-agent memory shared by every node of a tree. Kept JSON-safe so it can
+ * live in a saved component; trees themselves hold no per-agent state.
+ */
+export interface Blackboard {
+  timers: Record<string, number>; // Deadlines and timestamps keyed by node
+}
+
+/**
+ * What a tree is ticked with: the agent's blackboard and the current time (ms)
+ */
+export interface BehaviorContext<B extends Blackboard = Blackboard> {
+  blackboard: B;
+  now: number;
+}
+
+export interface BehaviorNode<C extends BehaviorContext = BehaviorContext> {
+  name: string;
+  tick(context: C): NodeStatus;
+}
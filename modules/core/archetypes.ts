@@ -160,79 +160,6 @@ export const BURNER_ARCHETYPES: Archetype[] = [
   }
 ];
 
-export const BURNER_AWARDS: Award[] = [
-  {
-    id: 'first-moop',
-    name: 'First Cleanup',
-    description: 'Picked up your first piece of moop',
-    emoji: '🗑️',
-    unlocked: false
-  },
-  {
-    id: 'moop-collector',
-    name: 'Moop Collector',
-    description: 'Collected 50 pieces of moop',
-    emoji: '🧹',
-    unlocked: false
-  },
-  {
-    id: 'art-car-rider',
-    name: 'Art Car Rider',
-    description: 'Rode an art car for the first time',
-    emoji: '🚗',
-    unlocked: false
-  },
-  {
-    id: 'not-a-darkwad',
-    name: 'Not a Darkwad',
-    description: 'Found your first light bulb',
-    emoji: '💡',
-    unlocked: false
-  },
-  {
-    id: 'psychedelic-pioneer',
-    name: 'Psychedelic Pioneer',
-    description: 'Experienced multiple altered states',
-    emoji: '🌈',
-    unlocked: false
-  },
-  {
-    id: 'craft-artisan',
-    name: 'Craft Artisan',
-    description: 'Created your first crafted item',
-    emoji: '🔨',
-    unlocked: false
-  },
-  {
-    id: 'party-survivor',
-    name: 'Party Survivor',
-    description: 'Consumed various party substances',
-    emoji: '🍻',
-    unlocked: false
-  },
-  {
-    id: 'desert-wanderer',
-    name: 'Desert Wanderer',
-    description: 'Spent significant time exploring the playa',
-    emoji: '🏜️',
-    unlocked: false
-  },
-  {
-    id: 'spiritual-journey',
-    name: 'Spiritual Journey',
-    description: 'Achieved high karma through good deeds',
-    emoji: '✨',
-    unlocked: false
-  },
-  {
-    id: 'burning-man-master',
-    name: 'Burning Man Master',
-    description: 'Completed the ultimate Burning Man experience',
-    emoji: '👑',
-    unlocked: false
-  }
-];
-
 /**
  * Calculate player's archetype based on their stats and achievements
  */
@@ -311,70 +238,3 @@ function meetsArchetypeRequirements(
 
   return true;
 }
-
-/**
- * Check and unlock awards based on player progress
- */
-export function checkAndUnlockAwards(
-  awards: Award[],
-  stats: any,
-  achievements: Set<string>,
-  inventory: any,
-  totalDrugsTaken: number,
-  gameTimeHours: number,
-  moopCollected: number
-): Award[] {
-  const updatedAwards = [...awards];
-
-  // Check each award
-  updatedAwards.forEach(award => {
-    if (award.unlocked) return; // Already unlocked
-
-    let shouldUnlock = false;
-
-    switch (award.id) {
-      case 'first-moop':
-        shouldUnlock = moopCollected >= 1;
-        break;
-      case 'moop-collector':
-        shouldUnlock = moopCollected >= 50;
-        break;
-      case 'art-car-rider':
-        shouldUnlock = achievements.has('art-car-rider');
-        break;
-      case 'not-a-darkwad':
-        shouldUnlock = achievements.has('not-a-darkwad');
-        break;
-      case 'psychedelic-pioneer':
-        shouldUnlock = totalDrugsTaken >= 5;
-        break;
-      case 'craft-artisan':
-        shouldUnlock = (inventory.items.get('Totem') || 0) > 0 || 
-                      (inventory.items.get('Cape') || 0) > 0 || 
-                      (inventory.items.get('Costume') || 0) > 0;
-        break;
-      case 'party-survivor':
-        shouldUnlock = (inventory.items.get('Beer') || 0) > 0 || 
-                      (inventory.items.get('Vodka') || 0) > 0;
-        break;
-      case 'desert-wanderer':
-        shouldUnlock = gameTimeHours >= 4;
-        break;
-      case 'spiritual-journey':
-        shouldUnlock = stats.karma >= 100;
-        break;
-      case 'burning-man-master':
-        shouldUnlock = stats.karma >= 200 && gameTimeHours >= 8 && achievements.size >= 3;
-        break;
-    }
-
-    if (shouldUnlock && !award.unlocked) {
-      award.unlocked = true;
-      award.unlockedAt = Date.now();
-      console.log(`🏆 Award unlocked: ${award.name} - ${award.description}`);
-    }
-  });
-
-  return updatedAwards;
-}
-
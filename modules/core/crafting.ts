@@ -1,27 +1,82 @@
 /**
- * Automatic crafting system
+ * Crafting system - recipes the player learns and crafts at a workbench
  */
 
-import type { ItemType, PlayerInventory } from './types';
-import { addItemToInventory, removeItemFromInventory, getNotificationSystem } from './index';
+import type { CraftingState, ItemType, Player, PlayerInventory } from './types';
+import { addItemToInventory } from './inventory';
+import { removePlayerItem } from './equipment';
+
+/**
+ * How a recipe becomes known: from the start, from a blueprint found on
+ * the playa, or by talking to a camp
+ */
+export type RecipeUnlock = 'starter' | 'blueprint' | { camp: string };
 
 export interface CraftingRecipe {
   id: string;
   result: ItemType;
   ingredients: Array<{ item: ItemType; quantity: number }>;
   description: string;
+  minutes: number; // In-game minutes at the workbench
+  unlock: RecipeUnlock;
+}
+
+export interface MissingIngredient {
+  item: ItemType;
+  quantity: number;
+  recipeId?: string; // Set when the ingredient can itself be crafted
+}
+
+/**
+ * A known recipe as the crafting panel shows it
+ */
+export interface RecipeStatus {
+  recipe: CraftingRecipe;
+  missing: MissingIngredient[];
+  craftable: boolean;
+}
+
+export type CraftFailure = 'unknown-recipe' | 'busy' | 'missing-ingredients' | 'no-workbench';
+
+export interface CraftResult {
+  success: boolean;
+  reason?: CraftFailure;
 }
 
 export const CRAFTING_RECIPES: Record<string, CraftingRecipe> = {
+  'glitter-rope': {
+    id: 'glitter-rope',
+    result: 'Glitter Rope',
+    ingredients: [
+      { item: 'Rope', quantity: 1 },
+      { item: 'Glitter', quantity: 1 }
+    ],
+    description: 'Sparkly rope for lashing bigger builds together',
+    minutes: 20,
+    unlock: 'starter'
+  },
+  'led-strip': {
+    id: 'led-strip',
+    result: 'LED Strip',
+    ingredients: [
+      { item: 'Light Bulb', quantity: 2 },
+      { item: 'Battery', quantity: 1 },
+      { item: 'Zip Tie', quantity: 1 }
+    ],
+    description: 'Bulbs zip-tied to a battery pack',
+    minutes: 40,
+    unlock: { camp: 'hell-station' }
+  },
   'totem': {
     id: 'totem',
     result: 'Totem',
     ingredients: [
-      { item: 'Light Bulb', quantity: 2 },
-      { item: 'Glitter', quantity: 1 },
-      { item: 'Rope', quantity: 1 }
+      { item: 'LED Strip', quantity: 1 },
+      { item: 'Glitter Rope', quantity: 1 }
     ],
-    description: 'A spiritual totem that raises mood and attracts wombats'
+    description: 'A spiritual totem that raises mood and attracts wombats',
+    minutes: 60,
+    unlock: 'blueprint'
   },
   'swamp-cooler': {
     id: 'swamp-cooler',
@@ -32,7 +87,9 @@ export const CRAFTING_RECIPES: Record<string, CraftingRecipe> = {
       { item: 'Bucket', quantity: 1 },
       { item: 'Ducting', quantity: 1 }
     ],
-    description: 'A cooling device that creates an energy and mood aura when placed'
+    description: 'A cooling device that creates an energy and mood aura when placed',
+    minutes: 90,
+    unlock: { camp: 'center-camp' }
   },
   'cape': {
     id: 'cape',
@@ -42,7 +99,9 @@ export const CRAFTING_RECIPES: Record<string, CraftingRecipe> = {
       { item: 'Zip Tie', quantity: 1 },
       { item: 'Glitter', quantity: 2 }
     ],
-    description: 'A magical cape that increases your movement speed'
+    description: 'A magical cape that increases your movement speed',
+    minutes: 45,
+    unlock: 'starter'
   },
   'costume': {
     id: 'costume',
@@ -50,54 +109,116 @@ export const CRAFTING_RECIPES: Record<string, CraftingRecipe> = {
     ingredients: [
       { item: 'Furry Hat', quantity: 1 },
       { item: 'Boots', quantity: 1 },
-      { item: 'Cat Head', quantity: 1 }
+      { item: 'Cat Head', quantity: 1 },
+      { item: 'Glitter Rope', quantity: 1 }
     ],
-    description: 'A complete costume that greatly boosts your mood and energy'
+    description: 'A complete costume that greatly boosts your mood and energy',
+    minutes: 60,
+    unlock: 'blueprint'
   }
 };
 
+/**
+ * Crafting state for a new game: only the starter recipes are known
+ */
+export function createCraftingState(): CraftingState {
+  return {
+    known: Object.values(CRAFTING_RECIPES).filter(recipe => recipe.unlock === 'starter').map(recipe => recipe.id),
+    job: null,
+  };
+}
+
+/**
+ * Ingredients the inventory is short of, noting those that have a recipe
+ */
+export function getMissingIngredients(inventory: PlayerInventory, recipe: CraftingRecipe): MissingIngredient[] {
+  return recipe.ingredients.flatMap(ingredient => {
+    const shortBy = ingredient.quantity - (inventory.items.get(ingredient.item) || 0);
+    if (shortBy <= 0) return [];
+
+    const subRecipe = Object.values(CRAFTING_RECIPES).find(candidate => candidate.result === ingredient.item);
+    return [subRecipe ? { item: ingredient.item, quantity: shortBy, recipeId: subRecipe.id } : { item: ingredient.item, quantity: shortBy }];
+  });
+}
+
 /**
  * Check if player has ingredients for a recipe
  */
 export function canCraftRecipe(inventory: PlayerInventory, recipe: CraftingRecipe): boolean {
-  return recipe.ingredients.every(ingredient => {
-    const currentQuantity = inventory.items.get(ingredient.item) || 0;
-    return currentQuantity >= ingredient.quantity;
-  });
+  return getMissingIngredients(inventory, recipe).length === 0;
 }
 
 /**
- * Craft an item automatically if ingredients are available
+ * Get the craftable recipes for current inventory, limited to known ones when given
  */
-export function attemptAutoCraft(inventory: PlayerInventory, playerPosition: { x: number; y: number }): string[] {
-  const craftedItems: string[] = [];
-  
-  for (const [recipeId, recipe] of Object.entries(CRAFTING_RECIPES)) {
-    if (canCraftRecipe(inventory, recipe)) {
-      // Remove ingredients
-      recipe.ingredients.forEach(ingredient => {
-        removeItemFromInventory(inventory, ingredient.item, ingredient.quantity);
-      });
-      
-      // Add result
-      addItemToInventory(inventory, recipe.result, 1);
-      
-      // Show notification
-      const system = getNotificationSystem();
-      system.addNotification(`🔨 Crafted ${recipe.result}! ${recipe.description}`, 'craft', 5000, playerPosition);
-      
-      craftedItems.push(recipe.result);
-      
-      console.log(`🔨 Auto-crafted ${recipe.result} using recipe ${recipeId}`);
-    }
-  }
-  
-  return craftedItems;
+export function getAvailableRecipes(inventory: PlayerInventory, known?: string[]): CraftingRecipe[] {
+  return Object.values(CRAFTING_RECIPES).filter(recipe =>
+    (!known || known.includes(recipe.id)) && canCraftRecipe(inventory, recipe)
+  );
+}
+
+/**
+ * Every known recipe with what is still missing, in the order learned
+ */
+export function getRecipeStatuses(inventory: PlayerInventory, crafting: CraftingState): RecipeStatus[] {
+  return crafting.known
+    .map(id => CRAFTING_RECIPES[id])
+    .filter(Boolean)
+    .map(recipe => {
+      const missing = getMissingIngredients(inventory, recipe);
+      return { recipe, missing, craftable: missing.length === 0 };
+    });
+}
+
+/**
+ * Learn a recipe; false when it was already known or does not exist
+ */
+export function learnRecipe(crafting: CraftingState, recipeId: string): boolean {
+  if (!CRAFTING_RECIPES[recipeId] || crafting.known.includes(recipeId)) return false;
+  crafting.known.push(recipeId);
+  return true;
+}
+
+/**
+ * Recipes a camp teaches that the player does not know yet
+ */
+export function getCampRecipes(crafting: CraftingState, campId: string): CraftingRecipe[] {
+  return Object.values(CRAFTING_RECIPES).filter(recipe =>
+    typeof recipe.unlock === 'object' && recipe.unlock.camp === campId && !crafting.known.includes(recipe.id)
+  );
+}
+
+/**
+ * Blueprint recipes still waiting to be found
+ */
+export function getUnfoundBlueprints(crafting: CraftingState): CraftingRecipe[] {
+  return Object.values(CRAFTING_RECIPES).filter(recipe => recipe.unlock === 'blueprint' && !crafting.known.includes(recipe.id));
 }
 
 /**
- * Get all craftable recipes for current inventory
+ * Put a known recipe on the workbench, using up its ingredients now
  */
-export function getAvailableRecipes(inventory: PlayerInventory): CraftingRecipe[] {
-  return Object.values(CRAFTING_RECIPES).filter(recipe => canCraftRecipe(inventory, recipe));
+export function startCraftingJob(crafting: CraftingState, player: Pick<Player, 'inventory' | 'equipment'>, recipeId: string, now: number): CraftResult {
+  const recipe = CRAFTING_RECIPES[recipeId];
+  if (!recipe || !crafting.known.includes(recipeId)) return { success: false, reason: 'unknown-recipe' };
+  if (crafting.job) return { success: false, reason: 'busy' };
+  if (!canCraftRecipe(player.inventory, recipe)) return { success: false, reason: 'missing-ingredients' };
+
+  recipe.ingredients.forEach(ingredient => removePlayerItem(player, ingredient.item, ingredient.quantity));
+  crafting.job = { recipeId, finishesAt: now + recipe.minutes };
+  return { success: true };
+}
+
+/**
+ * Hand over the workbench's item once its time is up
+ */
+export function finishCraftingJob(crafting: CraftingState, inventory: PlayerInventory, now: number): CraftingRecipe | null {
+  if (!crafting.job || now < crafting.job.finishesAt) return null;
+
+  const recipe = CRAFTING_RECIPES[crafting.job.recipeId];
+  crafting.job = null;
+  if (!recipe) return null;
+
+  addItemToInventory(inventory, recipe.result, 1);
+  return recipe;
 }
@@ -0,0 +1,298 @@
+/**
+ * Drug definitions: effects, tolerance, comedowns and interactions
+ */
+
+import type { DrugDefinition, DrugType } from './types';
+
+// Tolerance lost per game day; a maxed-out tolerance wears off in 1.5 days when fast, 3 when normal, 5 when slow
+export const TOLERANCE_RECOVERY_PER_DAY = { fast: 0.5, normal: 0.25, slow: 0.15 } as const;
+
+/**
+ * Drug effect definitions
+ */
+export const DRUG_DEFINITIONS: Record<DrugType, DrugDefinition> = {
+  caffeine: {
+    type: 'caffeine',
+    duration: 10, // 10 seconds
+    intensity: 0.3,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.fast },
+    comedown: { duration: 15, perSecond: { energy: -1 } }, // Caffeine crash
+    interactions: { weed: { suppresses: ['speed'] }, joint: { suppresses: ['speed'] }, cannabis: { suppresses: ['speed'] } }, // Perks up a stoned shuffle
+    effects: {
+      timeScale: 1.2, // 20% faster time
+      speed: 20, // +20 speed
+      energy: 15, // +15 energy
+      thirst: -10, // -10 thirst (dehydrating)
+    },
+  },
+  alcohol: {
+    type: 'alcohol',
+    duration: 12, // 2 hours = 12 seconds (2 * 6)
+    intensity: 0.5,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    comedown: { duration: 20, perSecond: { energy: -0.5, mood: -1 } }, // Hangover
+    interactions: {
+      ketamine: { perSecond: { energy: -3 } }, // Heavy sedation
+      weed: { perSecond: { energy: -1, mood: -0.5 } }, // Crossfaded
+    },
+    effects: {
+      timeScale: 0.8, // 20% slower time
+      speed: -15, // -15 speed
+      mood: 20, // +20 mood
+      energy: -10, // -10 energy
+      thirst: 15, // +15 thirst
+    },
+  },
+  mdma: {
+    type: 'mdma',
+    duration: 24, // 4 hours = 24 seconds (4 * 6)
+    intensity: 0.8,
+    tolerance: { buildup: 0.3, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    comedown: { duration: 30, perSecond: { mood: -2, energy: -1 } }, // Serotonin dip
+    effects: {
+      timeScale: 1.5, // 50% faster time
+      speed: 30, // +30 speed
+      mood: 40, // +40 mood
+      energy: 25, // +25 energy
+      thirst: 20, // +20 thirst
+      hunger: -15, // -15 hunger
+    },
+  },
+  weed: {
+    type: 'weed',
+    duration: 18, // 3 hours = 18 seconds (3 * 6)
+    intensity: 0.4,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    effects: {
+      timeScale: 0.7, // 30% slower time
+      mood: 15, // +15 mood
+      hunger: 20, // +20 hunger (munchies)
+      speed: -10, // -10 speed
+    },
+  },
+  molly: {
+    type: 'molly',
+    duration: 18, // 3 hours = 18 seconds (3 * 6)
+    intensity: 1.0,
+    tolerance: { buildup: 0.3, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    comedown: { duration: 30, perSecond: { mood: -2, energy: -1 } },
+    effects: {
+      timeScale: 0.3, // 70% slower time (30% of normal speed)
+      mood: 25, // +25 mood (molly raises mood)
+      energy: 10, // +10 energy (reduced from 20)
+      thirst: 20, // +20 thirst (molly makes you thirsty)
+      hunger: -5, // -5 hunger (reduced from -10)
+    },
+  },
+  shrooms: {
+    type: 'shrooms',
+    duration: 48, // 8 hours = 48 seconds (8 * 6)
+    intensity: 0.8,
+    tolerance: { buildup: 0.4, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    effects: {
+      timeScale: 0.5, // 50% slower time
+      mood: 25, // +25 mood (mushrooms help mood)
+      hunger: -8, // -8 hunger (reduced from -15)
+      karma: 8, // +8 karma (reduced from 15)
+    },
+  },
+  acid: {
+    type: 'acid',
+    duration: 45, // 45 seconds
+    intensity: 1.0,
+    moodSwing: true, // Mood can go either way
+    tolerance: { buildup: 0.4, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    effects: {
+      timeScale: 0.2, // 80% slower time
+      mood: 12, // +12 mood (reduced from 40)
+      hunger: -10, // -10 hunger (reduced from -25)
+      thirst: -8, // -8 thirst (reduced from -15)
+    },
+  },
+  dmt: {
+    type: 'dmt',
+    duration: 10, // 10 seconds
+    intensity: 1.0,
+    tolerance: { buildup: 0.2, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.fast },
+    effects: {
+      timeScale: 0.1, // 90% slower time (very intense)
+      mood: 50, // +50 mood (very high)
+      energy: 40, // +40 energy (intense boost)
+      hunger: -30, // -30 hunger (intense suppression)
+      thirst: -20, // -20 thirst (intense suppression)
+      karma: 25, // +25 karma (spiritual experience)
+    },
+  },
+  salvia: {
+    type: 'salvia',
+    duration: 12, // 2 hours = 12 seconds (2 * 6)
+    intensity: 0.8,
+    effects: {
+      timeScale: 0.2, // 80% slower time
+      mood: 20, // +20 mood
+      hunger: -15, // -15 hunger
+      thirst: -10, // -10 thirst
+    },
+  },
+  whipits: {
+    type: 'whipits',
+    duration: 5, // 5 seconds
+    intensity: 1.0,
+    tolerance: { buildup: 0.15, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.fast },
+    effects: {
+      timeScale: 0.1, // Time slows to 10% (0.1x)
+      speed: -90, // Speed reduced to 10% (0.1x)
+      mood: 8, // +8 mood (reduced from 15)
+      energy: 5, // +5 energy (reduced from 10)
+    },
+  },
+  'energy-drink': {
+    type: 'energy-drink',
+    duration: 30, // 5 hours = 30 seconds (5 * 6)
+    intensity: 0.6,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.fast },
+    comedown: { duration: 20, perSecond: { energy: -1.5, mood: -0.5 } },
+    interactions: { weed: { suppresses: ['speed'] }, joint: { suppresses: ['speed'] }, cannabis: { suppresses: ['speed'] } },
+    effects: {
+      timeScale: 2.0, // 100% faster time
+      speed: 40, // +40 speed
+      energy: 30, // +30 energy
+      thirst: -15, // -15 thirst
+    },
+  },
+  'mystery-pill': {
+    type: 'mystery-pill',
+    duration: 24, // 4 hours = 24 seconds (4 * 6)
+    intensity: 0.8,
+    effects: {
+      timeScale: 0.8, // 20% slower time
+      speed: 15, // +15 speed
+      mood: 20, // +20 mood
+      energy: 15, // +15 energy
+    },
+  },
+  'mystery-snowball': {
+    type: 'mystery-snowball',
+    duration: 12, // 2 hours = 12 seconds (2 * 6)
+    intensity: 0.7,
+    comedown: { duration: 15, perSecond: { energy: -1.5, mood: -1 } },
+    effects: {
+      timeScale: 2.0, // 100% faster time (speed)
+      speed: 50, // +50 speed
+      energy: 20, // +20 energy
+      mood: 10, // +10 mood
+    },
+  },
+  cigarette: {
+    type: 'cigarette',
+    duration: 5, // 5 seconds
+    intensity: 0.3,
+    tolerance: { buildup: 0.05, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.fast },
+    effects: {
+      timeScale: 1.0, // No time change
+      mood: 5, // +5 mood
+      energy: -5, // -5 energy
+      thirst: -5, // -5 thirst
+    },
+  },
+  joint: {
+    type: 'joint',
+    duration: 18, // 3 hours = 18 seconds (3 * 6)
+    intensity: 0.4,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    effects: {
+      timeScale: 0.7, // 30% slower time
+      mood: 15, // +15 mood
+      hunger: 20, // +20 hunger (munchies)
+      thirst: 15, // +15 thirst (joint makes you thirsty)
+      speed: -10, // -10 speed
+    },
+  },
+  vodka: {
+    type: 'vodka',
+    duration: 24, // 4 hours = 24 seconds (4 * 6)
+    intensity: 0.5,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    comedown: { duration: 25, perSecond: { energy: -0.5, mood: -1 } },
+    interactions: { ketamine: { perSecond: { energy: -3 } } },
+    effects: {
+      timeScale: 0.8, // 20% slower time
+      speed: -20, // -20 speed
+      mood: 15, // +15 mood
+      energy: -15, // -15 energy
+      thirst: 20, // +20 thirst
+    },
+  },
+  mda: {
+    type: 'mda',
+    duration: 30, // 5 hours = 30 seconds (5 * 6)
+    intensity: 0.7,
+    tolerance: { buildup: 0.3, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    comedown: { duration: 30, perSecond: { mood: -1.5, energy: -1 } },
+    effects: {
+      timeScale: 0.9, // 10% slower time
+      speed: 15, // +15 speed
+      mood: 25, // +25 mood
+      energy: 20, // +20 energy
+      thirst: 15, // +15 thirst
+    },
+  },
+  '2c-i': {
+    type: '2c-i',
+    duration: 36, // 6 hours = 36 seconds (6 * 6)
+    intensity: 0.8,
+    tolerance: { buildup: 0.3, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.slow },
+    effects: {
+      timeScale: 0.7, // 30% slower time
+      mood: 20, // +20 mood
+      hunger: -15, // -15 hunger
+      thirst: -10, // -10 thirst
+    },
+  },
+  cocaine: {
+    type: 'cocaine',
+    duration: 30, // 30 seconds
+    intensity: 0.9,
+    tolerance: { buildup: 0.2, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    comedown: { duration: 25, perSecond: { mood: -2, energy: -1.5 } },
+    interactions: {
+      alcohol: { suppresses: ['energy', 'speed'] }, // Masks the drowsiness
+      vodka: { suppresses: ['energy', 'speed'] },
+    },
+    effects: {
+      timeScale: 1.2, // 20% faster time
+      speed: 20, // +20 speed
+      mood: 25, // +25 mood
+      energy: 30, // +30 energy
+      hunger: -10, // -10 hunger
+      thirst: -15, // -15 thirst
+    },
+  },
+  ketamine: {
+    type: 'ketamine',
+    duration: 10, // 10 seconds
+    intensity: 0.8,
+    tolerance: { buildup: 0.25, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    effects: {
+      timeScale: 0.2, // 80% slower time (20% of normal speed)
+      speed: -80, // -80 speed (makes you very slow)
+      mood: 20, // +20 mood
+      energy: 15, // +15 energy
+      hunger: -5, // -5 hunger
+      thirst: -10, // -10 thirst
+    },
+  },
+  cannabis: {
+    type: 'cannabis',
+    duration: 24, // 4 hours = 24 seconds (4 * 6)
+    intensity: 0.5,
+    tolerance: { buildup: 0.1, recoveryPerDay: TOLERANCE_RECOVERY_PER_DAY.normal },
+    effects: {
+      timeScale: 0.8, // 20% slower time
+      mood: 20, // +20 mood
+      hunger: 25, // +25 hunger (munchies)
+      speed: -15, // -15 speed
+      energy: -5, // -5 energy
+    },
+  },
+};
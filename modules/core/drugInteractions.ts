@@ -0,0 +1,125 @@
+/**
+ * Drug interactions, tolerance and comedowns, all driven by DRUG_DEFINITIONS
+ */
+
+import type { DrugComedown, DrugEffect, DrugStat, DrugStatChange, DrugType, PlayerDrugs } from './types';
+import type { StatEffect } from './stats';
+import { DRUG_DEFINITIONS } from './drugDefinitions';
+import { MINUTES_PER_DAY } from './timeSystem';
+
+export const MAX_DRUG_TOLERANCE = 0.75; // Even a hardened burner feels a quarter of a dose
+
+const DRAIN_STATS = ['energy', 'mood', 'thirst', 'hunger', 'karma'] as const;
+
+/**
+ * Stats of a drug that another active drug suppresses
+ */
+function getSuppressedStats(drugs: PlayerDrugs, type: DrugType): Set<DrugStat> {
+  const suppressed = new Set<DrugStat>();
+  drugs.active.forEach(other => {
+    if (other.type === type) return;
+    DRUG_DEFINITIONS[other.type].interactions?.[type]?.suppresses?.forEach(stat => suppressed.add(stat));
+  });
+  return suppressed;
+}
+
+/**
+ * A drug's effect with whatever the active drugs suppress removed
+ */
+export function getEffectiveDrugEffect(drugs: PlayerDrugs, effect: DrugEffect): DrugEffect {
+  const suppressed = getSuppressedStats(drugs, effect.type);
+  if (suppressed.size === 0) return effect;
+
+  const effects = { ...effect.effects };
+  suppressed.forEach(stat => delete effects[stat]);
+  return { ...effect, effects };
+}
+
+/**
+ * Every active drug as it currently acts, after interactions
+ */
+export function getEffectiveDrugEffects(drugs: PlayerDrugs): DrugEffect[] {
+  return drugs.active.map(effect => getEffectiveDrugEffect(drugs, effect));
+}
+
+function addDrain(total: StatEffect, change: DrugStatChange, scale: number): void {
+  DRAIN_STATS.forEach(stat => {
+    if (change[stat]) total[stat] = (total[stat] ?? 0) + change[stat]! * scale;
+  });
+}
+
+/**
+ * Stat change over deltaTime from interacting pairs of active drugs and from comedowns
+ */
+export function calculateDrugDrain(drugs: PlayerDrugs, deltaTime: number): StatEffect {
+  const drain: StatEffect = {};
+
+  drugs.active.forEach(drug => {
+    const interactions = DRUG_DEFINITIONS[drug.type].interactions;
+    if (!interactions) return;
+    drugs.active.forEach(other => {
+      const perSecond = other.type !== drug.type ? interactions[other.type]?.perSecond : undefined;
+      if (perSecond) addDrain(drain, perSecond, deltaTime);
+    });
+  });
+
+  drugs.comedowns?.forEach(comedown => addDrain(drain, comedown.perSecond, deltaTime));
+  return drain;
+}
+
+/**
+ * Intensity a fresh dose hits with after tolerance
+ */
+export function getDoseIntensity(drugs: PlayerDrugs, type: DrugType): number {
+  return 1 - (drugs.tolerance?.[type] ?? 0);
+}
+
+/**
+ * Tolerance after taking a dose
+ */
+export function buildTolerance(drugs: PlayerDrugs, type: DrugType): PlayerDrugs {
+  const buildup = DRUG_DEFINITIONS[type].tolerance?.buildup;
+  if (!buildup) return drugs;
+
+  const current = drugs.tolerance?.[type] ?? 0;
+  return {
+    ...drugs,
+    tolerance: { ...drugs.tolerance, [type]: Math.min(MAX_DRUG_TOLERANCE, current + buildup) },
+  };
+}
+
+/**
+ * Tolerance wearing off over elapsed game minutes; fully recovered drugs are dropped
+ */
+export function recoverTolerance(tolerance: PlayerDrugs['tolerance'], elapsedMinutes: number): PlayerDrugs['tolerance'] {
+  if (!tolerance) return tolerance;
+
+  const recovered: PlayerDrugs['tolerance'] = {};
+  (Object.keys(tolerance) as DrugType[]).forEach(type => {
+    const rate = DRUG_DEFINITIONS[type].tolerance?.recoveryPerDay ?? 0;
+    const level = tolerance[type]! - rate * elapsedMinutes / MINUTES_PER_DAY;
+    if (level > 0) recovered[type] = level;
+  });
+  return recovered;
+}
+
+/**
+ * Comedown for a drug that just wore off, if it has one
+ */
+export function createComedown(effect: DrugEffect): DrugComedown | undefined {
+  const comedown = DRUG_DEFINITIONS[effect.type].comedown;
+  if (!comedown) return undefined;
+
+  const perSecond: DrugStatChange = {};
+  DRAIN_STATS.forEach(stat => {
+    if (comedown.perSecond[stat]) perSecond[stat] = comedown.perSecond[stat]! * effect.intensity;
+  });
+  return { type: effect.type, duration: comedown.duration, perSecond };
+}
+
+/**
+ * Is the player coming down off a drug
+ */
+export function isComingDown(drugs: PlayerDrugs, type: DrugType): boolean {
+  return drugs.comedowns?.some(comedown => comedown.type === type) ?? false;
+}
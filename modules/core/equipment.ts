@@ -0,0 +1,123 @@
+/**
+ * Equipment system - one item per slot, worn modifiers and set bonuses
+ */
+
+import type { Equipment, EquipmentModifiers, EquipmentSlot, ItemType, Player } from './types';
+import { ITEM_DEFINITIONS, hasItem, removeItemFromInventory } from './inventory';
+
+/**
+ * Items that give an extra bonus when all of them are equipped together
+ */
+export interface EquipmentSet {
+  id: string;
+  name: string;
+  pieces: ItemType[];
+  bonus: EquipmentModifiers;
+}
+
+export const EQUIPMENT_SLOTS: EquipmentSlot[] = ['head', 'body', 'feet', 'back', 'hands', 'held'];
+
+export const EQUIPMENT_SETS: Record<string, EquipmentSet> = {
+  'full-costume': {
+    id: 'full-costume',
+    name: 'Full Costume',
+    pieces: ['Costume', 'Cat Head', 'Boots', 'Cape'],
+    bonus: { speed: 1.1, mood: 0.1 }
+  },
+  'playa-explorer': {
+    id: 'playa-explorer',
+    name: 'Playa Explorer',
+    pieces: ['Furry Hat', 'Boots', 'Cape'],
+    bonus: { speed: 1.1 }
+  },
+  'fire-dancer': {
+    id: 'fire-dancer',
+    name: 'Fire Dancer',
+    pieces: ['Fire Spinning', 'Cape'],
+    bonus: { mood: 0.1 }
+  }
+};
+
+/**
+ * The slot an item is worn in, if it can be equipped at all
+ */
+export function getItemSlot(itemType: ItemType): EquipmentSlot | undefined {
+  return ITEM_DEFINITIONS[itemType]?.slot;
+}
+
+/**
+ * Check if an item can be equipped
+ */
+export function canEquipItem(itemType: ItemType): boolean {
+  return getItemSlot(itemType) !== undefined;
+}
+
+/**
+ * Equip an owned item, replacing whatever was in its slot
+ */
+export function equipItem(player: Player, itemType: ItemType): boolean {
+  const slot = getItemSlot(itemType);
+  if (!slot || !hasItem(player.inventory, itemType, 1)) return false;
+
+  player.equipment[slot] = itemType;
+  return true;
+}
+
+/**
+ * Empty a slot, returning what was in it
+ */
+export function unequipItem(player: Player, slot: EquipmentSlot): ItemType | undefined {
+  const itemType = player.equipment[slot];
+  delete player.equipment[slot];
+  return itemType;
+}
+
+/**
+ * Take items out of the player's inventory, unequipping the item once none are left
+ */
+export function removePlayerItem(player: Pick<Player, 'inventory' | 'equipment'>, itemType: ItemType, quantity: number = 1): boolean {
+  if (!removeItemFromInventory(player.inventory, itemType, quantity)) return false;
+  if (!hasItem(player.inventory, itemType, 1)) {
+    EQUIPMENT_SLOTS.filter(slot => player.equipment[slot] === itemType).forEach(slot => delete player.equipment[slot]);
+  }
+  return true;
+}
+
+/**
+ * Check if an item is equipped in any slot
+ */
+export function isEquipped(player: Player, itemType: ItemType): boolean {
+  return Object.values(player.equipment).includes(itemType);
+}
+
+/**
+ * Equipped items in slot order
+ */
+export function getEquippedItems(equipment: Equipment): Array<{ slot: EquipmentSlot; itemType: ItemType }> {
+  return EQUIPMENT_SLOTS.flatMap(slot => {
+    const itemType = equipment[slot];
+    return itemType ? [{ slot, itemType }] : [];
+  });
+}
+
+/**
+ * Sets whose pieces are all equipped
+ */
+export function getActiveSets(player: Player): EquipmentSet[] {
+  return Object.values(EQUIPMENT_SETS).filter(set => set.pieces.every(piece => isEquipped(player, piece)));
+}
+
+/**
+ * Combined speed multiplier and mood per second from every worn item and active set
+ */
+export function getEquipmentModifiers(player: Player): Required<EquipmentModifiers> {
+  const modifiers = [
+    ...getEquippedItems(player.equipment).map(({ itemType }) => ITEM_DEFINITIONS[itemType]?.worn ?? {}),
+    ...getActiveSets(player).map(set => set.bonus),
+  ];
+
+  return modifiers.reduce<Required<EquipmentModifiers>>((total, { speed = 1, mood = 0 }) => ({
+    speed: total.speed * speed,
+    mood: total.mood + mood,
+  }), { speed: 1, mood: 0 });
+}
@@ -9,14 +9,41 @@ export type {
   Player,
   GameState,
   GameTime,
+  Weather,
+  WeatherType,
+  ForecastDay,
+  DustStorm,
+  CraftingJob,
+  CraftingState,
+  QuestObjectiveProgress,
+  QuestState,
+  Relationship,
+  RelationshipState,
+  CampState,
+  AchievementProgress,
   Direction,
   MovementInput,
+  MovementCurve,
   DrugType,
   DrugEffect,
+  DrugStat,
+  DrugStatChange,
+  DrugComedown,
+  DrugInteraction,
+  DrugTolerance,
+  DrugDefinition,
   PlayerDrugs,
   ItemType,
   InventoryItem,
   PlayerInventory,
+  LightColor,
+  ItemStatChange,
+  ItemBuff,
+  ItemEffect,
+  ActiveItemEffect,
+  EquipmentSlot,
+  Equipment,
+  EquipmentModifiers,
 } from './types';
 
 // Movement functions
@@ -25,6 +52,11 @@ export {
   addVec2,
   scaleVec2,
   getDirectionVector,
+  ZERO_VEC2,
+  getVectorLength,
+  clampMovementVector,
+  combineDirections,
+  approachVelocity,
   calculateMovement,
   clampToBounds,
 } from './movement';
@@ -69,9 +101,23 @@ export {
   calculateTimeScale,
   getActiveDrugEffects,
   isOnDrug,
-  DRUG_DEFINITIONS,
+  takeDrugDose,
 } from './drugs';
 
+export { DRUG_DEFINITIONS, TOLERANCE_RECOVERY_PER_DAY } from './drugDefinitions';
+
+export {
+  getEffectiveDrugEffect,
+  getEffectiveDrugEffects,
+  calculateDrugDrain,
+  getDoseIntensity,
+  buildTolerance,
+  recoverTolerance,
+  createComedown,
+  isComingDown,
+  MAX_DRUG_TOLERANCE,
+} from './drugInteractions';
+
 // Speed modifier functions
 export {
   calculateSpeedMultiplier,
@@ -89,14 +135,38 @@ export {
   removeItemFromInventory,
   hasItem,
   getItemQuantity,
-  useItem,
   getInventoryItems,
   ITEM_DEFINITIONS,
+} from './inventory';
+
+// Equipment slots and set bonuses
+export {
+  EQUIPMENT_SLOTS,
+  EQUIPMENT_SETS,
+  getItemSlot,
   canEquipItem,
   equipItem,
   unequipItem,
-  getEquippedItemEffects,
-} from './inventory';
+  removePlayerItem,
+  isEquipped,
+  getEquippedItems,
+  getActiveSets,
+  getEquipmentModifiers,
+} from './equipment';
+
+export type { EquipmentSet } from './equipment';
+
+// Item effect pipeline
+export {
+  useItem,
+  runItemEffects,
+  getItemUseEffects,
+  updateItemEffects,
+  getItemBuffMultiplier,
+  applyItemBuffsToDecay,
+} from './itemEffects';
+
+export type { ItemUseResult } from './itemEffects';
 
 // Notification system
 export {
@@ -125,8 +195,12 @@ export {
   getTimeOfDayDescription,
   isNightTime,
   isDayTime,
+  isHourInWindow,
   getBackgroundColor,
   DEFAULT_TIME_CONFIG,
+  CAMP_TIME_CONFIG,
+  PLAYA_TIME_CONFIG,
+  MINUTES_PER_DAY,
 } from './timeSystem';
 
 export type { TimeConfig } from './timeSystem';
@@ -134,19 +208,24 @@ export type { TimeConfig } from './timeSystem';
 // Crafting system
 export {
   CRAFTING_RECIPES,
+  createCraftingState,
+  getMissingIngredients,
   canCraftRecipe,
-  attemptAutoCraft,
   getAvailableRecipes,
+  getRecipeStatuses,
+  learnRecipe,
+  getCampRecipes,
+  getUnfoundBlueprints,
+  startCraftingJob,
+  finishCraftingJob,
 } from './crafting';
 
-export type { CraftingRecipe } from './crafting';
+export type { CraftingRecipe, RecipeUnlock, MissingIngredient, RecipeStatus, CraftFailure, CraftResult } from './crafting';
 
 // Archetype system
 export {
   BURNER_ARCHETYPES,
-  BURNER_AWARDS,
   calculatePlayerArchetype,
-  checkAndUnlockAwards,
 } from './archetypes';
 
 export type { Archetype, Award } from './archetypes';
@@ -0,0 +1,152 @@
+/**
+ * Item effect pipeline - runs the typed effects an item declares when it is used
+ */
+
+import type {
+  ActiveItemEffect, CraftingState, ItemBuff, ItemEffect, ItemStatChange, ItemType, LightColor, Player,
+} from './types';
+import type { DecayConfig } from './statDecay';
+import { ITEM_DEFINITIONS, hasItem } from './inventory';
+import { removePlayerItem } from './equipment';
+import { learnRecipe } from './crafting';
+import { applyStatEffect } from './stats';
+
+/**
+ * What using an item did, for notifications and for the caller to finish off
+ */
+export interface ItemUseResult {
+  success: boolean;
+  statChange: ItemStatChange; // Net instant change, battery included
+  started: ActiveItemEffect[];
+  spawned: string[]; // World item types for the caller to place
+  learned: string[]; // Recipe ids
+  lights: LightColor[];
+}
+
+/**
+ * One use of an item as the handlers see it
+ */
+interface ItemUse {
+  player: Player;
+  crafting: CraftingState;
+  source: ItemType;
+  now: number;
+  result: ItemUseResult;
+}
+
+type ItemEffectHandlers = {
+  [K in ItemEffect['kind']]: (effect: Extract<ItemEffect, { kind: K }>, use: ItemUse) => void;
+};
+
+const BUFF_DECAY_KEYS: Record<Exclude<keyof ItemBuff, 'speed'>, keyof DecayConfig> = {
+  energy: 'energyDecayPerPixel',
+  mood: 'moodDecayPerSecond',
+  thirst: 'thirstDecayPerSecond',
+  hunger: 'hungerDecayPerSecond',
+  bathroom: 'bathroomDecayPerSecond',
+};
+
+function changeStats({ player, result }: ItemUse, change: ItemStatChange): void {
+  const before = player.stats;
+  player.stats = applyStatEffect(before, change);
+  (Object.keys(change) as Array<keyof ItemStatChange>).forEach(stat => {
+    const applied = player.stats[stat] - before[stat];
+    if (applied) result.statChange[stat] = (result.statChange[stat] ?? 0) + applied;
+  });
+}
+
+function startEffect(use: ItemUse, effect: ActiveItemEffect): void {
+  use.player.itemEffects.push(effect);
+  use.result.started.push(effect);
+}
+
+const ITEM_EFFECT_HANDLERS: ItemEffectHandlers = {
+  stats: ({ change }, use) => changeStats(use, change),
+  overTime: ({ perSecond, duration }, use) => startEffect(use, { source: use.source, remaining: duration, perSecond }),
+  buff: ({ buff, duration }, use) => startEffect(use, { source: use.source, remaining: duration, buff }),
+  battery: ({ set, add = 0 }, use) => {
+    const current = use.player.stats.lightBattery;
+    changeStats(use, { lightBattery: (set ?? current) + add - current });
+  },
+  spawn: ({ object }, use) => {
+    use.result.spawned.push(object);
+  },
+  unlockRecipe: ({ recipeId }, use) => {
+    if (learnRecipe(use.crafting, recipeId)) use.result.learned.push(recipeId);
+  },
+  light: ({ color, duration }, use) => {
+    use.player.lightEffects.push({ type: color, startTime: use.now, duration });
+    use.result.lights.push(color);
+  },
+};
+
+/**
+ * Every effect using an item runs: its effects stat change, then its use list
+ */
+export function getItemUseEffects(itemType: ItemType): ItemEffect[] {
+  const itemDef = ITEM_DEFINITIONS[itemType];
+  if (!itemDef) return [];
+
+  const instant: ItemEffect[] = Object.keys(itemDef.effects).length > 0 ? [{ kind: 'stats', change: itemDef.effects }] : [];
+  return [...instant, ...(itemDef.use ?? [])];
+}
+
+/**
+ * Run a list of effects on the player as if an item had been used
+ */
+export function runItemEffects(player: Player, crafting: CraftingState, source: ItemType, effects: ItemEffect[], now: number): ItemUseResult {
+  const result: ItemUseResult = { success: true, statChange: {}, started: [], spawned: [], learned: [], lights: [] };
+  const use: ItemUse = { player, crafting, source, now, result };
+  effects.forEach(effect => (ITEM_EFFECT_HANDLERS[effect.kind] as (effect: ItemEffect, use: ItemUse) => void)(effect, use));
+  return result;
+}
+
+/**
+ * Use up one of an item and run its effects
+ */
+export function useItem(player: Player, crafting: CraftingState, itemType: ItemType, now: number): ItemUseResult {
+  if (!ITEM_DEFINITIONS[itemType] || !hasItem(player.inventory, itemType, 1)) {
+    return { success: false, statChange: {}, started: [], spawned: [], learned: [], lights: [] };
+  }
+
+  removePlayerItem(player, itemType, 1);
+  return runItemEffects(player, crafting, itemType, getItemUseEffects(itemType), now);
+}
+
+/**
+ * Tick over-time effects and let buffs and light effects run out
+ */
+export function updateItemEffects(player: Player, deltaTime: number, now: number): void {
+  player.itemEffects.forEach(effect => {
+    if (effect.perSecond) {
+      const seconds = Math.min(deltaTime, effect.remaining);
+      const change: ItemStatChange = {};
+      (Object.keys(effect.perSecond) as Array<keyof ItemStatChange>).forEach(stat => {
+        change[stat] = effect.perSecond![stat]! * seconds;
+      });
+      player.stats = applyStatEffect(player.stats, change);
+    }
+    effect.remaining -= deltaTime;
+  });
+
+  player.itemEffects = player.itemEffects.filter(effect => effect.remaining > 0);
+  player.lightEffects = player.lightEffects.filter(light => now < light.startTime + light.duration * 1000);
+}
+
+/**
+ * Combined multiplier of every active buff on one thing
+ */
+export function getItemBuffMultiplier(player: Player, key: keyof ItemBuff): number {
+  return player.itemEffects.reduce((multiplier, effect) => multiplier * (effect.buff?.[key] ?? 1), 1);
+}
+
+/**
+ * Decay config with active buffs applied
+ */
+export function applyItemBuffsToDecay(config: DecayConfig, player: Player): DecayConfig {
+  const buffed = { ...config };
+  (Object.keys(BUFF_DECAY_KEYS) as Array<keyof typeof BUFF_DECAY_KEYS>).forEach(key => {
+    buffed[BUFF_DECAY_KEYS[key]] *= getItemBuffMultiplier(player, key);
+  });
+  return buffed;
+}
@@ -2,9 +2,10 @@
  * Pure movement logic and helpers
  */
 
-import type { Vec2, Direction, MovementInput } from './types';
+import type { Vec2, Direction, MovementCurve, MovementInput } from './types';
 
 const MOVEMENT_SPEED = 200; // pixels per second
+const CLAMP_TOLERANCE = 1e-9; // rounding slack on a vector just scaled to length 1
 
 /**
  * Create a new Vec2
@@ -43,6 +44,45 @@ export function getDirectionVector(direction: Direction): Vec2 {
   }
 }
 
+export const ZERO_VEC2: Vec2 = Object.freeze({ x: 0, y: 0 });
+
+export function getVectorLength(vec: Vec2): number {
+  return Math.hypot(vec.x, vec.y);
+}
+
+/**
+ * Limit a movement vector to length 1, keeping shorter (analog) ones as they
+ * are. Vectors already clamped pass through unchanged, so replays re-clamping
+ * recorded input reproduce it bit for bit
+ */
+export function clampMovementVector(vec: Vec2): Vec2 {
+  const length = getVectorLength(vec);
+  return length > 1 + CLAMP_TOLERANCE ? scaleVec2(vec, 1 / length) : { x: vec.x, y: vec.y };
+}
+
+/**
+ * Full-speed movement towards every held direction at once, so up + left is a
+ * diagonal as fast as either alone; opposite directions cancel out
+ */
+export function combineDirections(directions: Direction[]): Vec2 {
+  const sum = directions.map(getDirectionVector).reduce(addVec2, createVec2(0, 0));
+  const length = getVectorLength(sum);
+  return length > 0 ? scaleVec2(sum, 1 / length) : createVec2(0, 0);
+}
+
+/**
+ * Move a velocity towards the steered one along a curve: acceleration while
+ * steering, deceleration once the input is released
+ */
+export function approachVelocity(velocity: Vec2, target: Vec2, curve: MovementCurve, deltaTime: number): Vec2 {
+  const rate = getVectorLength(target) > 0 ? curve.acceleration : curve.deceleration;
+  const difference = createVec2(target.x - velocity.x, target.y - velocity.y);
+  const gap = getVectorLength(difference);
+  const maxStep = rate * deltaTime;
+  if (gap <= maxStep) return { x: target.x, y: target.y };
+  return addVec2(velocity, scaleVec2(difference, maxStep / gap));
+}
+
 /**
  * Calculate new position based on movement input
  */
@@ -51,9 +91,8 @@ export function calculateMovement(
   input: MovementInput,
   speed: number = MOVEMENT_SPEED
 ): Vec2 {
-  const direction = getDirectionVector(input.direction);
   const distance = speed * input.deltaTime;
-  const movement = scaleVec2(direction, distance);
+  const movement = scaleVec2(clampMovementVector(input.direction), distance);
   return addVec2(currentPosition, movement);
 }
 
@@ -25,11 +25,13 @@ export const DEFAULT_SPEED_CONFIG: SpeedModifierConfig = {
 };
 
 /**
- * Calculate speed multiplier based on current stats
+ * Calculate speed multiplier based on current stats and the weather's
+ * playerSpeed effect (1 in calm weather)
  */
 export function calculateSpeedMultiplier(
   stats: PlayerStats,
-  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG
+  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG,
+  weatherSpeed: number = 1
 ): number {
   let multiplier = 1.0;
   
@@ -64,6 +66,9 @@ export function calculateSpeedMultiplier(
   } else if (stats.mood > 80) {
     multiplier *= 1.05; // 5% faster when in good mood
   }
+
+  // Wind, rain and dust slow everyone down, however good they feel
+  multiplier *= weatherSpeed;
   
   // Clamp to min/max multipliers
   return Math.max(
@@ -78,9 +83,10 @@ export function calculateSpeedMultiplier(
 export function calculateEffectiveSpeed(
   baseSpeed: number,
   stats: PlayerStats,
-  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG
+  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG,
+  weatherSpeed: number = 1
 ): number {
-  const multiplier = calculateSpeedMultiplier(stats, config);
+  const multiplier = calculateSpeedMultiplier(stats, config, weatherSpeed);
   return baseSpeed * multiplier;
 }
 
@@ -89,9 +95,10 @@ export function calculateEffectiveSpeed(
  */
 export function getSpeedModifierDescription(
   stats: PlayerStats,
-  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG
+  config: SpeedModifierConfig = DEFAULT_SPEED_CONFIG,
+  weatherSpeed: number = 1
 ): string {
-  const multiplier = calculateSpeedMultiplier(stats, config);
+  const multiplier = calculateSpeedMultiplier(stats, config, weatherSpeed);
   
   if (multiplier > 1.1) {
     return "Feeling energetic!";
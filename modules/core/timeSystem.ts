@@ -10,6 +10,8 @@ export interface TimeConfig {
   minutesPerHour: number; // How many minutes in a game hour
 }
 
+export const MINUTES_PER_DAY = 24 * 60;
+
 export const DEFAULT_TIME_CONFIG: TimeConfig = {
   minutesPerRealSecond: 60, // 60 game minutes per real second (1 second = 1 game hour)
   hoursPerDay: 24,
@@ -112,6 +114,13 @@ export function isDayTime(time: GameTime): boolean {
   return !isNightTime(time);
 }
 
+/**
+ * Check an hour against a window that may wrap past midnight
+ */
+export function isHourInWindow(hour: number, from: number = 0, until: number = 24): boolean {
+  return from <= until ? hour >= from && hour < until : hour >= from || hour < until;
+}
+
 /**
  * Get background color based on time of day
  */
@@ -2,6 +2,8 @@
  * Core game types and data structures
  */
 
+import type { EntityStore } from '../ecs';
+
 // MoopType will be defined inline to avoid circular dependency
 
 export interface Vec2 {
@@ -31,30 +33,19 @@ export interface Player {
   mountedBikeId?: string; // ID of the bike the player is mounted on
   mountedOn?: string | null; // ID of the art car the player is mounted on
   lightsOn: boolean; // Whether lights are currently on/off
-  equippedItem?: ItemType; // Currently equipped item
+  equipment: Equipment; // What is worn or held in each slot
   // Game statistics for end screen
   totalDrugsTaken: number;
   totalTimeOnDrugs: number; // in seconds
   gameStartTime: number; // timestamp when game started
   actualPlayTime?: number; // actual play time in seconds
   achievements: Set<string>; // Track unlocked achievements
-  
-  // Achievement tracking variables
-  totalDistanceTraveled: number; // in pixels
-  lastPosition: Vec2; // for distance calculation
-  moodStreakHigh: number; // consecutive time above 80 mood
-  moodStreakLow: number; // consecutive time below 20 mood
-  lastMoodValue: number; // for mood streak tracking
-  lastMoodTime: number; // timestamp of last mood check
-  balancedStatsTime: number; // consecutive time with all stats > 70
-  totalItemsGifted: number;
-  totalKarmaGifted: number;
-  totemUsedDuringManBurn: boolean; // used totem during day 8 evening/night
   lightEffects: Array<{
-    type: 'white' | 'red' | 'green' | 'blue' | 'orange' | 'purple' | 'rainbow';
+    type: LightColor;
     startTime: number;
     duration: number; // in seconds
   }>;
+  itemEffects: ActiveItemEffect[]; // Over-time effects and buffs from used items
 }
 
 export interface GameTime {
@@ -66,11 +57,96 @@ export interface GameTime {
 
 export type WeatherType = 'clear' | 'nice' | 'overcast' | 'thunderstorm' | 'duststorm';
 
+/**
+ * Weather expected on a coming day
+ */
+export interface ForecastDay {
+  day: number;
+  type: WeatherType;
+}
+
 export interface Weather {
   type: WeatherType;
   intensity: number; // 0.0 to 1.0
+  duration: number; // remaining seconds of forced weather; 0 lasts until the next morning
+  startTime: number; // GameTime.totalMinutes when this weather began
+  day?: number; // Day whose morning set this weather
+  forecast?: ForecastDay[]; // Coming days, soonest first
+}
+
+/**
+ * Item being made at a workbench
+ */
+export interface CraftingJob {
+  recipeId: string;
+  finishesAt: number; // GameTime.totalMinutes when the item is ready
+}
+
+/**
+ * Recipes the player knows and what is on the workbench
+ */
+export interface CraftingState {
+  known: string[]; // Recipe ids in the order they were learned
+  job: CraftingJob | null;
+}
+
+/**
+ * How far along one quest objective is; seen holds the ids already counted
+ * by objectives that need different targets, like gifting at different camps
+ */
+export interface QuestObjectiveProgress {
+  count: number;
+  seen?: string[];
+}
+
+/**
+ * Quests the player is on, has finished or ran out of time for
+ */
+export interface QuestState {
+  active: Record<string, QuestObjectiveProgress[]>; // Quest id to progress per objective
+  completed: string[];
+  failed: string[];
+}
+
+/**
+ * How the player stands with one gift recipient; rewardsGiven counts the
+ * recipient's reciprocations already handed out, in score order
+ */
+export interface Relationship {
+  score: number;
+  gifts: number;
+  rewardsGiven: number;
+}
+
+export type RelationshipState = Record<string, Relationship>; // Recipient id to relationship
+
+/**
+ * What the camp mates' jobs have produced: supplies waiting at the job board
+ * for the player to pick up, and moop swept from camp so far
+ */
+export interface CampState {
+  stash: Partial<Record<ItemType, number>>;
+  moopSwept: number;
+}
+
+/**
+ * What achievement rules have counted so far: event counters, seconds a
+ * streak has held, and how many steps of a sequence are done, by id
+ */
+export interface AchievementProgress {
+  counters: Record<string, number>;
+  streaks: Record<string, number>;
+  steps: Record<string, number>;
+}
+
+/**
+ * Short-lived dust storm that can blow in on top of the daily weather
+ */
+export interface DustStorm {
+  active: boolean;
+  intensity: number; // 0.0 to 1.0
   duration: number; // remaining seconds
-  startTime: number; // when it started
+  startTime: number; // Clock time in ms when the storm blew in
 }
 
 export interface GameState {
@@ -79,67 +155,30 @@ export interface GameState {
   time: GameTime;
   gameEnded: boolean;
   weather: Weather;
-  dustStorm: {
-    active: boolean;
-    intensity: number; // 0.0 to 1.0
-    duration: number; // remaining seconds
-    startTime: number; // when it started
-  };
-  coins: Array<{
-    id: string;
-    position: Vec2;
-    value: number;
-    collected: boolean;
-  }>;
-  moop: Array<{
-    id: string;
-    type: string; // Will be one of the moop types
-    position: Vec2;
-    radius: number;
-    karmaReward: number;
-    collected: boolean;
-  }>;
-  hellStation?: {
-    id: string;
-    aabb: { x: number; y: number; w: number; h: number };
-    spawnIntervalMs: number;
-    maxCans: number;
-    lastSpawnAt: number;
-  };
-  gasCans: Array<{
-    id: string;
-    pos: { x: number; y: number };
-    active: boolean;
-  }>;
-  artCars: Array<{
-    id: string;
-    pos: { x: number; y: number };
-    vel: { x: number; y: number };
-    fuel: number;
-    fuelMax: number;
-    fuelLowThreshold: number;
-    state: 'patrol' | 'seekFuel' | 'refueling' | 'idle';
-    platformAabb: { x: number; y: number; w: number; h: number };
-    holder?: string;
-    path?: { x: number; y: number }[];
-  }>;
-  portopotties: Array<{
-    id: string;
-    position: Vec2;
-    aabb: { x: number; y: number; w: number; h: number };
-    used: boolean;
-    broken?: boolean; // New field for broken toilets
-    discoveredBroken?: boolean; // Track if player has discovered this toilet is broken
-  }>;
+  dustStorm: DustStorm;
+  crafting: CraftingState;
+  quests: QuestState;
+  relationships: RelationshipState;
+  camp: CampState;
+  achievementProgress: AchievementProgress;
+  entities: EntityStore; // Coins, moop, gas cans, art cars, portopotties and the Hell Station in the current world
 }
 
 export type Direction = 'up' | 'down' | 'left' | 'right';
 
 export interface MovementInput {
-  direction: Direction;
+  direction: Vec2; // length 0 (standing) to 1 (full speed); analog sticks give anything in between
   deltaTime: number;
 }
 
+/**
+ * How quickly movement picks up and dies away, in fractions of full speed per second
+ */
+export interface MovementCurve {
+  acceleration: number;
+  deceleration: number;
+}
+
 export type DrugType = 'caffeine' | 'alcohol' | 'mdma' | 'weed' | 'molly' | 'shrooms' | 'acid' | 'dmt' | 'salvia' | 'whipits' | 'energy-drink' | 'mystery-pill' | 'mystery-snowball' | 'cigarette' | 'joint' | 'vodka' | 'mda' | '2c-i' | 'cocaine' | 'ketamine' | 'cannabis';
 
 export interface DrugEffect {
@@ -157,25 +196,108 @@ export interface DrugEffect {
   };
 }
 
+export type DrugStat = keyof DrugEffect['effects'];
+
+export type DrugStatChange = Partial<Pick<PlayerStats, 'energy' | 'mood' | 'thirst' | 'hunger' | 'karma'>>;
+
+/**
+ * Negative after-effects once a drug wears off
+ */
+export interface DrugComedown {
+  type: DrugType;
+  duration: number; // remaining seconds
+  perSecond: DrugStatChange;
+}
+
+/**
+ * What an active drug does to another active drug
+ */
+export interface DrugInteraction {
+  perSecond?: DrugStatChange; // Extra stat change while both are active
+  suppresses?: DrugStat[]; // The other drug's effects that stop working
+}
+
+/**
+ * How much repeat doses weaken and how fast that wears off
+ */
+export interface DrugTolerance {
+  buildup: number; // Tolerance gained per dose; doses are weakened by the current tolerance
+  recoveryPerDay: number; // Tolerance lost per game day, whatever the clock speed
+}
+
+export interface DrugDefinition extends Partial<DrugEffect> {
+  moodSwing?: boolean; // Mood effect is randomly positive or negative
+  tolerance?: DrugTolerance;
+  comedown?: Omit<DrugComedown, 'type'>; // Scaled by the intensity the drug wore off at
+  interactions?: Partial<Record<DrugType, DrugInteraction>>;
+}
+
 export interface PlayerDrugs {
   active: DrugEffect[];
   maxStack: number;
+  tolerance?: Partial<Record<DrugType, number>>; // 0 to MAX_DRUG_TOLERANCE
+  comedowns?: DrugComedown[];
+}
+
+export type ItemType = 'Water' | 'Grilled Cheese' | 'Energy Bar' | 'Trinket' | 'Clothing' | 'Fruit Salad' | 'Smoothie' | 'Popsicle' | 'Burrito' | 'Taco' | 'Ice Cream' | 'Corn Dog' | 'Funnel Cake' | 'Nachos' | 'Cotton Candy' | 'Gas Can' | 'Light Bulb' | 'Light Bulb White' | 'Light Bulb Red' | 'Light Bulb Green' | 'Light Bulb Blue' | 'Light Bulb Orange' | 'Light Bulb Purple' | 'Light Bulb Rainbow' | 'Battery' | 'Beer' | 'Vodka' | 'Ducting' | 'Bucket' | 'Zip Tie' | 'Glitter' | 'Rope' | 'Plastic Bag' | 'Furry Hat' | 'Boots' | 'Cat Head' | 'Costume' | 'Glitter Rope' | 'LED Strip' | 'Totem' | 'Swamp Cooler' | 'Cape' | 'POI' | 'Fire Spinning' | 'Cooler of Ice' | 'Glow Stick';
+
+export type LightColor = 'white' | 'red' | 'green' | 'blue' | 'orange' | 'purple' | 'rainbow';
+
+export type ItemStatChange = Partial<Omit<PlayerStats, 'coins'>>;
+
+/**
+ * Multipliers a timed buff applies while it lasts; 1 leaves a system untouched
+ */
+export interface ItemBuff {
+  speed?: number; // Movement speed
+  energy?: number; // How fast each stat decays or builds up
+  mood?: number;
+  thirst?: number;
+  hunger?: number;
+  bathroom?: number;
+}
+
+/**
+ * One thing using an item does; the item effect pipeline runs them in order
+ */
+export type ItemEffect =
+  | { kind: 'stats'; change: ItemStatChange }
+  | { kind: 'overTime'; perSecond: ItemStatChange; duration: number }
+  | { kind: 'buff'; buff: ItemBuff; duration: number }
+  | { kind: 'battery'; set?: number; add?: number } // set happens before add
+  | { kind: 'spawn'; object: string } // World item type placed at the player's feet
+  | { kind: 'unlockRecipe'; recipeId: string }
+  | { kind: 'light'; color: LightColor; duration: number };
+
+/**
+ * An over-time effect or buff still running on the player
+ */
+export interface ActiveItemEffect {
+  source: ItemType;
+  remaining: number; // seconds
+  perSecond?: ItemStatChange;
+  buff?: ItemBuff;
 }
 
-export type ItemType = 'Water' | 'Grilled Cheese' | 'Energy Bar' | 'Trinket' | 'Clothing' | 'Fruit Salad' | 'Smoothie' | 'Popsicle' | 'Burrito' | 'Taco' | 'Ice Cream' | 'Corn Dog' | 'Funnel Cake' | 'Nachos' | 'Cotton Candy' | 'Gas Can' | 'Light Bulb' | 'Light Bulb White' | 'Light Bulb Red' | 'Light Bulb Green' | 'Light Bulb Blue' | 'Light Bulb Orange' | 'Light Bulb Purple' | 'Light Bulb Rainbow' | 'Battery' | 'Beer' | 'Vodka' | 'Ducting' | 'Bucket' | 'Zip Tie' | 'Glitter' | 'Rope' | 'Plastic Bag' | 'Furry Hat' | 'Boots' | 'Cat Head' | 'Costume' | 'Totem' | 'Swamp Cooler' | 'Cape' | 'POI' | 'Fire Spinning';
+export type EquipmentSlot = 'head' | 'body' | 'feet' | 'back' | 'hands' | 'held';
+
+export type Equipment = Partial<Record<EquipmentSlot, ItemType>>;
+
+/**
+ * What wearing an item, or a whole set, does while it is on
+ */
+export interface EquipmentModifiers {
+  speed?: number; // Multiplier on movement speed
+  mood?: number; // Mood gained per second
+}
 
 export interface InventoryItem {
   type: ItemType;
   quantity: number;
-  hotkey?: string;
-  effects: {
-    thirst?: number;
-    hunger?: number;
-    energy?: number;
-    mood?: number;
-    karma?: number;
-    speed?: number;
-  };
+  effects: ItemStatChange; // Stat change when used
+  use?: ItemEffect[]; // Run after the effects stat change when the item is used
+  slot?: EquipmentSlot; // Equippable items take this slot
+  worn?: EquipmentModifiers;
 }
 
 export interface PlayerInventory {
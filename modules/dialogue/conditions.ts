@@ -0,0 +1,39 @@
+/**
+ * Dialogue conditions - which choices the player can pick right now
+ */
+
+import type { GameTime, Player } from '../core';
+import type { DialogueChoice, DialogueChoiceView, DialogueCondition, DialogueDefinition } from './types';
+import { hasItem, isHourInWindow } from '../core';
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+export function checkDialogueCondition(condition: DialogueCondition, player: Player, time: GameTime): boolean {
+  switch (condition.kind) {
+    case 'stat':
+      return inRange(player.stats[condition.stat], condition.min, condition.max);
+    case 'karma':
+      return inRange(player.stats.karma, condition.min, condition.max);
+    case 'item':
+      return hasItem(player.inventory, condition.item, condition.quantity ?? 1);
+    case 'time':
+      return isHourInWindow(time.hour, condition.fromHour, condition.untilHour)
+        && inRange(time.day, condition.fromDay, condition.untilDay);
+  }
+}
+
+export function isChoiceAvailable(choice: DialogueChoice, player: Player, time: GameTime): boolean {
+  return (choice.conditions ?? []).every(condition => checkDialogueCondition(condition, player, time));
+}
+
+/**
+ * A node's choices as the dialogue UI shows them
+ */
+export function getDialogueChoices(dialogue: DialogueDefinition, nodeId: string, player: Player, time: GameTime): DialogueChoiceView[] {
+  return (dialogue.nodes[nodeId]?.choices ?? []).map((choice, index) => {
+    const available = isChoiceAvailable(choice, player, time);
+    return { index, text: available ? choice.text : choice.lockedText ?? choice.text, available };
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Dialogue definitions - validates designer-written JSON into DialogueDefinitions
+ */
+
+import type { DialogueAction, DialogueChoice, DialogueCondition, DialogueDefinition, DialogueNode } from './types';
+import type { FieldType } from '../../shared/definitions';
+import { DefinitionError, DefinitionReader, isObject } from '../../shared/definitions';
+
+/**
+ * Fields each kind of condition and action must have
+ */
+const CONDITION_FIELDS: Record<DialogueCondition['kind'], Record<string, FieldType>> = {
+  stat: { stat: 'string' },
+  karma: {},
+  item: { item: 'string' },
+  time: {},
+};
+
+const ACTION_FIELDS: Record<DialogueAction['kind'], Record<string, FieldType>> = {
+  coins: { amount: 'number' },
+  karma: { amount: 'number' },
+  stats: { change: 'object' },
+  giveItem: { item: 'string' },
+  takeItem: { item: 'string' },
+  quest: { event: 'object' },
+  refuelArtCars: {},
+  notify: { message: 'string' },
+};
+
+/**
+ * A malformed dialogue definition
+ */
+export class DialogueDefinitionError extends DefinitionError {
+  constructor(source: string, issues: string[]) {
+    super('dialogue', source, issues);
+    this.name = 'DialogueDefinitionError';
+  }
+}
+
+function readChoice(reader: DefinitionReader, raw: unknown, path: string): DialogueChoice {
+  if (!isObject(raw)) {
+    reader.issues.push(`${path} must be an object`);
+    return { text: '' };
+  }
+
+  const choice: DialogueChoice = { text: reader.string(raw.text, `${path}.text`) };
+  if (raw.conditions !== undefined) choice.conditions = reader.kinded<DialogueCondition>(raw.conditions, CONDITION_FIELDS, `${path}.conditions`);
+  if (raw.lockedText !== undefined) choice.lockedText = reader.string(raw.lockedText, `${path}.lockedText`);
+  if (raw.actions !== undefined) choice.actions = reader.kinded<DialogueAction>(raw.actions, ACTION_FIELDS, `${path}.actions`);
+  if (raw.next !== undefined) choice.next = reader.string(raw.next, `${path}.next`);
+  return choice;
+}
+
+function readNode(reader: DefinitionReader, raw: unknown, path: string): DialogueNode {
+  if (!isObject(raw) || !Array.isArray(raw.choices)) {
+    reader.issues.push(`${path} must be an object with a choices array`);
+    return { text: '', choices: [] };
+  }
+  return {
+    text: reader.string(raw.text, `${path}.text`),
+    choices: raw.choices.map((choice, index) => readChoice(reader, choice, `${path}.choices[${index}]`)),
+  };
+}
+
+/**
+ * Validate parsed JSON into a dialogue definition.
+ * Throws DialogueDefinitionError listing every problem found.
+ */
+export function parseDialogueDefinition(raw: unknown, source: string = 'dialogue definition'): DialogueDefinition {
+  if (!isObject(raw) || !isObject(raw.nodes)) {
+    throw new DialogueDefinitionError(source, ['definition must be a JSON object with a nodes object']);
+  }
+
+  const reader = new DefinitionReader();
+  const nodes: Record<string, DialogueNode> = {};
+  Object.entries(raw.nodes).forEach(([id, node]) => {
+    nodes[id] = readNode(reader, node, `nodes.${id}`);
+  });
+
+  const definition: DialogueDefinition = {
+    id: reader.string(raw.id, 'id'),
+    speaker: reader.string(raw.speaker, 'speaker'),
+    title: reader.string(raw.title, 'title'),
+    color: reader.string(raw.color, 'color'),
+    start: reader.string(raw.start, 'start'),
+    nodes,
+  };
+
+  if (definition.start && !nodes[definition.start]) reader.issues.push(`start node "${definition.start}" does not exist`);
+  Object.entries(nodes).forEach(([id, node]) => node.choices.forEach(({ next }, index) => {
+    if (next && !nodes[next]) reader.issues.push(`nodes.${id}.choices[${index}].next points to unknown node "${next}"`);
+  }));
+
+  if (reader.issues.length > 0) {
+    throw new DialogueDefinitionError(typeof raw.id === 'string' ? `"${raw.id}"` : source, reader.issues);
+  }
+  return definition;
+}
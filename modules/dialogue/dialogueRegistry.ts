@@ -0,0 +1,40 @@
+/**
+ * Dialogue registry - every conversation, looked up by id or by who speaks it
+ */
+/// <reference types="vite/client" />
+
+import type { DialogueDefinition } from './types';
+import { parseDialogueDefinition } from './dialogueDefinition';
+
+/**
+ * Every *.dialogue.json file in ./definitions, keyed by path; drop a file in to add a conversation
+ */
+const BUNDLED_DIALOGUES: Record<string, unknown> = import.meta.glob('./definitions/*.dialogue.json', {
+  eager: true,
+  import: 'default',
+});
+
+const dialogues = new Map<string, DialogueDefinition>();
+
+/**
+ * Validate a batch of parsed JSON dialogues, keyed by where they came from,
+ * and register them. Nothing is registered if any definition is invalid.
+ */
+export function loadDialogueDefinitions(sources: Record<string, unknown>): DialogueDefinition[] {
+  const definitions = Object.entries(sources).map(([source, raw]) => parseDialogueDefinition(raw, source));
+  definitions.forEach(definition => dialogues.set(definition.id, definition));
+  return definitions;
+}
+
+export function getDialogue(dialogueId: string): DialogueDefinition | undefined {
+  return dialogues.get(dialogueId);
+}
+
+/**
+ * The conversation a landmark or NPC starts, if it has one
+ */
+export function getDialogueForSpeaker(speaker: string): DialogueDefinition | undefined {
+  return Array.from(dialogues.values()).find(definition => definition.speaker === speaker);
+}
+
+loadDialogueDefinitions(BUNDLED_DIALOGUES);
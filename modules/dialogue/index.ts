@@ -0,0 +1,21 @@
+/**
+ * Dialogue module - data-driven conversations for camps and NPCs
+ */
+
+// Types
+export type {
+  DialogueCondition,
+  DialogueAction,
+  DialogueChoice,
+  DialogueNode,
+  DialogueDefinition,
+  DialogueChoiceView,
+  DialogueChoiceResult,
+} from './types';
+
+// Definitions
+export { parseDialogueDefinition, DialogueDefinitionError } from './dialogueDefinition';
+export { loadDialogueDefinitions, getDialogue, getDialogueForSpeaker } from './dialogueRegistry';
+
+// Conditions
+export { checkDialogueCondition, isChoiceAvailable, getDialogueChoices } from './conditions';
@@ -0,0 +1,71 @@
+/**
+ * Dialogue module types
+ */
+
+import type { ItemStatChange, ItemType, PlayerStats } from '../core';
+import type { QuestEvent } from '../quests';
+
+/**
+ * Something that must hold for a choice to be picked. Hours wrap past
+ * midnight, so fromHour 20 untilHour 2 is open from 8 PM to 2 AM.
+ */
+export type DialogueCondition =
+  | { kind: 'stat'; stat: keyof PlayerStats; min?: number; max?: number }
+  | { kind: 'karma'; min?: number; max?: number }
+  | { kind: 'item'; item: ItemType; quantity?: number }
+  | { kind: 'time'; fromHour?: number; untilHour?: number; fromDay?: number; untilDay?: number };
+
+/**
+ * What picking a choice does to the player
+ */
+export type DialogueAction =
+  | { kind: 'coins'; amount: number }
+  | { kind: 'karma'; amount: number }
+  | { kind: 'stats'; change: ItemStatChange }
+  | { kind: 'giveItem'; item: ItemType; quantity?: number }
+  | { kind: 'takeItem'; item: ItemType; quantity?: number }
+  | { kind: 'quest'; event: QuestEvent }
+  | { kind: 'refuelArtCars' }
+  | { kind: 'notify'; message: string };
+
+export interface DialogueChoice {
+  text: string;
+  conditions?: DialogueCondition[];
+  lockedText?: string; // Shown in place of text while a condition fails
+  actions?: DialogueAction[];
+  next?: string; // Node to go to; the conversation ends without one
+}
+
+export interface DialogueNode {
+  text: string;
+  choices: DialogueChoice[];
+}
+
+/**
+ * A conversation as designers write it in a *.dialogue.json file
+ */
+export interface DialogueDefinition {
+  id: string;
+  speaker: string; // Landmark or NPC id the conversation belongs to
+  title: string;
+  color: string;
+  start: string; // Id of the first node
+  nodes: Record<string, DialogueNode>;
+}
+
+/**
+ * A choice as the dialogue UI shows it
+ */
+export interface DialogueChoiceView {
+  index: number;
+  text: string;
+  available: boolean;
+}
+
+/**
+ * What picking a choice did; next is null when the conversation is over
+ */
+export interface DialogueChoiceResult {
+  success: boolean;
+  next: string | null;
+}
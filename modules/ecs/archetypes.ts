@@ -0,0 +1,254 @@
+/**
+ * Archetypes for the kinds of entities on the playa, and helpers to spawn,
+ * read and write entities through them
+ */
+
+import type { AiBlackboard, AiComponent, AiState, Archetype, Box, ComponentTypes, EntityComponents, EntityId, EntityStore, Point } from './types';
+import { getEntityComponents, hasEntity, queryKind, setComponent, spawnEntity } from './entityStore';
+
+const COIN_RADIUS = 12;
+const GAS_CAN_RADIUS = 10;
+const ART_CAR_RADIUS = 30; // Collision radius of a size 1 art car
+const WORLD_ITEM_RADIUS = 15;
+
+export interface CoinEntity {
+  id: EntityId;
+  position: Point;
+  value: number;
+  collected: boolean;
+}
+
+export interface MoopEntity {
+  id: EntityId;
+  type: string; // One of the moop types
+  position: Point;
+  radius: number;
+  karmaReward: number;
+  collected: boolean;
+}
+
+/**
+ * Water, food, drugs, light bulbs, batteries and bikes lying in a world, plus
+ * objects the player placed. Bikes and placed objects are never picked up.
+ */
+export interface WorldItemEntity {
+  id: EntityId;
+  type: string; // 'water', 'food', 'bike', 'light-bulb-red', ...
+  position: Point;
+  value: number;
+  collected: boolean;
+  subtype?: string;
+  lightBulbType?: string;
+  dropTime?: number;
+  placed?: boolean;
+}
+
+export interface GasCanEntity {
+  id: EntityId;
+  pos: Point;
+  active: boolean; // true when held by player
+}
+
+export type ArtCarDesign = 'classic' | 'fire' | 'speedy' | 'heavy' | 'compact' | 'alien' | 'davinci' | 'octopus';
+
+export interface ArtCarEntity {
+  id: EntityId;
+  pos: Point;
+  vel: Point;
+  fuel: number;
+  fuelMax: number;
+  fuelLowThreshold: number;
+  state: AiState;
+  platformAabb: Box;
+  holder?: string;
+  path?: Point[];
+  blackboard?: AiBlackboard;
+  design: ArtCarDesign;
+  size: number;
+  speed: number;
+}
+
+export interface PortopottyEntity {
+  id: EntityId;
+  position: Point;
+  aabb: Box;
+  used: boolean;
+  usedTime?: number;
+  broken?: boolean;
+  discoveredBroken?: boolean;
+}
+
+export interface HellStationEntity {
+  id: EntityId;
+  aabb: Box;
+  spawnIntervalMs: number;
+  maxCans: number;
+  lastSpawnAt: number;
+}
+
+export const COIN: Archetype<CoinEntity> = {
+  kind: 'coin',
+  toComponents: coin => ({
+    position: coin.position,
+    collider: { radius: COIN_RADIUS },
+    collectible: { kind: 'coin', value: coin.value, collected: coin.collected },
+    renderable: { sprite: 'coin', scale: 1 },
+  }),
+  fromComponents: (id, components) => {
+    const { position, collectible } = components as ComponentTypes;
+    return { id, position, value: collectible.value, collected: collectible.collected };
+  },
+};
+
+export const MOOP: Archetype<MoopEntity> = {
+  kind: 'moop',
+  toComponents: moop => ({
+    position: moop.position,
+    collider: { radius: moop.radius },
+    collectible: { kind: 'moop', value: moop.karmaReward, collected: moop.collected },
+    renderable: { sprite: 'moop', variant: moop.type, scale: 1 },
+  }),
+  fromComponents: (id, components) => {
+    const { position, collider, collectible, renderable } = components as ComponentTypes;
+    return {
+      id,
+      type: renderable.variant ?? '',
+      position,
+      radius: collider.radius,
+      karmaReward: collectible.value,
+      collected: collectible.collected,
+    };
+  },
+};
+
+export const WORLD_ITEM: Archetype<WorldItemEntity> = {
+  kind: 'worldItem',
+  toComponents: ({ id: _id, type, position, value, collected, ...worldItem }) => ({
+    position,
+    collider: { radius: WORLD_ITEM_RADIUS },
+    collectible: { kind: 'item', value, collected },
+    renderable: { sprite: 'worldItem', variant: type, scale: 1 },
+    worldItem,
+  }),
+  fromComponents: (id, components) => {
+    const { position, collectible, renderable, worldItem } = components as ComponentTypes;
+    return { id, type: renderable.variant ?? '', position, value: collectible.value, collected: collectible.collected, ...worldItem };
+  },
+};
+
+export const GAS_CAN: Archetype<GasCanEntity> = {
+  kind: 'gasCan',
+  toComponents: can => ({
+    position: can.pos,
+    collider: { radius: GAS_CAN_RADIUS },
+    carriable: { carried: can.active },
+    renderable: { sprite: 'gasCan', scale: 1 },
+  }),
+  fromComponents: (id, components) => {
+    const { position, carriable } = components as ComponentTypes;
+    return { id, pos: position, active: carriable.carried };
+  },
+};
+
+function toAiComponent({ state, path, blackboard }: ArtCarEntity): AiComponent {
+  const ai: AiComponent = { state };
+  if (path) ai.path = path;
+  if (blackboard) ai.blackboard = blackboard;
+  return ai;
+}
+
+export const ART_CAR: Archetype<ArtCarEntity> = {
+  kind: 'artCar',
+  toComponents: car => ({
+    position: car.pos,
+    velocity: car.vel,
+    collider: { radius: ART_CAR_RADIUS * car.size, box: car.platformAabb },
+    fuel: { fuel: car.fuel, fuelMax: car.fuelMax, fuelLowThreshold: car.fuelLowThreshold },
+    ai: toAiComponent(car),
+    vehicle: car.holder ? { speed: car.speed, holder: car.holder } : { speed: car.speed },
+    renderable: { sprite: 'artCar', variant: car.design, scale: car.size },
+  }),
+  fromComponents: (id, components) => {
+    const { position, velocity, collider, fuel, ai, vehicle, renderable } = components as ComponentTypes;
+    const car: ArtCarEntity = {
+      id,
+      pos: position,
+      vel: velocity,
+      ...fuel,
+      state: ai.state,
+      platformAabb: collider.box ?? { x: position.x, y: position.y, w: 0, h: 0 },
+      design: renderable.variant as ArtCarEntity['design'],
+      size: renderable.scale,
+      speed: vehicle.speed,
+    };
+    if (vehicle.holder) car.holder = vehicle.holder;
+    if (ai.path) car.path = ai.path;
+    if (ai.blackboard) car.blackboard = ai.blackboard;
+    return car;
+  },
+};
+
+export const PORTOPOTTY: Archetype<PortopottyEntity> = {
+  kind: 'portopotty',
+  toComponents: ({ id: _id, position, aabb, ...portopotty }) => ({
+    position,
+    collider: { radius: 0, box: aabb }, // Footprint only; overlaps use the box
+    portopotty,
+    renderable: { sprite: 'portopotty', scale: 1 },
+  }),
+  fromComponents: (id, components) => {
+    const { position, collider, portopotty } = components as ComponentTypes;
+    return { id, position, aabb: collider.box ?? { ...position, w: 0, h: 0 }, ...portopotty };
+  },
+};
+
+export const HELL_STATION: Archetype<HellStationEntity> = {
+  kind: 'hellStation',
+  toComponents: ({ aabb, spawnIntervalMs, maxCans, lastSpawnAt }) => ({
+    position: { x: aabb.x, y: aabb.y },
+    collider: { radius: 0, box: aabb }, // Footprint only; overlaps use the box
+    spawner: { spawnIntervalMs, maxCans, lastSpawnAt },
+    renderable: { sprite: 'hellStation', scale: 1 },
+  }),
+  fromComponents: (id, components) => {
+    const { collider, spawner } = components as ComponentTypes;
+    return { id, aabb: collider.box ?? { x: 0, y: 0, w: 0, h: 0 }, ...spawner };
+  },
+};
+
+/**
+ * Add an entity built from an archetype
+ */
+export function spawnArchetype<T extends { id: EntityId }>(store: EntityStore, archetype: Archetype<T>, entity: T): EntityId {
+  return spawnEntity(store, entity.id, archetype.kind, archetype.toComponents(entity));
+}
+
+/**
+ * Flat view of an entity of an archetype. Views share the entity's component
+ * objects, but changes to top-level fields need writeArchetype to stick.
+ */
+export function readArchetype<T extends { id: EntityId }>(store: EntityStore, archetype: Archetype<T>, id: EntityId): T | undefined {
+  if (!hasEntity(store, id) || store.kinds[id] !== archetype.kind) return undefined;
+  return archetype.fromComponents(id, getEntityComponents(store, id));
+}
+
+/**
+ * Store a changed view back into its entity, spawning it if it is new
+ */
+export function writeArchetype<T extends { id: EntityId }>(store: EntityStore, archetype: Archetype<T>, entity: T): void {
+  if (!hasEntity(store, entity.id)) {
+    spawnArchetype(store, archetype, entity);
+    return;
+  }
+  const components: EntityComponents = archetype.toComponents(entity);
+  (Object.keys(components) as (keyof EntityComponents)[]).forEach(name => {
+    setComponent(store, entity.id, name, components[name] as never);
+  });
+}
+
+/**
+ * Views of every entity of an archetype, in spawn order
+ */
+export function listArchetype<T extends { id: EntityId }>(store: EntityStore, archetype: Archetype<T>): T[] {
+  return queryKind(store, archetype.kind).map(id => archetype.fromComponents(id, getEntityComponents(store, id)));
+}
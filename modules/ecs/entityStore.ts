@@ -0,0 +1,95 @@
+/**
+ * Entity store - creates entities and reads, writes and queries their components
+ */
+
+import type { ComponentName, ComponentTypes, EntityComponents, EntityId, EntityStore } from './types';
+
+/**
+ * Create an empty entity store
+ */
+export function createEntityStore(): EntityStore {
+  return { ids: [], kinds: {}, components: {} };
+}
+
+/**
+ * Check whether an entity exists
+ */
+export function hasEntity(store: EntityStore, id: EntityId): boolean {
+  return id in store.kinds;
+}
+
+/**
+ * Add an entity of a kind with its components. Ids are unique within a store.
+ */
+export function spawnEntity(store: EntityStore, id: EntityId, kind: string, components: EntityComponents): EntityId {
+  if (hasEntity(store, id)) {
+    throw new Error(`Entity "${id}" already exists`);
+  }
+  store.ids.push(id);
+  store.kinds[id] = kind;
+  (Object.keys(components) as ComponentName[]).forEach(name => {
+    const component = components[name];
+    if (component !== undefined) setComponent(store, id, name, component);
+  });
+  return id;
+}
+
+/**
+ * Remove an entity and all of its components
+ */
+export function despawnEntity(store: EntityStore, id: EntityId): void {
+  if (!hasEntity(store, id)) return;
+  store.ids = store.ids.filter(entityId => entityId !== id);
+  delete store.kinds[id];
+  Object.values(store.components).forEach(table => {
+    delete table[id];
+  });
+}
+
+/**
+ * Get one component of an entity; the returned object is live, so mutating it updates the entity
+ */
+export function getComponent<K extends ComponentName>(store: EntityStore, id: EntityId, name: K): ComponentTypes[K] | undefined {
+  return store.components[name]?.[id];
+}
+
+/**
+ * Add or replace one component of an entity
+ */
+export function setComponent<K extends ComponentName>(store: EntityStore, id: EntityId, name: K, component: ComponentTypes[K]): void {
+  const table = (store.components[name] ??= {}) as Record<EntityId, ComponentTypes[K]>;
+  table[id] = component;
+}
+
+/**
+ * Remove one component from an entity
+ */
+export function removeComponent(store: EntityStore, id: EntityId, name: ComponentName): void {
+  delete store.components[name]?.[id];
+}
+
+/**
+ * Every component an entity has
+ */
+export function getEntityComponents(store: EntityStore, id: EntityId): EntityComponents {
+  const components: Record<string, unknown> = {};
+  (Object.keys(store.components) as ComponentName[]).forEach(name => {
+    const component = getComponent(store, id, name);
+    if (component !== undefined) components[name] = component;
+  });
+  return components as EntityComponents;
+}
+
+/**
+ * Ids of the entities that have every listed component, in spawn order
+ */
+export function queryEntities(store: EntityStore, ...names: ComponentName[]): EntityId[] {
+  return store.ids.filter(id => names.every(name => getComponent(store, id, name) !== undefined));
+}
+
+/**
+ * Ids of the entities of one kind, in spawn order
+ */
+export function queryKind(store: EntityStore, kind: string): EntityId[] {
+  return store.ids.filter(id => store.kinds[id] === kind);
+}
@@ -0,0 +1,70 @@
+/**
+ * ECS module - entities, typed components and the systems that run over them
+ */
+
+export type {
+  EntityId,
+  Point,
+  Box,
+  ColliderComponent,
+  CollectibleKind,
+  CollectibleComponent,
+  FuelComponent,
+  AiState,
+  AiBlackboard,
+  AiComponent,
+  RenderableComponent,
+  VehicleComponent,
+  CarriableComponent,
+  PortopottyComponent,
+  SpawnerComponent,
+  WorldItemComponent,
+  ComponentTypes,
+  ComponentName,
+  EntityComponents,
+  EntityStore,
+  Archetype,
+} from './types';
+export {
+  createEntityStore,
+  hasEntity,
+  spawnEntity,
+  despawnEntity,
+  getComponent,
+  setComponent,
+  removeComponent,
+  getEntityComponents,
+  queryEntities,
+  queryKind,
+} from './entityStore';
+export type {
+  CoinEntity,
+  MoopEntity,
+  WorldItemEntity,
+  GasCanEntity,
+  ArtCarDesign,
+  ArtCarEntity,
+  PortopottyEntity,
+  HellStationEntity,
+} from './archetypes';
+export {
+  COIN,
+  MOOP,
+  WORLD_ITEM,
+  GAS_CAN,
+  ART_CAR,
+  PORTOPOTTY,
+  HELL_STATION,
+  spawnArchetype,
+  readArchetype,
+  writeArchetype,
+  listArchetype,
+} from './archetypes';
+export {
+  indexEntity,
+  indexEntities,
+  syncEntityPosition,
+  queryEntitiesNear,
+  findCollectiblesNear,
+  markCollected,
+} from './spatialSystem';
@@ -0,0 +1,73 @@
+/**
+ * Spatial system - keeps entities with a collider in the UniformGrid index
+ */
+
+import type { SpatialIndex } from '../spatial';
+import type { CollectibleKind, ComponentName, EntityId, EntityStore, Point } from './types';
+import { addEntity, removeEntity, updateEntity, queryRadius } from '../spatial';
+import { getComponent, queryEntities } from './entityStore';
+
+// Largest collider radius in play (an octopus art car), so queries catch big entities whose centers lie further out
+const MAX_COLLIDER_RADIUS = 80;
+
+/**
+ * Add one entity to the index if it has a position and collider and is not a collected pickup
+ */
+export function indexEntity(index: SpatialIndex, store: EntityStore, id: EntityId): void {
+  const position = getComponent(store, id, 'position');
+  const collider = getComponent(store, id, 'collider');
+  if (!position || !collider || getComponent(store, id, 'collectible')?.collected) return;
+  addEntity(index, { id, position: { ...position }, radius: collider.radius });
+}
+
+/**
+ * Add every entity with a position and collider to the index, skipping collected pickups
+ */
+export function indexEntities(index: SpatialIndex, store: EntityStore): void {
+  queryEntities(store, 'position', 'collider').forEach(id => indexEntity(index, store, id));
+}
+
+/**
+ * Move an entity's index entry to its current position
+ */
+export function syncEntityPosition(index: SpatialIndex, store: EntityStore, id: EntityId): void {
+  const position = getComponent(store, id, 'position');
+  if (position) {
+    updateEntity(index, id, { ...position });
+  }
+}
+
+/**
+ * Ids of indexed entities with the listed components whose collider overlaps a circle
+ */
+export function queryEntitiesNear(index: SpatialIndex, store: EntityStore, center: Point, radius: number, ...names: ComponentName[]): EntityId[] {
+  return queryRadius(index, center, radius + MAX_COLLIDER_RADIUS).entities
+    .map(entity => entity.id)
+    .filter(id => {
+      const position = getComponent(store, id, 'position');
+      const collider = getComponent(store, id, 'collider');
+      if (!position || !collider || !names.every(name => getComponent(store, id, name) !== undefined)) return false;
+      return Math.hypot(position.x - center.x, position.y - center.y) < radius + collider.radius;
+    });
+}
+
+/**
+ * Uncollected pickups of one kind that overlap a circle
+ */
+export function findCollectiblesNear(index: SpatialIndex, store: EntityStore, center: Point, radius: number, kind: CollectibleKind): EntityId[] {
+  return queryEntitiesNear(index, store, center, radius, 'collectible').filter(id => {
+    const collectible = getComponent(store, id, 'collectible')!;
+    return collectible.kind === kind && !collectible.collected;
+  });
+}
+
+/**
+ * Mark a pickup collected and drop it from the index
+ */
+export function markCollected(index: SpatialIndex, store: EntityStore, id: EntityId): void {
+  const collectible = getComponent(store, id, 'collectible');
+  if (collectible) {
+    collectible.collected = true;
+  }
+  removeEntity(index, id);
+}
@@ -0,0 +1,149 @@
+/**
+ * Entity-component types
+ */
+
+export type EntityId = string;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Circle used by the spatial index and overlap checks, plus an optional footprint
+ */
+export interface ColliderComponent {
+  radius: number;
+  box?: Box;
+}
+
+export type CollectibleKind = 'coin' | 'moop' | 'item';
+
+/**
+ * Something the player picks up; value is coins for a coin, karma for moop
+ * and the spawn value for a world item
+ */
+export interface CollectibleComponent {
+  kind: CollectibleKind;
+  value: number;
+  collected: boolean;
+}
+
+export interface FuelComponent {
+  fuel: number;
+  fuelMax: number;
+  fuelLowThreshold: number;
+}
+
+export type AiState = 'patrol' | 'seekFuel' | 'refueling' | 'idle' | 'following' | 'parading';
+
+/**
+ * JSON-safe memory of an entity's behavior tree
+ */
+export interface AiBlackboard {
+  timers: Record<string, number>;
+  [key: string]: unknown;
+}
+
+export interface AiComponent {
+  state: AiState;
+  path?: Point[];
+  blackboard?: AiBlackboard;
+}
+
+/**
+ * How the renderer draws an entity: a sprite family, its variant and a size multiplier
+ */
+export interface RenderableComponent {
+  sprite: string;
+  variant?: string;
+  scale: number;
+}
+
+export interface VehicleComponent {
+  speed: number; // multiplier on the base driving speed
+  holder?: string;
+}
+
+/**
+ * Can be carried by the player, like a gas can
+ */
+export interface CarriableComponent {
+  carried: boolean;
+}
+
+export interface PortopottyComponent {
+  used: boolean;
+  usedTime?: number; // When the portopotty was last used
+  broken?: boolean;
+  discoveredBroken?: boolean; // Whether the player has found out it is broken
+}
+
+/**
+ * Periodically spawns entities inside its collider box, like the Hell Station's gas cans
+ */
+export interface SpawnerComponent {
+  spawnIntervalMs: number;
+  maxCans: number;
+  lastSpawnAt: number;
+}
+
+/**
+ * What a world item is beyond its sprite: the food or drug it holds, and how
+ * it got there. Placed items stay where the player used them.
+ */
+export interface WorldItemComponent {
+  subtype?: string;
+  lightBulbType?: string; // Dropped light bulbs remember their inventory type
+  dropTime?: number; // Clock time when dropped, used for the pickup cooldown
+  placed?: boolean;
+}
+
+/**
+ * Every component an entity can have, keyed by component name
+ */
+export interface ComponentTypes {
+  position: Point;
+  velocity: Point;
+  collider: ColliderComponent;
+  collectible: CollectibleComponent;
+  fuel: FuelComponent;
+  ai: AiComponent;
+  renderable: RenderableComponent;
+  vehicle: VehicleComponent;
+  carriable: CarriableComponent;
+  portopotty: PortopottyComponent;
+  spawner: SpawnerComponent;
+  worldItem: WorldItemComponent;
+}
+
+export type ComponentName = keyof ComponentTypes;
+
+export type EntityComponents = Partial<ComponentTypes>;
+
+/**
+ * All entities in play. Plain JSON so it saves and clones as-is; each
+ * component table maps entity ids to that entity's component.
+ */
+export interface EntityStore {
+  ids: EntityId[]; // spawn order, so iteration is deterministic
+  kinds: Record<EntityId, string>;
+  components: { [K in ComponentName]?: Record<EntityId, ComponentTypes[K]> };
+}
+
+/**
+ * Converts one kind of entity between its components and the flat shape
+ * gameplay code and the renderer work with
+ */
+export interface Archetype<T extends { id: EntityId }> {
+  kind: string;
+  toComponents(entity: T): EntityComponents;
+  fromComponents(id: EntityId, components: EntityComponents): T;
+}
@@ -0,0 +1,38 @@
+/**
+ * Typed publish/subscribe bus for game events
+ */
+
+import type { GameEvent, GameEventHandler, GameEventType } from './types';
+
+/**
+ * Any handler, whatever type of event it takes
+ */
+type StoredHandler = (event: never) => void;
+
+export class EventBus {
+  private handlers = new Map<GameEventType, Set<StoredHandler>>();
+
+  /**
+   * Call a handler for every event of one type, returning a function that unsubscribes it
+   */
+  subscribe<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    const handlers = this.handlers.get(type) ?? new Set();
+    handlers.add(handler);
+    this.handlers.set(type, handlers);
+    return () => this.unsubscribe(type, handler);
+  }
+
+  unsubscribe<T extends GameEventType>(type: T, handler: GameEventHandler<T>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * Hand an event to its subscribers in the order they subscribed; handlers
+   * added or removed while it is delivered take effect from the next event
+   */
+  publish(event: GameEvent): void {
+    const handlers = this.handlers.get(event.type);
+    if (!handlers) return;
+    [...handlers].forEach(handler => (handler as (event: GameEvent) => void)(event));
+  }
+}
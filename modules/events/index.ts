@@ -0,0 +1,14 @@
+/**
+ * Events module - typed game events published by the simulation and the bus that carries them
+ */
+
+// Types
+export type {
+  GameEvent,
+  GameEventType,
+  GameEventOf,
+  GameEventHandler,
+} from './types';
+
+// Bus
+export { EventBus } from './EventBus';
@@ -0,0 +1,32 @@
+/**
+ * Event module types
+ */
+
+import type { DrugType, ItemType, ItemUseResult, Vec2 } from '../core';
+import type { MoopType } from '../moop';
+import type { GiftRecipientKind } from '../relationships';
+import type { WorldTransition } from '../worlds';
+
+/**
+ * Something that happened in the game that other systems may react to
+ */
+export type GameEvent =
+  | { type: 'CoinCollected'; amount: number; position: Vec2 }
+  | { type: 'MoopCollected'; moopType: MoopType; karma: number; position: Vec2 }
+  | { type: 'ItemUsed'; itemType: ItemType; result: ItemUseResult }
+  | { type: 'DrugTaken'; drugType: DrugType; position: Vec2 }
+  | { type: 'LightBulbFound'; itemType: ItemType; position: Vec2 }
+  | { type: 'WorldTransitioned'; transition: WorldTransition }
+  | { type: 'ArtCarMounted'; artCarId: string; position: Vec2 }
+  | { type: 'ArtCarDismounted'; artCarId: string; position: Vec2 }
+  | { type: 'GiftGiven'; recipientId: string; recipientKind: GiftRecipientKind; itemType: ItemType; quantity: number; karma: number }
+  | { type: 'DayStarted'; day: number };
+
+export type GameEventType = GameEvent['type'];
+
+/**
+ * The event of one type
+ */
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameEventHandler<T extends GameEventType> = (event: GameEventOf<T>) => void;
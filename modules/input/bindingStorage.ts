@@ -0,0 +1,20 @@
+/**
+ * Key binding persistence on the Storage port
+ */
+
+import type { Storage } from '../../shared/ports';
+import type { KeyBindings } from './types';
+import { parseKeyBindings } from './bindings';
+
+export const KEY_BINDINGS_STORAGE_KEY = 'key_bindings';
+
+/**
+ * The player's bindings, or the defaults when none were saved
+ */
+export async function loadKeyBindings(storage: Storage): Promise<KeyBindings> {
+  return parseKeyBindings(await storage.load<unknown>(KEY_BINDINGS_STORAGE_KEY));
+}
+
+export function saveKeyBindings(storage: Storage, bindings: KeyBindings): Promise<void> {
+  return storage.save(KEY_BINDINGS_STORAGE_KEY, bindings);
+}
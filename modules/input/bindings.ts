@@ -0,0 +1,141 @@
+/**
+ * Key bindings - which keys trigger which actions, rebinding and conflicts
+ */
+
+import type { BindingConflict, InputAction, KeyBindings, QuickSlotAction } from './types';
+
+export const QUICK_SLOT_ACTIONS: QuickSlotAction[] = [
+  'UseSlot1', 'UseSlot2', 'UseSlot3', 'UseSlot4', 'UseSlot5', 'UseSlot6', 'UseSlot7', 'UseSlot8', 'UseSlot9',
+];
+
+/**
+ * Every action with the name the controls screen shows, in the order it lists them
+ */
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  MoveUp: 'Move up',
+  MoveDown: 'Move down',
+  MoveLeft: 'Move left',
+  MoveRight: 'Move right',
+  Interact: 'Mount / dismount',
+  HailArtCar: 'Hail art car',
+  Rest: 'Rest',
+  ToggleLights: 'Toggle lights',
+  ToggleTotem: 'Toggle Totem',
+  Gift: 'Gift',
+  Mute: 'Mute',
+  Pause: 'Pause',
+  Menu: 'Save & load menu',
+  UseSlot1: 'Use item 1',
+  UseSlot2: 'Use item 2',
+  UseSlot3: 'Use item 3',
+  UseSlot4: 'Use item 4',
+  UseSlot5: 'Use item 5',
+  UseSlot6: 'Use item 6',
+  UseSlot7: 'Use item 7',
+  UseSlot8: 'Use item 8',
+  UseSlot9: 'Use item 9',
+};
+
+export const INPUT_ACTIONS = Object.keys(INPUT_ACTION_LABELS) as InputAction[];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  MoveUp: ['w', 'arrowup'],
+  MoveDown: ['s', 'arrowdown'],
+  MoveLeft: ['a', 'arrowleft'],
+  MoveRight: ['d', 'arrowright'],
+  Interact: [' '],
+  HailArtCar: ['v'],
+  Rest: ['r'],
+  ToggleLights: ['l'],
+  ToggleTotem: ['t'],
+  Gift: ['g'],
+  Mute: ['m'],
+  Pause: ['p'],
+  Menu: ['escape'],
+  UseSlot1: ['1'],
+  UseSlot2: ['2'],
+  UseSlot3: ['3'],
+  UseSlot4: ['4'],
+  UseSlot5: ['5'],
+  UseSlot6: ['6'],
+  UseSlot7: ['7'],
+  UseSlot8: ['8'],
+  UseSlot9: ['9'],
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  escape: 'Esc',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+};
+
+/**
+ * Bindings use lowercase KeyboardEvent.key values
+ */
+export function normalizeKey(key: string): string {
+  return key.toLowerCase();
+}
+
+/**
+ * A key as the player sees it: "W", "Space", "↑"
+ */
+export function formatKey(key: string): string {
+  return KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+}
+
+/**
+ * The first key bound to an action, formatted, or '' when it has none
+ */
+export function formatActionKey(bindings: KeyBindings, action: InputAction): string {
+  const [key] = bindings[action];
+  return key === undefined ? '' : formatKey(key);
+}
+
+export function getActionsForKey(bindings: KeyBindings, key: string): InputAction[] {
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.filter(action => bindings[action].includes(normalized));
+}
+
+/**
+ * Add a key to an action's bindings, leaving other actions bound to it alone
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  const normalized = normalizeKey(key);
+  if (bindings[action].includes(normalized)) return bindings;
+  return { ...bindings, [action]: [...bindings[action], normalized] };
+}
+
+export function unbindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter(bound => bound !== normalizeKey(key)) };
+}
+
+/**
+ * Keys bound to more than one action
+ */
+export function findBindingConflicts(bindings: KeyBindings): BindingConflict[] {
+  const actionsByKey = new Map<string, InputAction[]>();
+  INPUT_ACTIONS.forEach(action => bindings[action].forEach(key => {
+    actionsByKey.set(key, [...(actionsByKey.get(key) ?? []), action]);
+  }));
+  return Array.from(actionsByKey.entries())
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => ({ key, actions }));
+}
+
+/**
+ * Read stored bindings, falling back to the defaults for any action they do not cover
+ */
+export function parseKeyBindings(data: unknown): KeyBindings {
+  const stored = typeof data === 'object' && data !== null ? data as Partial<Record<InputAction, unknown>> : {};
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  INPUT_ACTIONS.forEach(action => {
+    const keys = stored[action];
+    if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+      bindings[action] = [...new Set(keys.map(normalizeKey))];
+    }
+  });
+  return bindings;
+}
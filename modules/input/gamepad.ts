@@ -0,0 +1,39 @@
+/**
+ * Analog movement from gamepads
+ */
+
+import type { Direction, Vec2 } from '../core';
+import { clampMovementVector, combineDirections, createVec2, getVectorLength, scaleVec2 } from '../core';
+import type { GamepadPort, GamepadState } from '../../shared/ports';
+
+/**
+ * Stick travel ignored around the centre, where worn sticks drift
+ */
+export const GAMEPAD_DEADZONE = 0.2;
+
+const DPAD_BUTTONS: Array<[number, Direction]> = [[12, 'up'], [13, 'down'], [14, 'left'], [15, 'right']];
+
+/**
+ * Left stick movement with a radial deadzone, rescaled so that just past the
+ * deadzone is a crawl and the rim is full speed; the d-pad wins when held
+ */
+export function readGamepadMovement(pad: GamepadState, deadzone: number = GAMEPAD_DEADZONE): Vec2 {
+  const dpad = DPAD_BUTTONS.filter(([button]) => pad.buttons[button]?.pressed).map(([, direction]) => direction);
+  if (dpad.length > 0) return combineDirections(dpad);
+
+  const stick = clampMovementVector(createVec2(pad.axes[0] ?? 0, pad.axes[1] ?? 0));
+  const tilt = getVectorLength(stick);
+  if (tilt <= deadzone) return createVec2(0, 0);
+  return scaleVec2(stick, (tilt - deadzone) / (1 - deadzone) / tilt);
+}
+
+/**
+ * Movement from the first connected controller that is being steered
+ */
+export function readGamepadsMovement(gamepads: GamepadPort, deadzone: number = GAMEPAD_DEADZONE): Vec2 {
+  for (const pad of gamepads.getGamepads()) {
+    const movement = readGamepadMovement(pad, deadzone);
+    if (getVectorLength(movement) > 0) return movement;
+  }
+  return createVec2(0, 0);
+}
@@ -0,0 +1,53 @@
+/**
+ * Input module - logical actions, the keys bound to them, their persistence,
+ * gamepad movement and touch controls
+ */
+
+// Types
+export type {
+  MovementAction,
+  QuickSlotAction,
+  InputAction,
+  KeyBindings,
+  BindingConflict,
+  TouchButton,
+  TouchControlsView,
+} from './types';
+
+// Bindings
+export {
+  QUICK_SLOT_ACTIONS,
+  INPUT_ACTION_LABELS,
+  INPUT_ACTIONS,
+  DEFAULT_KEY_BINDINGS,
+  normalizeKey,
+  formatKey,
+  formatActionKey,
+  getActionsForKey,
+  bindKey,
+  unbindKey,
+  findBindingConflicts,
+  parseKeyBindings,
+} from './bindings';
+
+// Storage
+export {
+  KEY_BINDINGS_STORAGE_KEY,
+  loadKeyBindings,
+  saveKeyBindings,
+} from './bindingStorage';
+
+// Gamepads
+export {
+  GAMEPAD_DEADZONE,
+  readGamepadMovement,
+  readGamepadsMovement,
+} from './gamepad';
+
+// Touch
+export {
+  TOUCH_BUTTON_ACTIONS,
+  JOYSTICK_RADIUS,
+  layoutTouchButtons,
+  TouchControls,
+} from './touch';
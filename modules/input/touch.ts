@@ -0,0 +1,184 @@
+/**
+ * Touch controls - a floating joystick, action buttons, taps and pinch zoom,
+ * worked out from raw touch points so the browser adapter stays thin
+ */
+
+import type { Vec2 } from '../core';
+import { clampMovementVector, createVec2, distance, getVectorLength, scaleVec2 } from '../core';
+import type { InputAction, TouchButton, TouchControlsView } from './types';
+import { INPUT_ACTION_LABELS } from './bindings';
+
+export const TOUCH_BUTTON_ACTIONS: InputAction[] = ['Interact', 'Rest', 'ToggleLights'];
+
+export const JOYSTICK_RADIUS = 60;
+const BUTTON_RADIUS = 32;
+const BUTTON_MARGIN = 24;
+const TAP_MAX_DISTANCE = 12; // pixels a finger may wander and still tap
+const TAP_MAX_MS = 300;
+
+type TouchRole = 'joystick' | 'button' | 'tap' | 'pinch' | 'ignored';
+
+interface TrackedTouch {
+  role: TouchRole;
+  start: Vec2;
+  current: Vec2;
+  startTime: number;
+  action?: InputAction;
+}
+
+/**
+ * Buttons stacked up the bottom-right corner, within thumb reach
+ */
+export function layoutTouchButtons(width: number, height: number): TouchButton[] {
+  return TOUCH_BUTTON_ACTIONS.map((action, index) => ({
+    action,
+    label: INPUT_ACTION_LABELS[action],
+    center: createVec2(
+      width - BUTTON_MARGIN - BUTTON_RADIUS - (index % 2) * (BUTTON_RADIUS * 2 + BUTTON_MARGIN / 2),
+      height - BUTTON_MARGIN - BUTTON_RADIUS - index * (BUTTON_RADIUS * 1.6)
+    ),
+    radius: BUTTON_RADIUS,
+  }));
+}
+
+export class TouchControls {
+  private buttons: TouchButton[] = [];
+  private width = 0;
+  private touches = new Map<number, TrackedTouch>();
+  private justPressed = new Set<InputAction>();
+  private pinchDistance: number | null = null;
+  private zoomFactor = 1;
+  private active = false;
+
+  constructor(width: number, height: number) {
+    this.resize(width, height);
+  }
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.buttons = layoutTouchButtons(width, height);
+  }
+
+  /**
+   * Whether the player has touched the screen, so the controls are worth drawing
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * A finger went down: a second finger starts a pinch, a button presses its
+   * action, the left half places the joystick and anything else may be a tap
+   */
+  touchStart(id: number, point: Vec2, time: number): void {
+    this.active = true;
+    const touch: TrackedTouch = { role: 'tap', start: point, current: point, startTime: time };
+    const button = this.buttons.find(candidate => distance(candidate.center, point) <= candidate.radius);
+    // A joystick already steering keeps steering; one that has not moved may be half a pinch
+    const other = this.findTouch(({ role }) => role === 'tap') ??
+      this.findTouch(({ role, start, current }) => role === 'joystick' && distance(start, current) <= TAP_MAX_DISTANCE);
+
+    if (button) {
+      touch.role = 'button';
+      touch.action = button.action;
+      this.justPressed.add(button.action);
+    } else if (other && this.pinchDistance === null) {
+      other.role = 'pinch';
+      touch.role = 'pinch';
+      this.pinchDistance = distance(other.current, point);
+    } else if (point.x < this.width / 2 && !this.findTouch(({ role }) => role === 'joystick')) {
+      touch.role = 'joystick';
+    }
+    this.touches.set(id, touch);
+  }
+
+  touchMove(id: number, point: Vec2): void {
+    const touch = this.touches.get(id);
+    if (!touch) return;
+    touch.current = point;
+    if (touch.role !== 'pinch' || this.pinchDistance === null) return;
+
+    const pinch = [...this.touches.values()].filter(other => other.role === 'pinch');
+    if (pinch.length < 2) return;
+    const spread = distance(pinch[0].current, pinch[1].current);
+    if (this.pinchDistance > 0 && spread > 0) this.zoomFactor *= spread / this.pinchDistance;
+    this.pinchDistance = spread;
+  }
+
+  /**
+   * A finger lifted; returns where it tapped, or null if it was not a tap
+   */
+  touchEnd(id: number, time: number): Vec2 | null {
+    const touch = this.touches.get(id);
+    if (!touch) return null;
+    this.touches.delete(id);
+
+    if (touch.role === 'pinch') {
+      this.pinchDistance = null;
+      this.touches.forEach(other => {
+        if (other.role === 'pinch') other.role = 'ignored';
+      });
+      return null;
+    }
+    const isTap = (touch.role === 'tap' || touch.role === 'joystick') &&
+      distance(touch.start, touch.current) <= TAP_MAX_DISTANCE &&
+      time - touch.startTime <= TAP_MAX_MS;
+    return isTap ? touch.start : null;
+  }
+
+  /**
+   * Joystick deflection as a movement vector; the first few pixels are a deadzone so taps do not walk
+   */
+  getMovement(): Vec2 {
+    const stick = this.findTouch(({ role }) => role === 'joystick');
+    if (!stick) return createVec2(0, 0);
+    const offset = createVec2(stick.current.x - stick.start.x, stick.current.y - stick.start.y);
+    const length = getVectorLength(offset);
+    if (length <= TAP_MAX_DISTANCE) return createVec2(0, 0);
+    const reach = Math.min(1, (length - TAP_MAX_DISTANCE) / (JOYSTICK_RADIUS - TAP_MAX_DISTANCE));
+    return clampMovementVector(scaleVec2(offset, reach / length));
+  }
+
+  wasActionJustPressed(action: InputAction): boolean {
+    return this.justPressed.has(action);
+  }
+
+  /**
+   * Forget this frame's button presses - call with the keyboard's at the end of each frame
+   */
+  clearJustPressed(): void {
+    this.justPressed.clear();
+  }
+
+  /**
+   * How much the pinch has scaled since the last call; 1 when nobody pinched
+   */
+  consumeZoomFactor(): number {
+    const factor = this.zoomFactor;
+    this.zoomFactor = 1;
+    return factor;
+  }
+
+  getView(): TouchControlsView {
+    const stick = this.findTouch(({ role }) => role === 'joystick');
+    return {
+      joystick: stick ? { origin: stick.start, knob: this.getKnobPosition(stick), radius: JOYSTICK_RADIUS } : null,
+      buttons: this.buttons,
+      held: [...this.touches.values()].flatMap(touch => (touch.role === 'button' && touch.action ? [touch.action] : [])),
+    };
+  }
+
+  /**
+   * The finger's position, held inside the joystick's ring
+   */
+  private getKnobPosition(stick: TrackedTouch): Vec2 {
+    const offset = createVec2(stick.current.x - stick.start.x, stick.current.y - stick.start.y);
+    const length = getVectorLength(offset);
+    const scale = length > JOYSTICK_RADIUS ? JOYSTICK_RADIUS / length : 1;
+    return createVec2(stick.start.x + offset.x * scale, stick.start.y + offset.y * scale);
+  }
+
+  private findTouch(matches: (touch: TrackedTouch) => boolean): TrackedTouch | undefined {
+    return [...this.touches.values()].find(matches);
+  }
+}
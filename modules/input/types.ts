@@ -0,0 +1,60 @@
+/**
+ * Input module types
+ */
+
+import type { Vec2 } from '../core';
+
+export type MovementAction = 'MoveUp' | 'MoveDown' | 'MoveLeft' | 'MoveRight';
+
+export type QuickSlotAction =
+  | 'UseSlot1' | 'UseSlot2' | 'UseSlot3' | 'UseSlot4' | 'UseSlot5'
+  | 'UseSlot6' | 'UseSlot7' | 'UseSlot8' | 'UseSlot9';
+
+/**
+ * Something the player can do with a key, whatever key it is bound to
+ */
+export type InputAction =
+  | MovementAction
+  | 'Interact' // Mount and dismount bikes and art cars
+  | 'HailArtCar'
+  | 'Rest'
+  | 'ToggleLights'
+  | 'ToggleTotem'
+  | 'Gift'
+  | 'Mute'
+  | 'Pause'
+  | 'Menu'
+  | QuickSlotAction;
+
+/**
+ * Keys bound to each action, as lowercase KeyboardEvent.key values
+ * (' ' for space, 'arrowup', 'escape', ...); an action may have several
+ */
+export type KeyBindings = Record<InputAction, string[]>;
+
+/**
+ * A key bound to more than one action
+ */
+export interface BindingConflict {
+  key: string;
+  actions: InputAction[];
+}
+
+/**
+ * An on-screen button that presses an action when touched
+ */
+export interface TouchButton {
+  action: InputAction;
+  label: string;
+  center: Vec2; // canvas pixels
+  radius: number;
+}
+
+/**
+ * What the touch overlay should draw this frame
+ */
+export interface TouchControlsView {
+  joystick: { origin: Vec2; knob: Vec2; radius: number } | null; // only while a thumb is on it
+  buttons: TouchButton[];
+  held: InputAction[]; // buttons under a finger right now
+}
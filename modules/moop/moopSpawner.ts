@@ -105,7 +105,7 @@ export function spawnMoop(
       const moopConfig = MOOP_DEFINITIONS[moopType];
       
       const moopItem: MoopItem = {
-        id: generateMoopId(),
+        id: generateMoopId(rng),
         type: moopType,
         position,
         radius: moopConfig.radius,
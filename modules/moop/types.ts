@@ -1,4 +1,5 @@
 import { Vec2 } from '../core';
+import { Rng } from '../../shared/ports';
 
 /**
  * Types of moop (trash) that can be found in the world
@@ -19,7 +20,8 @@ export type MoopType =
   | 'boots'
   | 'cat-head'
   | 'clothing'
-  | 'cape';
+  | 'cape'
+  | 'blueprint';
 
 /**
  * Moop item definition
@@ -143,13 +145,19 @@ export const MOOP_DEFINITIONS: Record<MoopType, MoopConfig> = {
     karmaReward: 8,
     spawnWeight: 4,
   },
+  'blueprint': {
+    emoji: '📜',
+    radius: 10,
+    karmaReward: 2,
+    spawnWeight: 3, // Read on pickup to learn a recipe
+  },
 };
 
 /**
  * Generate a unique ID for a moop item
  */
-export function generateMoopId(): string {
-  return `moop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+export function generateMoopId(rng: Rng): string {
+  return `moop_${rng.random().toString(36).substr(2, 9)}`;
 }
 
 /**
@@ -173,6 +181,7 @@ export function getMoopDisplayName(type: MoopType): string {
     'cat-head': 'Cat Head',
     'clothing': 'Clothing',
     'cape': 'Cape',
+    'blueprint': 'Blueprint',
   };
   return displayNames[type];
 }
@@ -249,6 +258,8 @@ export function getUnifiedItemEmoji(itemType: string): string {
   if (lowerItemType.includes('battery')) return '🔋';
   if (lowerItemType.includes('gas')) return '⛽';
   if (lowerItemType.includes('swamp cooler')) return '❄️';
+  if (lowerItemType.includes('cooler of ice')) return '🧊';
+  if (lowerItemType.includes('glow stick')) return '🪄';
   
   // Colored light bulbs
   if (lowerItemType.includes('light bulb red')) return '🔴';
@@ -0,0 +1,90 @@
+/**
+ * Per-world navigation grids and recently found paths
+ */
+
+import type { Vec2 } from '../core';
+import type { NavGrid } from './types';
+import { cellCenter, findNearestWalkableCell, hasLineOfSight, worldToCell } from './navGrid';
+import { findGridPath, smoothPath } from './pathfinding';
+
+const DEFAULT_MAX_PATHS = 256;
+
+interface WorldNavigation {
+  grid: NavGrid;
+  corridors: Map<string, Vec2[]>; // Smoothed cell-center waypoints keyed by start and goal cell
+}
+
+/**
+ * Builds each world's grid on first use and remembers the paths found in it.
+ * Paths are cached by start and goal cell, so nearby requests share one search.
+ */
+export class NavigationCache {
+  private readonly worlds = new Map<string, WorldNavigation>();
+
+  constructor(
+    private readonly buildGrid: (worldId: string) => NavGrid,
+    private readonly maxPaths: number = DEFAULT_MAX_PATHS
+  ) {}
+
+  getGrid(worldId: string): NavGrid {
+    return this.getWorld(worldId).grid;
+  }
+
+  /**
+   * Waypoints from start to goal, ending at goal. A goal inside an obstacle is
+   * reached by routing to the nearest walkable cell and then heading straight in.
+   */
+  findPath(worldId: string, start: Vec2, goal: Vec2): Vec2[] {
+    const world = this.getWorld(worldId);
+    const { grid } = world;
+    if (hasLineOfSight(grid, start, goal)) return [{ ...goal }];
+
+    const from = findNearestWalkableCell(grid, worldToCell(grid, start));
+    const to = findNearestWalkableCell(grid, worldToCell(grid, goal));
+    if (from === undefined || to === undefined) return [{ ...goal }];
+
+    const corridor = this.getCorridor(world, from, to);
+    const goalIsWalkable = to === worldToCell(grid, goal);
+    const waypoints = goalIsWalkable ? corridor.slice(0, -1) : corridor;
+    return [...waypoints.map(point => ({ ...point })), { ...goal }];
+  }
+
+  /**
+   * Forget the grid and paths of one world, or of every world
+   */
+  invalidate(worldId?: string): void {
+    if (worldId === undefined) {
+      this.worlds.clear();
+    } else {
+      this.worlds.delete(worldId);
+    }
+  }
+
+  private getWorld(worldId: string): WorldNavigation {
+    let world = this.worlds.get(worldId);
+    if (!world) {
+      world = { grid: this.buildGrid(worldId), corridors: new Map() };
+      this.worlds.set(worldId, world);
+    }
+    return world;
+  }
+
+  private getCorridor(world: WorldNavigation, from: number, to: number): Vec2[] {
+    const key = `${from}:${to}`;
+    const cached = world.corridors.get(key);
+    if (cached) {
+      // Refresh its place in the least-recently-used order
+      world.corridors.delete(key);
+      world.corridors.set(key, cached);
+      return cached;
+    }
+
+    const cells = findGridPath(world.grid, from, to);
+    const corridor = cells ? smoothPath(world.grid, cells.map(cell => cellCenter(world.grid, cell))).slice(1) : [];
+    world.corridors.set(key, corridor);
+    if (world.corridors.size > this.maxPaths) {
+      world.corridors.delete(world.corridors.keys().next().value as string);
+    }
+    return corridor;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Navigation module - walkability grids, A* pathfinding and per-world path caching
+ */
+
+// Types
+export type {
+  NavObstacle,
+  NavGridConfig,
+  NavGrid,
+} from './types';
+
+// Grid
+export {
+  createNavGrid,
+  worldToCell,
+  cellCenter,
+  isWalkable,
+  hasLineOfSight,
+  findNearestWalkableCell,
+  findNearestWalkablePoint,
+} from './navGrid';
+
+// Pathfinding
+export {
+  findGridPath,
+  smoothPath,
+} from './pathfinding';
+
+// World grids
+export {
+  getLandmarkObstacles,
+  getEntityObstacles,
+  createWorldNavGrid,
+} from './worldNavigation';
+
+// Cache
+export { NavigationCache } from './NavigationCache';
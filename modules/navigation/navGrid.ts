@@ -0,0 +1,106 @@
+/**
+ * Walkability grid built from obstacle shapes
+ */
+
+import type { Vec2 } from '../core';
+import type { NavGrid, NavGridConfig, NavObstacle } from './types';
+
+function isInsideObstacle(point: Vec2, obstacle: NavObstacle, clearance: number): boolean {
+  switch (obstacle.kind) {
+    case 'circle':
+      return Math.hypot(point.x - obstacle.center.x, point.y - obstacle.center.y) < obstacle.radius + clearance;
+    case 'box': {
+      const { x, y, w, h } = obstacle.box;
+      return point.x > x - clearance && point.x < x + w + clearance && point.y > y - clearance && point.y < y + h + clearance;
+    }
+    case 'boundary':
+      return Math.hypot(point.x - obstacle.center.x, point.y - obstacle.center.y) > obstacle.radius - clearance;
+  }
+}
+
+export function createNavGrid(config: NavGridConfig, obstacles: NavObstacle[]): NavGrid {
+  const { width, height, cellSize, clearance } = config;
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const grid: NavGrid = { width, height, cellSize, cols, rows, blocked: new Uint8Array(cols * rows) };
+
+  for (let cell = 0; cell < cols * rows; cell++) {
+    const center = cellCenter(grid, cell);
+    if (obstacles.some(obstacle => isInsideObstacle(center, obstacle, clearance))) {
+      grid.blocked[cell] = 1;
+    }
+  }
+  return grid;
+}
+
+/**
+ * Cell index holding a point, clamped to the grid
+ */
+export function worldToCell(grid: NavGrid, point: Vec2): number {
+  const col = Math.min(grid.cols - 1, Math.max(0, Math.floor(point.x / grid.cellSize)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor(point.y / grid.cellSize)));
+  return row * grid.cols + col;
+}
+
+export function cellCenter(grid: NavGrid, cell: number): Vec2 {
+  return {
+    x: ((cell % grid.cols) + 0.5) * grid.cellSize,
+    y: (Math.floor(cell / grid.cols) + 0.5) * grid.cellSize,
+  };
+}
+
+export function isWalkable(grid: NavGrid, point: Vec2): boolean {
+  if (point.x < 0 || point.y < 0 || point.x >= grid.width || point.y >= grid.height) return false;
+  return grid.blocked[worldToCell(grid, point)] === 0;
+}
+
+/**
+ * Whether a straight walk between two points stays on walkable cells
+ */
+export function hasLineOfSight(grid: NavGrid, from: Vec2, to: Vec2): boolean {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(length / (grid.cellSize / 4)));
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    if (!isWalkable(grid, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })) return false;
+  }
+  return true;
+}
+
+/**
+ * Closest walkable cell, searching outward in square rings; undefined when nothing is walkable
+ */
+export function findNearestWalkableCell(grid: NavGrid, cell: number): number | undefined {
+  if (grid.blocked[cell] === 0) return cell;
+  const col = cell % grid.cols;
+  const row = Math.floor(cell / grid.cols);
+  const maxRing = Math.max(grid.cols, grid.rows);
+
+  for (let ring = 1; ring < maxRing; ring++) {
+    let best: number | undefined;
+    let bestDistance = Infinity;
+    for (let r = row - ring; r <= row + ring; r++) {
+      for (let c = col - ring; c <= col + ring; c++) {
+        const onRing = Math.abs(r - row) === ring || Math.abs(c - col) === ring;
+        if (!onRing || r < 0 || c < 0 || r >= grid.rows || c >= grid.cols) continue;
+        const candidate = r * grid.cols + c;
+        const distance = Math.hypot(r - row, c - col);
+        if (grid.blocked[candidate] === 0 && distance < bestDistance) {
+          best = candidate;
+          bestDistance = distance;
+        }
+      }
+    }
+    if (best !== undefined) return best;
+  }
+  return undefined;
+}
+
+/**
+ * Closest walkable point to a position, or the position itself when already walkable
+ */
+export function findNearestWalkablePoint(grid: NavGrid, point: Vec2): Vec2 {
+  if (isWalkable(grid, point)) return { ...point };
+  const cell = findNearestWalkableCell(grid, worldToCell(grid, point));
+  return cell === undefined ? { ...point } : cellCenter(grid, cell);
+}
@@ -0,0 +1,132 @@
+/**
+ * A* over a navigation grid, plus line-of-sight path smoothing
+ */
+
+import type { Vec2 } from '../core';
+import type { NavGrid } from './types';
+import { hasLineOfSight } from './navGrid';
+
+const DIAGONAL_COST = Math.SQRT2;
+
+/**
+ * Binary min-heap of cells keyed by the f-score they were pushed with
+ */
+class CellHeap {
+  private readonly entries: { cell: number; score: number }[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(cell: number, score: number): void {
+    const { entries } = this;
+    entries.push({ cell, score });
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (entries[parent].score <= entries[i].score) break;
+      [entries[parent], entries[i]] = [entries[i], entries[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const { entries } = this;
+    const top = entries[0].cell;
+    const last = entries.pop()!;
+    if (entries.length === 0) return top;
+
+    entries[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < entries.length && entries[left].score < entries[smallest].score) smallest = left;
+      if (right < entries.length && entries[right].score < entries[smallest].score) smallest = right;
+      if (smallest === i) return top;
+      [entries[smallest], entries[i]] = [entries[i], entries[smallest]];
+      i = smallest;
+    }
+  }
+}
+
+/**
+ * Octile distance between two cells, in cells
+ */
+function estimate(grid: NavGrid, from: number, to: number): number {
+  const dx = Math.abs((from % grid.cols) - (to % grid.cols));
+  const dy = Math.abs(Math.floor(from / grid.cols) - Math.floor(to / grid.cols));
+  return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy);
+}
+
+/**
+ * Walkable 8-way neighbours with their step cost; diagonals may not cut corners
+ */
+function getNeighbours(grid: NavGrid, cell: number): [number, number][] {
+  const col = cell % grid.cols;
+  const row = Math.floor(cell / grid.cols);
+  const open = (c: number, r: number) => c >= 0 && r >= 0 && c < grid.cols && r < grid.rows && grid.blocked[r * grid.cols + c] === 0;
+  const neighbours: [number, number][] = [];
+
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if ((dr === 0 && dc === 0) || !open(col + dc, row + dr)) continue;
+      const diagonal = dr !== 0 && dc !== 0;
+      if (diagonal && (!open(col + dc, row) || !open(col, row + dr))) continue;
+      neighbours.push([(row + dr) * grid.cols + col + dc, diagonal ? DIAGONAL_COST : 1]);
+    }
+  }
+  return neighbours;
+}
+
+/**
+ * Cheapest chain of walkable cells from start to goal, both included; null when unreachable
+ */
+export function findGridPath(grid: NavGrid, start: number, goal: number): number[] | null {
+  const cellCount = grid.cols * grid.rows;
+  const costs = new Float64Array(cellCount).fill(Infinity);
+  const cameFrom = new Int32Array(cellCount).fill(-1);
+  const closed = new Uint8Array(cellCount);
+  const open = new CellHeap();
+
+  costs[start] = 0;
+  open.push(start, estimate(grid, start, goal));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goal) {
+      const path = [current];
+      while (cameFrom[path[0]] !== -1) path.unshift(cameFrom[path[0]]);
+      return path;
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    for (const [neighbour, stepCost] of getNeighbours(grid, current)) {
+      const cost = costs[current] + stepCost;
+      if (closed[neighbour] || cost >= costs[neighbour]) continue;
+      costs[neighbour] = cost;
+      cameFrom[neighbour] = current;
+      open.push(neighbour, cost + estimate(grid, neighbour, goal)); // Stale entries are skipped once closed
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop every waypoint that can be skipped by walking straight to a later one
+ */
+export function smoothPath(grid: NavGrid, points: Vec2[]): Vec2[] {
+  if (points.length <= 2) return points.map(point => ({ ...point }));
+
+  const smoothed = [{ ...points[0] }];
+  let anchor = 0;
+  while (anchor < points.length - 1) {
+    let next = points.length - 1;
+    while (next > anchor + 1 && !hasLineOfSight(grid, points[anchor], points[next])) next--;
+    smoothed.push({ ...points[next] });
+    anchor = next;
+  }
+  return smoothed;
+}
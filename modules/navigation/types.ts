@@ -0,0 +1,32 @@
+/**
+ * Navigation types
+ */
+
+import type { Vec2 } from '../core';
+
+/**
+ * Something agents route around. A boundary is the reverse: only its inside is walkable.
+ */
+export type NavObstacle =
+  | { kind: 'circle'; center: Vec2; radius: number }
+  | { kind: 'box'; box: { x: number; y: number; w: number; h: number } }
+  | { kind: 'boundary'; center: Vec2; radius: number };
+
+export interface NavGridConfig {
+  width: number;
+  height: number;
+  cellSize: number;
+  clearance: number; // Extra margin kept around every obstacle
+}
+
+/**
+ * Walkability of a world sampled at cell centers, row by row
+ */
+export interface NavGrid {
+  width: number;
+  height: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  blocked: Uint8Array; // 1 where the cell center is inside an obstacle
+}
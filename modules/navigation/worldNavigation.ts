@@ -0,0 +1,46 @@
+/**
+ * Obstacles and navigation grids for the registered worlds
+ */
+
+import type { EntityStore } from '../ecs';
+import type { Landmark, LandmarkType } from '../worlds';
+import type { NavGrid, NavObstacle } from './types';
+import { listArchetype, HELL_STATION } from '../ecs';
+import { getWorldDefinition, getWorldLandmarks } from '../worlds';
+import { createNavGrid } from './navGrid';
+
+const NAV_CELL_SIZE = 40;
+const NAV_CLEARANCE = 20;
+const SOLID_LANDMARKS: LandmarkType[] = ['man', 'temple', 'camp'];
+
+/**
+ * The Man, the Temple and camps are solid; the trash fence keeps everyone inside it
+ */
+export function getLandmarkObstacles(landmarks: Landmark[]): NavObstacle[] {
+  return landmarks.flatMap((landmark): NavObstacle[] => {
+    if (landmark.type === 'trashFence') return [{ kind: 'boundary', center: landmark.position, radius: landmark.size }];
+    if (SOLID_LANDMARKS.includes(landmark.type)) return [{ kind: 'circle', center: landmark.position, radius: landmark.size / 2 }];
+    return [];
+  });
+}
+
+/**
+ * Footprints of fixed entities, currently the Hell Station
+ */
+export function getEntityObstacles(entities: EntityStore): NavObstacle[] {
+  return listArchetype(entities, HELL_STATION).map((station): NavObstacle => ({ kind: 'box', box: station.aabb }));
+}
+
+/**
+ * Grid for a world from its definition's landmarks and the fixed entities in it
+ */
+export function createWorldNavGrid(worldId: string, entities?: EntityStore): NavGrid {
+  const definition = getWorldDefinition(worldId);
+  if (!definition) throw new Error(`No world definition for "${worldId}"`);
+
+  const obstacles = [
+    ...getLandmarkObstacles(getWorldLandmarks(worldId)),
+    ...(entities ? getEntityObstacles(entities) : []),
+  ];
+  return createNavGrid({ width: definition.width, height: definition.height, cellSize: NAV_CELL_SIZE, clearance: NAV_CLEARANCE }, obstacles);
+}
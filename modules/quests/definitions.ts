@@ -0,0 +1,54 @@
+/**
+ * The week's quests
+ */
+
+import type { QuestDefinition } from './types';
+
+export const QUEST_DEFINITIONS: Record<string, QuestDefinition> = {
+  'leave-no-trace': {
+    id: 'leave-no-trace',
+    title: 'Leave No Trace',
+    description: 'Pick up 10 pieces of moop',
+    objectives: [{ kind: 'collectMoop', count: 10 }],
+    reward: { coins: 15, karma: 10 }
+  },
+  'clean-sweep': {
+    id: 'clean-sweep',
+    title: 'Clean Sweep',
+    description: 'The playa is still covered in moop - pick up 25 more',
+    prerequisites: ['leave-no-trace'],
+    objectives: [{ kind: 'collectMoop', count: 25 }],
+    reward: { karma: 25, recipes: ['totem'] }
+  },
+  'fuel-the-fleet': {
+    id: 'fuel-the-fleet',
+    title: 'Fuel the Fleet',
+    description: 'Buy gas for the art cars at Hell Station',
+    objectives: [{ kind: 'deliverGas', count: 1 }],
+    reward: { karma: 15, recipes: ['led-strip'] }
+  },
+  'temple-visit': {
+    id: 'temple-visit',
+    title: 'A Quiet Moment',
+    description: 'Visit the Temple before it burns on day 9',
+    window: { until: { day: 9 } },
+    objectives: [{ kind: 'visit', landmarkId: 'the-temple', label: 'Visit the Temple' }],
+    reward: { karma: 25 }
+  },
+  'gifting-spirit': {
+    id: 'gifting-spirit',
+    title: 'Gifting Spirit',
+    description: 'Give a gift at every camp on the playa',
+    objectives: [{ kind: 'giftCamps', count: 3 }],
+    reward: { karma: 30, items: [{ item: 'Glow Stick', quantity: 2 }] }
+  },
+  'witness-the-burn': {
+    id: 'witness-the-burn',
+    title: 'Witness the Burn',
+    description: 'Be at the Man when it burns on the night of day 8',
+    prerequisites: ['temple-visit'],
+    window: { from: { day: 8, hour: 18 }, until: { day: 9 } },
+    objectives: [{ kind: 'visit', landmarkId: 'the-man', label: 'Stand by the Man' }],
+    reward: { coins: 50, karma: 50, items: [{ item: 'Glitter', quantity: 3 }] }
+  }
+};
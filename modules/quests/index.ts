@@ -0,0 +1,32 @@
+/**
+ * Quest module - goals with objectives, prerequisites, time windows and rewards
+ */
+
+// Types
+export type {
+  QuestObjective,
+  QuestEvent,
+  QuestTime,
+  QuestWindow,
+  QuestReward,
+  QuestDefinition,
+  QuestStatus,
+  QuestObjectiveView,
+  QuestLogEntry,
+  QuestChanges,
+} from './types';
+
+// Definitions
+export { QUEST_DEFINITIONS } from './definitions';
+
+// Progress
+export {
+  createQuestState,
+  isQuestWindowOpen,
+  getQuestStatus,
+  getObjectiveTarget,
+  updateQuests,
+  recordQuestEvent,
+  getQuestVisitTargets,
+  getQuestLog,
+} from './progress';
@@ -0,0 +1,155 @@
+/**
+ * Quest progress - starting quests, counting objectives and running out of time
+ */
+
+import type { GameTime, QuestObjectiveProgress, QuestState } from '../core';
+import type {
+  QuestChanges, QuestDefinition, QuestEvent, QuestLogEntry, QuestObjective, QuestStatus, QuestTime, QuestWindow,
+} from './types';
+import { QUEST_DEFINITIONS } from './definitions';
+
+const OBJECTIVE_LABELS: Record<Exclude<QuestObjective['kind'], 'visit'>, string> = {
+  collectMoop: 'Pick up moop',
+  deliverGas: 'Buy gas for art cars',
+  giftCamps: 'Gift at different camps',
+};
+
+/**
+ * Quest state for a new game: nothing started yet
+ */
+export function createQuestState(): QuestState {
+  return { active: {}, completed: [], failed: [] };
+}
+
+function isBefore(time: GameTime, point: QuestTime): boolean {
+  return time.day < point.day || (time.day === point.day && time.hour < (point.hour ?? 0));
+}
+
+/**
+ * Check if the game time is inside a quest's window
+ */
+export function isQuestWindowOpen(window: QuestWindow | undefined, time: GameTime): boolean {
+  if (window?.from && isBefore(time, window.from)) return false;
+  return !window?.until || isBefore(time, window.until);
+}
+
+export function getQuestStatus(quests: QuestState, questId: string): QuestStatus {
+  if (quests.completed.includes(questId)) return 'completed';
+  if (quests.failed.includes(questId)) return 'failed';
+  return quests.active[questId] ? 'active' : 'locked';
+}
+
+export function getObjectiveTarget(objective: QuestObjective): number {
+  return objective.kind === 'visit' ? 1 : objective.count;
+}
+
+function isQuestDone(quest: QuestDefinition, progress: QuestObjectiveProgress[]): boolean {
+  return quest.objectives.every((objective, i) => progress[i].count >= getObjectiveTarget(objective));
+}
+
+/**
+ * Start quests whose prerequisites are done and whose window has opened,
+ * and fail active quests whose window has closed
+ */
+export function updateQuests(quests: QuestState, time: GameTime): QuestChanges {
+  const changes: QuestChanges = { started: [], completed: [], failed: [] };
+
+  Object.values(QUEST_DEFINITIONS).forEach(quest => {
+    const status = getQuestStatus(quests, quest.id);
+
+    if (status === 'active' && quest.window?.until && !isBefore(time, quest.window.until)) {
+      delete quests.active[quest.id];
+      quests.failed.push(quest.id);
+      changes.failed.push(quest);
+    } else if (status === 'locked' && isQuestWindowOpen(quest.window, time) && (quest.prerequisites ?? []).every(id => quests.completed.includes(id))) {
+      quests.active[quest.id] = quest.objectives.map(() => ({ count: 0 }));
+      changes.started.push(quest);
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Count an event towards one objective; false when it does not apply
+ */
+function advanceObjective(objective: QuestObjective, progress: QuestObjectiveProgress, event: QuestEvent): boolean {
+  if (progress.count >= getObjectiveTarget(objective)) return false;
+
+  switch (objective.kind) {
+    case 'collectMoop':
+      if (event.kind !== 'moopCollected') return false;
+      break;
+    case 'deliverGas':
+      if (event.kind !== 'gasDelivered') return false;
+      break;
+    case 'visit':
+      if (event.kind !== 'visited' || event.landmarkId !== objective.landmarkId) return false;
+      break;
+    case 'giftCamps':
+      if (event.kind !== 'gifted' || progress.seen?.includes(event.campId)) return false;
+      progress.seen = [...(progress.seen ?? []), event.campId];
+      break;
+  }
+
+  progress.count++;
+  return true;
+}
+
+/**
+ * Count an event towards every active quest, returning the quests it completed
+ */
+export function recordQuestEvent(quests: QuestState, event: QuestEvent): QuestDefinition[] {
+  const completed: QuestDefinition[] = [];
+
+  Object.entries(quests.active).forEach(([questId, progress]) => {
+    const quest = QUEST_DEFINITIONS[questId];
+    if (!quest) return;
+
+    const advanced = quest.objectives.filter((objective, i) => advanceObjective(objective, progress[i], event));
+    if (advanced.length > 0 && isQuestDone(quest, progress)) {
+      delete quests.active[questId];
+      quests.completed.push(questId);
+      completed.push(quest);
+    }
+  });
+
+  return completed;
+}
+
+/**
+ * Landmarks that unfinished visit objectives are waiting on
+ */
+export function getQuestVisitTargets(quests: QuestState): string[] {
+  return Object.entries(quests.active).flatMap(([questId, progress]) =>
+    (QUEST_DEFINITIONS[questId]?.objectives ?? []).flatMap((objective, i) =>
+      objective.kind === 'visit' && progress[i].count === 0 ? [objective.landmarkId] : []
+    )
+  );
+}
+
+function toLogEntry(quest: QuestDefinition, status: QuestStatus, progress?: QuestObjectiveProgress[]): QuestLogEntry {
+  return {
+    quest,
+    status,
+    objectives: quest.objectives.map((objective, i) => {
+      const target = getObjectiveTarget(objective);
+      const count = status === 'completed' ? target : progress?.[i].count ?? 0;
+      return { label: objective.kind === 'visit' ? objective.label : OBJECTIVE_LABELS[objective.kind], count, target, done: count >= target };
+    }),
+  };
+}
+
+/**
+ * Active quests first, then completed and failed ones, newest first
+ */
+export function getQuestLog(quests: QuestState): QuestLogEntry[] {
+  const entries = (ids: string[], status: QuestStatus) =>
+    ids.filter(id => QUEST_DEFINITIONS[id]).map(id => toLogEntry(QUEST_DEFINITIONS[id], status, quests.active[id]));
+
+  return [
+    ...entries(Object.keys(quests.active), 'active'),
+    ...entries([...quests.completed].reverse(), 'completed'),
+    ...entries([...quests.failed].reverse(), 'failed'),
+  ];
+}
@@ -0,0 +1,87 @@
+/**
+ * Quest module types
+ */
+
+import type { ItemType } from '../core';
+
+/**
+ * Something the player has to do; counted objectives finish at their count
+ */
+export type QuestObjective =
+  | { kind: 'collectMoop'; count: number }
+  | { kind: 'deliverGas'; count: number }
+  | { kind: 'visit'; landmarkId: string; label: string }
+  | { kind: 'giftCamps'; count: number }; // Gifts at this many different camps
+
+/**
+ * Something that happened in the game that objectives may count
+ */
+export type QuestEvent =
+  | { kind: 'moopCollected' }
+  | { kind: 'gasDelivered' }
+  | { kind: 'visited'; landmarkId: string }
+  | { kind: 'gifted'; campId: string };
+
+/**
+ * A point in the week; the hour defaults to midnight
+ */
+export interface QuestTime {
+  day: number;
+  hour?: number;
+}
+
+/**
+ * When a quest can be done. It starts at `from` and fails if still
+ * unfinished at `until`.
+ */
+export interface QuestWindow {
+  from?: QuestTime;
+  until?: QuestTime;
+}
+
+export interface QuestReward {
+  coins?: number;
+  karma?: number;
+  items?: Array<{ item: ItemType; quantity: number }>;
+  recipes?: string[]; // Recipe ids learned on completion
+}
+
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  description: string;
+  prerequisites?: string[]; // Quest ids that must be completed first
+  window?: QuestWindow;
+  objectives: QuestObjective[];
+  reward: QuestReward;
+}
+
+export type QuestStatus = 'locked' | 'active' | 'completed' | 'failed';
+
+/**
+ * One objective as the quest log shows it
+ */
+export interface QuestObjectiveView {
+  label: string;
+  count: number;
+  target: number;
+  done: boolean;
+}
+
+/**
+ * One quest as the quest log shows it
+ */
+export interface QuestLogEntry {
+  quest: QuestDefinition;
+  status: QuestStatus;
+  objectives: QuestObjectiveView[];
+}
+
+/**
+ * Quests that changed state during an update
+ */
+export interface QuestChanges {
+  started: QuestDefinition[];
+  completed: QuestDefinition[];
+  failed: QuestDefinition[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Relationship module - gift recipients, their tastes and what friendship unlocks
+ */
+
+// Types
+export type {
+  GiftRecipientKind,
+  GiftTaste,
+  GiftPreferences,
+  Reciprocation,
+  RelationshipReward,
+  GiftRecipient,
+  GiftOutcome,
+  FriendView,
+} from './types';
+
+// Recipients
+export { getCampRecipient, getCrewRecipient, getCampMateRecipient, getGiftRecipient } from './recipients';
+
+// Relationships
+export {
+  TASTE_KARMA,
+  createRelationshipState,
+  getGiftTaste,
+  getRelationship,
+  getRelationshipLevel,
+  giveGift,
+  getFriends,
+} from './relationships';
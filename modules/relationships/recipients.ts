@@ -0,0 +1,111 @@
+/**
+ * Gift recipients: theme camps, art car crews and camp mates, with what they like
+ * and how they pay the player back
+ */
+
+import type { ArtCarDesign } from '../ecs';
+import type { GiftPreferences, GiftRecipient, RelationshipReward } from './types';
+
+const CAMP_RECIPIENTS: GiftRecipient[] = [
+  {
+    id: 'hell-station',
+    kind: 'camp',
+    name: 'Hell Station',
+    preferences: { loves: ['Gas Can', 'Vodka'], likes: ['Beer', 'Burrito', 'Zip Tie'], dislikes: ['Glitter', 'Plastic Bag'] },
+    rewards: [
+      { atScore: 30, reciprocation: { kind: 'returnGift', item: 'Gas Can' } },
+      { atScore: 60, reciprocation: { kind: 'invitation', event: 'Fire spinning jam', where: 'Hell Station', day: 6, hour: 22 } },
+    ],
+  },
+  {
+    id: 'center-camp',
+    kind: 'camp',
+    name: 'Center Camp',
+    preferences: { loves: ['Cooler of Ice', 'Fruit Salad'], likes: ['Water', 'Smoothie', 'Popsicle'], dislikes: ['Beer', 'Vodka'] },
+    rewards: [
+      { atScore: 25, reciprocation: { kind: 'returnGift', item: 'Cooler of Ice' } },
+      { atScore: 50, reciprocation: { kind: 'bikeRumour' } },
+      { atScore: 75, reciprocation: { kind: 'invitation', event: 'Sunrise yoga', where: 'Center Camp', day: 5, hour: 6 } },
+    ],
+  },
+  {
+    id: 'playa-camp',
+    kind: 'camp',
+    name: 'Boom Boom Womb',
+    preferences: { loves: ['LED Strip', 'Light Bulb Rainbow'], likes: ['Glow Stick', 'Battery', 'Glitter'], dislikes: ['Plastic Bag'] },
+    rewards: [
+      { atScore: 20, reciprocation: { kind: 'returnGift', item: 'Glow Stick', quantity: 3 } },
+      { atScore: 50, reciprocation: { kind: 'invitation', event: 'Womb dance party', where: 'Boom Boom Womb', day: 4, hour: 23 } },
+    ],
+  },
+];
+
+/**
+ * Art car crews see the whole playa, so they know where the bikes are
+ */
+const CREW_REWARDS: RelationshipReward[] = [
+  { atScore: 25, reciprocation: { kind: 'bikeRumour' } },
+  { atScore: 60, reciprocation: { kind: 'invitation', event: 'Burn night ride', where: 'The Man', day: 8, hour: 21 } },
+];
+
+const CREW_RECIPIENTS: Record<ArtCarDesign, { name: string; preferences: GiftPreferences }> = {
+  classic: { name: 'Disco Bus crew', preferences: { loves: ['Light Bulb Rainbow'], likes: ['Beer', 'Glitter'], dislikes: ['Water'] } },
+  fire: { name: 'Fire Dragon crew', preferences: { loves: ['Gas Can'], likes: ['Vodka', 'Fire Spinning'], dislikes: ['Cooler of Ice'] } },
+  speedy: { name: 'Speed Demon crew', preferences: { loves: ['Energy Bar'], likes: ['Gas Can', 'Battery'], dislikes: ['Funnel Cake'] } },
+  heavy: { name: 'Mega Rig crew', preferences: { loves: ['Burrito'], likes: ['Corn Dog', 'Nachos', 'Beer'], dislikes: ['Fruit Salad'] } },
+  compact: { name: 'Mini Cruiser crew', preferences: { loves: ['Popsicle'], likes: ['Trinket', 'Zip Tie'], dislikes: ['Ducting'] } },
+  alien: { name: 'UFO crew', preferences: { loves: ['Glow Stick'], likes: ['LED Strip', 'Cat Head'], dislikes: ['Boots'] } },
+  davinci: { name: 'Da Vinci crew', preferences: { loves: ['Costume'], likes: ['Cape', 'Furry Hat'], dislikes: ['Plastic Bag'] } },
+  octopus: { name: 'Fire Octopus crew', preferences: { loves: ['Vodka'], likes: ['Gas Can', 'POI'], dislikes: ['Smoothie'] } },
+};
+
+/**
+ * Camp mate tastes; each wombat gets one by its number
+ */
+const CAMP_MATE_TASTES: GiftPreferences[] = [
+  { loves: ['Grilled Cheese'], likes: ['Water', 'Trinket'], dislikes: ['Vodka'] },
+  { loves: ['Glitter'], likes: ['Costume', 'Furry Hat'], dislikes: ['Ducting'] },
+  { loves: ['Beer'], likes: ['Nachos', 'Corn Dog'], dislikes: ['Fruit Salad'] },
+  { loves: ['Smoothie'], likes: ['Popsicle', 'Ice Cream'], dislikes: ['Beer'] },
+  { loves: ['Light Bulb Rainbow'], likes: ['Glow Stick', 'LED Strip'], dislikes: ['Plastic Bag'] },
+];
+
+const CAMP_MATE_REWARDS: RelationshipReward[] = [
+  { atScore: 20, reciprocation: { kind: 'returnGift', item: 'Trinket' } },
+  { atScore: 45, reciprocation: { kind: 'bikeRumour' } },
+  { atScore: 80, reciprocation: { kind: 'invitation', event: 'Camp family dinner', where: 'Camp', day: 7, hour: 19 } },
+];
+
+const CREW_PREFIX = 'crew-';
+const CAMP_MATE_PREFIX = 'mate-';
+
+export function getCampRecipient(landmarkId: string): GiftRecipient | undefined {
+  return CAMP_RECIPIENTS.find(recipient => recipient.id === landmarkId);
+}
+
+export function getCrewRecipient(design: ArtCarDesign): GiftRecipient {
+  return { id: `${CREW_PREFIX}${design}`, kind: 'wanderer', ...CREW_RECIPIENTS[design], rewards: CREW_REWARDS };
+}
+
+/**
+ * Camp mates are known by name, so every wombat called the same is one friend
+ */
+export function getCampMateRecipient(name: string): GiftRecipient {
+  const hash = Array.from(name).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  const preferences = CAMP_MATE_TASTES[hash % CAMP_MATE_TASTES.length];
+  return { id: `${CAMP_MATE_PREFIX}${name}`, kind: 'campMate', name, preferences, rewards: CAMP_MATE_REWARDS };
+}
+
+/**
+ * Look a recipient up by id, e.g. to list friends from saved relationships
+ */
+export function getGiftRecipient(recipientId: string): GiftRecipient | undefined {
+  if (recipientId.startsWith(CAMP_MATE_PREFIX)) {
+    return getCampMateRecipient(recipientId.slice(CAMP_MATE_PREFIX.length));
+  }
+  const design = recipientId.slice(CREW_PREFIX.length);
+  if (recipientId.startsWith(CREW_PREFIX) && design in CREW_RECIPIENTS) {
+    return getCrewRecipient(design as ArtCarDesign);
+  }
+  return getCampRecipient(recipientId);
+}
@@ -0,0 +1,92 @@
+/**
+ * Relationship scores: how gifts land with a recipient and what they unlock
+ */
+
+import type { ItemType, Relationship, RelationshipState } from '../core';
+import type { FriendView, GiftOutcome, GiftRecipient, GiftTaste, Reciprocation } from './types';
+import { getGiftRecipient } from './recipients';
+
+const MAX_SCORE = 100;
+
+/**
+ * Score change per item given
+ */
+const TASTE_SCORE: Record<GiftTaste, number> = {
+  loved: 15,
+  liked: 8,
+  neutral: 3,
+  disliked: -5,
+};
+
+/**
+ * Karma multiplier per item given; a gift someone wanted is worth more
+ */
+export const TASTE_KARMA: Record<GiftTaste, number> = {
+  loved: 2,
+  liked: 1.5,
+  neutral: 1,
+  disliked: 0.5,
+};
+
+const LEVELS: Array<{ minScore: number; level: string }> = [
+  { minScore: 80, level: 'Playa family' },
+  { minScore: 50, level: 'Friend' },
+  { minScore: 20, level: 'Acquaintance' },
+  { minScore: 0, level: 'Stranger' },
+];
+
+export function createRelationshipState(): RelationshipState {
+  return {};
+}
+
+export function getGiftTaste(recipient: GiftRecipient, item: ItemType): GiftTaste {
+  const { loves, likes, dislikes } = recipient.preferences;
+  if (loves.includes(item)) return 'loved';
+  if (likes.includes(item)) return 'liked';
+  if (dislikes.includes(item)) return 'disliked';
+  return 'neutral';
+}
+
+export function getRelationship(state: RelationshipState, recipientId: string): Relationship {
+  return state[recipientId] ?? { score: 0, gifts: 0, rewardsGiven: 0 };
+}
+
+export function getRelationshipLevel(score: number): string {
+  return LEVELS.find(({ minScore }) => score >= minScore)!.level;
+}
+
+/**
+ * Record a gift, returning how it landed and any reciprocations it unlocked.
+ * Rewards are handed out once each, in score order, and never taken back.
+ */
+export function giveGift(state: RelationshipState, recipient: GiftRecipient, item: ItemType, quantity: number): GiftOutcome {
+  const relationship = { ...getRelationship(state, recipient.id) };
+  const taste = getGiftTaste(recipient, item);
+  const previous = relationship.score;
+
+  relationship.score = Math.max(0, Math.min(MAX_SCORE, previous + TASTE_SCORE[taste] * quantity));
+  relationship.gifts += quantity;
+
+  const reciprocations: Reciprocation[] = [];
+  while (relationship.rewardsGiven < recipient.rewards.length && recipient.rewards[relationship.rewardsGiven].atScore <= relationship.score) {
+    reciprocations.push(recipient.rewards[relationship.rewardsGiven].reciprocation);
+    relationship.rewardsGiven++;
+  }
+
+  state[recipient.id] = relationship;
+  return { taste, score: relationship.score, scoreChange: relationship.score - previous, reciprocations };
+}
+
+/**
+ * Everyone the player has gifted to, closest friends first
+ */
+export function getFriends(state: RelationshipState): FriendView[] {
+  return Object.entries(state).flatMap(([id, { score, gifts, rewardsGiven }]) => {
+    const recipient = getGiftRecipient(id);
+    if (!recipient) return [];
+    const invitations = recipient.rewards.slice(0, rewardsGiven)
+      .map(reward => reward.reciprocation)
+      .filter((reciprocation): reciprocation is FriendView['invitations'][number] => reciprocation.kind === 'invitation');
+    return [{ id, name: recipient.name, kind: recipient.kind, score, level: getRelationshipLevel(score), gifts, invitations }];
+  }).sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
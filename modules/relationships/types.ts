@@ -0,0 +1,65 @@
+/**
+ * Relationship module types
+ */
+
+import type { ItemType } from '../core';
+
+/**
+ * Who a gift can go to: a camp mate, an art car crew roaming the playa, or a theme camp
+ */
+export type GiftRecipientKind = 'campMate' | 'wanderer' | 'camp';
+
+export type GiftTaste = 'loved' | 'liked' | 'neutral' | 'disliked';
+
+/**
+ * Items a recipient reacts to; anything not listed is neutral
+ */
+export interface GiftPreferences {
+  loves: ItemType[];
+  likes: ItemType[];
+  dislikes: ItemType[];
+}
+
+/**
+ * What a recipient does for the player once they like them enough
+ */
+export type Reciprocation =
+  | { kind: 'returnGift'; item: ItemType; quantity?: number }
+  | { kind: 'bikeRumour' } // Points the player at the nearest free bike
+  | { kind: 'invitation'; event: string; where: string; day: number; hour: number };
+
+export interface RelationshipReward {
+  atScore: number;
+  reciprocation: Reciprocation;
+}
+
+export interface GiftRecipient {
+  id: string;
+  kind: GiftRecipientKind;
+  name: string;
+  preferences: GiftPreferences;
+  rewards: RelationshipReward[]; // Sorted by atScore
+}
+
+/**
+ * Result of handing one batch of an item to a recipient
+ */
+export interface GiftOutcome {
+  taste: GiftTaste;
+  score: number;
+  scoreChange: number;
+  reciprocations: Reciprocation[]; // Unlocked by this gift
+}
+
+/**
+ * One row of the friends panel
+ */
+export interface FriendView {
+  id: string;
+  name: string;
+  kind: GiftRecipientKind;
+  score: number;
+  level: string;
+  gifts: number;
+  invitations: Array<Extract<Reciprocation, { kind: 'invitation' }>>;
+}
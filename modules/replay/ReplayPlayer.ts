@@ -0,0 +1,62 @@
+/**
+ * Reruns a recorded replay against a fresh simulation
+ */
+
+import type { GameState } from '../core';
+import type { WorldManager } from '../worlds';
+import type { AudioPort } from '../../shared/ports';
+import type { SimulationHooks } from '../simulation';
+import type { Replay } from './types';
+import { Simulation, applySimulationCommand, createInputSnapshot } from '../simulation';
+import { ManualClock, SeededRng } from '../../shared/adapters';
+
+/**
+ * Owns its own clock and RNG so the run only depends on the replay file
+ */
+export class ReplayPlayer {
+  private readonly simulation: Simulation;
+  private readonly clock: ManualClock;
+  private nextFrame: number = 0;
+
+  constructor(
+    private readonly replay: Replay,
+    audio: AudioPort,
+    worldManager: WorldManager,
+    hooks: SimulationHooks = {}
+  ) {
+    this.clock = new ManualClock(replay.startTime);
+    const rng = new SeededRng(replay.config.seed);
+    this.simulation = new Simulation({ clock: this.clock, rng, audio, worldManager }, replay.config, hooks);
+  }
+
+  getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  isFinished(): boolean {
+    return this.nextFrame >= this.replay.frames.length;
+  }
+
+  /**
+   * Play the next recorded tick; returns false once the replay is over
+   */
+  step(): boolean {
+    if (this.isFinished()) return false;
+
+    const frame = this.replay.frames[this.nextFrame++];
+    frame.commands.forEach(command => applySimulationCommand(this.simulation, command));
+    this.clock.advance(frame.deltaTime * 1000);
+    this.simulation.step(createInputSnapshot(frame.movement, frame.justPressed), frame.deltaTime);
+    return true;
+  }
+
+  /**
+   * Play every remaining tick and return the final state
+   */
+  runToEnd(): GameState {
+    while (this.step()) {
+      // keep stepping
+    }
+    return this.simulation.getState();
+  }
+}
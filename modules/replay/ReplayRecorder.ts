@@ -0,0 +1,57 @@
+/**
+ * Records the seed, per-tick input and commands of a simulation run
+ */
+
+import type { InputSnapshot, SimulationCommand, SimulationConfig } from '../simulation';
+import type { Replay, ReplayFrame } from './types';
+import { REPLAY_VERSION } from './types';
+
+export class ReplayRecorder {
+  private frames: ReplayFrame[] = [];
+  private pendingCommands: SimulationCommand[] = [];
+
+  /**
+   * Start recording a run that begins with a fresh reset of this config
+   * at the given simulation clock time
+   */
+  constructor(
+    private readonly config: SimulationConfig,
+    private readonly startTime: number
+  ) {}
+
+  /**
+   * Remember a command; it is replayed before the next recorded tick
+   */
+  recordCommand(command: SimulationCommand): void {
+    this.pendingCommands.push(command);
+  }
+
+  /**
+   * Record the input and delta time of one simulation tick
+   */
+  recordFrame(input: InputSnapshot, deltaTime: number): void {
+    this.frames.push({
+      deltaTime,
+      movement: { ...input.movement },
+      justPressed: [...input.justPressed],
+      commands: this.pendingCommands,
+    });
+    this.pendingCommands = [];
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Snapshot of everything recorded so far
+   */
+  getReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      config: { ...this.config },
+      startTime: this.startTime,
+      frames: [...this.frames],
+    };
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Replay module - deterministic input recording and playback
+ */
+
+export type { Replay, ReplayFrame } from './types';
+export { REPLAY_VERSION } from './types';
+export { ReplayRecorder } from './ReplayRecorder';
+export { ReplayPlayer } from './ReplayPlayer';
+export { encodeReplay, decodeReplay } from './replayCodec';
@@ -0,0 +1,77 @@
+/**
+ * Compact replay file format
+ *
+ * Frames are stored as tuples instead of objects to keep files small:
+ * [deltaTime, movementX, movementY, actions?, commands?]. Numbers go through
+ * JSON unchanged, so delta times and analog movement round-trip exactly.
+ */
+
+import type { InputAction } from '../input';
+import type { SimulationCommand } from '../simulation';
+import type { Replay, ReplayFrame } from './types';
+import { REPLAY_VERSION } from './types';
+
+type EncodedFrame = [number, number, number, InputAction[]?, SimulationCommand[]?];
+
+interface EncodedReplay {
+  v: number;
+  config: Replay['config'];
+  start: number;
+  frames: EncodedFrame[];
+}
+
+function encodeFrame(frame: ReplayFrame): EncodedFrame {
+  const encoded: EncodedFrame = [frame.deltaTime, frame.movement.x, frame.movement.y];
+  if (frame.justPressed.length > 0 || frame.commands.length > 0) {
+    encoded.push(frame.justPressed);
+  }
+  if (frame.commands.length > 0) {
+    encoded.push(frame.commands);
+  }
+  return encoded;
+}
+
+function decodeFrame(encoded: EncodedFrame): ReplayFrame {
+  const [deltaTime, movementX, movementY, justPressed = [], commands = []] = encoded;
+  if (typeof deltaTime !== 'number' || typeof movementX !== 'number' || typeof movementY !== 'number') {
+    throw new Error('Invalid replay frame');
+  }
+  return {
+    deltaTime,
+    movement: { x: movementX, y: movementY },
+    justPressed,
+    commands,
+  };
+}
+
+/**
+ * Serialize a replay to a compact JSON string
+ */
+export function encodeReplay(replay: Replay): string {
+  const encoded: EncodedReplay = {
+    v: replay.version,
+    config: replay.config,
+    start: replay.startTime,
+    frames: replay.frames.map(encodeFrame),
+  };
+  return JSON.stringify(encoded);
+}
+
+/**
+ * Parse a replay file, rejecting unknown versions
+ */
+export function decodeReplay(text: string): Replay {
+  const encoded = JSON.parse(text) as EncodedReplay;
+  if (encoded.v !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${encoded.v}`);
+  }
+  if (!encoded.config || !Array.isArray(encoded.frames)) {
+    throw new Error('Invalid replay file');
+  }
+  return {
+    version: encoded.v,
+    config: encoded.config,
+    startTime: encoded.start,
+    frames: encoded.frames.map(decodeFrame),
+  };
+}
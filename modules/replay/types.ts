@@ -0,0 +1,30 @@
+/**
+ * Replay types - a seed plus every tick's input, enough to rerun a session exactly
+ */
+
+import type { Vec2 } from '../core';
+import type { InputAction } from '../input';
+import type { SimulationCommand, SimulationConfig } from '../simulation';
+
+export const REPLAY_VERSION = 3; // 2: frames record actions instead of keys; 3: movement vectors instead of directions
+
+/**
+ * One simulation tick: its delta time, movement vector, newly pressed actions
+ * and any commands issued since the previous tick
+ */
+export interface ReplayFrame {
+  deltaTime: number; // seconds
+  movement: Vec2;
+  justPressed: InputAction[];
+  commands: SimulationCommand[];
+}
+
+/**
+ * A full recorded session
+ */
+export interface Replay {
+  version: number;
+  config: SimulationConfig; // includes the RNG seed
+  startTime: number; // simulation clock time when recording began (ms)
+  frames: ReplayFrame[];
+}
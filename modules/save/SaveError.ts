@@ -0,0 +1,15 @@
+/**
+ * Error raised when a save cannot be read
+ */
+
+import type { SaveErrorCode } from './types';
+
+export class SaveError extends Error {
+  readonly code: SaveErrorCode;
+
+  constructor(code: SaveErrorCode, message: string) {
+    super(message);
+    this.name = 'SaveError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Save slot manager - named slots plus rotating autosaves on the Storage port
+ */
+
+import type { GameState } from '../core';
+import type { WorldState } from '../worlds';
+import type { Storage } from '../../shared/ports';
+import type { SaveFile } from './types';
+import type { SaveSlotInfo, SaveSlotKind, SaveSlotMetadata } from './saveSlots';
+import { encodeSave, decodeSave } from './saveCodec';
+
+const SLOT_KEY_PREFIX = 'save_';
+const AUTOSAVE_PREFIX = 'autosave-';
+
+export interface SaveSlotManagerOptions {
+  autosaveSlots?: number; // how many autosaves to rotate through
+}
+
+function isSaveFile(value: unknown): value is SaveFile {
+  return typeof value === 'object' && value !== null && 'savedAt' in value;
+}
+
+export class SaveSlotManager {
+  private storage: Storage;
+  private autosaveSlots: number;
+
+  constructor(storage: Storage, options: SaveSlotManagerOptions = {}) {
+    this.storage = storage;
+    this.autosaveSlots = Math.max(1, options.autosaveSlots ?? 3);
+  }
+
+  private getKey(slotId: string): string {
+    return SLOT_KEY_PREFIX + slotId;
+  }
+
+  private getKind(slotId: string): SaveSlotKind {
+    return slotId.startsWith(AUTOSAVE_PREFIX) ? 'autosave' : 'manual';
+  }
+
+  /**
+   * All saved slots, newest first
+   */
+  async listSlots(): Promise<SaveSlotInfo[]> {
+    const slotIds = (await this.storage.keys())
+      .filter(key => key.startsWith(SLOT_KEY_PREFIX))
+      .map(key => key.substring(SLOT_KEY_PREFIX.length));
+
+    const slots = await Promise.all(slotIds.map(async (slotId): Promise<SaveSlotInfo> => {
+      const save = await this.storage.load<unknown>(this.getKey(slotId));
+      const file = isSaveFile(save) ? save : null;
+      return {
+        slotId,
+        kind: this.getKind(slotId),
+        savedAt: file?.savedAt ?? 0,
+        metadata: file?.metadata ?? null,
+      };
+    }));
+
+    return slots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Write a game state and every world's state to a slot
+   */
+  async save(slotId: string, gameState: GameState, metadata: SaveSlotMetadata, savedAt: number, worlds: Record<string, WorldState> = {}): Promise<SaveSlotInfo> {
+    const file: SaveFile = { ...encodeSave(gameState, savedAt, worlds), metadata };
+    await this.storage.save(this.getKey(slotId), file);
+    return { slotId, kind: this.getKind(slotId), savedAt, metadata };
+  }
+
+  /**
+   * Read a slot, or null if it is empty. Throws SaveError for corrupt or too-new saves.
+   */
+  async load(slotId: string): Promise<{ gameState: GameState; worlds: Record<string, WorldState>; metadata: SaveSlotMetadata | null } | null> {
+    const save = await this.storage.load<unknown>(this.getKey(slotId));
+    if (save === null || save === undefined) {
+      return null;
+    }
+    const { gameState, worlds } = decodeSave(save);
+    return { gameState, worlds, metadata: isSaveFile(save) ? save.metadata ?? null : null };
+  }
+
+  async exists(slotId: string): Promise<boolean> {
+    return this.storage.exists(this.getKey(slotId));
+  }
+
+  async remove(slotId: string): Promise<void> {
+    await this.storage.remove(this.getKey(slotId));
+  }
+
+  /**
+   * Autosave into the next slot in the rotation: an empty one, else the oldest
+   */
+  async autosave(gameState: GameState, metadata: SaveSlotMetadata, savedAt: number, worlds: Record<string, WorldState> = {}): Promise<SaveSlotInfo> {
+    // Encode before awaiting so the snapshot matches the moment of the autosave
+    const file: SaveFile = { ...encodeSave(gameState, savedAt, worlds), metadata };
+
+    const existing = new Map(
+      (await this.listSlots())
+        .filter(slot => slot.kind === 'autosave')
+        .map(slot => [slot.slotId, slot.savedAt])
+    );
+
+    let target = `${AUTOSAVE_PREFIX}1`;
+    let oldest = Infinity;
+    for (let index = 1; index <= this.autosaveSlots; index++) {
+      const slotId = `${AUTOSAVE_PREFIX}${index}`;
+      const slotSavedAt = existing.get(slotId) ?? -Infinity;
+      if (slotSavedAt < oldest) {
+        oldest = slotSavedAt;
+        target = slotId;
+      }
+    }
+
+    await this.storage.save(this.getKey(target), file);
+    return { slotId: target, kind: 'autosave', savedAt, metadata };
+  }
+}
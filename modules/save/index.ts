@@ -0,0 +1,13 @@
+/**
+ * Save module - versioned save files with migrations
+ */
+
+export type { SaveFile, SaveErrorCode } from './types';
+export { SAVE_SCHEMA_VERSION } from './types';
+export { SaveError } from './SaveError';
+export { encodeSave, decodeSave } from './saveCodec';
+export { migrateSave, SAVE_MIGRATIONS, type SaveMigration } from './migrations';
+export { toJsonSafe, fromJsonSafe } from './jsonSafe';
+export type { SaveSlotKind, SaveSlotMetadata, SaveSlotInfo } from './saveSlots';
+export { createSaveSlotMetadata } from './saveSlots';
+export { SaveSlotManager, type SaveSlotManagerOptions } from './SaveSlotManager';
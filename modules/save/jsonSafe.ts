@@ -0,0 +1,74 @@
+/**
+ * Explicit JSON encoding for Sets and Maps
+ *
+ * JSON.stringify turns both into `{}`, so they are tagged on the way out
+ * and rebuilt on the way in.
+ */
+
+interface TaggedSet {
+  $set: unknown[];
+}
+
+interface TaggedMap {
+  $map: [unknown, unknown][];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTaggedSet(value: Record<string, unknown>): value is Record<string, unknown> & TaggedSet {
+  return Array.isArray(value.$set) && Object.keys(value).length === 1;
+}
+
+function isTaggedMap(value: Record<string, unknown>): value is Record<string, unknown> & TaggedMap {
+  return Array.isArray(value.$map) && Object.keys(value).length === 1;
+}
+
+/**
+ * Convert a value to plain JSON data, tagging Sets and Maps
+ */
+export function toJsonSafe(value: unknown): unknown {
+  if (value instanceof Set) {
+    return { $set: Array.from(value, toJsonSafe) };
+  }
+  if (value instanceof Map) {
+    return { $map: Array.from(value, ([key, entry]) => [toJsonSafe(key), toJsonSafe(entry)]) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonSafe);
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        result[key] = toJsonSafe(entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Rebuild Sets and Maps from data produced by toJsonSafe
+ */
+export function fromJsonSafe(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(fromJsonSafe);
+  }
+  if (isPlainObject(value)) {
+    if (isTaggedSet(value)) {
+      return new Set(value.$set.map(fromJsonSafe));
+    }
+    if (isTaggedMap(value)) {
+      return new Map(value.$map.map(([key, entry]) => [fromJsonSafe(key), fromJsonSafe(entry)]));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = fromJsonSafe(entry);
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,55 @@
+/**
+ * Raw save data helpers shared by the migrations
+ */
+
+import { isObject } from '../../shared/definitions';
+import { SaveError } from './SaveError';
+
+/**
+ * A JSON object read from storage; each migration narrows the fields it touches
+ */
+export type SaveData = Record<string, unknown>;
+
+export function asNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+/**
+ * The objects in a JSON array, or none when the value is not an array
+ */
+export function asList(value: unknown): SaveData[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/**
+ * The save's game state, or a corrupt-save error naming the version being migrated
+ */
+export function requireGameState(save: SaveData, version: number): SaveData {
+  if (!isObject(save.gameState)) {
+    throw new SaveError('corrupt', `Save ${version} has no game state`);
+  }
+  return save.gameState;
+}
+
+export function requirePlayer(gameState: SaveData, version: number | string): SaveData {
+  if (!isObject(gameState.player)) {
+    throw new SaveError('corrupt', `Save ${version} has no player`);
+  }
+  return gameState.player;
+}
+
+/**
+ * An entity store as it is written to a save
+ */
+export type EntityStoreData = { ids: string[]; kinds: Record<string, string>; components: Record<string, Record<string, unknown>> };
+
+/**
+ * Add one entity and its components to a raw entity store
+ */
+export function addEntityData(store: EntityStoreData, id: string, kind: string, components: SaveData): void {
+  store.ids.push(id);
+  store.kinds[id] = kind;
+  Object.entries(components).forEach(([name, component]) => {
+    (store.components[name] ??= {})[id] = component;
+  });
+}
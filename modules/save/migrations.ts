@@ -0,0 +1,290 @@
+/**
+ * Save migrations - each one upgrades a save by exactly one schema version
+ *
+ * Migrations work on raw JSON data and must not import current game code:
+ * they describe the shape GameState had at the time, not today's shape.
+ */
+
+import type { SaveFile } from './types';
+import { SAVE_SCHEMA_VERSION } from './types';
+import { SaveError } from './SaveError';
+import type { EntityStoreData, SaveData } from './migrationData';
+import { isObject } from '../../shared/definitions';
+import { addEntityData, asList, asNumber, requireGameState, requirePlayer } from './migrationData';
+
+/**
+ * Upgrade a save from the version it is keyed under to the next one
+ */
+export type SaveMigration = (save: SaveData) => SaveData;
+
+/**
+ * Player fields that were not present in every 1.0.0 save
+ */
+const V2_PLAYER_DEFAULTS = {
+  isResting: false,
+  lightsOn: false,
+  totalDrugsTaken: 0,
+  totalTimeOnDrugs: 0,
+  actualPlayTime: 0,
+  totalDistanceTraveled: 0,
+  moodStreakHigh: 0,
+  moodStreakLow: 0,
+  lastMoodValue: 100,
+  balancedStatsTime: 0,
+  totalItemsGifted: 0,
+  totalKarmaGifted: 0,
+  totemUsedDuringManBurn: false,
+  lightEffects: [],
+};
+
+const V2_STAT_DEFAULTS = {
+  lightBattery: 0,
+  bathroom: 0,
+};
+
+/**
+ * 1.0.0 → 2: wrap in SaveFile, restore the Set and Map that JSON.stringify
+ * flattened to `{}` (their contents are lost), and fill missing Player fields
+ */
+function migrateV1ToV2(save: SaveData): SaveData {
+  const gameState = isObject(save.gameState) ? save.gameState : {};
+  const player = requirePlayer(gameState, '1.0.0');
+  const inventory = isObject(player.inventory) ? player.inventory : {};
+
+  return {
+    schemaVersion: 2,
+    savedAt: typeof save.timestamp === 'number' ? save.timestamp : 0,
+    gameState: {
+      ...gameState,
+      player: {
+        ...V2_PLAYER_DEFAULTS,
+        gameStartTime: 0,
+        lastMoodTime: 0,
+        lastPosition: player.position,
+        ...player,
+        stats: { ...V2_STAT_DEFAULTS, ...(isObject(player.stats) ? player.stats : {}) },
+        achievements: { $set: [] },
+        inventory: { ...inventory, items: { $map: [] } },
+      },
+    },
+  };
+}
+
+/**
+ * 2 → 3: move the coin, moop, gas can, art car, portopotty and Hell Station
+ * arrays into the entity store
+ */
+function migrateV2ToV3(save: SaveData): SaveData {
+  const { coins, moop, gasCans, artCars, portopotties, hellStation, ...gameState } = requireGameState(save, 2);
+  const store: EntityStoreData = { ids: [], kinds: {}, components: {} };
+
+  asList(coins).forEach(coin => addEntityData(store, String(coin.id), 'coin', {
+    position: coin.position,
+    collider: { radius: 12 },
+    collectible: { kind: 'coin', value: coin.value, collected: coin.collected },
+    renderable: { sprite: 'coin', scale: 1 },
+  }));
+  asList(moop).forEach(item => addEntityData(store, String(item.id), 'moop', {
+    position: item.position,
+    collider: { radius: item.radius },
+    collectible: { kind: 'moop', value: item.karmaReward, collected: item.collected },
+    renderable: { sprite: 'moop', variant: item.type, scale: 1 },
+  }));
+  if (isObject(hellStation) && isObject(hellStation.aabb)) {
+    const { id, aabb, spawnIntervalMs, maxCans, lastSpawnAt } = hellStation;
+    addEntityData(store, String(id), 'hellStation', {
+      position: { x: aabb.x, y: aabb.y },
+      collider: { radius: 0, box: aabb },
+      spawner: { spawnIntervalMs, maxCans, lastSpawnAt },
+      renderable: { sprite: 'hellStation', scale: 1 },
+    });
+  }
+  asList(gasCans).forEach(can => addEntityData(store, String(can.id), 'gasCan', {
+    position: can.pos,
+    collider: { radius: 10 },
+    carriable: { carried: can.active },
+    renderable: { sprite: 'gasCan', scale: 1 },
+  }));
+  asList(artCars).forEach(car => addEntityData(store, String(car.id), 'artCar', {
+    position: car.pos,
+    velocity: car.vel,
+    collider: { radius: 30 * asNumber(car.size, 1), box: car.platformAabb },
+    fuel: { fuel: car.fuel, fuelMax: car.fuelMax, fuelLowThreshold: car.fuelLowThreshold },
+    ai: car.path ? { state: car.state, path: car.path } : { state: car.state },
+    vehicle: car.holder ? { speed: car.speed, holder: car.holder } : { speed: car.speed },
+    renderable: { sprite: 'artCar', variant: car.design, scale: car.size },
+  }));
+  asList(portopotties).forEach(({ id, position, aabb, ...portopotty }) => addEntityData(store, String(id), 'portopotty', {
+    position,
+    collider: { radius: 0, box: aabb },
+    portopotty,
+    renderable: { sprite: 'portopotty', scale: 1 },
+  }));
+
+  return { ...save, schemaVersion: 3, gameState: { ...gameState, entities: store } };
+}
+
+/**
+ * Recipes every version 3 player could already auto-craft without a workbench
+ */
+const V4_KNOWN_RECIPES = ['glitter-rope', 'cape'];
+
+/**
+ * 3 → 4: give the player crafting state with the starter recipes and an idle workbench
+ */
+function migrateV3ToV4(save: SaveData): SaveData {
+  const crafting = { known: [...V4_KNOWN_RECIPES], job: null };
+  return { ...save, schemaVersion: 4, gameState: { ...requireGameState(save, 3), crafting } };
+}
+
+/**
+ * 4 → 5: the player starts with no item effects or buffs running
+ */
+function migrateV4ToV5(save: SaveData): SaveData {
+  const gameState = requireGameState(save, 4);
+  return { ...save, schemaVersion: 5, gameState: { ...gameState, player: { ...requirePlayer(gameState, 4), itemEffects: [] } } };
+}
+
+/**
+ * Slots for the items a version 5 player could have equipped
+ */
+const V6_EQUIPMENT_SLOTS: Record<string, string> = {
+  'Totem': 'held',
+  'Cape': 'back',
+  'POI': 'hands',
+  'Fire Spinning': 'hands',
+  'Costume': 'body',
+};
+
+function migrateV5ToV6(save: SaveData): SaveData {
+  const gameState = requireGameState(save, 5);
+  const { equippedItem, ...player } = requirePlayer(gameState, 5);
+  const slot = typeof equippedItem === 'string' ? V6_EQUIPMENT_SLOTS[equippedItem] : undefined;
+  const equipment = slot ? { [slot]: equippedItem } : {};
+  return { ...save, schemaVersion: 6, gameState: { ...gameState, player: { ...player, equipment } } };
+}
+
+function migrateV6ToV7(save: SaveData): SaveData {
+  const quests = { active: {}, completed: [], failed: [] };
+  return { ...save, schemaVersion: 7, gameState: { ...requireGameState(save, 6), quests } };
+}
+
+function migrateV7ToV8(save: SaveData): SaveData {
+  return { ...save, schemaVersion: 8, gameState: { ...requireGameState(save, 7), relationships: {} } };
+}
+
+function migrateV8ToV9(save: SaveData): SaveData {
+  const camp = { stash: {}, moopSwept: 0 };
+  return { ...save, schemaVersion: 9, gameState: { ...requireGameState(save, 8), camp } };
+}
+
+/**
+ * Player fields that only tracked achievements; version 10 drops them
+ */
+const V10_DROPPED_PLAYER_FIELDS = [
+  'totalDistanceTraveled', 'lastPosition', 'moodStreakHigh', 'moodStreakLow', 'lastMoodValue', 'lastMoodTime',
+  'balancedStatsTime', 'totalItemsGifted', 'totalKarmaGifted', 'totemUsedDuringManBurn',
+];
+
+/**
+ * 9 → 10: achievement tracking moves off the player into rule progress;
+ * running totals carry over, streaks start again
+ */
+function migrateV9ToV10(save: SaveData): SaveData {
+  const gameState = requireGameState(save, 9);
+  const oldPlayer = requirePlayer(gameState, 9);
+  const totalDrugsTaken = asNumber(oldPlayer.totalDrugsTaken, 0);
+  const player = Object.fromEntries(
+    Object.entries(oldPlayer).filter(([field]) => !V10_DROPPED_PLAYER_FIELDS.includes(field))
+  );
+  const counters = {
+    playaKm: asNumber(oldPlayer.totalDistanceTraveled, 0) / 1000,
+    itemsGifted: asNumber(oldPlayer.totalItemsGifted, 0),
+    karmaGifted: asNumber(oldPlayer.totalKarmaGifted, 0),
+    drugsTaken: totalDrugsTaken,
+  };
+  const achievementProgress = { counters, streaks: {}, steps: {} };
+  return { ...save, schemaVersion: 10, gameState: { ...gameState, player: { ...player, totalDrugsTaken }, achievementProgress } };
+}
+
+/**
+ * 10 → 11: world states move into the save file. Older saves kept them under
+ * keys shared by every slot, so the slot's own copy is unknown; worlds start afresh
+ */
+function migrateV10ToV11(save: SaveData): SaveData {
+  requireGameState(save, 10);
+  return { ...save, schemaVersion: 11, worlds: {} };
+}
+
+/**
+ * An entity store with a world's version 11 items added as world item entities
+ */
+function addWorldItemEntities(entities: unknown, items: unknown): EntityStoreData {
+  const store: EntityStoreData = isObject(entities) ? structuredClone(entities as EntityStoreData) : { ids: [], kinds: {}, components: {} };
+  asList(items).forEach(item => {
+    const data = isObject(item.data) ? item.data : {};
+    const worldItem = { subtype: data.subtype, lightBulbType: item.lightBulbType, dropTime: item.dropTime, placed: data.placed };
+    addEntityData(store, String(item.id), 'worldItem', {
+      position: item.position,
+      collider: { radius: 15 },
+      collectible: { kind: 'item', value: asNumber(data.value, 1), collected: item.collected },
+      renderable: { sprite: 'worldItem', variant: item.type, scale: 1 },
+      worldItem: Object.fromEntries(Object.entries(worldItem).filter(([, value]) => value !== undefined)),
+    });
+  });
+  return store;
+}
+
+/**
+ * 11 → 12: world items (water, food, drugs, light bulbs, bikes and placed
+ * objects) move from each world's item list into its entity store. Version 11
+ * stored the current world's entities just before saving, so the world whose
+ * store matches the game state's is the one in play; its items join the game state too.
+ */
+function migrateV11ToV12(save: SaveData): SaveData {
+  const gameState = requireGameState(save, 11);
+  const entitiesInPlay = JSON.stringify(gameState.entities);
+  let entities = gameState.entities;
+
+  const worlds = Object.fromEntries(Object.entries(isObject(save.worlds) ? save.worlds : {}).map(([worldId, world]) => {
+    if (!isObject(world)) return [worldId, world];
+    const store = addWorldItemEntities(world.entities, world.items);
+    if (JSON.stringify(world.entities) === entitiesInPlay) {
+      entities = addWorldItemEntities(entities, world.items);
+    }
+    return [worldId, { ...world, items: [], entities: store }];
+  }));
+  return { ...save, schemaVersion: 12, gameState: { ...gameState, entities }, worlds };
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+  6: migrateV6ToV7,
+  7: migrateV7ToV8,
+  8: migrateV8ToV9,
+  9: migrateV9ToV10,
+  10: migrateV10ToV11,
+  11: migrateV11ToV12,
+};
+
+/**
+ * Run every migration between a save's version and the current one
+ */
+export function migrateSave(save: SaveData, fromVersion: number): SaveFile {
+  let current = save;
+  for (let version = fromVersion; version < SAVE_SCHEMA_VERSION; version++) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new SaveError('missing-migration', `No migration from save version ${version} to ${version + 1}`);
+    }
+    current = migration(current);
+  }
+  return { ...current, schemaVersion: SAVE_SCHEMA_VERSION, savedAt: asNumber(current.savedAt, 0), gameState: current.gameState, worlds: current.worlds };
+}
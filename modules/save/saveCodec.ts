@@ -0,0 +1,92 @@
+/**
+ * Save codec - turns GameState into a versioned save file and back
+ */
+
+import type { GameState } from '../core';
+import type { WorldState } from '../worlds';
+import type { SaveFile } from './types';
+import { SAVE_SCHEMA_VERSION } from './types';
+import { SaveError } from './SaveError';
+import { toJsonSafe, fromJsonSafe } from './jsonSafe';
+import { migrateSave } from './migrations';
+import { isObject } from '../../shared/definitions';
+
+const LEGACY_VERSION = '1.0.0';
+
+/**
+ * Build a save file for the current schema version
+ */
+export function encodeSave(gameState: GameState, savedAt: number, worlds: Record<string, WorldState> = {}): SaveFile {
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    savedAt,
+    gameState: toJsonSafe(gameState),
+    worlds: toJsonSafe(worlds),
+  };
+}
+
+/**
+ * Work out which schema version a stored save was written with
+ */
+function detectSaveVersion(save: Record<string, unknown>): number {
+  if (typeof save.schemaVersion === 'number' && Number.isInteger(save.schemaVersion) && save.schemaVersion >= 1) {
+    return save.schemaVersion;
+  }
+  if (save.version === LEGACY_VERSION && 'gameState' in save) {
+    return 1;
+  }
+  throw new SaveError('corrupt', 'Save has no recognizable version');
+}
+
+/**
+ * Check the fields every GameState must have before handing it to the game
+ */
+function assertGameStateShape(gameState: unknown): asserts gameState is GameState {
+  if (!isObject(gameState) || !isObject(gameState.player) || !isObject(gameState.time)) {
+    throw new SaveError('corrupt', 'Save is missing player or time data');
+  }
+  const player = gameState.player;
+  if (!isObject(player.position) || !isObject(player.stats)) {
+    throw new SaveError('corrupt', 'Save player has no position or stats');
+  }
+  if (!(player.achievements instanceof Set) || !isObject(player.inventory) || !(player.inventory.items instanceof Map)) {
+    throw new SaveError('corrupt', 'Save player achievements or inventory are malformed');
+  }
+  if (!isObject(gameState.entities) || !Array.isArray(gameState.entities.ids)) {
+    throw new SaveError('corrupt', 'Save has no entity store');
+  }
+}
+
+/**
+ * Read a stored save (a SaveFile, its JSON text, or a 1.0.0 save),
+ * migrating it to the current schema. Throws SaveError when the save is
+ * corrupt or was written by a newer version of the game.
+ */
+export function decodeSave(stored: unknown): { gameState: GameState; savedAt: number; worlds: Record<string, WorldState> } {
+  let save = stored;
+  if (typeof save === 'string') {
+    try {
+      save = JSON.parse(save);
+    } catch {
+      throw new SaveError('corrupt', 'Save is not valid JSON');
+    }
+  }
+  if (!isObject(save)) {
+    throw new SaveError('corrupt', 'Save is not an object');
+  }
+
+  const version = detectSaveVersion(save);
+  if (version > SAVE_SCHEMA_VERSION) {
+    throw new SaveError('too-new', `Save version ${version} is newer than this game supports (${SAVE_SCHEMA_VERSION}); please update the game`);
+  }
+
+  const migrated = migrateSave(save, version);
+  const gameState = fromJsonSafe(migrated.gameState);
+  assertGameStateShape(gameState);
+  const worlds = fromJsonSafe(migrated.worlds);
+  if (!isObject(worlds)) {
+    throw new SaveError('corrupt', 'Save world states are malformed');
+  }
+
+  return { gameState, savedAt: migrated.savedAt, worlds: worlds as Record<string, WorldState> };
+}
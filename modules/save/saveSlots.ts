@@ -0,0 +1,55 @@
+/**
+ * Save slot metadata - the summary shown in the load/save menu
+ */
+
+import type { GameState } from '../core';
+import { calculatePlayerArchetype } from '../core';
+
+export type SaveSlotKind = 'manual' | 'autosave';
+
+/**
+ * What a slot shows without loading the full game state
+ */
+export interface SaveSlotMetadata {
+  day: number;
+  hour: number;
+  worldId: string;
+  coins: number;
+  karma: number;
+  playTimeSeconds: number;
+  archetype: string | null; // archetype the player is currently heading toward
+}
+
+/**
+ * A listed slot; metadata is null for saves written before slots existed
+ */
+export interface SaveSlotInfo {
+  slotId: string;
+  kind: SaveSlotKind;
+  savedAt: number;
+  metadata: SaveSlotMetadata | null;
+}
+
+/**
+ * Summarize a game state for the slot list
+ */
+export function createSaveSlotMetadata(gameState: GameState, worldId: string): SaveSlotMetadata {
+  const { player, time } = gameState;
+  const archetype = calculatePlayerArchetype(
+    player.stats,
+    player.achievements,
+    player.inventory,
+    player.totalDrugsTaken,
+    time.totalMinutes / 60
+  );
+
+  return {
+    day: time.day,
+    hour: time.hour,
+    worldId,
+    coins: player.stats.coins,
+    karma: player.stats.karma,
+    playTimeSeconds: player.actualPlayTime ?? 0,
+    archetype: archetype ? `${archetype.emoji} ${archetype.name}` : null,
+  };
+}
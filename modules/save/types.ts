@@ -0,0 +1,24 @@
+/**
+ * Save file types
+ */
+
+import type { SaveSlotMetadata } from './saveSlots';
+
+/**
+ * Current save schema version. Bump it and add a migration whenever
+ * the shape of GameState changes.
+ */
+export const SAVE_SCHEMA_VERSION = 12;
+
+/**
+ * What gets written to storage: a JSON-safe game state plus metadata
+ */
+export interface SaveFile {
+  schemaVersion: number;
+  savedAt: number; // timestamp when the game was saved
+  gameState: unknown; // GameState with Sets and Maps tagged for JSON
+  worlds: unknown; // every world's WorldState by world id, tagged the same way
+  metadata?: SaveSlotMetadata; // slot summary, written by SaveSlotManager
+}
+
+export type SaveErrorCode = 'corrupt' | 'too-new' | 'missing-migration';
@@ -0,0 +1,299 @@
+/**
+ * Headless simulation - advances the game rules one input snapshot at a time
+ */
+
+import type { CraftingRecipe, CraftResult, GameState, ItemType, WeatherType } from '../core';
+import type { DialogueChoiceResult } from '../dialogue';
+import type { GiftOutcome, GiftRecipient } from '../relationships';
+import type { SpatialIndex } from '../spatial';
+import type { WorldState } from '../worlds';
+import type { CampJob, CampMate, InputSnapshot, SimulationConfig, SimulationContext, SimulationDeps, SimulationHooks, SimulationProgress } from './types';
+import { distance, getNotificationSystem } from '../core';
+import { EventBus } from '../events';
+import { indexEntities } from '../ecs';
+import { NavigationCache, createWorldNavGrid } from '../navigation';
+import { createInitialGameState, createRuntime, generateCampMates, CAMP_CENTER } from './initialState';
+import { createWorldSpatialIndex, resetSpatialIndex, loadCurrentWorldEntities } from './worldEntities';
+import { storeWorldEntities, adoptLoadedWorld } from './worldPersistence';
+import { advanceGameTime, updatePlayerMovement, resetPlayerMotion, moveMountedBike, skipToNextDay, skipToPreviousDay, skipToNextHour } from './playerMovement';
+import { updateWeather, forceWeather } from './weather';
+import { applyNaturalDecay, applyRestingEffects, checkStatWarnings } from './vitals';
+import { checkPickups } from './collection';
+import { isAtWorkbench, craftAtWorkbench, talkToCamp, updateCrafting } from './crafting';
+import { chooseDialogueOption } from './dialogue';
+import { updateQuestLog } from './quests';
+import { updateHellStationAndArtCars, checkArtCarMount, checkArtCarHail } from './artCars';
+import { updateCampMates } from './campMates';
+import { assignCampJob, isAtJobBoard } from './campJobs';
+import { updateAchievements, getSimulationProgress } from './achievements';
+import { updatePortopotties } from './portopotties';
+import { checkQuickSlots, useInventoryItem } from './items';
+import { checkRestHotkeys, toggleRest, toggleLights, toggleTotem, wakeUp } from './playerActions';
+import { findGiftRecipients, giftItem, giftAllItems } from './gifts';
+import { getRecentCoinChange, getRecentKarmaChange } from './hudDeltas';
+import { createInputSnapshot } from './input';
+import { subscribeEventReactions } from './eventReactions';
+
+const FRAME_MS = 16;
+
+/**
+ * Owns the game state and applies every game rule without touching the DOM.
+ * The UI feeds it input snapshots and reacts through SimulationHooks and game events.
+ */
+export class Simulation {
+  private ctx!: SimulationContext;
+  private readonly events = new EventBus(); // Subscriptions outlive reset()
+
+  constructor(
+    private readonly deps: SimulationDeps,
+    private readonly config: SimulationConfig,
+    private readonly hooks: SimulationHooks = {}
+  ) {
+    this.reset();
+    subscribeEventReactions(this.events, () => this.ctx);
+  }
+
+  /**
+   * Start a new week at camp with fresh worlds and a freshly seeded RNG
+   */
+  reset(): void {
+    const { rng, worldManager } = this.deps;
+    rng.setSeed(this.config.seed);
+    worldManager.getWorldStateManager().clearAllWorldStates();
+    worldManager.forceTransitionToWorld('camp', { ...CAMP_CENTER });
+
+    const state = createInitialGameState(this.config, rng, this.deps.clock.now());
+    // Reset RNG so coin spawning is deterministic after art cars are created
+    rng.setSeed(this.config.seed);
+
+    this.ctx = {
+      ...this.deps,
+      state,
+      config: this.config,
+      hooks: this.hooks,
+      events: this.events,
+      spatialIndex: createWorldSpatialIndex(worldManager),
+      // Grids are built on first use in a world, so the Hell Station comes from that world's entities
+      navigation: new NavigationCache(worldId => createWorldNavGrid(worldId, this.ctx.state.entities)),
+      runtime: createRuntime(),
+    };
+    resetPlayerMotion(this.ctx);
+
+    // The initial state carries the playa's fixtures; park them there until it is entered
+    storeWorldEntities(this.ctx, 'playa');
+    loadCurrentWorldEntities(this.ctx);
+    this.ctx.runtime.campMates = generateCampMates(rng);
+  }
+
+  /**
+   * Replace the game state with a saved one
+   */
+  loadState(savedState: GameState): void {
+    this.ctx.state = { ...savedState };
+    adoptLoadedWorld(this.ctx);
+    resetPlayerMotion(this.ctx);
+    resetSpatialIndex(this.ctx);
+    indexEntities(this.ctx.spatialIndex, this.ctx.state.entities);
+  }
+
+  /** Write the current world's entities into its world state and copy every world for a save slot */
+  snapshotWorlds(): Record<string, WorldState> {
+    storeWorldEntities(this.ctx, this.ctx.worldManager.getCurrentWorldId());
+    return this.ctx.worldManager.getWorldStateManager().getAllWorldStates();
+  }
+
+  getState(): GameState {
+    return this.ctx.state;
+  }
+
+  getEvents(): EventBus {
+    return this.events;
+  }
+
+  getSpatialIndex(): SpatialIndex {
+    return this.ctx.spatialIndex;
+  }
+
+  getCampMates(): CampMate[] {
+    return this.ctx.runtime.campMates;
+  }
+
+  getProgress(): SimulationProgress {
+    return getSimulationProgress(this.ctx);
+  }
+
+  getRecentCoinChange(): number {
+    return getRecentCoinChange(this.ctx.runtime, this.ctx.clock.now());
+  }
+
+  getRecentKarmaChange(): number {
+    return getRecentKarmaChange(this.ctx.runtime, this.ctx.clock.now());
+  }
+
+  /**
+   * Advance the simulation by one tick
+   */
+  step(input: InputSnapshot, deltaTime: number): void {
+    const ctx = this.ctx;
+    const { state, runtime } = ctx;
+    if (state.gameEnded) return;
+
+    state.player.actualPlayTime = (state.player.actualPlayTime ?? 0) + deltaTime;
+    advanceGameTime(ctx, deltaTime);
+    updateWeather(ctx, deltaTime);
+    updateCrafting(ctx);
+    updateQuestLog(ctx);
+    updateCampMates(ctx, deltaTime);
+
+    updatePlayerMovement(ctx, input, deltaTime);
+    moveMountedBike(ctx);
+
+    const distanceMoved = runtime.lastPlayerPosition ? distance(runtime.lastPlayerPosition, state.player.position) : 0;
+    applyNaturalDecay(ctx, distanceMoved, deltaTime);
+    applyRestingEffects(ctx, deltaTime);
+    runtime.lastPlayerPosition = { ...state.player.position };
+
+    // Pickups and art cars run every few frames to reduce CPU load
+    const frame = Math.floor(ctx.clock.now() / FRAME_MS);
+    if (frame % 2 === 0) {
+      checkPickups(ctx, input);
+    }
+
+    checkQuickSlots(ctx, input);
+    checkRestHotkeys(ctx, input);
+
+    if (ctx.worldManager.getCurrentWorldId() === 'playa') {
+      checkArtCarHail(ctx, input);
+      if (frame % 3 === 0) updateHellStationAndArtCars(ctx, deltaTime);
+    }
+
+    getNotificationSystem().updateNotifications(deltaTime);
+
+    updatePortopotties(ctx);
+    checkStatWarnings(ctx);
+    updateAchievements(ctx, distanceMoved, deltaTime);
+  }
+
+  /**
+   * Use an inventory item (drop, equip or consume)
+   */
+  useItem(itemType: ItemType): void {
+    this.hooks.onCommand?.({ type: 'useItem', itemType });
+    useInventoryItem(this.ctx, itemType);
+  }
+
+  /**
+   * Camps, art car crews and camp mates close enough to take a gift
+   */
+  getGiftRecipients(): GiftRecipient[] {
+    return findGiftRecipients(this.ctx);
+  }
+
+  giftItem(recipientId: string, itemType: ItemType, amount: number): GiftOutcome | null {
+    this.hooks.onCommand?.({ type: 'giftItem', recipientId, itemType, amount });
+    return giftItem(this.ctx, recipientId, itemType, amount);
+  }
+
+  /**
+   * Gift the whole inventory to one recipient, returning the karma earned
+   */
+  giftAll(recipientId: string): number {
+    this.hooks.onCommand?.({ type: 'giftAll', recipientId });
+    return giftAllItems(this.ctx, recipientId);
+  }
+
+  /**
+   * Pick a choice in a camp or NPC conversation; fails when its conditions no longer hold
+   */
+  chooseDialogue(dialogueId: string, nodeId: string, choiceIndex: number): DialogueChoiceResult {
+    this.hooks.onCommand?.({ type: 'chooseDialogue', dialogueId, nodeId, choiceIndex });
+    return chooseDialogueOption(this.ctx, dialogueId, nodeId, choiceIndex);
+  }
+
+  isAtWorkbench(): boolean {
+    return isAtWorkbench(this.ctx);
+  }
+
+  isAtJobBoard(): boolean {
+    return isAtJobBoard(this.ctx);
+  }
+
+  /**
+   * Give a camp mate in the current world a job, or take it away with null
+   */
+  assignCampJob(campMateId: string, job: CampJob | null): boolean {
+    this.hooks.onCommand?.({ type: 'assignCampJob', campMateId, job });
+    return assignCampJob(this.ctx, campMateId, job);
+  }
+
+  /**
+   * Start crafting a known recipe at the workbench the player is standing at
+   */
+  craft(recipeId: string): CraftResult {
+    this.hooks.onCommand?.({ type: 'craft', recipeId });
+    return craftAtWorkbench(this.ctx, recipeId);
+  }
+
+  /**
+   * Talk to a nearby camp, returning the recipes it taught
+   */
+  talkToCamp(campId: string): CraftingRecipe[] {
+    this.hooks.onCommand?.({ type: 'talkToCamp', campId });
+    return talkToCamp(this.ctx, campId);
+  }
+
+  toggleRest(): void {
+    this.hooks.onCommand?.({ type: 'toggleRest' });
+    toggleRest(this.ctx);
+  }
+
+  toggleLights(): void {
+    this.hooks.onCommand?.({ type: 'toggleLights' });
+    toggleLights(this.ctx);
+  }
+
+  toggleTotem(): void {
+    this.hooks.onCommand?.({ type: 'toggleTotem' });
+    toggleTotem(this.ctx);
+  }
+
+  /**
+   * Wake the player before an action
+   */
+  wakeUp(reason: string): void {
+    this.hooks.onCommand?.({ type: 'wakeUp', reason });
+    wakeUp(this.ctx, reason);
+  }
+
+  /**
+   * Board or leave a nearby art car, same as pressing Interact on the playa
+   */
+  mountArtCar(): void {
+    this.hooks.onCommand?.({ type: 'mountArtCar' });
+    checkArtCarMount(this.ctx, createInputSnapshot(null, ['Interact']));
+  }
+
+  /** Debug: jump to the start of the next day */
+  advanceDay(): void {
+    this.hooks.onCommand?.({ type: 'advanceDay' });
+    skipToNextDay(this.ctx.state.time);
+  }
+
+  /** Debug: jump back to the end of the previous day */
+  goBackDay(): void {
+    this.hooks.onCommand?.({ type: 'goBackDay' });
+    skipToPreviousDay(this.ctx.state.time);
+  }
+
+  /** Debug: jump to the start of the next hour */
+  advanceHour(): void {
+    this.hooks.onCommand?.({ type: 'advanceHour' });
+    skipToNextHour(this.ctx.state.time);
+  }
+
+  /** Debug: force a weather type for five minutes */
+  setWeather(weatherType: WeatherType): void {
+    this.hooks.onCommand?.({ type: 'setWeather', weatherType });
+    forceWeather(this.ctx, weatherType);
+  }
+}
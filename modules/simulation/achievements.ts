@@ -0,0 +1,88 @@
+/**
+ * Achievements: feeding game events to the achievement engine and announcing what unlocks
+ */
+
+import type { AchievementDefinition, AchievementEvent, AchievementSnapshot } from '../achievements';
+import type { EventReactions, SimulationContext, SimulationProgress } from './types';
+import { getNotificationSystem } from '../core';
+import { findUnlockedAchievements, getAchievementLog, recordAchievementEvent, updateAchievementProgress } from '../achievements';
+
+function getSnapshot(ctx: SimulationContext): AchievementSnapshot {
+  return { player: ctx.state.player, time: ctx.state.time, awardsUnlocked: ctx.runtime.achievements.size };
+}
+
+/**
+ * Ids of every achievement and award unlocked so far
+ */
+function getUnlocked(ctx: SimulationContext): Set<string> {
+  return new Set([...ctx.state.player.achievements, ...ctx.runtime.achievements]);
+}
+
+/**
+ * Achievements are announced; awards are kept quietly for the end screen
+ */
+function unlock(ctx: SimulationContext, definition: AchievementDefinition): void {
+  const { player } = ctx.state;
+  if (definition.category === 'award') {
+    ctx.runtime.achievements.add(definition.id);
+    const award = ctx.runtime.awards.find(candidate => candidate.id === definition.id);
+    if (award) Object.assign(award, { unlocked: true, unlockedAt: ctx.clock.now() });
+    console.log(`🏆 Award unlocked: ${definition.name} - ${definition.description}`);
+    return;
+  }
+
+  player.achievements.add(definition.id);
+  console.log(`🏆 Achievement unlocked: ${definition.name} - ${definition.description}`);
+  getNotificationSystem().addNotification(`🏆 ${definition.name}`, 'achievement', 5000, player.position);
+  ctx.hooks.onAchievementUnlocked?.(definition.name, `${definition.emoji} ${definition.description}`);
+}
+
+function checkAchievements(ctx: SimulationContext): void {
+  findUnlockedAchievements(ctx.state.achievementProgress, getSnapshot(ctx), getUnlocked(ctx))
+    .forEach(definition => unlock(ctx, definition));
+}
+
+/**
+ * Count something the player did towards achievements and awards
+ */
+function recordAchievementProgress(ctx: SimulationContext, event: AchievementEvent): void {
+  recordAchievementEvent(ctx.state.achievementProgress, event);
+  checkAchievements(ctx);
+}
+
+/**
+ * Game events that count towards achievements and awards
+ */
+export const ACHIEVEMENT_REACTIONS: EventReactions = {
+  MoopCollected: ctx => recordAchievementProgress(ctx, { kind: 'moopCollected' }),
+  DrugTaken: ctx => recordAchievementProgress(ctx, { kind: 'drugTaken' }),
+  LightBulbFound: ctx => recordAchievementProgress(ctx, { kind: 'lightBulbFound' }),
+  ArtCarMounted: ctx => recordAchievementProgress(ctx, { kind: 'artCarRidden' }),
+  GiftGiven: (ctx, { quantity, karma }) => recordAchievementProgress(ctx, { kind: 'gifted', quantity, karma }),
+};
+
+/**
+ * Count distance walked on the playa, time streaks and unlock whatever the tick completed
+ */
+export function updateAchievements(ctx: SimulationContext, distanceMoved: number, deltaTime: number): void {
+  const progress = ctx.state.achievementProgress;
+  if (distanceMoved > 0 && ctx.worldManager.getCurrentWorldId() === 'playa') {
+    recordAchievementEvent(progress, { kind: 'travelled', distance: distanceMoved });
+  }
+  updateAchievementProgress(progress, getSnapshot(ctx), deltaTime, getUnlocked(ctx));
+  checkAchievements(ctx);
+}
+
+/**
+ * Unlocks, counters and per-achievement progress for the achievements panel and end screens
+ */
+export function getSimulationProgress(ctx: SimulationContext): SimulationProgress {
+  const { state, runtime } = ctx;
+  return {
+    achievements: runtime.achievements,
+    awards: runtime.awards,
+    totalDrugsTaken: state.player.totalDrugsTaken,
+    totalMoopCollected: state.achievementProgress.counters.moopCollected ?? 0,
+    achievementLog: getAchievementLog(state.achievementProgress, getSnapshot(ctx), getUnlocked(ctx)),
+  };
+}
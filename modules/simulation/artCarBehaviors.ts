@@ -0,0 +1,216 @@
+/**
+ * Art car behavior tree leaves: queuing for fuel, following the player,
+ * parading around the Man and patrolling between landmarks
+ */
+
+import type { BehaviorContext, NodeStatus } from '../behavior';
+import type { ArtCarEntity, GasCanEntity, HellStationEntity, Point } from '../ecs';
+import type { Landmark, LandmarkType } from '../worlds';
+import type { Rng } from '../../shared/ports';
+
+const ART_CAR_CRUISE_SPEED = 120;
+const ARRIVE_DISTANCE = 40;
+const WAYPOINT_DISTANCE = 30;
+const REPATH_DISTANCE = 60; // Plan a new route once the goal moves this far from the old one
+const FOLLOW_DISTANCE = 60; // Stops inside mount range so the player can board
+const REFUEL_TARGET = 0.8; // Stays in the fuel queue until this share of fuelMax
+const QUEUE_SPACING = 90;
+const PARADE_SPEED = 0.5;
+const PARADE_STEP = 0.4; // Radians ahead of the car on the parade circle
+const PAUSE_LANDMARKS: LandmarkType[] = ['camp', 'restArea'];
+
+export type ArtCarBranch = 'hail' | 'parade' | 'patrol';
+
+/**
+ * How a design drives: which branches it prefers, where it goes and for how long
+ */
+export interface ArtCarPersonality {
+  name: string;
+  branches: ArtCarBranch[]; // Priority order after refueling; missing branches are never taken
+  destinations: LandmarkType[]; // Landmarks it patrols between
+  pauseMs: number; // Stop at camps and rest areas; 0 drives straight on
+  followMs: number; // How long a hail lasts; 0 ignores hails
+  paradeRadius: number;
+  cruise: number; // Multiplier on cruise speed
+}
+
+/**
+ * Per-car memory, saved in the car's ai component
+ */
+export type ArtCarBlackboard = {
+  timers: Record<string, number>;
+  patrolTarget?: string; // Landmark being driven to
+  lastStop?: string; // Landmark most recently reached
+  queuedAt?: number; // When the car joined the Hell Station queue
+  hailedUntil?: number; // Follow the player until this time
+};
+
+/**
+ * The playa as every art car sees it during one update
+ */
+export interface ArtCarWorld {
+  landmarks: Landmark[];
+  player: { pos: Point; mountedOn?: string | null };
+  station: HellStationEntity;
+  cans: GasCanEntity[];
+  queue: string[]; // Cars waiting for fuel, front first
+  burnNight: boolean;
+  rng: Rng;
+  findPath: (from: Point, to: Point) => Point[];
+  speedMultiplier: number; // Weather slowing or speeding every car
+}
+
+/**
+ * Context one art car's tree is ticked with; leaves steer by writing car.vel and car.state
+ */
+export interface ArtCarAgent extends BehaviorContext<ArtCarBlackboard> {
+  car: ArtCarEntity;
+  personality: ArtCarPersonality;
+  world: ArtCarWorld;
+}
+
+/**
+ * Head for a point, stopping within arriveDistance; true once there
+ */
+function driveToward(agent: ArtCarAgent, target: Point, speedScale: number = 1, arriveDistance: number = ARRIVE_DISTANCE): boolean {
+  const { car } = agent;
+  const dx = target.x - car.pos.x;
+  const dy = target.y - car.pos.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist <= arriveDistance) {
+    car.vel = { x: 0, y: 0 };
+    return true;
+  }
+
+  const speed = ART_CAR_CRUISE_SPEED * car.speed * agent.personality.cruise * agent.world.speedMultiplier * speedScale;
+  car.vel = { x: (dx / dist) * speed, y: (dy / dist) * speed };
+  return false;
+}
+
+/**
+ * Follow car.path toward a goal, planning a route around obstacles when the goal has moved
+ */
+function routeToward(agent: ArtCarAgent, goal: Point, arriveDistance: number = ARRIVE_DISTANCE): boolean {
+  const { car } = agent;
+  const end = car.path?.[car.path.length - 1];
+  if (!end || Math.hypot(end.x - goal.x, end.y - goal.y) > REPATH_DISTANCE) {
+    car.path = agent.world.findPath(car.pos, goal);
+  }
+
+  const path = car.path!;
+  while (path.length > 1 && Math.hypot(path[0].x - car.pos.x, path[0].y - car.pos.y) <= WAYPOINT_DISTANCE) path.shift();
+  if (path.length > 1) {
+    driveToward(agent, path[0], 1, 0);
+    return false;
+  }
+
+  const arrived = driveToward(agent, goal, 1, arriveDistance);
+  if (arrived) delete car.path;
+  return arrived;
+}
+
+export function needsFuel({ car, blackboard }: ArtCarAgent): boolean {
+  if (car.fuel <= car.fuelLowThreshold) return true;
+  return blackboard.queuedAt !== undefined && car.fuel < car.fuelMax * REFUEL_TARGET;
+}
+
+/**
+ * Where the car in a given queue place waits, in a line below the station
+ */
+function getQueueSlot(station: HellStationEntity, place: number): Point {
+  const { aabb } = station;
+  return { x: aabb.x + aabb.w / 2, y: aabb.y + aabb.h + QUEUE_SPACING * place };
+}
+
+function findNearestCan(car: ArtCarEntity, cans: GasCanEntity[]): GasCanEntity | undefined {
+  const free = cans.filter(can => !can.active);
+  return free.sort((a, b) => Math.hypot(a.pos.x - car.pos.x, a.pos.y - car.pos.y) - Math.hypot(b.pos.x - car.pos.x, b.pos.y - car.pos.y))[0];
+}
+
+/**
+ * Join the Hell Station queue; the front car drives onto the nearest can while the rest wait in line
+ */
+export function queueForFuel(agent: ArtCarAgent): NodeStatus {
+  const { car, blackboard, world } = agent;
+  if (blackboard.queuedAt === undefined) {
+    blackboard.queuedAt = agent.now;
+    console.log(`🚗 Art Car ${car.id}: queuing for fuel, fuel level: ${car.fuel}/${car.fuelMax}`);
+  }
+
+  const index = world.queue.indexOf(car.id);
+  const place = index === -1 ? world.queue.length : index;
+  const { aabb } = world.station;
+  const target = place === 0
+    ? findNearestCan(car, world.cans)?.pos ?? { x: aabb.x + aabb.w / 2, y: aabb.y + aabb.h / 2 }
+    : getQueueSlot(world.station, place);
+
+  car.state = routeToward(agent, target) ? 'refueling' : 'seekFuel';
+  return 'running';
+}
+
+export function isHailed({ car, blackboard, world, now }: ArtCarAgent): boolean {
+  return (blackboard.hailedUntil ?? 0) > now && world.player.mountedOn !== car.id;
+}
+
+export function followPlayer(agent: ArtCarAgent): NodeStatus {
+  routeToward(agent, agent.world.player.pos, FOLLOW_DISTANCE);
+  agent.car.state = 'following';
+  return 'running';
+}
+
+/**
+ * Circle the burning Man at the personality's radius
+ */
+export function paradeAroundMan(agent: ArtCarAgent): NodeStatus {
+  const { car, personality, world } = agent;
+  const man = world.landmarks.find(landmark => landmark.type === 'man');
+  if (!man) return 'failure';
+
+  const angle = Math.atan2(car.pos.y - man.position.y, car.pos.x - man.position.x) + PARADE_STEP;
+  const target = {
+    x: man.position.x + Math.cos(angle) * personality.paradeRadius,
+    y: man.position.y + Math.sin(angle) * personality.paradeRadius,
+  };
+  driveToward(agent, target, PARADE_SPEED);
+  car.state = 'parading';
+  return 'running';
+}
+
+export function isPausing({ blackboard, now }: ArtCarAgent): boolean {
+  return (blackboard.timers.pause ?? 0) > now;
+}
+
+export function holdStill({ car }: ArtCarAgent): NodeStatus {
+  car.vel = { x: 0, y: 0 };
+  car.state = 'idle';
+  return 'running';
+}
+
+function pickDestination({ blackboard, personality, world }: ArtCarAgent): Landmark | undefined {
+  const candidates = world.landmarks.filter(landmark =>
+    personality.destinations.includes(landmark.type) && landmark.id !== blackboard.lastStop
+  );
+  if (candidates.length === 0) return undefined;
+  return candidates[world.rng.randomInt(0, candidates.length)];
+}
+
+/**
+ * Drive to the current patrol landmark, picking a new one when there is none;
+ * succeeds on arrival, starting a pause at camps and rest areas
+ */
+export function driveToLandmark(agent: ArtCarAgent): NodeStatus {
+  const { blackboard, personality } = agent;
+  const target = agent.world.landmarks.find(landmark => landmark.id === blackboard.patrolTarget) ?? pickDestination(agent);
+  if (!target) return 'failure';
+
+  blackboard.patrolTarget = target.id;
+  agent.car.state = 'patrol';
+  if (!routeToward(agent, target.position, target.size / 2 + ARRIVE_DISTANCE)) return 'running'; // Stop at its edge
+
+  delete blackboard.patrolTarget;
+  blackboard.lastStop = target.id;
+  if (personality.pauseMs > 0 && PAUSE_LANDMARKS.includes(target.type)) {
+    blackboard.timers.pause = agent.now + personality.pauseMs;
+  }
+  return 'success';
+}
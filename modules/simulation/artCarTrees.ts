@@ -0,0 +1,68 @@
+/**
+ * Per-design art car personalities and the behavior trees built from them
+ */
+
+import type { BehaviorNode, NodeStatus } from '../behavior';
+import type { ArtCarDesign } from '../ecs';
+import type { ArtCarAgent, ArtCarBranch, ArtCarPersonality } from './artCarBehaviors';
+import { action, guard, selector } from '../behavior';
+import {
+  needsFuel, queueForFuel, isHailed, followPlayer, paradeAroundMan, isPausing, holdStill, driveToLandmark,
+} from './artCarBehaviors';
+
+const ART_CAR_PERSONALITIES: Record<ArtCarDesign, ArtCarPersonality> = {
+  // All-rounder that stops by camps and comes when called
+  classic: { name: 'Disco Bus', branches: ['hail', 'parade', 'patrol'], destinations: ['camp', 'restArea', 'man', 'temple'], pauseMs: 8000, followMs: 20000, paradeRadius: 300, cruise: 1 },
+  // Fire Dragon lives for the burn and circles closest to the fire
+  fire: { name: 'Fire Dragon', branches: ['parade', 'hail', 'patrol'], destinations: ['man', 'temple'], pauseMs: 0, followMs: 15000, paradeRadius: 220, cruise: 1.2 },
+  // Too busy racing around to join the parade
+  speedy: { name: 'Speed Demon', branches: ['hail', 'patrol'], destinations: ['camp', 'restArea', 'man', 'temple'], pauseMs: 0, followMs: 10000, paradeRadius: 300, cruise: 1.4 },
+  // Lumbers between camps and will not turn around for anyone
+  heavy: { name: 'Mega Rig', branches: ['parade', 'patrol'], destinations: ['camp', 'man'], pauseMs: 15000, followMs: 0, paradeRadius: 420, cruise: 0.6 },
+  // Camp hopper that always answers a hail
+  compact: { name: 'Mini Cruiser', branches: ['hail', 'parade', 'patrol'], destinations: ['camp'], pauseMs: 5000, followMs: 20000, paradeRadius: 260, cruise: 1 },
+  // Haunts the deep playa and ignores the burn
+  alien: { name: 'UFO', branches: ['hail', 'patrol'], destinations: ['restArea', 'temple'], pauseMs: 12000, followMs: 12000, paradeRadius: 300, cruise: 1 },
+  // Stately tour of the big art; no hitchhikers
+  davinci: { name: 'Da Vinci', branches: ['parade', 'patrol'], destinations: ['man', 'temple', 'restArea'], pauseMs: 10000, followMs: 0, paradeRadius: 360, cruise: 0.8 },
+  // Party barge that parades wide and lingers at camps
+  octopus: { name: 'Fire Octopus', branches: ['parade', 'hail', 'patrol'], destinations: ['camp', 'man'], pauseMs: 10000, followMs: 25000, paradeRadius: 380, cruise: 0.9 },
+};
+
+const BRANCHES: Record<ArtCarBranch, () => BehaviorNode<ArtCarAgent>> = {
+  hail: () => guard('hailed', isHailed, action('follow player', followPlayer)),
+  parade: () => guard('burn night', agent => agent.world.burnNight, action('parade around the Man', paradeAroundMan)),
+  patrol: () => selector('patrol',
+    guard('pausing', isPausing, action('pause at camp', holdStill)),
+    action('drive to landmark', driveToLandmark),
+  ),
+};
+
+/**
+ * Refueling always comes first; the personality orders the rest and the car idles when nothing applies
+ */
+export function createArtCarTree(personality: ArtCarPersonality): BehaviorNode<ArtCarAgent> {
+  return selector(personality.name,
+    guard('low on fuel', needsFuel, action('queue for fuel', queueForFuel)),
+    ...personality.branches.map(branch => BRANCHES[branch]()),
+    action('idle', holdStill),
+  );
+}
+
+const ART_CAR_TREES = Object.fromEntries(
+  Object.entries(ART_CAR_PERSONALITIES).map(([design, personality]) => [design, createArtCarTree(personality)])
+) as Record<ArtCarDesign, BehaviorNode<ArtCarAgent>>;
+
+export function getArtCarPersonality(design: ArtCarDesign): ArtCarPersonality {
+  return ART_CAR_PERSONALITIES[design];
+}
+
+/**
+ * Tick the car's design tree, first leaving the fuel queue once it is full enough
+ */
+export function tickArtCarTree(agent: ArtCarAgent): NodeStatus {
+  if (agent.blackboard.queuedAt !== undefined && !needsFuel(agent)) {
+    delete agent.blackboard.queuedAt;
+  }
+  return ART_CAR_TREES[agent.car.design].tick(agent);
+}
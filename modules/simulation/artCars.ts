@@ -0,0 +1,203 @@
+/**
+ * Hell Station, art car driving, hailing and bike/art car mounting
+ */
+
+import type { ArtCarEntity, GasCanEntity, HellStationEntity } from '../ecs';
+import type { InputSnapshot, SimulationContext } from './types';
+import type { ArtCarBlackboard, ArtCarWorld } from './artCarBehaviors';
+import { distance, getNotificationSystem, isNightTime } from '../core';
+import { removeEntity } from '../spatial';
+import { getWorldLandmarks } from '../worlds';
+import { getWeatherEffects } from '../weather';
+import { createBlackboard } from '../behavior';
+import {
+  hasEntity, despawnEntity, queryKind, spawnArchetype, readArchetype, writeArchetype, listArchetype,
+  indexEntity, syncEntityPosition, ART_CAR, GAS_CAN, HELL_STATION, WORLD_ITEM,
+} from '../ecs';
+import { tickHellStation } from '../../src/modules/world';
+import { tickArtCarKinematics } from '../../src/modules/entities';
+import { consumeFuel, checkArtCarGasCanCollision, refuelArtCar } from '../../src/modules/actions';
+import { wasActionJustPressed } from './input';
+import { getArtCarPersonality, tickArtCarTree } from './artCarTrees';
+
+const PLAYA_BOUNDS = { width: 4000, height: 3000 };
+const ART_CAR_MOUNT_RANGE = 80;
+const ART_CAR_HAIL_RANGE = 500;
+const BIKE_MOUNT_RANGE = 40;
+const BIKE_PROMPT = 'Press Space to mount bike';
+const ART_CAR_PROMPT = 'Press Space to board art car';
+
+/**
+ * Cars waiting at the Hell Station, first come first served
+ */
+function getFuelQueue(cars: ArtCarEntity[]): string[] {
+  return cars
+    .filter(car => car.blackboard?.queuedAt !== undefined)
+    .sort((a, b) => (a.blackboard!.queuedAt as number) - (b.blackboard!.queuedAt as number) || a.id.localeCompare(b.id))
+    .map(car => car.id);
+}
+
+function createArtCarWorld(ctx: SimulationContext, station: HellStationEntity, cans: GasCanEntity[], cars: ArtCarEntity[]): ArtCarWorld {
+  const { player, time } = ctx.state;
+  const landmarks = getWorldLandmarks('playa', time);
+  const man = landmarks.find(landmark => landmark.type === 'man');
+  return {
+    landmarks,
+    player: { pos: player.position, mountedOn: player.mountedOn },
+    station,
+    cans,
+    queue: getFuelQueue(cars),
+    burnNight: Boolean(man?.isBurning && !man.ashesProgress && isNightTime(time)),
+    rng: ctx.rng,
+    findPath: (from, to) => ctx.navigation.findPath('playa', from, to),
+    speedMultiplier: getWeatherEffects(ctx.state.weather, ctx.state.dustStorm).artCarSpeed,
+  };
+}
+
+/**
+ * Update Hell Station gas can spawning and art car fuel, behavior trees and movement
+ */
+export function updateHellStationAndArtCars(ctx: SimulationContext, deltaTime: number): void {
+  const { entities } = ctx.state;
+  const stationId = queryKind(entities, HELL_STATION.kind)[0];
+  if (!stationId) return;
+
+  const now = ctx.clock.now();
+  const result = tickHellStation(readArchetype(entities, HELL_STATION, stationId)!, listArchetype(entities, GAS_CAN), now, ctx.rng);
+  writeArchetype(entities, HELL_STATION, result.station);
+  result.cans.filter(can => !hasEntity(entities, can.id)).forEach(can => {
+    spawnArchetype(entities, GAS_CAN, can);
+    indexEntity(ctx.spatialIndex, entities, can.id);
+  });
+
+  const cars = listArchetype(entities, ART_CAR);
+  const world = createArtCarWorld(ctx, result.station, result.cans, cars);
+
+  cars.forEach(car => {
+    const collision = checkArtCarGasCanCollision(consumeFuel(car, deltaTime), world.cans);
+
+    // Remove gas can if art car consumed it
+    if (collision.collided && collision.canId) {
+      const canId = collision.canId;
+      world.cans = world.cans.filter(can => can.id !== canId);
+      despawnEntity(entities, canId);
+      removeEntity(ctx.spatialIndex, canId);
+    }
+
+    const blackboard = (car.blackboard ?? createBlackboard()) as ArtCarBlackboard;
+    const updatedCar = { ...collision.car, blackboard };
+    tickArtCarTree({ car: updatedCar, blackboard, now, personality: getArtCarPersonality(car.design), world });
+
+    writeArchetype(entities, ART_CAR, tickArtCarKinematics(updatedCar, deltaTime, PLAYA_BOUNDS));
+    syncEntityPosition(ctx.spatialIndex, entities, car.id);
+  });
+}
+
+/**
+ * Fill every art car in the loaded world to the brim, returning how many needed fuel
+ */
+export function fillUpArtCars(ctx: SimulationContext): number {
+  let refueled = 0;
+  listArchetype(ctx.state.entities, ART_CAR).forEach(car => {
+    const { fuelAdded, car: fullCar } = refuelArtCar(car, car.fuelMax);
+    if (fuelAdded === 0) return;
+    writeArchetype(ctx.state.entities, ART_CAR, { ...fullCar, blackboard: car.blackboard });
+    refueled++;
+  });
+  return refueled;
+}
+
+/**
+ * Hail the nearest art car that takes riders; it drives over and waits for the player to board
+ */
+export function checkArtCarHail(ctx: SimulationContext, input: InputSnapshot): void {
+  const player = ctx.state.player;
+  if (!wasActionJustPressed(input, 'HailArtCar') || player.mountedOn) return;
+
+  const inRange = listArchetype(ctx.state.entities, ART_CAR)
+    .filter(car => getArtCarPersonality(car.design).followMs > 0 && distance(player.position, car.pos) < ART_CAR_HAIL_RANGE)
+    .sort((a, b) => distance(player.position, a.pos) - distance(player.position, b.pos));
+  const car = inRange[0];
+  const system = getNotificationSystem();
+  if (!car) {
+    system.addNotification('No art car close enough to hail', 'info', 2, player.position);
+    return;
+  }
+
+  const personality = getArtCarPersonality(car.design);
+  const blackboard = { ...(car.blackboard ?? createBlackboard()), hailedUntil: ctx.clock.now() + personality.followMs };
+  writeArchetype(ctx.state.entities, ART_CAR, { ...car, blackboard });
+  system.addNotification(`${personality.name} is coming to pick you up!`, 'info', 3, player.position);
+}
+
+/**
+ * Check for bike mount/dismount
+ */
+export function checkBikeMount(ctx: SimulationContext, input: InputSnapshot): void {
+  const player = ctx.state.player;
+  const playerPos = player.position;
+  const system = getNotificationSystem();
+
+  if (player.isOnBike) {
+    if (wasActionJustPressed(input, 'Interact')) {
+      player.isOnBike = false;
+      player.mountedBikeId = undefined;
+      ctx.audio.playSound('dismount', 0.3);
+      system.addNotification('Dismounted from bike', 'item', 2, playerPos);
+    }
+    return;
+  }
+
+  const nearBike = listArchetype(ctx.state.entities, WORLD_ITEM)
+    .find(item => !item.collected && item.type === 'bike' && distance(playerPos, item.position) < BIKE_MOUNT_RANGE);
+  if (!nearBike) {
+    system.removePersistentNotification(BIKE_PROMPT);
+    return;
+  }
+
+  system.addNotification(BIKE_PROMPT, 'persistent', 0, nearBike.position);
+  system.updatePersistentNotificationPosition(BIKE_PROMPT, nearBike.position);
+
+  if (wasActionJustPressed(input, 'Interact')) {
+    player.isOnBike = true;
+    player.mountedBikeId = nearBike.id;
+    ctx.audio.playSound('mount', 0.3);
+    system.removePersistentNotification(BIKE_PROMPT);
+    system.addNotification('Mounted bike!', 'item', 2, playerPos);
+  }
+}
+
+/**
+ * Check for art car mount/dismount
+ */
+export function checkArtCarMount(ctx: SimulationContext, input: InputSnapshot): void {
+  const player = ctx.state.player;
+  const playerPos = player.position;
+  const system = getNotificationSystem();
+
+  if (player.mountedOn) {
+    if (wasActionJustPressed(input, 'Interact')) {
+      ctx.events.publish({ type: 'ArtCarDismounted', artCarId: player.mountedOn, position: playerPos });
+      player.mountedOn = null;
+    }
+    return;
+  }
+
+  const nearbyCar = listArchetype(ctx.state.entities, ART_CAR).find(car =>
+    Math.hypot(playerPos.x - car.pos.x, playerPos.y - car.pos.y) < ART_CAR_MOUNT_RANGE
+  );
+  if (!nearbyCar) {
+    system.removePersistentNotification(ART_CAR_PROMPT);
+    return;
+  }
+
+  // Persistent prompt follows the car
+  system.addNotification(ART_CAR_PROMPT, 'persistent', 0, nearbyCar.pos);
+  system.updatePersistentNotificationPosition(ART_CAR_PROMPT, nearbyCar.pos);
+
+  if (wasActionJustPressed(input, 'Interact')) {
+    player.mountedOn = nearbyCar.id;
+    system.removePersistentNotification(ART_CAR_PROMPT);
+    ctx.events.publish({ type: 'ArtCarMounted', artCarId: nearbyCar.id, position: playerPos });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Camp jobs: what assigned wombats produce for the player's camp and the job board stash
+ */
+
+import type { ItemType } from '../core';
+import type { CampJob, CampMate, SimulationContext } from './types';
+import { addItemToInventory, distance, getNotificationSystem } from '../core';
+import { listArchetype, markCollected, MOOP } from '../ecs';
+import { isNearLandmark } from './proximity';
+import { applyKarmaChange } from './hudDeltas';
+
+export const JOB_BOARD_ID = 'camp-job-board';
+const JOB_BOARD_RANGE = 100;
+const SWEEP_KARMA = 1;
+const KITCHEN_MEALS: ItemType[] = ['Grilled Cheese', 'Burrito', 'Nachos', 'Fruit Salad'];
+
+/**
+ * What each job is called and how many worked game minutes one result takes
+ */
+export const CAMP_JOBS: Record<CampJob, { label: string; emoji: string; description: string; minutesPerResult: number }> = {
+  sweepMoop: { label: 'Moop sweeping', emoji: '🧹', description: 'Picks up moop around camp', minutesPerResult: 30 },
+  fetchGas: { label: 'Gas run', emoji: '⛽', description: 'Brings a Gas Can back from Hell Station', minutesPerResult: 120 },
+  kitchen: { label: 'Camp kitchen', emoji: '🍳', description: 'Cooks meals for the camp', minutesPerResult: 60 },
+};
+
+/**
+ * One finished piece of work; sweeping picks up the moop nearest the wombat in the loaded world,
+ * which is always camp because wombats only work there
+ */
+const CAMP_JOB_RESULTS: Record<CampJob, (ctx: SimulationContext, mate: CampMate) => void> = {
+  sweepMoop: (ctx, mate) => {
+    const moop = listArchetype(ctx.state.entities, MOOP)
+      .filter(item => !item.collected)
+      .sort((a, b) => distance(mate.position, a.position) - distance(mate.position, b.position))[0];
+    if (!moop) return;
+    markCollected(ctx.spatialIndex, ctx.state.entities, moop.id);
+    ctx.state.camp.moopSwept++;
+    applyKarmaChange(ctx, SWEEP_KARMA);
+  },
+  fetchGas: ctx => addToStash(ctx, 'Gas Can'),
+  kitchen: ctx => addToStash(ctx, KITCHEN_MEALS[Math.floor(ctx.rng.random() * KITCHEN_MEALS.length)]),
+};
+
+function addToStash(ctx: SimulationContext, item: ItemType): void {
+  const { stash } = ctx.state.camp;
+  stash[item] = (stash[item] ?? 0) + 1;
+}
+
+/**
+ * Count worked minutes towards a wombat's job, producing a result each time it adds up
+ */
+export function workCampJob(ctx: SimulationContext, mate: CampMate, minutes: number): void {
+  if (!mate.job) return;
+  const { minutesPerResult } = CAMP_JOBS[mate.job];
+  mate.jobProgress += minutes;
+  while (mate.jobProgress >= minutesPerResult) {
+    mate.jobProgress -= minutesPerResult;
+    CAMP_JOB_RESULTS[mate.job](ctx, mate);
+  }
+}
+
+/**
+ * Give a wombat in the current world a job, or take it away with null
+ */
+export function assignCampJob(ctx: SimulationContext, campMateId: string, job: CampJob | null): boolean {
+  const mate = ctx.runtime.campMates.find(candidate => candidate.id === campMateId);
+  if (!mate) return false;
+
+  mate.jobProgress = 0;
+  if (job) {
+    mate.job = job;
+  } else {
+    delete mate.job;
+  }
+  console.log(`🏕️ ${mate.name}: ${job ? CAMP_JOBS[job].label : 'no job'}`);
+  return true;
+}
+
+/**
+ * Hand the player whatever the camp mates left at the job board
+ */
+export function collectCampStash(ctx: SimulationContext): void {
+  const { camp, player } = ctx.state;
+  const items = Object.entries(camp.stash).filter(([, quantity]) => (quantity ?? 0) > 0) as Array<[ItemType, number]>;
+  if (items.length === 0 || !isAtJobBoard(ctx)) return;
+
+  items.forEach(([item, quantity]) => addItemToInventory(player.inventory, item, quantity));
+  camp.stash = {};
+  const summary = items.map(([item, quantity]) => `${quantity} ${item}`).join(', ');
+  getNotificationSystem().addNotification(`🏕️ Your camp mates left you: ${summary}`, 'item', 0, player.position);
+  ctx.audio.playSound('coinPickup', 0.4);
+}
+
+/**
+ * Check if the player is standing at the camp job board
+ */
+export function isAtJobBoard(ctx: SimulationContext): boolean {
+  return isNearLandmark(ctx, ctx.state.player.position, JOB_BOARD_ID, JOB_BOARD_RANGE);
+}
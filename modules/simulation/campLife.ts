@@ -0,0 +1,134 @@
+/**
+ * Camp mate lives: needs that run down, a daily schedule, and which activity wins
+ */
+
+import type { Vec2 } from '../core';
+import type { CampMate, CampMateActivity, CampMateNeeds, SimulationContext } from './types';
+import { createVec2, isHourInWindow } from '../core';
+import { getWorldLandmarks } from '../worlds';
+import { CAMP_CENTER, CAMP_WORLD_WIDTH, CAMP_WORLD_HEIGHT } from './initialState';
+import { workCampJob, JOB_BOARD_ID } from './campJobs';
+
+const THIRSTY = 30;
+const EXHAUSTED = 15;
+const DRINK_RANGE = 20;
+const SHADE_RADIUS = 60;
+const PARTY_RADIUS = 150;
+const MAX_CATCH_UP_MINUTES = 240; // Time away from camp counts for at most this long
+
+/**
+ * Where the day takes a wombat; hours outside every slot are for work or wandering
+ */
+const DAILY_SCHEDULE: Array<{ from: number; until: number; activity: CampMateActivity }> = [
+  { from: 3, until: 9, activity: 'sleeping' },
+  { from: 12, until: 15, activity: 'shade' },
+  { from: 21, until: 3, activity: 'partying' },
+];
+
+/**
+ * Change per game minute for each need while doing something
+ */
+const NEED_RATES: Partial<Record<CampMateActivity, Partial<CampMateNeeds>>> = {
+  sleeping: { thirst: -0.03, energy: 0.25 },
+  shade: { thirst: -0.05, energy: 0.05 },
+  partying: { thirst: -0.15, energy: -0.12 },
+  working: { thirst: -0.12, energy: -0.1 },
+};
+const AWAKE_RATE: CampMateNeeds = { thirst: -0.08, energy: -0.06 };
+
+/**
+ * Activities that stay put once they reach their spot
+ */
+const STAYS_PUT = new Set<CampMateActivity>(['sleeping', 'shade', 'drinking']);
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+export function getScheduledActivity(hour: number): CampMateActivity | undefined {
+  return DAILY_SCHEDULE.find(slot => isHourInWindow(hour, slot.from, slot.until))?.activity;
+}
+
+/**
+ * Urgent needs come first, then the schedule, then the wombat's job
+ */
+export function chooseCampMateActivity(mate: CampMate, hour: number): CampMateActivity {
+  if (mate.needs.energy < EXHAUSTED) return 'sleeping';
+  if (mate.needs.thirst < THIRSTY) return 'drinking';
+  return getScheduledActivity(hour) ?? (mate.job ? 'working' : 'wandering');
+}
+
+function applyNeeds(mate: CampMate, minutes: number): void {
+  const rates = { ...AWAKE_RATE, ...NEED_RATES[mate.activity] };
+  mate.needs.thirst = clamp(mate.needs.thirst + rates.thirst * minutes);
+  mate.needs.energy = clamp(mate.needs.energy + rates.energy * minutes);
+
+  const struggling = mate.needs.thirst < THIRSTY || mate.needs.energy < EXHAUSTED;
+  const moodRate = struggling ? -0.05 : mate.activity === 'partying' ? 0.05 : 0;
+  mate.mood = clamp(mate.mood + moodRate * minutes);
+}
+
+function getJobBoardPosition(ctx: SimulationContext): Vec2 {
+  const board = getWorldLandmarks('camp', ctx.state.time).find(landmark => landmark.id === JOB_BOARD_ID);
+  return board ? board.position : CAMP_CENTER;
+}
+
+function around(ctx: SimulationContext, center: Vec2, radius: number): Vec2 {
+  const angle = ctx.rng.random() * Math.PI * 2;
+  const reach = ctx.rng.random() * radius;
+  return createVec2(center.x + Math.cos(angle) * reach, center.y + Math.sin(angle) * reach);
+}
+
+/**
+ * Where a wombat in the camp world heads next for what it is doing
+ */
+export function pickCampMateTarget(ctx: SimulationContext, mate: CampMate): Vec2 {
+  switch (mate.activity) {
+    case 'sleeping':
+      return createVec2(mate.position.x, mate.position.y);
+    case 'shade':
+      return around(ctx, CAMP_CENTER, SHADE_RADIUS);
+    case 'partying':
+      return around(ctx, CAMP_CENTER, PARTY_RADIUS);
+    case 'drinking':
+      return { ...getJobBoardPosition(ctx) };
+    case 'working':
+      if (mate.job === 'kitchen') return around(ctx, getJobBoardPosition(ctx), 30);
+      if (mate.job === 'fetchGas') return createVec2(40, ctx.rng.random() * CAMP_WORLD_HEIGHT); // Off towards the playa
+      return createVec2(ctx.rng.random() * CAMP_WORLD_WIDTH, ctx.rng.random() * CAMP_WORLD_HEIGHT);
+    default:
+      return createVec2(ctx.rng.random() * CAMP_WORLD_WIDTH, ctx.rng.random() * CAMP_WORLD_HEIGHT);
+  }
+}
+
+/**
+ * True when a wombat that reached its target should stay there
+ */
+export function staysPut(mate: CampMate): boolean {
+  return STAYS_PUT.has(mate.activity);
+}
+
+/**
+ * Run a wombat's needs, schedule and job forward to the current game time.
+ * Only wombats in camp keep a schedule; the rest follow the player or wander.
+ */
+export function updateCampMateLife(ctx: SimulationContext, mate: CampMate, isFollowing: boolean): void {
+  const now = ctx.state.time.totalMinutes;
+  const minutes = Math.min(MAX_CATCH_UP_MINUTES, Math.max(0, now - mate.lastLivedMinute));
+  mate.lastLivedMinute = now;
+
+  const inCamp = ctx.worldManager.getCurrentWorldId() === 'camp';
+  const activity = isFollowing ? 'following' : inCamp ? chooseCampMateActivity(mate, ctx.state.time.hour) : 'wandering';
+  if (activity !== mate.activity) {
+    mate.activity = activity;
+    if (inCamp && !isFollowing) mate.targetPosition = pickCampMateTarget(ctx, mate);
+  }
+
+  applyNeeds(mate, minutes);
+  if (activity === 'working') workCampJob(ctx, mate, minutes);
+
+  if (activity === 'drinking') {
+    const board = getJobBoardPosition(ctx);
+    if (Math.hypot(mate.position.x - board.x, mate.position.y - board.y) <= DRINK_RANGE) mate.needs.thirst = 100;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Camp mate movement along navigation paths, totem following, playa spawning
+ * and handing over what their jobs left at the job board
+ */
+
+import type { Vec2 } from '../core';
+import type { CampMate, SimulationContext } from './types';
+import { createVec2, isEquipped } from '../core';
+import { getWorldLandmarks } from '../worlds';
+import { CAMP_WORLD_WIDTH, CAMP_WORLD_HEIGHT, CAMP_MATE_COLORS, CAMP_MATE_NAMES, createCampMateLife } from './initialState';
+import { updateCampMateLife, pickCampMateTarget, staysPut } from './campLife';
+import { collectCampStash } from './campJobs';
+
+const AVOIDANCE_RADIUS = 40; // Distance to avoid other camp mates
+const AVOIDANCE_FORCE = 2.0; // How strongly they avoid each other
+const PLAYA_WANDER_RADIUS = 800;
+const PLAYA_CAMP_RADIUS = 100;
+const PLAYA_CAMP_ID = 'playa-camp'; // Boom Boom Womb
+const WAYPOINT_DISTANCE = 10;
+
+/**
+ * Position a following wombat behind the player, spread out by its ID
+ */
+function getFollowTarget(campMate: CampMate, playerPos: Vec2): Vec2 {
+  const playerAngle = Math.atan2(playerPos.y - campMate.position.y, playerPos.x - campMate.position.x);
+  const wombatId = parseInt(campMate.id.replace('campmate-', ''));
+  const behindAngle = playerAngle + Math.PI + (wombatId * 0.5) % (Math.PI * 2);
+  const distance = 15 + (wombatId % 3) * 5; // 15, 20, or 25 pixels
+
+  return createVec2(playerPos.x + Math.cos(behindAngle) * distance, playerPos.y + Math.sin(behindAngle) * distance);
+}
+
+/**
+ * Push a camp mate away from any mates that are too close
+ */
+function getAvoidance(campMates: CampMate[], campMate: CampMate): Vec2 {
+  const avoidance = createVec2(0, 0);
+
+  campMates.forEach(otherMate => {
+    if (otherMate.id === campMate.id) return;
+    const dx = campMate.position.x - otherMate.position.x;
+    const dy = campMate.position.y - otherMate.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (dist < AVOIDANCE_RADIUS && dist > 0) {
+      const strength = (AVOIDANCE_RADIUS - dist) / AVOIDANCE_RADIUS;
+      avoidance.x += (dx / dist) * strength * AVOIDANCE_FORCE;
+      avoidance.y += (dy / dist) * strength * AVOIDANCE_FORCE;
+    }
+  });
+
+  return avoidance;
+}
+
+/**
+ * Next point on a wandering camp mate's route, planning a new one when its target changed
+ */
+function getNextWaypoint(ctx: SimulationContext, campMate: CampMate): Vec2 {
+  const target = campMate.targetPosition;
+  const end = campMate.path?.[campMate.path.length - 1];
+  if (!end || end.x !== target.x || end.y !== target.y) {
+    campMate.path = ctx.navigation.findPath(ctx.worldManager.getCurrentWorldId(), campMate.position, target);
+  }
+
+  const path = campMate.path!;
+  while (path.length > 1 && Math.hypot(path[0].x - campMate.position.x, path[0].y - campMate.position.y) < WAYPOINT_DISTANCE) {
+    path.shift();
+  }
+  return path[0];
+}
+
+/**
+ * Move camp mates: follow the player with the Totem equipped, otherwise wander
+ */
+export function updateCampMates(ctx: SimulationContext, deltaTime: number): void {
+  const { state, runtime, rng } = ctx;
+  const player = state.player;
+  const isFollowing = isEquipped(player, 'Totem');
+  const currentWorldId = ctx.worldManager.getCurrentWorldId();
+
+  if (isFollowing) {
+    if (currentWorldId !== 'camp' && runtime.wombatsAtCamp > 0) {
+      spawnWombatFromCamp(ctx);
+      runtime.wombatsAtCamp--;
+      runtime.wombatsOnPlaya++;
+      console.log(`🏕️ Wombat followed to playa! Camp: ${runtime.wombatsAtCamp}, Playa: ${runtime.wombatsOnPlaya}`);
+    }
+  } else if (currentWorldId === 'playa') {
+    checkForWombatsOverlappingCamp(ctx);
+  }
+
+  runtime.campMates.forEach(campMate => {
+    updateCampMateLife(ctx, campMate, isFollowing);
+    const target = isFollowing ? getFollowTarget(campMate, player.position) : campMate.targetPosition;
+    const distance = Math.hypot(target.x - campMate.position.x, target.y - campMate.position.y);
+
+    // Pick a new target once the current one is reached, unless the wombat settles there
+    if (distance < 10 && !isFollowing) {
+      if (currentWorldId === 'playa') {
+        const targetAngle = rng.random() * Math.PI * 2;
+        const targetDistance = rng.random() * PLAYA_WANDER_RADIUS;
+        campMate.targetPosition.x = campMate.position.x + Math.cos(targetAngle) * targetDistance;
+        campMate.targetPosition.y = campMate.position.y + Math.sin(targetAngle) * targetDistance;
+      } else if (!staysPut(campMate)) {
+        campMate.targetPosition = pickCampMateTarget(ctx, campMate);
+      }
+      return;
+    }
+
+    // Followers head straight for the player; wanderers walk around obstacles
+    const waypoint = isFollowing ? target : getNextWaypoint(ctx, campMate);
+    const dx = waypoint.x - campMate.position.x;
+    const dy = waypoint.y - campMate.position.y;
+    const waypointDistance = Math.hypot(dx, dy) || 1;
+
+    // Move towards target - faster when following player
+    const moveDistance = campMate.speed * deltaTime * (isFollowing ? 80 : 50);
+    const avoidance = getAvoidance(runtime.campMates, campMate);
+    campMate.position.x += (dx / waypointDistance) * moveDistance + avoidance.x * deltaTime * 30;
+    campMate.position.y += (dy / waypointDistance) * moveDistance + avoidance.y * deltaTime * 30;
+
+    // Wandering wombats stay inside the camp world; the playa is open
+    if (!isFollowing && currentWorldId === 'camp') {
+      campMate.position.x = Math.max(0, Math.min(CAMP_WORLD_WIDTH, campMate.position.x));
+      campMate.position.y = Math.max(0, Math.min(CAMP_WORLD_HEIGHT, campMate.position.y));
+    }
+  });
+
+  collectCampStash(ctx);
+}
+
+/**
+ * Send wandering wombats that reach the playa camp back home
+ */
+export function checkForWombatsOverlappingCamp(ctx: SimulationContext): void {
+  const { runtime } = ctx;
+  const landmarks = getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time);
+  const campLandmark = landmarks.find(l => l.id === PLAYA_CAMP_ID);
+  if (!campLandmark) return;
+
+  const remaining = runtime.campMates.filter(campMate =>
+    Math.hypot(campMate.position.x - campLandmark.position.x, campMate.position.y - campLandmark.position.y) > PLAYA_CAMP_RADIUS
+  );
+  const returned = runtime.campMates.length - remaining.length;
+  if (returned === 0) return;
+
+  runtime.campMates = remaining;
+  runtime.wombatsOnPlaya -= returned;
+  runtime.wombatsAtCamp += returned;
+  console.log(`🏕️ ${returned} wombat(s) returned to camp due to overlap! Camp: ${runtime.wombatsAtCamp}, Playa: ${runtime.wombatsOnPlaya}`);
+}
+
+/**
+ * Spawn a wombat near the Boom Boom Womb (or the player) to follow the player
+ */
+export function spawnWombatFromCamp(ctx: SimulationContext): void {
+  const { rng } = ctx;
+  const landmarks = getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time);
+  const boomBoomWomb = landmarks.find(l => l.id === PLAYA_CAMP_ID);
+
+  const origin = boomBoomWomb ? boomBoomWomb.position : ctx.state.player.position;
+  const spawnOffset = boomBoomWomb ? 30 + rng.random() * 40 : 50 + rng.random() * 50;
+  const spawnAngle = rng.random() * Math.PI * 2;
+  const spawnX = origin.x + Math.cos(spawnAngle) * spawnOffset;
+  const spawnY = origin.y + Math.sin(spawnAngle) * spawnOffset;
+
+  ctx.runtime.campMates.push({
+    id: `campmate-${ctx.clock.now()}-${rng.random()}`,
+    position: createVec2(spawnX, spawnY),
+    color: CAMP_MATE_COLORS[Math.floor(rng.random() * CAMP_MATE_COLORS.length)],
+    name: CAMP_MATE_NAMES[Math.floor(rng.random() * CAMP_MATE_NAMES.length)],
+    targetPosition: createVec2(spawnX, spawnY), // Updated by following logic
+    speed: 0.5 + rng.random() * 1.0,
+    mood: 40 + rng.random() * 40,
+    ...createCampMateLife(ctx.state.time.totalMinutes),
+  });
+
+  console.log(`🏕️ Spawned wombat at (${spawnX.toFixed(1)}, ${spawnY.toFixed(1)}) ${boomBoomWomb ? 'from Boom Boom Womb' : 'near player'}`);
+}
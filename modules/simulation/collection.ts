@@ -0,0 +1,210 @@
+/**
+ * Coin, moop and world collectible pickups
+ */
+
+import type { ItemType, DrugType, Vec2 } from '../core';
+import type { MoopItem, MoopType } from '../moop';
+import type { WorldItemEntity } from '../ecs';
+import type { InputSnapshot, SimulationContext } from './types';
+import {
+  applyStatEffect, addItemToInventory,
+  takeDrugDose, getEffectiveDrugEffect, ITEM_DEFINITIONS,
+  getNotificationSystem, createStatNotification, createItemNotification,
+} from '../core';
+import { collectMoop } from '../moop';
+import { pickCoin } from '../actions';
+import { findCollectiblesNear, markCollected, readArchetype, COIN, MOOP, WORLD_ITEM } from '../ecs';
+import { checkBikeMount, checkArtCarMount } from './artCars';
+import { readBlueprint } from './crafting';
+import { recordQuestProgress } from './quests';
+
+const LIGHT_BULB_PICKUP_COOLDOWN_MS = 3000;
+
+const MOOP_TO_INVENTORY: Partial<Record<MoopType, ItemType>> = {
+  'ziptie': 'Zip Tie',
+  'ducting': 'Ducting',
+  'bucket': 'Bucket',
+  'glitter': 'Glitter',
+  'rope': 'Rope',
+  'plastic-bag': 'Plastic Bag',
+  'water-bottle': 'Water',
+  'cup': 'Water',
+  'flashing-light': 'Light Bulb',
+  'furry-hat': 'Furry Hat',
+  'boots': 'Boots',
+  'cat-head': 'Cat Head',
+  'cigarette-butt': 'Trinket',
+  'light-bulb': 'Light Bulb',
+};
+
+/**
+ * Check for coin, collectible and moop pickups around the player
+ */
+export function checkPickups(ctx: SimulationContext, input: InputSnapshot): void {
+  const { state } = ctx;
+  const playerPos = state.player.position;
+  const playerRadius = ctx.config.playerSize / 2;
+
+  findCollectiblesNear(ctx.spatialIndex, state.entities, playerPos, playerRadius, 'coin').forEach(id => {
+    const coin = readArchetype(state.entities, COIN, id)!;
+    const result = pickCoin(coin.value);
+    if (!result.success) return;
+
+    markCollected(ctx.spatialIndex, state.entities, id);
+    state.player.stats = applyStatEffect(state.player.stats, result.statDelta);
+    ctx.events.publish({ type: 'CoinCollected', amount: coin.value, position: coin.position });
+  });
+
+  checkCollectibleCollection(ctx, input, playerPos, playerRadius);
+  checkMoopCollection(ctx, playerPos, playerRadius);
+}
+
+/**
+ * Check for moop collection
+ */
+function checkMoopCollection(ctx: SimulationContext, playerPos: Vec2, playerRadius: number): void {
+  const { state } = ctx;
+  findCollectiblesNear(ctx.spatialIndex, state.entities, playerPos, playerRadius, 'moop').forEach(id => {
+    const moopItem = readArchetype(state.entities, MOOP, id) as MoopItem;
+    const result = collectMoop(moopItem, state.player.stats);
+    if (!result.success) return;
+
+    state.player.stats = result.newStats;
+
+    const inventoryItemType = MOOP_TO_INVENTORY[moopItem.type];
+    if (inventoryItemType) {
+      addItemToInventory(state.player.inventory, inventoryItemType, 1);
+    }
+    recordQuestProgress(ctx, { kind: 'moopCollected' });
+
+    markCollected(ctx.spatialIndex, state.entities, id);
+    if (moopItem.type === 'blueprint') readBlueprint(ctx, moopItem.position);
+
+    ctx.events.publish({ type: 'MoopCollected', moopType: moopItem.type, karma: result.karmaGained, position: moopItem.position });
+  });
+}
+
+/**
+ * Check for world collectible collection (water, food, drugs, batteries, light bulbs)
+ */
+function checkCollectibleCollection(ctx: SimulationContext, input: InputSnapshot, playerPos: Vec2, playerRadius: number): void {
+  const { state } = ctx;
+  checkBikeMount(ctx, input);
+  if (ctx.worldManager.getCurrentWorldId() === 'playa') {
+    checkArtCarMount(ctx, input);
+  }
+
+  findCollectiblesNear(ctx.spatialIndex, state.entities, playerPos, playerRadius, 'item').forEach(id => {
+    const collectible = readArchetype(state.entities, WORLD_ITEM, id)!;
+    if (collectible.type === 'bike' || collectible.placed) return;
+
+    // Prevent immediate pickup after dropping a light bulb
+    if (collectible.type === 'light-bulb' && collectible.dropTime
+      && ctx.clock.now() - collectible.dropTime < LIGHT_BULB_PICKUP_COOLDOWN_MS) {
+      return;
+    }
+
+    markCollected(ctx.spatialIndex, state.entities, id);
+    collectItem(ctx, collectible);
+    ctx.audio.playSound('coinPickup', 0.3);
+  });
+}
+
+/**
+ * Apply the effect of picking up a single collectible
+ */
+function collectItem(ctx: SimulationContext, collectible: WorldItemEntity): void {
+  if (collectible.type === 'water' || collectible.type === 'battery') {
+    const itemType: ItemType = collectible.type === 'water' ? 'Water' : 'Battery';
+    createItemNotification(itemType, collectible.position);
+    addItemToInventory(ctx.state.player.inventory, itemType, 1);
+  } else if (collectible.type === 'food') {
+    const foodType = collectible.subtype as ItemType | undefined;
+    if (foodType && ITEM_DEFINITIONS[foodType]) {
+      createItemNotification(foodType, collectible.position);
+      addItemToInventory(ctx.state.player.inventory, foodType, 1);
+    }
+  } else if (collectible.type === 'drug') {
+    const drugType = collectible.subtype as DrugType | undefined;
+    if (drugType) {
+      takeDrug(ctx, drugType, collectible.position);
+    }
+  } else if (collectible.type.startsWith('light-bulb')) {
+    collectLightBulb(ctx, collectible);
+  }
+}
+
+/**
+ * Take a picked-up drug, applying its stat effects immediately, weakened by
+ * tolerance and minus whatever the drugs already active suppress
+ */
+function takeDrug(ctx: SimulationContext, drugType: DrugType, position: Vec2): void {
+  const player = ctx.state.player;
+  const dose = takeDrugDose(player.drugs, drugType);
+  player.drugs = dose.drugs;
+  player.totalDrugsTaken++;
+  ctx.events.publish({ type: 'DrugTaken', drugType, position });
+
+  const { effects, intensity } = getEffectiveDrugEffect(player.drugs, dose.effect);
+  const scaled = (value?: number): number | undefined => value && value * intensity;
+
+  // Speed and timeScale are handled as multipliers, not stat changes
+  player.stats = applyStatEffect(player.stats, {
+    energy: scaled(effects.energy),
+    mood: scaled(effects.mood),
+    thirst: scaled(effects.thirst),
+    hunger: scaled(effects.hunger),
+    karma: scaled(effects.karma),
+  });
+
+  (['mood', 'energy', 'thirst', 'hunger', 'karma', 'speed'] as const).forEach(stat => {
+    const value = Math.round(scaled(effects[stat]) ?? 0);
+    if (value) {
+      createStatNotification(stat, value, position);
+    }
+  });
+
+  if (effects.timeScale && effects.timeScale !== 1.0) {
+    const timeChange = ((effects.timeScale - 1.0) * 100).toFixed(0);
+    getNotificationSystem().addNotification(`Time: ${parseFloat(timeChange) > 0 ? '+' : ''}${timeChange}%`, 'item', 1, position);
+  }
+}
+
+/**
+ * Resolve the inventory item type for a light bulb collectible
+ */
+function getLightBulbItemType(collectible: WorldItemEntity): ItemType {
+  if (collectible.type === 'light-bulb') {
+    // Dropped light bulbs remember their specific type
+    return (collectible.lightBulbType ?? 'Light Bulb') as ItemType;
+  }
+  // Convert "light-bulb-green" to "Light Bulb Green"
+  const colorName = collectible.type.replace('light-bulb-', '');
+  return `Light Bulb ${colorName.charAt(0).toUpperCase() + colorName.slice(1)}` as ItemType;
+}
+
+/**
+ * Pick up a light bulb, charging the light battery
+ */
+function collectLightBulb(ctx: SimulationContext, collectible: WorldItemEntity): void {
+  const player = ctx.state.player;
+  const system = getNotificationSystem();
+  const lightBulbType = getLightBulbItemType(collectible);
+  const isFirst = !ctx.state.achievementProgress.counters.lightBulbsFound;
+
+  addItemToInventory(player.inventory, lightBulbType, 1);
+  ctx.events.publish({ type: 'LightBulbFound', itemType: lightBulbType, position: collectible.position });
+
+  // Charge battery by 30%, or give a spare battery when already full
+  if (player.stats.lightBattery >= 100) {
+    addItemToInventory(player.inventory, 'Battery', 1);
+    system.addNotification('Battery full! Got a spare battery instead.', 'item', 2, collectible.position);
+  } else {
+    player.stats.lightBattery = Math.min(100, player.stats.lightBattery + 30);
+    system.addNotification(`Battery charged! (${Math.round(player.stats.lightBattery)}%)`, 'item', 2, collectible.position);
+  }
+
+  if (isFirst) {
+    system.addNotification('💡 You found your first light!', 'achievement', 2, collectible.position);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Replaying recorded simulation commands
+ */
+
+import type { SimulationCommand } from './types';
+import type { Simulation } from './Simulation';
+
+/**
+ * Run a recorded command against a simulation
+ */
+export function applySimulationCommand(simulation: Simulation, command: SimulationCommand): void {
+  switch (command.type) {
+    case 'useItem':
+      simulation.useItem(command.itemType);
+      break;
+    case 'giftItem':
+      simulation.giftItem(command.recipientId, command.itemType, command.amount);
+      break;
+    case 'giftAll':
+      simulation.giftAll(command.recipientId);
+      break;
+    case 'chooseDialogue':
+      simulation.chooseDialogue(command.dialogueId, command.nodeId, command.choiceIndex);
+      break;
+    case 'craft':
+      simulation.craft(command.recipeId);
+      break;
+    case 'talkToCamp':
+      simulation.talkToCamp(command.campId);
+      break;
+    case 'toggleRest':
+      simulation.toggleRest();
+      break;
+    case 'toggleLights':
+      simulation.toggleLights();
+      break;
+    case 'toggleTotem':
+      simulation.toggleTotem();
+      break;
+    case 'wakeUp':
+      simulation.wakeUp(command.reason);
+      break;
+    case 'mountArtCar':
+      simulation.mountArtCar();
+      break;
+    case 'advanceDay':
+      simulation.advanceDay();
+      break;
+    case 'goBackDay':
+      simulation.goBackDay();
+      break;
+    case 'advanceHour':
+      simulation.advanceHour();
+      break;
+    case 'setWeather':
+      simulation.setWeather(command.weatherType);
+      break;
+    case 'assignCampJob':
+      simulation.assignCampJob(command.campMateId, command.job);
+      break;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Workbench crafting, camp lessons and blueprint finds
+ */
+
+import type { CraftingRecipe, CraftResult, Vec2 } from '../core';
+import type { SimulationContext } from './types';
+import {
+  getNotificationSystem, startCraftingJob, finishCraftingJob, learnRecipe, getCampRecipes, getUnfoundBlueprints,
+} from '../core';
+import { getWorldLandmarks } from '../worlds';
+import { isNearLandmark } from './proximity';
+import { trackKarmaChange } from './hudDeltas';
+
+const WORKBENCH_RANGE = 100;
+const CAMP_TALK_RANGE = 150;
+const BLUEPRINT_KARMA = 5; // For a blueprint the player already knows
+
+/**
+ * Check if the player is standing at a workbench in the current world
+ */
+export function isAtWorkbench(ctx: SimulationContext): boolean {
+  const { position } = ctx.state.player;
+  return getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time).some(landmark =>
+    landmark.type === 'workbench'
+    && Math.hypot(position.x - landmark.position.x, position.y - landmark.position.y) <= WORKBENCH_RANGE
+  );
+}
+
+/**
+ * Start crafting a known recipe at the workbench the player is standing at
+ */
+export function craftAtWorkbench(ctx: SimulationContext, recipeId: string): CraftResult {
+  if (!isAtWorkbench(ctx)) return { success: false, reason: 'no-workbench' };
+
+  const { crafting, player, time } = ctx.state;
+  const result = startCraftingJob(crafting, player, recipeId, time.totalMinutes);
+  if (result.success) {
+    const job = crafting.job!;
+    getNotificationSystem().addNotification(`🔨 Crafting started - ready in ${job.finishesAt - time.totalMinutes} min`, 'item', 1, player.position);
+    ctx.audio.playSound('buttonClick', 0.3);
+  }
+  return result;
+}
+
+/**
+ * Hand over the workbench's item once enough game time has passed
+ */
+export function updateCrafting(ctx: SimulationContext): void {
+  const { crafting, player, time } = ctx.state;
+  const recipe = finishCraftingJob(crafting, player.inventory, time.totalMinutes);
+  if (!recipe) return;
+
+  getNotificationSystem().addNotification(`🔨 Crafted ${recipe.result}! ${recipe.description}`, 'item', 1, player.position);
+  ctx.audio.playSound('coinPickup', 0.5);
+  console.log(`🔨 Crafted ${recipe.result} using recipe ${recipe.id}`);
+}
+
+/**
+ * Chat with a nearby camp, learning whatever recipes it teaches
+ */
+export function talkToCamp(ctx: SimulationContext, campId: string): CraftingRecipe[] {
+  const { crafting, player } = ctx.state;
+  if (!isNearLandmark(ctx, player.position, campId, CAMP_TALK_RANGE)) return [];
+
+  const learned = getCampRecipes(crafting, campId).filter(recipe => learnRecipe(crafting, recipe.id));
+  learned.forEach(recipe => {
+    getNotificationSystem().addNotification(`📐 Learned to craft ${recipe.result}`, 'item', 1, player.position);
+  });
+  return learned;
+}
+
+/**
+ * Read a blueprint picked up off the playa, learning a recipe the player has not found yet
+ */
+export function readBlueprint(ctx: SimulationContext, position: Vec2): CraftingRecipe | null {
+  const { crafting, player } = ctx.state;
+  const unfound = getUnfoundBlueprints(crafting);
+  if (unfound.length === 0) {
+    trackKarmaChange(ctx, BLUEPRINT_KARMA);
+    player.stats.karma += BLUEPRINT_KARMA;
+    getNotificationSystem().addNotification(`📜 You already know this blueprint (+${BLUEPRINT_KARMA} karma)`, 'item', BLUEPRINT_KARMA, position);
+    return null;
+  }
+
+  const recipe = unfound[ctx.rng.randomInt(0, unfound.length)];
+  learnRecipe(crafting, recipe.id);
+  getNotificationSystem().addNotification(`📜 Blueprint: learned to craft ${recipe.result}`, 'item', 1, position);
+  return recipe;
+}
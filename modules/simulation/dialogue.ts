@@ -0,0 +1,53 @@
+/**
+ * Dialogue choices: checking a choice's conditions and running its actions
+ */
+
+import type { DialogueAction, DialogueChoiceResult } from '../dialogue';
+import type { SimulationContext } from './types';
+import { addItemToInventory, applyStatEffect, getNotificationSystem, removePlayerItem } from '../core';
+import { getDialogue, isChoiceAvailable } from '../dialogue';
+import { applyKarmaChange, trackCoinChange } from './hudDeltas';
+import { recordQuestProgress } from './quests';
+import { fillUpArtCars } from './artCars';
+
+type DialogueActionHandlers = {
+  [K in DialogueAction['kind']]: (action: Extract<DialogueAction, { kind: K }>, ctx: SimulationContext) => void;
+};
+
+const DIALOGUE_ACTION_HANDLERS: DialogueActionHandlers = {
+  coins: ({ amount }, ctx) => {
+    trackCoinChange(ctx, amount);
+    ctx.state.player.stats.coins += amount;
+  },
+  karma: ({ amount }, ctx) => applyKarmaChange(ctx, amount),
+  stats: ({ change }, ctx) => {
+    ctx.state.player.stats = applyStatEffect(ctx.state.player.stats, change);
+  },
+  giveItem: ({ item, quantity = 1 }, ctx) => addItemToInventory(ctx.state.player.inventory, item, quantity),
+  takeItem: ({ item, quantity = 1 }, ctx) => {
+    removePlayerItem(ctx.state.player, item, quantity);
+  },
+  quest: ({ event }, ctx) => recordQuestProgress(ctx, event),
+  refuelArtCars: (_action, ctx) => {
+    const count = fillUpArtCars(ctx);
+    getNotificationSystem().addNotification(`⛽ Filled up ${count} art car${count === 1 ? '' : 's'} for free`, 'item', 0, ctx.state.player.position);
+  },
+  notify: ({ message }, ctx) => {
+    getNotificationSystem().addNotification(message, 'item', 0, ctx.state.player.position);
+  },
+};
+
+/**
+ * Pick a choice in a conversation, running its actions when its conditions hold
+ */
+export function chooseDialogueOption(ctx: SimulationContext, dialogueId: string, nodeId: string, choiceIndex: number): DialogueChoiceResult {
+  const choice = getDialogue(dialogueId)?.nodes[nodeId]?.choices[choiceIndex];
+  const { player, time } = ctx.state;
+  if (!choice || !isChoiceAvailable(choice, player, time)) return { success: false, next: nodeId };
+
+  (choice.actions ?? []).forEach(action =>
+    (DIALOGUE_ACTION_HANDLERS[action.kind] as (action: DialogueAction, ctx: SimulationContext) => void)(action, ctx)
+  );
+  console.log(`💬 ${dialogueId}/${nodeId}: ${choice.text}`);
+  return { success: true, next: choice.next ?? null };
+}
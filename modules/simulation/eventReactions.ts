@@ -0,0 +1,79 @@
+/**
+ * Event reactions: sounds and notifications for game events, and subscribing
+ * every system's reactions to the simulation's event bus
+ */
+
+import type { ItemType, ItemUseResult, Vec2 } from '../core';
+import type { EventBus, GameEvent, GameEventType } from '../events';
+import type { EventReactions, SimulationContext } from './types';
+import {
+  CRAFTING_RECIPES, createCoinNotification, createItemNotification, createStatNotification, getNotificationSystem,
+} from '../core';
+import { getMoopDisplayName } from '../moop';
+import { HUD_DELTA_REACTIONS } from './hudDeltas';
+import { ACHIEVEMENT_REACTIONS } from './achievements';
+
+const SOUND_REACTIONS: EventReactions = {
+  CoinCollected: ctx => ctx.audio.playSound('coinPickup', 0.5),
+  MoopCollected: ctx => ctx.audio.playSound('coinPickup', 0.3),
+  ItemUsed: ctx => ctx.audio.playSound('buttonClick', 0.3),
+  WorldTransitioned: ctx => ctx.audio.playSound('gameStart', 0.3),
+  ArtCarMounted: ctx => ctx.audio.playSound('mount', 0.3),
+  ArtCarDismounted: ctx => ctx.audio.playSound('dismount', 0.3),
+};
+
+/**
+ * Show notifications for what using an item did
+ */
+function showItemUsageNotifications(itemType: ItemType, result: ItemUseResult, position: Vec2): void {
+  const system = getNotificationSystem();
+  (['thirst', 'hunger', 'energy', 'mood', 'karma', 'speed'] as const).forEach(stat => {
+    const value = result.statChange[stat];
+    if (value) {
+      createStatNotification(stat, value, position);
+    }
+  });
+  if (result.started.some(effect => effect.buff)) {
+    system.addNotification(`✨ ${itemType} is working its magic`, 'item', 1, position);
+  }
+  result.learned.forEach(recipeId => {
+    system.addNotification(`📐 Learned to craft ${CRAFTING_RECIPES[recipeId].result}`, 'item', 1, position);
+  });
+  result.lights.forEach(color => {
+    system.addNotification(`💡 Glowing ${color}`, 'item', 1, position);
+  });
+}
+
+const NOTIFICATION_REACTIONS: EventReactions = {
+  CoinCollected: (_ctx, { amount, position }) => createCoinNotification(amount, position),
+  MoopCollected: (_ctx, { moopType, karma, position }) => {
+    getNotificationSystem().addNotification(`+1 ${getMoopDisplayName(moopType)} (+${karma} karma)`, 'item', karma, position);
+  },
+  ItemUsed: (ctx, { itemType, result }) => showItemUsageNotifications(itemType, result, ctx.state.player.position),
+  DrugTaken: (_ctx, { drugType, position }) => createItemNotification(drugType, position),
+  LightBulbFound: (_ctx, { itemType, position }) => createItemNotification(itemType, position),
+  ArtCarMounted: (_ctx, { artCarId, position }) => {
+    getNotificationSystem().addNotification(`Boarded ${artCarId === 'art-car-1' ? 'Disco Bus' : 'Fire Dragon'}!`, 'item', 2, position);
+  },
+  ArtCarDismounted: (_ctx, { position }) => {
+    getNotificationSystem().addNotification('Dismounted from art car', 'item', 2, position);
+  },
+};
+
+/**
+ * Every system that reacts to game events, in the order they react
+ */
+const REACTIONS: EventReactions[] = [SOUND_REACTIONS, NOTIFICATION_REACTIONS, HUD_DELTA_REACTIONS, ACHIEVEMENT_REACTIONS];
+
+/**
+ * Subscribe every system's reactions to the bus; the context is looked up
+ * per event because resetting the simulation replaces it
+ */
+export function subscribeEventReactions(events: EventBus, getContext: () => SimulationContext): void {
+  REACTIONS.forEach(reactions => {
+    (Object.keys(reactions) as GameEventType[]).forEach(type => {
+      const react = reactions[type] as (ctx: SimulationContext, event: GameEvent) => void;
+      events.subscribe(type, event => react(getContext(), event));
+    });
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * Gifting: who is close enough to receive a gift, how it lands and what friends give back
+ */
+
+import type { ItemType, Vec2 } from '../core';
+import type { GiftOutcome, GiftRecipient, GiftTaste, Reciprocation } from '../relationships';
+import type { SimulationContext } from './types';
+import { addItemToInventory, distance, getNotificationSystem, removePlayerItem } from '../core';
+import { listArchetype, ART_CAR, WORLD_ITEM } from '../ecs';
+import { getWorldLandmarks } from '../worlds';
+import { getCampMateRecipient, getCampRecipient, getCrewRecipient, giveGift, TASTE_KARMA } from '../relationships';
+import { findNearbyLandmark } from './proximity';
+import { recordQuestProgress } from './quests';
+
+const GIFT_CAMP_RANGE = 200;
+const GIFT_CREW_RANGE = 150;
+const GIFT_CAMP_MATE_RANGE = 80;
+
+const TASTE_REACTIONS: Record<GiftTaste, string> = {
+  loved: ' ❤️ They loved it!',
+  liked: ' 🙂',
+  neutral: '',
+  disliked: ' 😬 Not their thing',
+};
+
+const COMPASS = ['east', 'south-east', 'south', 'south-west', 'west', 'north-west', 'north', 'north-east'];
+
+/**
+ * Karma earned per gifted item: lights/batteries most, food medium, trinkets low
+ */
+export function getGiftKarmaForItem(itemType: string): number {
+  const t = itemType.toLowerCase();
+  if (/light bulb|battery|bulb/.test(t)) return 5;
+  if (/water|pizza|nachos|pickles|bacon|corn dog|energy bar|grilled cheese|burner burger|cotton candy|dusty donut|smoothie|popsicle|fruit salad|burrito/.test(t)) return 3;
+  if (/trinket|clothing|hat|boots|cape|costume/.test(t)) return 2;
+  return 1;
+}
+
+/**
+ * Camps, art car crews and camp mates within gifting range, closest first
+ */
+export function findGiftRecipients(ctx: SimulationContext): GiftRecipient[] {
+  const position = ctx.state.player.position;
+  const nearby: Array<{ recipient: GiftRecipient; distance: number }> = [];
+  const add = (recipient: GiftRecipient | undefined, at: Vec2, range: number) => {
+    const away = distance(position, at);
+    if (recipient && away <= range && !nearby.some(entry => entry.recipient.id === recipient.id)) {
+      nearby.push({ recipient, distance: away });
+    }
+  };
+
+  getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time)
+    .forEach(landmark => add(getCampRecipient(landmark.id), landmark.position, GIFT_CAMP_RANGE));
+  listArchetype(ctx.state.entities, ART_CAR).forEach(car => add(getCrewRecipient(car.design), car.pos, GIFT_CREW_RANGE));
+  ctx.runtime.campMates.forEach(mate => add(getCampMateRecipient(mate.name), mate.position, GIFT_CAMP_MATE_RANGE));
+
+  return nearby.sort((a, b) => a.distance - b.distance).map(entry => entry.recipient);
+}
+
+/**
+ * Point the player at the closest free bike in this world
+ */
+function tellBikeRumour(ctx: SimulationContext, from: string): string {
+  const { position } = ctx.state.player;
+  const bike = listArchetype(ctx.state.entities, WORLD_ITEM)
+    .filter(item => item.type === 'bike' && !item.collected && item.id !== ctx.state.player.mountedBikeId)
+    .sort((a, b) => distance(position, a.position) - distance(position, b.position))[0];
+  if (!bike) return `🚲 ${from}: "No free bikes around here, sorry"`;
+
+  const angle = Math.atan2(bike.position.y - position.y, bike.position.x - position.x);
+  const heading = COMPASS[(Math.round(angle / (Math.PI / 4)) + 8) % 8];
+  return `🚲 ${from}: "There's a free bike about ${Math.round(distance(position, bike.position))} paces ${heading} of here"`;
+}
+
+/**
+ * Hand the player whatever a friend gives back
+ */
+function reciprocate(ctx: SimulationContext, recipient: GiftRecipient, reciprocation: Reciprocation): void {
+  const { player } = ctx.state;
+  const system = getNotificationSystem();
+
+  switch (reciprocation.kind) {
+    case 'returnGift':
+      addItemToInventory(player.inventory, reciprocation.item, reciprocation.quantity ?? 1);
+      system.addNotification(`🎁 ${recipient.name} gave you ${reciprocation.quantity ?? 1} ${reciprocation.item}`, 'item', 0, player.position);
+      break;
+    case 'bikeRumour':
+      system.addNotification(tellBikeRumour(ctx, recipient.name), 'info', 0, player.position);
+      break;
+    case 'invitation': {
+      const { event, where, day, hour } = reciprocation;
+      system.addNotification(`💌 ${recipient.name} invited you to ${event} at ${where}, day ${day} ${String(hour).padStart(2, '0')}:00`, 'info', 0, player.position);
+      break;
+    }
+  }
+}
+
+/**
+ * Give `quantity` of an item that has already left the inventory, earning its karma
+ */
+function deliverGift(ctx: SimulationContext, recipient: GiftRecipient, itemType: ItemType, quantity: number): { karma: number; outcome: GiftOutcome } {
+  const outcome = giveGift(ctx.state.relationships, recipient, itemType, quantity);
+  const karma = getGiftKarmaForItem(itemType) * quantity * TASTE_KARMA[outcome.taste];
+
+  ctx.state.player.stats.karma += karma;
+  ctx.events.publish({ type: 'GiftGiven', recipientId: recipient.id, recipientKind: recipient.kind, itemType, quantity, karma });
+  outcome.reciprocations.forEach(reciprocation => reciprocate(ctx, recipient, reciprocation));
+  return { karma, outcome };
+}
+
+/**
+ * Count a gift towards quests when it went to a camp or was given at one
+ */
+function recordGiftAtCamp(ctx: SimulationContext, recipient: GiftRecipient): void {
+  const campId = recipient.kind === 'camp'
+    ? recipient.id
+    : findNearbyLandmark(ctx, ctx.state.player.position, 'camp', GIFT_CAMP_RANGE);
+  if (campId) recordQuestProgress(ctx, { kind: 'gifted', campId });
+}
+
+function findRecipientInRange(ctx: SimulationContext, recipientId: string): GiftRecipient | undefined {
+  const recipient = findGiftRecipients(ctx).find(nearby => nearby.id === recipientId);
+  if (!recipient) {
+    getNotificationSystem().addNotification('They are too far away to take a gift', 'warning', 0, ctx.state.player.position);
+  }
+  return recipient;
+}
+
+/**
+ * Gift up to `amount` of an item to a nearby recipient
+ */
+export function giftItem(ctx: SimulationContext, recipientId: string, itemType: ItemType, amount: number): GiftOutcome | null {
+  const player = ctx.state.player;
+  const current = player.inventory.items.get(itemType) || 0;
+  const recipient = current > 0 ? findRecipientInRange(ctx, recipientId) : undefined;
+  if (!recipient) return null;
+
+  const give = Math.min(current, amount);
+  removePlayerItem(player, itemType, give);
+
+  const { karma, outcome } = deliverGift(ctx, recipient, itemType, give);
+  const message = `🎁 Gifted ${give} ${itemType} to ${recipient.name} • +${Math.round(karma)} karma${TASTE_REACTIONS[outcome.taste]}`;
+  getNotificationSystem().addNotification(message, 'karma', 2200, player.position);
+  recordGiftAtCamp(ctx, recipient);
+  return outcome;
+}
+
+/**
+ * Gift the whole inventory to a nearby recipient at once, returning the karma earned
+ */
+export function giftAllItems(ctx: SimulationContext, recipientId: string): number {
+  const player = ctx.state.player;
+  const items = Array.from(player.inventory.items.entries()).filter(([, qty]) => qty > 0);
+  const recipient = items.length > 0 ? findRecipientInRange(ctx, recipientId) : undefined;
+  if (!recipient) return 0;
+
+  const totalKarma = items.reduce((sum, [type, qty]) => {
+    removePlayerItem(player, type, qty);
+    return sum + deliverGift(ctx, recipient, type, qty).karma;
+  }, 0);
+
+  getNotificationSystem().addNotification(`🎁 Gifted All to ${recipient.name} • +${Math.round(totalKarma)} karma`, 'karma', 2500, player.position);
+  recordGiftAtCamp(ctx, recipient);
+  return totalKarma;
+}
@@ -0,0 +1,66 @@
+/**
+ * Recent coin and karma changes shown next to the HUD counters
+ */
+
+import type { EventReactions, SimulationContext, SimulationRuntime } from './types';
+
+const HISTORY_WINDOW_MS = 5000;
+
+/**
+ * Track coin changes for HUD display
+ */
+export function trackCoinChange(ctx: SimulationContext, amount: number): void {
+  const now = ctx.clock.now();
+  ctx.runtime.coinChangeHistory.push({ amount, timestamp: now });
+  ctx.runtime.coinChangeHistory = ctx.runtime.coinChangeHistory.filter(
+    entry => now - entry.timestamp < HISTORY_WINDOW_MS
+  );
+}
+
+/**
+ * Track karma changes for HUD display
+ */
+export function trackKarmaChange(ctx: SimulationContext, amount: number): void {
+  const now = ctx.clock.now();
+  ctx.runtime.karmaChangeHistory.push({ amount, timestamp: now });
+  ctx.runtime.karmaChangeHistory = ctx.runtime.karmaChangeHistory.filter(
+    entry => now - entry.timestamp < HISTORY_WINDOW_MS
+  );
+}
+
+/**
+ * Apply an unclamped karma change and surface it to the HUD
+ */
+export function applyKarmaChange(ctx: SimulationContext, delta: number): void {
+  ctx.state.player.stats.karma += delta;
+  ctx.runtime.karmaChangeHistory.push({ amount: delta, timestamp: ctx.clock.now() });
+}
+
+/**
+ * Coins and karma from game events, shown next to the HUD counters
+ */
+export const HUD_DELTA_REACTIONS: EventReactions = {
+  CoinCollected: (ctx, { amount }) => trackCoinChange(ctx, amount),
+  MoopCollected: (ctx, { karma }) => trackKarmaChange(ctx, karma),
+  GiftGiven: (ctx, { karma }) => trackKarmaChange(ctx, karma),
+};
+
+/**
+ * Get total coin change in last 5 seconds
+ */
+export function getRecentCoinChange(runtime: SimulationRuntime, now: number): number {
+  const cutoff = now - HISTORY_WINDOW_MS;
+  return runtime.coinChangeHistory
+    .filter(entry => entry.timestamp > cutoff)
+    .reduce((total, entry) => total + entry.amount, 0);
+}
+
+/**
+ * Get total karma change in last 5 seconds
+ */
+export function getRecentKarmaChange(runtime: SimulationRuntime, now: number): number {
+  const cutoff = now - HISTORY_WINDOW_MS;
+  return runtime.karmaChangeHistory
+    .filter(entry => entry.timestamp > cutoff)
+    .reduce((total, entry) => total + entry.amount, 0);
+}
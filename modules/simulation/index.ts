@@ -0,0 +1,61 @@
+/**
+ * Simulation module - headless game rules driven by input snapshots
+ */
+
+// Types
+export type {
+  InputSnapshot,
+  SimulationConfig,
+  CampMate,
+  CampJob,
+  CampMateActivity,
+  CampMateNeeds,
+  GameEndSummary,
+  SimulationHooks,
+  SimulationDeps,
+  SimulationCommand,
+  SimulationProgress,
+} from './types';
+
+// Simulation
+export { Simulation } from './Simulation';
+export { applySimulationCommand } from './commands';
+
+// Input snapshots
+export {
+  createInputSnapshot,
+  EMPTY_INPUT,
+  wasActionJustPressed,
+  wasAnyActionPressed,
+} from './input';
+
+// Initial state
+export {
+  createInitialGameState,
+  generateCampMates,
+  CAMP_CENTER,
+  CAMP_WORLD_WIDTH,
+  CAMP_WORLD_HEIGHT,
+} from './initialState';
+
+// Player actions
+export { getGiftKarmaForItem } from './gifts';
+export { getEffectivePlayerSpeed } from './playerMovement';
+
+// Camp mate lives and jobs
+export { CAMP_JOBS } from './campJobs';
+export { chooseCampMateActivity, getScheduledActivity } from './campLife';
+
+// Art car behavior
+export type {
+  ArtCarBranch,
+  ArtCarPersonality,
+  ArtCarBlackboard,
+  ArtCarWorld,
+  ArtCarAgent,
+} from './artCarBehaviors';
+export {
+  createArtCarTree,
+  getArtCarPersonality,
+  tickArtCarTree,
+} from './artCarTrees';
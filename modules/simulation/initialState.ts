@@ -0,0 +1,199 @@
+/**
+ * Initial game state and camp mate generation
+ */
+
+import type { GameState } from '../core';
+import type { EntityStore, PortopottyEntity } from '../ecs';
+import type { Rng } from '../../shared/ports';
+import type { CampMate, SimulationConfig, SimulationRuntime } from './types';
+import { createVec2, createEmptyInventory, addItemToInventory, createInitialGameTime, createCraftingState } from '../core';
+import { createQuestState } from '../quests';
+import { createRelationshipState } from '../relationships';
+import { createAchievementProgress, createAwards } from '../achievements';
+import { createEntityStore, spawnArchetype, ART_CAR, HELL_STATION, PORTOPOTTY } from '../ecs';
+import { createArtCar } from '../../src/modules/entities';
+
+export const CAMP_CENTER = { x: 800, y: 600 }; // Center of camp world
+export const CAMP_WORLD_WIDTH = 1600; // Full camp world width
+export const CAMP_WORLD_HEIGHT = 1200; // Full camp world height
+
+const CAMP_MATE_COUNT = 50;
+
+export const CAMP_MATE_COLORS = [
+  '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57',
+  '#ff9ff3', '#54a0ff', '#5f27cd', '#00d2d3', '#ff9f43',
+  '#10ac84', '#ee5a24', '#0984e3', '#6c5ce7', '#a29bfe',
+  '#fd79a8', '#fdcb6e', '#e17055', '#81ecec', '#74b9ff',
+];
+
+export const CAMP_MATE_NAMES = [
+  'Wombat Wally', 'Wombat Wendy', 'Wombat Walter', 'Wombat Willow', 'Wombat Winston',
+  'Wombat Wanda', 'Wombat Wesley', 'Wombat Whitney', 'Wombat Warren', 'Wombat Wren',
+  'Wombat Wade', 'Wombat Waverly', 'Wombat Waylon', 'Wombat Winona', 'Wombat Wyatt',
+  'Wombat Wylie', 'Wombat Walker', 'Wombat Winter', 'Wombat Wilder',
+];
+
+const ART_CAR_STARTS = [
+  { x: 1600, y: 1200 },
+  { x: 2400, y: 2000 },
+  { x: 1800, y: 800 },
+  { x: 2200, y: 1600 },
+  { x: 1400, y: 1800 },
+];
+
+const PORTOPOTTIES: PortopottyEntity[] = [
+  { id: 'porto-1', position: { x: 1000, y: 500 }, aabb: { x: 1000, y: 500, w: 120, h: 120 }, used: false },
+  { id: 'porto-2', position: { x: 1500, y: 800 }, aabb: { x: 1500, y: 800, w: 120, h: 120 }, used: false, broken: true },
+  { id: 'porto-3', position: { x: 2000, y: 1200 }, aabb: { x: 2000, y: 1200, w: 120, h: 120 }, used: false },
+  // Kept away from Boom Boom Womb (playa-camp at 1200,1500) to avoid bathroom-at-camp bug
+  { id: 'porto-4', position: { x: 1100, y: 1650 }, aabb: { x: 1100, y: 1650, w: 120, h: 120 }, used: false, broken: true },
+  { id: 'porto-5', position: { x: 1800, y: 1800 }, aabb: { x: 1800, y: 1800, w: 120, h: 120 }, used: false },
+  { id: 'porto-6', position: { x: 800, y: 1000 }, aabb: { x: 800, y: 1000, w: 120, h: 120 }, used: false },
+  { id: 'porto-7', position: { x: 2200, y: 600 }, aabb: { x: 2200, y: 600, w: 120, h: 120 }, used: false, broken: true },
+  { id: 'porto-8', position: { x: 1400, y: 2000 }, aabb: { x: 1400, y: 2000, w: 120, h: 120 }, used: false },
+  { id: 'porto-9', position: { x: 2600, y: 1400 }, aabb: { x: 2600, y: 1400, w: 120, h: 120 }, used: false },
+  { id: 'porto-10', position: { x: 900, y: 1700 }, aabb: { x: 900, y: 1700, w: 120, h: 120 }, used: false },
+];
+
+/**
+ * The Hell Station, art cars and portopotties that live on the playa
+ */
+function createPlayaFixtures(rng: Rng): EntityStore {
+  const store = createEntityStore();
+  spawnArchetype(store, HELL_STATION, {
+    id: 'hell-station-main',
+    aabb: { x: 800, y: 400, w: 400, h: 400 }, // 10pm position (northwest) near trash fence
+    spawnIntervalMs: 4000,
+    maxCans: 6,
+    lastSpawnAt: 0,
+  });
+  ART_CAR_STARTS.forEach(start => spawnArchetype(store, ART_CAR, createArtCar(rng, start)));
+  PORTOPOTTIES.forEach(portopotty => spawnArchetype(store, PORTOPOTTY, structuredClone(portopotty)));
+  return store;
+}
+
+/**
+ * Create the Day 1 game state with the player at camp
+ */
+export function createInitialGameState(config: SimulationConfig, rng: Rng, startedAt: number): GameState {
+  const playerSpawn = createVec2(CAMP_CENTER.x, CAMP_CENTER.y);
+
+  const inventory = createEmptyInventory();
+  // Add starting items
+  addItemToInventory(inventory, 'Water', 3);
+  addItemToInventory(inventory, 'Grilled Cheese', 1);
+  addItemToInventory(inventory, 'Energy Bar', 1);
+  addItemToInventory(inventory, 'Totem', 1); // Add totem for testing lighting effects
+  addItemToInventory(inventory, 'Light Bulb White', 1); // Add light bulb for testing lights system
+
+  return {
+    player: {
+      position: playerSpawn,
+      stats: {
+        coins: 0,
+        energy: 100, // Start full
+        mood: 100, // Start full
+        thirst: 0, // Start empty (increases over time)
+        hunger: 0, // Start empty (increases over time)
+        karma: 0,
+        speed: 100,
+        lightBattery: 50, // Start with some battery for testing lights system
+        bathroom: 0, // Start empty (increases over time)
+      },
+      drugs: {
+        active: [],
+        maxStack: 5,
+        tolerance: {},
+        comedowns: [],
+      },
+      inventory,
+      isResting: false,
+      lightsOn: false, // Lights start off
+      equipment: {}, // Nothing equipped initially
+      totalDrugsTaken: 0,
+      totalTimeOnDrugs: 0,
+      gameStartTime: startedAt,
+      actualPlayTime: 0, // Track actual play time excluding pauses
+      achievements: new Set<string>(),
+      lightEffects: [],
+      itemEffects: [],
+    },
+    seed: config.seed,
+    time: createInitialGameTime(),
+    gameEnded: false,
+    weather: {
+      type: 'clear',
+      intensity: 0,
+      duration: 0,
+      startTime: 0,
+    },
+    dustStorm: {
+      active: false,
+      intensity: 0,
+      duration: 0,
+      startTime: 0,
+    },
+    crafting: createCraftingState(),
+    quests: createQuestState(),
+    relationships: createRelationshipState(),
+    camp: { stash: {}, moopSwept: 0 },
+    achievementProgress: createAchievementProgress(),
+    entities: createPlayaFixtures(rng), // Coins and moop are added when the current world loads
+  };
+}
+
+/**
+ * Per-run counters and caches that are not saved with the game state
+ */
+export function createRuntime(): SimulationRuntime {
+  return {
+    campMates: [],
+    wombatsAtCamp: 50,
+    wombatsOnPlaya: 0,
+    achievements: new Set(),
+    awards: createAwards(),
+    coinChangeHistory: [],
+    karmaChangeHistory: [],
+    lastPlayerPosition: null,
+    playerVelocity: { x: 0, y: 0 },
+    lastLightDropTime: 0,
+    lastMoopDropTime: 0,
+    lastStatWarningTime: 0,
+    lastLoggedLocation: null,
+  };
+}
+
+/**
+ * Needs and job bookkeeping for a wombat that starts living at the given game minute
+ */
+export function createCampMateLife(startMinute: number): Pick<CampMate, 'needs' | 'activity' | 'jobProgress' | 'lastLivedMinute'> {
+  return { needs: { thirst: 100, energy: 100 }, activity: 'wandering', jobProgress: 0, lastLivedMinute: startMinute };
+}
+
+/**
+ * Generate wombat camp mates scattered across the camp world
+ */
+export function generateCampMates(rng: Rng, count: number = CAMP_MATE_COUNT): CampMate[] {
+  const campMates: CampMate[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // Random position and initial target anywhere in the camp world
+    const x = rng.random() * CAMP_WORLD_WIDTH;
+    const y = rng.random() * CAMP_WORLD_HEIGHT;
+    const targetX = rng.random() * CAMP_WORLD_WIDTH;
+    const targetY = rng.random() * CAMP_WORLD_HEIGHT;
+
+    campMates.push({
+      id: `campmate-${i}`,
+      position: createVec2(x, y),
+      color: CAMP_MATE_COLORS[i % CAMP_MATE_COLORS.length],
+      name: CAMP_MATE_NAMES[i % CAMP_MATE_NAMES.length],
+      targetPosition: createVec2(targetX, targetY),
+      speed: 0.5 + rng.random() * 1.0, // Random speed between 0.5 and 1.5
+      mood: 40 + rng.random() * 40, // Random mood between 40 and 80
+      ...createCampMateLife(createInitialGameTime().totalMinutes),
+    });
+  }
+
+  return campMates;
+}
@@ -0,0 +1,37 @@
+/**
+ * Input snapshot helpers
+ */
+
+import type { Vec2 } from '../core';
+import { clampMovementVector } from '../core';
+import type { InputAction } from '../input';
+import type { InputSnapshot } from './types';
+
+/**
+ * Create an input snapshot; movement longer than 1 is cut down to full speed
+ */
+export function createInputSnapshot(
+  movement: Vec2 | null = null,
+  justPressed: InputAction[] = []
+): InputSnapshot {
+  return { movement: clampMovementVector(movement ?? { x: 0, y: 0 }), justPressed };
+}
+
+/**
+ * Snapshot for a tick where nothing was pressed
+ */
+export const EMPTY_INPUT: InputSnapshot = { movement: { x: 0, y: 0 }, justPressed: [] };
+
+/**
+ * Check if an action was pressed this tick
+ */
+export function wasActionJustPressed(input: InputSnapshot, action: InputAction): boolean {
+  return input.justPressed.includes(action);
+}
+
+/**
+ * Check if any action was pressed this tick
+ */
+export function wasAnyActionPressed(input: InputSnapshot): boolean {
+  return input.justPressed.length > 0;
+}
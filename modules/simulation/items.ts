@@ -0,0 +1,185 @@
+/**
+ * Inventory item use: quick slots, dropping light bulbs and moop, equipment
+ */
+
+import type { ItemType } from '../core';
+import type { MoopType } from '../moop';
+import type { WorldItemEntity } from '../ecs';
+import type { InputSnapshot, SimulationContext } from './types';
+import {
+  useItem, getInventoryItems, removePlayerItem, canEquipItem, equipItem, unequipItem,
+  getItemSlot, getActiveSets, getNotificationSystem,
+} from '../core';
+import { MOOP_DEFINITIONS } from '../moop';
+import { indexEntity, spawnArchetype, WORLD_ITEM } from '../ecs';
+import { QUICK_SLOT_ACTIONS } from '../input';
+import { wasActionJustPressed } from './input';
+
+const DROP_COOLDOWN_MS = 2000;
+const LITTER_PENALTY_MULTIPLIER = 2;
+
+const INVENTORY_TO_MOOP: Partial<Record<ItemType, MoopType>> = {
+  'Ducting': 'ducting',
+  'Bucket': 'bucket',
+  'Zip Tie': 'ziptie',
+  'Glitter': 'glitter',
+  'Rope': 'rope',
+  'Plastic Bag': 'plastic-bag',
+};
+
+/**
+ * Put an item into the current world where the player can see and reach it
+ */
+function addWorldItem(ctx: SimulationContext, item: WorldItemEntity): void {
+  spawnArchetype(ctx.state.entities, WORLD_ITEM, item);
+  indexEntity(ctx.spatialIndex, ctx.state.entities, item.id);
+}
+
+/**
+ * Place a world object an item spawned at the player's feet
+ */
+function placeWorldObject(ctx: SimulationContext, type: string): void {
+  const currentTime = ctx.clock.now();
+  addWorldItem(ctx, {
+    id: `placed-${type}-${currentTime}-${ctx.rng.random()}`,
+    type,
+    position: { ...ctx.state.player.position },
+    value: 1,
+    collected: false,
+    placed: true,
+  });
+}
+
+/**
+ * Use up an item and run its effects
+ */
+function consumeItem(ctx: SimulationContext, itemType: ItemType): void {
+  const player = ctx.state.player;
+  const result = useItem(player, ctx.state.crafting, itemType, ctx.clock.now());
+  if (!result.success) return;
+
+  if (result.statChange.bathroom) {
+    console.log(`🍔 Used ${itemType}: bathroom changed by ${result.statChange.bathroom.toFixed(1)}, new bathroom: ${player.stats.bathroom.toFixed(1)}`);
+  }
+  result.spawned.forEach(type => placeWorldObject(ctx, type));
+  ctx.events.publish({ type: 'ItemUsed', itemType, result });
+}
+
+/**
+ * Use the items in the quick slots pressed this tick; slot N holds the Nth
+ * item of the inventory, most plentiful first
+ */
+export function checkQuickSlots(ctx: SimulationContext, input: InputSnapshot): void {
+  const items = getInventoryItems(ctx.state.player.inventory);
+  QUICK_SLOT_ACTIONS.forEach((action, slot) => {
+    const item = items[slot];
+    if (item && wasActionJustPressed(input, action)) useInventoryItem(ctx, item.type);
+  });
+}
+
+/**
+ * Use an inventory item: drop light bulbs and moop, toggle equipment, consume the rest
+ */
+export function useInventoryItem(ctx: SimulationContext, itemType: ItemType): void {
+  const player = ctx.state.player;
+  if (player.isResting) {
+    player.isResting = false;
+    console.log('Woke up from rest to use item:', itemType);
+  }
+
+  if (itemType.includes('Light Bulb')) {
+    dropLightBulb(ctx, itemType);
+  } else if (INVENTORY_TO_MOOP[itemType]) {
+    dropMoop(ctx, itemType);
+  } else if (canEquipItem(itemType)) {
+    toggleEquipment(ctx, itemType);
+  } else {
+    consumeItem(ctx, itemType);
+  }
+}
+
+/**
+ * Check a drop cooldown, warning the player when it is still running
+ */
+function isDropReady(ctx: SimulationContext, lastDropTime: number, label: string): boolean {
+  const timeSinceLastDrop = ctx.clock.now() - lastDropTime;
+  if (timeSinceLastDrop >= DROP_COOLDOWN_MS) return true;
+
+  const remainingCooldown = Math.ceil((DROP_COOLDOWN_MS - timeSinceLastDrop) / 1000);
+  getNotificationSystem().addNotification(`${label} drop cooldown: ${remainingCooldown}s`, 'warning', 0, ctx.state.player.position);
+  return false;
+}
+
+/**
+ * Drop a light bulb near the player as a collectible
+ */
+function dropLightBulb(ctx: SimulationContext, itemType: ItemType): void {
+  const player = ctx.state.player;
+  if (!isDropReady(ctx, ctx.runtime.lastLightDropTime, 'Light')) return;
+  if ((player.inventory.items.get(itemType) || 0) <= 0) return;
+
+  removePlayerItem(player, itemType, 1);
+
+  const currentTime = ctx.clock.now();
+  addWorldItem(ctx, {
+    id: `dropped-light-${currentTime}-${ctx.rng.random()}`,
+    type: 'light-bulb',
+    position: {
+      x: player.position.x + (ctx.rng.random() - 0.5) * 40,
+      y: player.position.y + (ctx.rng.random() - 0.5) * 40,
+    },
+    value: 1,
+    collected: false,
+    lightBulbType: itemType,
+    dropTime: currentTime,
+  });
+
+  getNotificationSystem().addNotification(`Dropped ${itemType}`, 'item', 0, player.position);
+  ctx.audio.playSound('buttonClick', 0.3);
+  ctx.runtime.lastLightDropTime = currentTime;
+}
+
+/**
+ * Litter a moop item, losing double its cleanup karma
+ */
+function dropMoop(ctx: SimulationContext, itemType: ItemType): void {
+  const player = ctx.state.player;
+  if (!isDropReady(ctx, ctx.runtime.lastMoopDropTime, 'Moop')) return;
+  if ((player.inventory.items.get(itemType) || 0) <= 0) return;
+
+  removePlayerItem(player, itemType, 1);
+
+  const moopType = INVENTORY_TO_MOOP[itemType];
+  const karmaReward = moopType ? MOOP_DEFINITIONS[moopType].karmaReward : 0;
+  const karmaPenalty = karmaReward * LITTER_PENALTY_MULTIPLIER;
+  player.stats.karma -= karmaPenalty;
+
+  getNotificationSystem().addNotification(`Littered ${itemType} • -${karmaPenalty} karma`, 'warning', 0, player.position);
+  ctx.audio.playSound('buttonClick', 0.3);
+  ctx.runtime.lastMoopDropTime = ctx.clock.now();
+  console.log(`🗑️ Dropped ${itemType}, karma reversed: ${karmaReward}`);
+}
+
+/**
+ * Equip an item into its slot, or unequip it when already equipped
+ */
+function toggleEquipment(ctx: SimulationContext, itemType: ItemType): void {
+  const player = ctx.state.player;
+  const system = getNotificationSystem();
+  const slot = getItemSlot(itemType)!;
+  const replaced = player.equipment[slot];
+  const setsBefore = getActiveSets(player).map(set => set.id);
+
+  if (replaced === itemType) {
+    unequipItem(player, slot);
+    system.addNotification(`Unequipped ${itemType}`, 'item', 2000, player.position);
+  } else if (equipItem(player, itemType)) {
+    system.addNotification(replaced ? `Swapped ${replaced} for ${itemType}` : `Equipped ${itemType}`, 'item', 2000, player.position);
+    getActiveSets(player)
+      .filter(set => !setsBefore.includes(set.id))
+      .forEach(set => system.addNotification(`✨ ${set.name} set bonus!`, 'item', 2000, player.position));
+    ctx.audio.playSound('buttonClick', 0.5);
+  } else {
+    system.addNotification(`Cannot equip ${itemType}`, 'warning', 2000, player.position);
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Player commands: resting, lights and totem
+ */
+
+import type { InputSnapshot, SimulationContext } from './types';
+import { getNotificationSystem, isEquipped, equipItem, unequipItem } from '../core';
+import { wasActionJustPressed, wasAnyActionPressed } from './input';
+
+/**
+ * Start or stop resting
+ */
+export function toggleRest(ctx: SimulationContext): void {
+  const player = ctx.state.player;
+  player.isResting = !player.isResting;
+  ctx.audio.playSound(player.isResting ? 'playerRest' : 'buttonClick', player.isResting ? 0.5 : 0.3);
+}
+
+/**
+ * Wake on any action while resting, otherwise toggle rest
+ */
+export function checkRestHotkeys(ctx: SimulationContext, input: InputSnapshot): void {
+  const player = ctx.state.player;
+
+  if (player.isResting && wasAnyActionPressed(input)) {
+    player.isResting = false;
+    ctx.audio.playSound('buttonClick', 0.3);
+    return;
+  }
+
+  if (wasActionJustPressed(input, 'Rest')) {
+    toggleRest(ctx);
+  }
+}
+
+/**
+ * Wake the player before an action, logging why
+ */
+export function wakeUp(ctx: SimulationContext, reason: string): void {
+  if (ctx.state.player.isResting) {
+    ctx.state.player.isResting = false;
+    console.log(`Woke up from rest to ${reason}`);
+  }
+}
+
+/**
+ * Check if player has light bulbs (or a battery) in inventory
+ */
+function playerHasLightBulbs(ctx: SimulationContext): boolean {
+  return Array.from(ctx.state.player.inventory.items.entries()).some(([itemType, quantity]) =>
+    quantity > 0 && (itemType.includes('Light Bulb') || itemType === 'Battery')
+  );
+}
+
+/**
+ * Toggle the player's lights when they have bulbs and battery
+ */
+export function toggleLights(ctx: SimulationContext): void {
+  const player = ctx.state.player;
+  const system = getNotificationSystem();
+
+  if (!playerHasLightBulbs(ctx)) {
+    system.addNotification('No light bulbs! Find some to use lights.', 'warning', 0, player.position);
+    ctx.audio.playSound('buttonClick', 0.2);
+    return;
+  }
+
+  if (player.stats.lightBattery <= 0) {
+    system.addNotification('Battery dead! Find a battery to use lights.', 'warning', 0, player.position);
+    ctx.audio.playSound('buttonClick', 0.2);
+    return;
+  }
+
+  player.lightsOn = !player.lightsOn;
+  ctx.hooks.onLightsChanged?.(player.lightsOn);
+  ctx.audio.playSound('buttonClick', 0.3);
+  system.addNotification(player.lightsOn ? 'Lights turned on' : 'Lights turned off', 'temporary', 3000, player.position);
+}
+
+/**
+ * Equip or unequip the Totem if the player owns one
+ */
+export function toggleTotem(ctx: SimulationContext): void {
+  const player = ctx.state.player;
+  if ((player.inventory.items.get('Totem') || 0) <= 0) return;
+
+  if (isEquipped(player, 'Totem')) {
+    unequipItem(player, 'held');
+    console.log('🔧 Unequipped Totem');
+  } else if (equipItem(player, 'Totem')) {
+    console.log('🔧 Equipped Totem');
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Game clock and player movement steps
+ */
+
+import type { GameState, GameTime, MovementCurve, PlayerDrugs, Vec2 } from '../core';
+import type { InputSnapshot, SimulationContext } from './types';
+import { approachVelocity, getVectorLength, calculateMovement, clampToBounds, calculateEffectiveSpeed, calculateTimeScale, getEffectiveDrugEffects, getItemBuffMultiplier, getEquipmentModifiers, DEFAULT_SPEED_CONFIG, createVec2, updateGameTime, recoverTolerance, CAMP_TIME_CONFIG, PLAYA_TIME_CONFIG, MINUTES_PER_DAY } from '../core';
+import { readArchetype, writeArchetype, syncEntityPosition, ART_CAR, WORLD_ITEM } from '../ecs';
+import { getWeatherEffects } from '../weather';
+import { applyWorldTransition } from './worldEntities';
+import { isNearLandmark } from './proximity';
+
+const TRASH_FENCE_CENTER = { x: 2000, y: 1500 };
+const TRASH_FENCE_RADIUS = 1400;
+const CAMP_TIME_LANDMARK_RANGE = 100;
+
+/**
+ * Advance game time using world, drug and location time scales, announcing each
+ * new day. Drug tolerance wears off as game time passes.
+ */
+export function advanceGameTime(ctx: SimulationContext, deltaTime: number): void {
+  const { state, worldManager } = ctx;
+  const effectiveTimeScale = worldManager.getCurrentTimeScale() * calculateTimeScale(state.player.drugs);
+
+  const currentWorldId = worldManager.getCurrentWorldId();
+  let timeConfig = currentWorldId === 'camp' ? CAMP_TIME_CONFIG : PLAYA_TIME_CONFIG;
+
+  // Use camp time (1 second = 1 minute) when at Hell Station or Center Camp
+  if (currentWorldId === 'playa') {
+    const playerPos = state.player.position;
+    const isAtHellStation = isNearLandmark(ctx, playerPos, 'hell-station', CAMP_TIME_LANDMARK_RANGE);
+    const isAtCenterCamp = isNearLandmark(ctx, playerPos, 'center-camp', CAMP_TIME_LANDMARK_RANGE);
+
+    if (isAtHellStation || isAtCenterCamp) {
+      timeConfig = CAMP_TIME_CONFIG;
+
+      // Only log once when entering the area to prevent spam
+      const currentLocation = isAtHellStation ? 'Hell Station' : 'Center Camp';
+      if (ctx.runtime.lastLoggedLocation !== currentLocation) {
+        console.log(`⏰ Time slowed to 1s = 1 minute at ${currentLocation}`);
+        ctx.runtime.lastLoggedLocation = currentLocation;
+      }
+    } else {
+      ctx.runtime.lastLoggedLocation = null;
+    }
+  }
+
+  const previous = state.time;
+  state.time = updateGameTime(state.time, deltaTime, effectiveTimeScale, timeConfig);
+  const drugs = state.player.drugs;
+  state.player.drugs = { ...drugs, tolerance: recoverTolerance(drugs.tolerance, state.time.totalMinutes - previous.totalMinutes) };
+  if (state.time.day !== previous.day) {
+    ctx.events.publish({ type: 'DayStarted', day: state.time.day });
+  }
+}
+
+/**
+ * Calculate speed multiplier from active drug effects
+ */
+function calculateDrugSpeedMultiplier(drugs: PlayerDrugs): number {
+  let speedMultiplier = 1.0;
+
+  for (const drug of getEffectiveDrugEffects(drugs)) {
+    if (drug.effects.speed) {
+      speedMultiplier += (drug.effects.speed * drug.intensity) / 100; // Convert percentage to multiplier
+    }
+  }
+
+  return Math.max(0.1, speedMultiplier); // Minimum 10% speed
+}
+
+/**
+ * How fast the player moves: stats and weather, drugs, used and worn items, and riding a bike or art car
+ */
+export function getEffectivePlayerSpeed({ player, weather, dustStorm }: Pick<GameState, 'player' | 'weather' | 'dustStorm'>): number {
+  const weatherSpeed = getWeatherEffects(weather, dustStorm).playerSpeed;
+  const baseEffectiveSpeed = calculateEffectiveSpeed(player.stats.speed, player.stats, DEFAULT_SPEED_CONFIG, weatherSpeed);
+  const itemSpeed = getItemBuffMultiplier(player, 'speed') * getEquipmentModifiers(player).speed;
+  const bikeMultiplier = (player.isOnBike || player.mountedOn) ? 1.5 : 1.0;
+  return baseEffectiveSpeed * calculateDrugSpeedMultiplier(player.drugs) * itemSpeed * bikeMultiplier;
+}
+
+/**
+ * Jump to the start of the next day
+ */
+export function skipToNextDay(time: GameTime): void {
+  time.day += 1;
+  time.hour = 0;
+  time.minute = 0;
+  time.totalMinutes = (time.day - 1) * MINUTES_PER_DAY;
+}
+
+/**
+ * Jump back to the end of the previous day; day one stays put
+ */
+export function skipToPreviousDay(time: GameTime): void {
+  if (time.day <= 1) return;
+
+  time.day -= 1;
+  time.hour = 23;
+  time.minute = 59;
+  time.totalMinutes = (time.day - 1) * MINUTES_PER_DAY + 23 * 60 + 59;
+}
+
+/**
+ * Jump to the start of the next hour
+ */
+export function skipToNextHour(time: GameTime): void {
+  time.hour += 1;
+  if (time.hour >= 24) {
+    time.hour = 0;
+    time.day += 1;
+  }
+  time.minute = 0;
+  time.totalMinutes = (time.day - 1) * MINUTES_PER_DAY + time.hour * 60 + time.minute;
+}
+
+/**
+ * Move the player to a new position, crossing into another world or
+ * staying inside the current one (the playa is bounded by the trash fence)
+ */
+function movePlayerTo(ctx: SimulationContext, newPosition: Vec2, fenceMargin: number): void {
+  const { state, worldManager, config } = ctx;
+
+  const oldWorldId = worldManager.getCurrentWorldId();
+  const worldTransition = worldManager.checkWorldTransition(newPosition, config.playerSize);
+  if (worldTransition && worldTransition.success) {
+    applyWorldTransition(ctx, worldTransition, oldWorldId);
+    return;
+  }
+
+  if (worldManager.getCurrentWorldId() === 'playa') {
+    const dx = newPosition.x - TRASH_FENCE_CENTER.x;
+    const dy = newPosition.y - TRASH_FENCE_CENTER.y;
+    const distSq = dx * dx + dy * dy;
+    const radius = TRASH_FENCE_RADIUS - fenceMargin;
+    if (distSq > radius * radius) {
+      const dist = Math.sqrt(distSq) || 1;
+      state.player.position = createVec2(
+        TRASH_FENCE_CENTER.x + (dx / dist) * radius,
+        TRASH_FENCE_CENTER.y + (dy / dist) * radius
+      );
+    } else {
+      state.player.position = newPosition;
+    }
+    return;
+  }
+
+  const worldDimensions = worldManager.getCurrentWorldDimensions();
+  state.player.position = clampToBounds(newPosition, worldDimensions.width, worldDimensions.height, config.playerSize);
+}
+
+/**
+ * Walking gets going almost at once; a bike picks up speed slowly and coasts
+ */
+const WALK_CURVE: MovementCurve = { acceleration: 10, deceleration: 12 };
+const BIKE_CURVE: MovementCurve = { acceleration: 3, deceleration: 1.5 };
+
+/**
+ * Ride along on the mounted art car, or walk/bike along the input's movement vector
+ */
+export function updatePlayerMovement(ctx: SimulationContext, input: InputSnapshot, deltaTime: number): void {
+  const { state, config, runtime } = ctx;
+  const player = state.player;
+
+  if (player.mountedOn) {
+    const mountedCar = readArchetype(state.entities, ART_CAR, player.mountedOn);
+    if (!mountedCar) return;
+    runtime.playerVelocity = createVec2(0, 0); // Step off the car from a standstill
+
+    // Art car riding provides energy and mood boost
+    const artCarBoost = deltaTime * 0.5;
+    player.stats.energy = Math.min(100, player.stats.energy + artCarBoost);
+    player.stats.mood = Math.min(100, player.stats.mood + artCarBoost);
+
+    // Position player on top of the art car, scaled by car size
+    movePlayerTo(ctx, { x: mountedCar.pos.x, y: mountedCar.pos.y - 40 * mountedCar.size }, 0);
+    return;
+  }
+
+  const steering = player.isResting ? createVec2(0, 0) : input.movement;
+  runtime.playerVelocity = approachVelocity(runtime.playerVelocity, steering, player.isOnBike ? BIKE_CURVE : WALK_CURVE, deltaTime);
+  if (getVectorLength(runtime.playerVelocity) === 0) return;
+
+  const newPosition = calculateMovement(player.position, { direction: runtime.playerVelocity, deltaTime }, getEffectivePlayerSpeed(state));
+  movePlayerTo(ctx, newPosition, config.playerSize);
+
+  // Play movement sound occasionally (not every frame)
+  if (ctx.rng.random() < 0.1) {
+    ctx.audio.playSound('playerMove', 0.1);
+  }
+}
+
+/**
+ * Start the player standing still where they are, as after a reset or a load
+ */
+export function resetPlayerMotion(ctx: SimulationContext): void {
+  ctx.runtime.lastPlayerPosition = { ...ctx.state.player.position };
+  ctx.runtime.playerVelocity = createVec2(0, 0);
+}
+
+/**
+ * Keep the mounted bike under the player
+ */
+export function moveMountedBike(ctx: SimulationContext): void {
+  const player = ctx.state.player;
+  if (!player.isOnBike || !player.mountedBikeId) return;
+
+  const mountedBike = readArchetype(ctx.state.entities, WORLD_ITEM, player.mountedBikeId);
+  if (mountedBike) {
+    writeArchetype(ctx.state.entities, WORLD_ITEM, { ...mountedBike, position: { ...player.position } });
+    syncEntityPosition(ctx.spatialIndex, ctx.state.entities, mountedBike.id);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Portopotty bathroom breaks and portal warps
+ */
+
+import type { SimulationContext } from './types';
+import { createVec2, getNotificationSystem } from '../core';
+import { getWorldLandmarks } from '../worlds';
+import { getComponent, queryEntities } from '../ecs';
+
+const INTERACTION_DISTANCE = 80;
+const PORTOPOTTY_COOLDOWN_MS = 10000;
+const PORTAL_WARP_DISTANCE = 80;
+const PLAYA_WARP_BOUNDS = { minX: 0, maxX: 4000, minY: 0, maxY: 4000 };
+
+/**
+ * Warp the player to a random playa position when they touch a portal
+ */
+function checkPortalProximity(ctx: SimulationContext): void {
+  const playerPos = ctx.state.player.position;
+  const landmarks = getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time);
+
+  const portal = landmarks.find(landmark =>
+    landmark.type === 'artCar'
+    && Math.hypot(playerPos.x - landmark.position.x, playerPos.y - landmark.position.y) <= PORTAL_WARP_DISTANCE
+  );
+  if (!portal) return;
+
+  console.log('🌀 Portal warp triggered by proximity:', portal.id);
+  const { minX, maxX, minY, maxY } = PLAYA_WARP_BOUNDS;
+  const destination = createVec2(ctx.rng.random() * (maxX - minX) + minX, ctx.rng.random() * (maxY - minY) + minY);
+  ctx.state.player.position.x = destination.x;
+  ctx.state.player.position.y = destination.y;
+
+  ctx.hooks.onPlayerWarped?.(destination);
+  console.log('🌀 Warped to:', destination);
+}
+
+/**
+ * Reset used portopotties after the cooldown period
+ */
+function resetUsedPortopotties(ctx: SimulationContext): void {
+  const currentTime = ctx.clock.now();
+
+  for (const id of queryEntities(ctx.state.entities, 'portopotty')) {
+    const porto = getComponent(ctx.state.entities, id, 'portopotty')!;
+    if (porto.used && porto.usedTime && currentTime - porto.usedTime > PORTOPOTTY_COOLDOWN_MS) {
+      porto.used = false;
+      porto.usedTime = undefined;
+    }
+  }
+}
+
+/**
+ * Use a nearby working portopotty to reset the bathroom stat
+ */
+function checkPortopottyInteractions(ctx: SimulationContext): void {
+  const player = ctx.state.player;
+  const playerPos = player.position;
+  const system = getNotificationSystem();
+
+  const { entities } = ctx.state;
+
+  // Only interact with one portopotty at a time
+  const portoId = queryEntities(entities, 'portopotty', 'position').find(id => {
+    const position = getComponent(entities, id, 'position')!;
+    return !getComponent(entities, id, 'portopotty')!.used
+      && Math.hypot(playerPos.x - position.x, playerPos.y - position.y) <= INTERACTION_DISTANCE;
+  });
+  if (!portoId) return;
+
+  const porto = getComponent(entities, portoId, 'portopotty')!;
+  const position = getComponent(entities, portoId, 'position')!;
+
+  if (porto.broken) {
+    if (!porto.discoveredBroken) {
+      porto.discoveredBroken = true;
+      system.addNotification('💩 Sorry, you can\'t poop there, the toilet is fucked', 'warning', 4000, playerPos);
+      ctx.audio.playSound('buttonClick', 0.3);
+      console.log(`💩 Broken portopotty ${portoId} at (${position.x}, ${position.y}) - toilet is fucked`);
+    }
+    return;
+  }
+
+  player.stats.bathroom = 0;
+  porto.used = true;
+  porto.usedTime = ctx.clock.now();
+
+  system.addNotification('🚽 Bathroom break complete!', 'temporary', 3000, playerPos);
+  ctx.audio.playSound('buttonClick', 0.5);
+  console.log(`🚽 Used portopotty ${portoId} at (${position.x}, ${position.y})`);
+}
+
+/**
+ * Portal warps, portopotty visits and portopotties coming back into service
+ */
+export function updatePortopotties(ctx: SimulationContext): void {
+  checkPortalProximity(ctx);
+  checkPortopottyInteractions(ctx);
+  resetUsedPortopotties(ctx);
+}
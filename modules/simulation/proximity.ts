@@ -0,0 +1,44 @@
+/**
+ * Landmark proximity queries for the current world
+ */
+
+import type { Vec2 } from '../core';
+import type { LandmarkType } from '../worlds';
+import type { SimulationContext } from './types';
+import { getWorldLandmarks } from '../worlds';
+
+const REST_AREA_RADIUS = 120;
+
+/**
+ * Check if a position is within range of a landmark in the current world
+ */
+export function isNearLandmark(ctx: SimulationContext, position: Vec2, landmarkId: string, range: number): boolean {
+  const landmarks = getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time);
+  const landmark = landmarks.find(l => l.id === landmarkId);
+  if (!landmark) return false;
+
+  return Math.hypot(position.x - landmark.position.x, position.y - landmark.position.y) <= range;
+}
+
+/**
+ * Id of the closest landmark of a type within range in the current world
+ */
+export function findNearbyLandmark(ctx: SimulationContext, position: Vec2, type: LandmarkType, range: number): string | undefined {
+  const distanceTo = (landmark: { position: Vec2 }) => Math.hypot(position.x - landmark.position.x, position.y - landmark.position.y);
+  return getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time)
+    .filter(landmark => landmark.type === type && distanceTo(landmark) <= range)
+    .sort((a, b) => distanceTo(a) - distanceTo(b))[0]?.id;
+}
+
+/**
+ * Check if player is at a rest area (explicit rest areas and Center Camp)
+ */
+export function isPlayerAtRestArea(ctx: SimulationContext): boolean {
+  const playerPos = ctx.state.player.position;
+  const landmarks = getWorldLandmarks(ctx.worldManager.getCurrentWorldId(), ctx.state.time);
+  const restAreas = landmarks.filter(landmark => landmark.type === 'restArea' || landmark.id === 'center-camp');
+
+  return restAreas.some(restArea =>
+    Math.hypot(playerPos.x - restArea.position.x, playerPos.y - restArea.position.y) <= REST_AREA_RADIUS
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Quests: starting and failing them over the week, counting progress and paying out rewards
+ */
+
+import type { QuestDefinition, QuestEvent } from '../quests';
+import type { SimulationContext } from './types';
+import { addItemToInventory, getNotificationSystem, learnRecipe } from '../core';
+import { updateQuests, recordQuestEvent, getQuestVisitTargets } from '../quests';
+import { isNearLandmark } from './proximity';
+import { applyKarmaChange, trackCoinChange } from './hudDeltas';
+
+const VISIT_RANGE = 150;
+
+/**
+ * Hand over a finished quest's coins, karma, items and recipes
+ */
+function grantQuestReward(ctx: SimulationContext, quest: QuestDefinition): void {
+  const { player, crafting } = ctx.state;
+  const { coins = 0, karma = 0, items = [], recipes = [] } = quest.reward;
+
+  if (coins) {
+    trackCoinChange(ctx, coins);
+    player.stats.coins += coins;
+  }
+  if (karma) applyKarmaChange(ctx, karma);
+  items.forEach(({ item, quantity }) => addItemToInventory(player.inventory, item, quantity));
+  const learned = recipes.filter(recipeId => learnRecipe(crafting, recipeId));
+
+  getNotificationSystem().addNotification(`📜 Quest complete: ${quest.title}!`, 'item', karma, player.position);
+  if (learned.length > 0) {
+    getNotificationSystem().addNotification(`📐 Learned ${learned.length} new recipe${learned.length > 1 ? 's' : ''}`, 'item', 1, player.position);
+  }
+  ctx.audio.playSound('coinPickup', 0.6);
+  console.log(`📜 Quest completed: ${quest.id}`);
+}
+
+/**
+ * Count something the player did towards their active quests
+ */
+export function recordQuestProgress(ctx: SimulationContext, event: QuestEvent): void {
+  recordQuestEvent(ctx.state.quests, event).forEach(quest => grantQuestReward(ctx, quest));
+}
+
+/**
+ * Start and fail quests as time passes and notice landmark visits
+ */
+export function updateQuestLog(ctx: SimulationContext): void {
+  const { quests, player, time } = ctx.state;
+  const system = getNotificationSystem();
+  const { started, failed } = updateQuests(quests, time);
+
+  started.forEach(quest => system.addNotification(`📜 New quest: ${quest.title}`, 'info', 0, player.position));
+  failed.forEach(quest => system.addNotification(`📜 Quest failed: ${quest.title}`, 'warning', 0, player.position));
+
+  getQuestVisitTargets(quests)
+    .filter(landmarkId => isNearLandmark(ctx, player.position, landmarkId, VISIT_RANGE))
+    .forEach(landmarkId => recordQuestProgress(ctx, { kind: 'visited', landmarkId }));
+}
@@ -0,0 +1,173 @@
+/**
+ * Simulation types - DOM-free game rules driven by input snapshots
+ */
+
+import type { Award, GameState, ItemType, Vec2, WeatherType } from '../core';
+import type { SpatialIndex } from '../spatial';
+import type { NavigationCache } from '../navigation';
+import type { AchievementView } from '../achievements';
+import type { WorldManager } from '../worlds';
+import type { EventBus, GameEventOf, GameEventType } from '../events';
+import type { InputAction } from '../input';
+import type { Clock, Rng, AudioPort } from '../../shared/ports';
+
+/**
+ * Everything the player pressed during one tick, as actions rather than
+ * keys so that rebinding never changes what a replay does
+ */
+export interface InputSnapshot {
+  movement: Vec2; // steering, length 0 to 1; keyboard diagonals are unit length, analog sticks anywhere between
+  justPressed: InputAction[]; // actions whose key was pressed for the first time this tick
+}
+
+/**
+ * Static configuration for a simulation run
+ */
+export interface SimulationConfig {
+  playerSize: number;
+  seed: number;
+  coinCount: number;
+}
+
+/**
+ * Camp jobs a wombat can be assigned to
+ */
+export type CampJob = 'sweepMoop' | 'fetchGas' | 'kitchen';
+
+/**
+ * What a camp mate is doing right now, from its schedule, needs and job
+ */
+export type CampMateActivity = 'sleeping' | 'shade' | 'partying' | 'working' | 'drinking' | 'wandering' | 'following';
+
+/**
+ * How a camp mate is holding up, 0-100; low means thirsty or tired
+ */
+export interface CampMateNeeds {
+  thirst: number;
+  energy: number;
+}
+
+/**
+ * A wombat from the player's camp
+ */
+export interface CampMate {
+  id: string;
+  position: Vec2;
+  color: string;
+  name: string;
+  targetPosition: Vec2;
+  path?: Vec2[]; // Route to targetPosition around obstacles
+  speed: number;
+  mood: number;
+  needs: CampMateNeeds;
+  activity: CampMateActivity;
+  job?: CampJob;
+  jobProgress: number; // Game minutes worked towards the job's next result
+  lastLivedMinute: number; // Game time the needs and job were last updated
+}
+
+/**
+ * Summary handed to the UI when the week is over
+ */
+export interface GameEndSummary {
+  coins: number;
+  karma: number;
+  drugPercentage: number;
+  totalDrugsTaken: number;
+  totalGameTime: number;
+}
+
+/**
+ * Progress counters used by the end-of-game screens
+ */
+export interface SimulationProgress {
+  achievements: Set<string>;
+  awards: readonly Award[];
+  totalDrugsTaken: number;
+  totalMoopCollected: number;
+  achievementLog: AchievementView[];
+}
+
+/**
+ * Callbacks for side effects that belong to the presentation layer.
+ * Every hook is optional so headless runs can ignore them. Game events
+ * go out on the simulation's EventBus instead.
+ */
+export interface SimulationHooks {
+  onCommand?(command: SimulationCommand): void;
+  onPlayerWarped?(position: Vec2): void;
+  onLightsChanged?(lightsOn: boolean): void;
+  onWeatherCleared?(): void;
+  onAchievementUnlocked?(name: string, description: string): void;
+  onGameEnded?(summary: GameEndSummary): void;
+}
+
+/**
+ * A player or debug command issued outside the per-tick input snapshot
+ */
+export type SimulationCommand =
+  | { type: 'useItem'; itemType: ItemType }
+  | { type: 'giftItem'; recipientId: string; itemType: ItemType; amount: number }
+  | { type: 'giftAll'; recipientId: string }
+  | { type: 'chooseDialogue'; dialogueId: string; nodeId: string; choiceIndex: number }
+  | { type: 'craft'; recipeId: string }
+  | { type: 'talkToCamp'; campId: string }
+  | { type: 'toggleRest' }
+  | { type: 'toggleLights' }
+  | { type: 'toggleTotem' }
+  | { type: 'wakeUp'; reason: string }
+  | { type: 'mountArtCar' }
+  | { type: 'advanceDay' }
+  | { type: 'goBackDay' }
+  | { type: 'advanceHour' }
+  | { type: 'setWeather'; weatherType: WeatherType }
+  | { type: 'assignCampJob'; campMateId: string; job: CampJob | null };
+
+/**
+ * Ports and collaborators the simulation runs against
+ */
+export interface SimulationDeps {
+  clock: Clock;
+  rng: Rng;
+  audio: AudioPort;
+  worldManager: WorldManager;
+}
+
+/**
+ * Mutable per-run bookkeeping that is not part of the saved GameState
+ */
+export interface SimulationRuntime {
+  campMates: CampMate[];
+  wombatsAtCamp: number;
+  wombatsOnPlaya: number;
+  achievements: Set<string>; // Award ids unlocked this run
+  awards: Award[];
+  coinChangeHistory: Array<{ amount: number; timestamp: number }>;
+  karmaChangeHistory: Array<{ amount: number; timestamp: number }>;
+  lastPlayerPosition: Vec2 | null;
+  playerVelocity: Vec2; // fraction of full speed, eased towards the input's movement
+  lastLightDropTime: number;
+  lastMoopDropTime: number;
+  lastStatWarningTime: number;
+  lastLoggedLocation: string | null;
+}
+
+/**
+ * Shared context handed to every simulation step
+ */
+export interface SimulationContext extends SimulationDeps {
+  state: GameState;
+  config: SimulationConfig;
+  hooks: SimulationHooks;
+  events: EventBus;
+  spatialIndex: SpatialIndex;
+  navigation: NavigationCache;
+  runtime: SimulationRuntime;
+}
+
+/**
+ * How one system reacts to the game events it cares about
+ */
+export type EventReactions = {
+  [T in GameEventType]?: (ctx: SimulationContext, event: GameEventOf<T>) => void;
+};
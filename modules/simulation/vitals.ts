@@ -0,0 +1,145 @@
+/**
+ * Player vitals: natural decay, resting, light battery, warnings and end of week
+ */
+
+import type { SimulationContext } from './types';
+import {
+  applyStatEffect, calculateNaturalEffects, DEFAULT_DECAY_CONFIG, updateDrugEffects, calculateDrugDrain, getNotificationSystem,
+  updateItemEffects, applyItemBuffsToDecay, getEquipmentModifiers,
+} from '../core';
+import { applyWeatherToDecay, getWeatherEffects } from '../weather';
+import { isPlayerAtRestArea } from './proximity';
+
+const FINAL_DAY = 11;
+const LIGHT_BATTERY_DRAIN_PER_SECOND = 1.67; // 1 bar every 6 seconds
+const RESTING_ENERGY_PER_SECOND = 12;
+const STAT_WARNING_COOLDOWN_MS = 5000;
+
+/**
+ * End the week and hand the summary to the UI
+ */
+export function endGame(ctx: SimulationContext): void {
+  const { state } = ctx;
+  state.gameEnded = true;
+
+  const actualPlayTimeSeconds = (ctx.clock.now() - state.player.gameStartTime) / 1000;
+  const drugPercentage = actualPlayTimeSeconds > 0 ? (state.player.totalTimeOnDrugs / actualPlayTimeSeconds) * 100 : 0;
+
+  ctx.hooks.onGameEnded?.({
+    coins: state.player.stats.coins,
+    karma: state.player.stats.karma,
+    drugPercentage,
+    totalDrugsTaken: state.player.totalDrugsTaken,
+    totalGameTime: actualPlayTimeSeconds,
+  });
+}
+
+/**
+ * Drain the light battery while lights are on, switching them off when empty
+ */
+function drainLightBattery(ctx: SimulationContext, deltaTime: number): void {
+  const player = ctx.state.player;
+  if (player.stats.lightBattery <= 0 || !player.lightsOn) return;
+
+  player.stats.lightBattery = Math.max(0, player.stats.lightBattery - deltaTime * LIGHT_BATTERY_DRAIN_PER_SECOND);
+
+  if (player.stats.lightBattery <= 0) {
+    player.lightsOn = false;
+    ctx.hooks.onLightsChanged?.(false);
+    getNotificationSystem().addNotification('Battery dead - lights turned off', 'warning', 4000, player.position);
+  }
+}
+
+/**
+ * Apply natural stat decay from movement and time
+ */
+export function applyNaturalDecay(ctx: SimulationContext, distanceMoved: number, deltaTime: number): void {
+  const { state } = ctx;
+  const player = state.player;
+
+  // Drug durations count down in real time - unaffected by time multipliers
+  if (player.drugs.active.length > 0) {
+    player.totalTimeOnDrugs += deltaTime;
+  }
+  player.drugs = updateDrugEffects(player.drugs, deltaTime);
+  player.stats = applyStatEffect(player.stats, calculateDrugDrain(player.drugs, deltaTime)); // Interactions and comedowns
+  updateItemEffects(player, deltaTime, ctx.clock.now());
+  player.stats = applyStatEffect(player.stats, { mood: getEquipmentModifiers(player).mood * deltaTime }); // Worn items and set bonuses
+
+  if (state.time.day >= FINAL_DAY && !state.gameEnded) {
+    endGame(ctx);
+  }
+
+  // Stat decay uses real time, not game time
+  const weatherDecay = applyWeatherToDecay(DEFAULT_DECAY_CONFIG, getWeatherEffects(state.weather, state.dustStorm));
+  const decayConfig = applyItemBuffsToDecay(weatherDecay, player);
+  const naturalEffects = calculateNaturalEffects(distanceMoved, deltaTime, player.stats, decayConfig);
+  player.stats = applyStatEffect(player.stats, naturalEffects);
+
+  drainLightBattery(ctx, deltaTime);
+}
+
+/**
+ * Apply resting effects (energy restoration)
+ */
+export function applyRestingEffects(ctx: SimulationContext, deltaTime: number): void {
+  const player = ctx.state.player;
+
+  // Allow passive recovery inside rest areas; boost more when actively resting
+  const isAtRestArea = isPlayerAtRestArea(ctx);
+  if (!player.isResting && !isAtRestArea) return;
+
+  const multiplier = isAtRestArea ? (player.isResting ? 3 : 2) : 1;
+  const newEnergy = Math.min(100, player.stats.energy + RESTING_ENERGY_PER_SECOND * deltaTime * multiplier);
+
+  if (newEnergy !== player.stats.energy) {
+    const oldEnergy = Math.floor(player.stats.energy);
+    player.stats.energy = newEnergy;
+    const energyGained = Math.floor(newEnergy) - oldEnergy;
+
+    // Only show notification when we gain a whole number of energy
+    if (energyGained > 0) {
+      const energyText = isAtRestArea
+        ? (player.isResting
+          ? `⚡ +${energyGained} Energy (3x Resting at Rest Area)`
+          : `⚡ +${energyGained} Energy (2x Rest Area)`)
+        : `+${energyGained} Energy`;
+      getNotificationSystem().addNotification(energyText, 'energy', energyGained, player.position);
+    }
+  }
+
+  // Auto-wake at 100 energy when actively resting
+  if (player.isResting && player.stats.energy >= 100) {
+    player.isResting = false;
+    ctx.audio.playSound('buttonClick', 0.3);
+  }
+}
+
+/**
+ * Warn about critical stats, at most once per cooldown
+ */
+export function checkStatWarnings(ctx: SimulationContext): void {
+  const currentTime = ctx.clock.now();
+  if (currentTime - ctx.runtime.lastStatWarningTime < STAT_WARNING_COOLDOWN_MS) return;
+
+  const stats = ctx.state.player.stats;
+  let warning: string | null = null;
+
+  if (stats.energy <= 15) {
+    warning = '⚡ You are exhausted! You need to get some rest!';
+  } else if (stats.thirst >= 85) {
+    warning = '💧 You are severely dehydrated! Find water immediately!';
+  } else if (stats.hunger >= 85) {
+    warning = '🍔 You are starving! You need food right now!';
+  } else if (stats.mood <= 15) {
+    warning = '😢 You are deeply depressed! Do something fun or eat some food!';
+  } else if (stats.bathroom >= 85) {
+    warning = '🚽 You desperately need a bathroom! Find a portopotty!';
+  }
+
+  if (warning) {
+    getNotificationSystem().addNotification(warning, 'temporary', 4000, ctx.state.player.position);
+    ctx.runtime.lastStatWarningTime = currentTime;
+    ctx.audio.playSound('buttonClick', 0.3);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Daily weather and dust storm steps
+ */
+
+import type { WeatherType } from '../core';
+import type { SimulationContext } from './types';
+import { WEATHER_PROFILES, extendForecast, startWeatherDay } from '../weather';
+
+const WEATHER_CHANGE_HOUR = 6;
+
+/**
+ * Count down forced weather, then follow the forecast each morning at 6 AM
+ */
+export function updateWeather(ctx: SimulationContext, deltaTime: number): void {
+  const { weather, time } = ctx.state;
+  weather.day ??= time.day; // Saves from before forecasts keep today's weather
+  weather.forecast ??= extendForecast([], time.day + 1, weather.type, ctx.rng);
+
+  if (weather.duration > 0) {
+    weather.duration -= deltaTime;
+    if (weather.duration <= 0) {
+      // Weather ended, set to clear
+      weather.type = 'clear';
+      weather.intensity = 0;
+      weather.duration = 0;
+      ctx.hooks.onWeatherCleared?.();
+    }
+  }
+
+  if (time.hour >= WEATHER_CHANGE_HOUR && weather.day !== time.day && weather.duration <= 0) {
+    startWeatherDay(weather, time.day, time.totalMinutes, ctx.rng);
+  }
+
+  updateDustStorm(ctx, deltaTime);
+}
+
+/**
+ * Start, vary and end dust storms; how often they blow in depends on the weather
+ */
+function updateDustStorm(ctx: SimulationContext, deltaTime: number): void {
+  const { dustStorm, time, weather } = ctx.state;
+
+  // Dust storms are more likely in the afternoon and before dawn
+  const currentHour = time.hour;
+  const isDustStormTime = (currentHour >= 14 && currentHour <= 18) || (currentHour >= 2 && currentHour <= 6);
+
+  if (dustStorm.active) {
+    dustStorm.duration -= deltaTime;
+
+    if (dustStorm.duration <= 0) {
+      dustStorm.active = false;
+      dustStorm.intensity = 0;
+      dustStorm.duration = 0;
+    } else {
+      // Vary intensity during storm
+      const stormAge = (ctx.clock.now() - dustStorm.startTime) / 1000;
+      const variation = Math.sin(stormAge * 0.5) * 0.2;
+      dustStorm.intensity = Math.max(0.3, Math.min(1.0, 0.7 + variation));
+    }
+  } else if (isDustStormTime && ctx.rng.random() < WEATHER_PROFILES[weather.type].dustStormRate * deltaTime) {
+    dustStorm.active = true;
+    dustStorm.intensity = 0.8;
+    dustStorm.duration = 30 + ctx.rng.random() * 60; // 30-90 seconds
+    dustStorm.startTime = ctx.clock.now();
+  }
+}
+
+/**
+ * Debug: force a weather type for five minutes
+ */
+export function forceWeather(ctx: SimulationContext, weatherType: WeatherType): void {
+  const weather = ctx.state.weather;
+  weather.type = weatherType;
+  weather.intensity = 0.5;
+  weather.duration = 300;
+  weather.startTime = ctx.state.time.totalMinutes;
+}
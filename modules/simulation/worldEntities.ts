@@ -0,0 +1,147 @@
+/**
+ * Per-world entity loading, spawning and world transitions
+ */
+
+import type { WorldManager, WorldTransition } from '../worlds';
+import type { SpatialIndex } from '../spatial';
+import type { SimulationContext } from './types';
+import { getSpawnMultiplier, getWorldSpawnTable } from '../worlds';
+import { spawnCollectibles } from '../world';
+import { spawnMoop, type MoopSpawnConfig } from '../moop';
+import { createSpatialIndex } from '../spatial';
+import { despawnEntity, indexEntities, indexEntity, readArchetype, spawnArchetype, COIN, MOOP, WORLD_ITEM } from '../ecs';
+import { getWeatherEffects } from '../weather';
+import { isEquipped } from '../core';
+import { storeWorldEntities, restoreWorldEntities } from './worldPersistence';
+
+const SPATIAL_CELL_SIZE = 100;
+const COLLECTIBLE_SCALE = 4;
+
+/**
+ * Create an empty spatial index sized to the current world
+ */
+export function createWorldSpatialIndex(worldManager: WorldManager): SpatialIndex {
+  const worldDimensions = worldManager.getCurrentWorldDimensions();
+  return createSpatialIndex(worldDimensions.width, worldDimensions.height, SPATIAL_CELL_SIZE);
+}
+
+/**
+ * Replace the spatial index with an empty one sized to the current world
+ */
+export function resetSpatialIndex(ctx: SimulationContext): void {
+  ctx.spatialIndex = createWorldSpatialIndex(ctx.worldManager);
+}
+
+/**
+ * Restore the current world's entities, spawning coins, collectibles
+ * and moop the first time the world is entered
+ */
+export function loadCurrentWorldEntities(ctx: SimulationContext): void {
+  const worldId = ctx.worldManager.getCurrentWorldId();
+  const worldStateManager = ctx.worldManager.getWorldStateManager();
+  const worldState = worldStateManager.getWorldState(worldId);
+
+  // Fixtures parked before the first visit are restored either way
+  restoreWorldEntities(ctx, worldState);
+
+  if (worldState.isLoaded) {
+    indexEntities(ctx.spatialIndex, ctx.state.entities);
+  } else {
+    spawnCoinsForCurrentWorld(ctx);
+    worldStateManager.markWorldLoaded(worldId, true);
+  }
+}
+
+/**
+ * Spawn coins, collectibles and moop for current world
+ */
+export function spawnCoinsForCurrentWorld(ctx: SimulationContext): void {
+  const { state, rng, config, worldManager } = ctx;
+  const worldId = worldManager.getCurrentWorldId();
+  const worldDimensions = worldManager.getCurrentWorldDimensions();
+  const playerSpawn = state.player.position;
+
+  rng.setSeed(config.seed + worldId.length);
+
+  // Items become more populated as the week goes on; dense worlds like the playa get more
+  const spawnMultiplier = getSpawnMultiplier(state.time.day);
+  const table = getWorldSpawnTable(worldId);
+  const scale = spawnMultiplier * table.density * COLLECTIBLE_SCALE;
+
+  const collectibles = spawnCollectibles(
+    rng,
+    worldDimensions.width,
+    worldDimensions.height,
+    playerSpawn,
+    ctx.spatialIndex,
+    Math.floor(config.coinCount * table.coins * scale),
+    Math.floor(table.water * scale),
+    Math.floor(table.food * scale),
+    Math.floor(table.drugs * scale),
+    Math.floor(table.bikes * scale),
+    Math.floor(table.lightBulbs * scale),
+    Math.floor(table.batteries * scale)
+  );
+
+  const moopConfig: MoopSpawnConfig = {
+    count: Math.floor(table.moop * spawnMultiplier * table.density * getWeatherEffects(state.weather).moopSpawn), // Storms scatter more
+    minDistanceFromPlayer: 100,
+    minDistanceFromOtherMoop: 30,
+    worldBounds: {
+      minX: 0,
+      maxX: worldDimensions.width,
+      minY: 0,
+      maxY: worldDimensions.height,
+    },
+  };
+  spawnMoop(moopConfig, playerSpawn, [], rng).forEach(moop => spawnArchetype(state.entities, MOOP, moop));
+
+  collectibles.forEach(({ id, type, position, value, collected, subtype }) => {
+    if (type === 'coin') {
+      spawnArchetype(state.entities, COIN, { id, position, value, collected });
+    } else {
+      spawnArchetype(state.entities, WORLD_ITEM, { id, type, position, value, collected, subtype });
+    }
+  });
+
+  // The spawner indexed every collectible it placed; keep only entities in the index
+  resetSpatialIndex(ctx);
+  indexEntities(ctx.spatialIndex, state.entities);
+}
+
+/**
+ * Move the player (and their bike) into the world they just crossed into
+ */
+export function applyWorldTransition(ctx: SimulationContext, transition: WorldTransition, oldWorldId: string): void {
+  const { state, runtime } = ctx;
+  const player = state.player;
+
+  // Wombats following the Totem cross over with the player; the rest stay behind
+  const followers = isEquipped(player, 'Totem') ? runtime.campMates : [];
+  if (followers.length > 0) {
+    runtime.campMates = [];
+  }
+
+  // Bikes travel with the player across worlds
+  const mountedBike = player.isOnBike && player.mountedBikeId ? readArchetype(state.entities, WORLD_ITEM, player.mountedBikeId) : undefined;
+  if (mountedBike) {
+    despawnEntity(state.entities, mountedBike.id);
+  }
+  storeWorldEntities(ctx, oldWorldId);
+
+  player.position = transition.newPosition;
+
+  resetSpatialIndex(ctx);
+  loadCurrentWorldEntities(ctx);
+  if (mountedBike) {
+    spawnArchetype(state.entities, WORLD_ITEM, { ...mountedBike, position: { ...transition.newPosition } });
+    indexEntity(ctx.spatialIndex, state.entities, mountedBike.id);
+  }
+  runtime.campMates.push(...followers);
+
+  if (transition.message) {
+    console.log(transition.message);
+  }
+
+  ctx.events.publish({ type: 'WorldTransitioned', transition });
+}
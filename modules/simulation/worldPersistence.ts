@@ -0,0 +1,64 @@
+/**
+ * Round-trips the live per-world entities and camp mates through WorldState.
+ * Camp mates stay outside the entity store: each is an agent with needs, a
+ * schedule and a job that its systems update in place, not a bundle of components.
+ */
+
+import type { WorldNPC, WorldState } from '../worlds';
+import type { CampMate, SimulationContext } from './types';
+import { createEntityStore } from '../ecs';
+import { createCampMateLife } from './initialState';
+
+const CAMP_MATE_NPC = 'campMate';
+
+function campMateToNpc(mate: CampMate): WorldNPC {
+  return { id: mate.id, type: CAMP_MATE_NPC, position: { ...mate.position }, state: mate.activity, data: structuredClone(mate) };
+}
+
+/**
+ * Camp mates stored in a world's NPCs, copied so the world state stays untouched.
+ * Wombats stored before they had needs start living now.
+ */
+function getStoredCampMates(ctx: SimulationContext, worldState: WorldState): CampMate[] {
+  return worldState.npcs
+    .filter(npc => npc.type === CAMP_MATE_NPC)
+    .map(npc => ({ ...createCampMateLife(ctx.state.time.totalMinutes), ...structuredClone(npc.data) }) as CampMate);
+}
+
+/**
+ * Write the entities and camp mates currently in play into a world's state,
+ * replacing what was stored before
+ */
+export function storeWorldEntities(ctx: SimulationContext, worldId: string): void {
+  const worldStateManager = ctx.worldManager.getWorldStateManager();
+  const worldState = worldStateManager.getWorldState(worldId);
+
+  const npcs = worldState.npcs.filter(npc => npc.type !== CAMP_MATE_NPC);
+  ctx.runtime.campMates.forEach(mate => npcs.push(campMateToNpc(mate)));
+
+  worldStateManager.updateWorldState(worldId, { entities: structuredClone(ctx.state.entities), npcs });
+}
+
+/**
+ * Replace the entities in play with the ones stored in a world's state
+ */
+export function restoreWorldEntities(ctx: SimulationContext, worldState: WorldState): void {
+  ctx.state.entities = worldState.entities ? structuredClone(worldState.entities) : createEntityStore();
+  ctx.runtime.campMates = getStoredCampMates(ctx, worldState);
+}
+
+/**
+ * Make a freshly loaded game state the truth for the current world. The saved
+ * state holds that world's entities; camp mates come from its stored world state.
+ */
+export function adoptLoadedWorld(ctx: SimulationContext): void {
+  const worldId = ctx.worldManager.getCurrentWorldId();
+  const worldStateManager = ctx.worldManager.getWorldStateManager();
+  const worldState = worldStateManager.getWorldState(worldId);
+
+  if (worldState.isLoaded) {
+    ctx.runtime.campMates = getStoredCampMates(ctx, worldState);
+  }
+  storeWorldEntities(ctx, worldId);
+  worldStateManager.markWorldLoaded(worldId, true);
+}
@@ -0,0 +1,63 @@
+/**
+ * Markov weather transitions and the multi-day forecast
+ */
+
+import type { ForecastDay, Weather, WeatherType } from '../core';
+import type { Rng } from '../../shared/ports';
+import type { WeatherTransitions } from './types';
+import { WEATHER_PROFILES } from './profiles';
+
+export const FORECAST_DAYS = 3;
+
+export const WEATHER_TRANSITIONS: WeatherTransitions = {
+  clear: { clear: 0.4, nice: 0.3, overcast: 0.15, thunderstorm: 0.05, duststorm: 0.1 },
+  nice: { clear: 0.3, nice: 0.4, overcast: 0.2, thunderstorm: 0.05, duststorm: 0.05 },
+  overcast: { clear: 0.2, nice: 0.2, overcast: 0.3, thunderstorm: 0.2, duststorm: 0.1 },
+  thunderstorm: { clear: 0.3, nice: 0.2, overcast: 0.35, thunderstorm: 0.1, duststorm: 0.05 },
+  duststorm: { clear: 0.35, nice: 0.15, overcast: 0.2, thunderstorm: 0.05, duststorm: 0.25 },
+};
+
+/**
+ * Roll the day after a given weather
+ */
+export function nextWeatherType(current: WeatherType, rng: Rng, transitions: WeatherTransitions = WEATHER_TRANSITIONS): WeatherType {
+  const row = Object.entries(transitions[current]) as [WeatherType, number][];
+  let roll = rng.random();
+  for (const [type, chance] of row) {
+    roll -= chance;
+    if (roll < 0) return type;
+  }
+  return row[row.length - 1][0];
+}
+
+/**
+ * Forecast covering fromDay and the FORECAST_DAYS - 1 days after it, keeping
+ * days already forecast and rolling the rest on from the last known weather
+ */
+export function extendForecast(forecast: ForecastDay[], fromDay: number, lastType: WeatherType, rng: Rng): ForecastDay[] {
+  const extended = forecast.filter(entry => entry.day >= fromDay);
+  let previous = extended.length > 0 ? extended[extended.length - 1] : { day: fromDay - 1, type: lastType };
+
+  while (extended.length < FORECAST_DAYS) {
+    previous = { day: previous.day + 1, type: nextWeatherType(previous.type, rng) };
+    extended.push(previous);
+  }
+  return extended;
+}
+
+/**
+ * Morning of a new day: today's forecast comes true and the forecast rolls on.
+ * startMinute is the game time (GameTime.totalMinutes) the day's weather begins.
+ */
+export function startWeatherDay(weather: Weather, day: number, startMinute: number, rng: Rng): void {
+  const forecast = extendForecast(weather.forecast ?? [], day, weather.type, rng);
+  const today = forecast.shift()!;
+  const [min, max] = WEATHER_PROFILES[today.type].intensity;
+
+  weather.type = today.type;
+  weather.intensity = min + rng.random() * (max - min);
+  weather.duration = 0;
+  weather.startTime = startMinute;
+  weather.day = day;
+  weather.forecast = extendForecast(forecast, day + 1, today.type, rng);
+}
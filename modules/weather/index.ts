@@ -0,0 +1,27 @@
+/**
+ * Weather module - Markov weather, forecasts and the effect profiles other systems read
+ */
+
+// Types
+export type {
+  WeatherTransitions,
+  WeatherProfile,
+  WeatherEffects,
+} from './types';
+
+// Effect profiles
+export {
+  WEATHER_PROFILES,
+  DUST_STORM_PROFILE,
+  getWeatherEffects,
+  applyWeatherToDecay,
+} from './profiles';
+
+// Transitions and forecasts
+export {
+  FORECAST_DAYS,
+  WEATHER_TRANSITIONS,
+  nextWeatherType,
+  extendForecast,
+  startWeatherDay,
+} from './forecast';
@@ -0,0 +1,84 @@
+/**
+ * Declared effect profiles for each kind of weather and for dust storms
+ */
+
+import type { DecayConfig, DustStorm, Weather, WeatherType } from '../core';
+import type { WeatherEffects, WeatherProfile } from './types';
+
+export const WEATHER_PROFILES: Record<WeatherType, WeatherProfile> = {
+  clear: {
+    intensity: [0.5, 1],
+    decay: { thirstDecayPerSecond: 1.25 }, // Full sun
+    playerSpeed: 1, visibility: 1, artCarSpeed: 1, moopSpawn: 1, dustStormRate: 0.03,
+  },
+  nice: {
+    intensity: [0.6, 1],
+    decay: { moodDecayPerSecond: 0.5 },
+    playerSpeed: 1.05, visibility: 1.35, artCarSpeed: 1.1, moopSpawn: 0.8, dustStormRate: 0.01,
+  },
+  overcast: {
+    intensity: [0.3, 0.7],
+    decay: { thirstDecayPerSecond: 0.8, moodDecayPerSecond: 1.3 },
+    playerSpeed: 1, visibility: 0.85, artCarSpeed: 1, moopSpawn: 1, dustStormRate: 0.02,
+  },
+  thunderstorm: {
+    intensity: [0.8, 1],
+    decay: { thirstDecayPerSecond: 0.5, energyDecayPerPixel: 1.5, moodDecayPerSecond: 1.5 }, // Wading through playa mud
+    playerSpeed: 0.75, visibility: 0.5, artCarSpeed: 0.6, moopSpawn: 1.3, dustStormRate: 0, // Rain keeps the dust down
+  },
+  duststorm: {
+    intensity: [0.5, 0.9],
+    decay: { thirstDecayPerSecond: 1.4, energyDecayPerPixel: 1.3, moodDecayPerSecond: 1.2 },
+    playerSpeed: 0.85, visibility: 0.6, artCarSpeed: 0.8, moopSpawn: 1.6, dustStormRate: 0.2,
+  },
+};
+
+/**
+ * A dust storm blowing through, on top of the daily weather
+ */
+export const DUST_STORM_PROFILE: Omit<WeatherProfile, 'intensity' | 'dustStormRate'> = {
+  decay: { thirstDecayPerSecond: 1.5, energyDecayPerPixel: 1.5 },
+  playerSpeed: 0.6, visibility: 0.05, artCarSpeed: 0.5, moopSpawn: 1,
+};
+
+/**
+ * Pull a full-intensity multiplier toward 1 as intensity drops; geometric so
+ * strong effects like a dust storm's visibility stay strong at mid intensity
+ */
+function scale(multiplier: number, intensity: number): number {
+  return Math.pow(multiplier, intensity);
+}
+
+function combine(effects: WeatherEffects, profile: Omit<WeatherProfile, 'intensity' | 'dustStormRate'>, intensity: number): WeatherEffects {
+  const decay = { ...effects.decay };
+  (Object.keys(profile.decay) as (keyof DecayConfig)[]).forEach(key => {
+    decay[key] = (decay[key] ?? 1) * scale(profile.decay[key]!, intensity);
+  });
+  return {
+    decay,
+    playerSpeed: effects.playerSpeed * scale(profile.playerSpeed, intensity),
+    visibility: effects.visibility * scale(profile.visibility, intensity),
+    artCarSpeed: effects.artCarSpeed * scale(profile.artCarSpeed, intensity),
+    moopSpawn: effects.moopSpawn * scale(profile.moopSpawn, intensity),
+  };
+}
+
+/**
+ * Effects of the daily weather and any active dust storm
+ */
+export function getWeatherEffects(weather: Weather, dustStorm?: DustStorm): WeatherEffects {
+  const neutral: WeatherEffects = { decay: {}, playerSpeed: 1, visibility: 1, artCarSpeed: 1, moopSpawn: 1 };
+  const effects = combine(neutral, WEATHER_PROFILES[weather.type], weather.intensity);
+  return dustStorm?.active ? combine(effects, DUST_STORM_PROFILE, dustStorm.intensity) : effects;
+}
+
+/**
+ * Decay rates with the weather's multipliers applied
+ */
+export function applyWeatherToDecay(config: DecayConfig, effects: WeatherEffects): DecayConfig {
+  const adjusted = { ...config };
+  (Object.keys(effects.decay) as (keyof DecayConfig)[]).forEach(key => {
+    adjusted[key] *= effects.decay[key]!;
+  });
+  return adjusted;
+}
@@ -0,0 +1,35 @@
+/**
+ * Weather module types
+ */
+
+import type { DecayConfig, WeatherType } from '../core';
+
+/**
+ * Chance of tomorrow's weather given today's; each row sums to 1
+ */
+export type WeatherTransitions = Record<WeatherType, Record<WeatherType, number>>;
+
+/**
+ * What a kind of weather does to the game at full intensity. Every number is
+ * a multiplier where 1 leaves the system untouched.
+ */
+export interface WeatherProfile {
+  intensity: [number, number]; // Range rolled each morning
+  decay: Partial<Record<keyof DecayConfig, number>>;
+  playerSpeed: number;
+  visibility: number;
+  artCarSpeed: number;
+  moopSpawn: number;
+  dustStormRate: number; // Chance per second of a dust storm in dusty hours (absolute, not a multiplier)
+}
+
+/**
+ * Combined effect of the current weather and any dust storm, scaled by intensity
+ */
+export interface WeatherEffects {
+  decay: Partial<Record<keyof DecayConfig, number>>;
+  playerSpeed: number;
+  visibility: number;
+  artCarSpeed: number;
+  moopSpawn: number;
+}
@@ -4,6 +4,7 @@
 
 export * from './types';
 export * from './worldRegistry';
+export * from './worldDefinition';
 export * from './worldStateManager';
 export * from './worldManager';
 export * from './landmarks';
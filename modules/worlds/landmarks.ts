@@ -3,11 +3,13 @@
  */
 
 import type { Vec2, GameTime } from '../core';
+import type { LandmarkDefinition, LandmarkType, RestAreaDefinition, RestAreaType } from './types';
 import { createVec2 } from '../core';
+import { getWorldDefinition } from './worldRegistry';
 
 export interface Landmark {
   id: string;
-  type: 'man' | 'temple' | 'trashFence' | 'artCar' | 'camp' | 'restArea';
+  type: LandmarkType;
   position: Vec2;
   size: number;
   color: string;
@@ -20,7 +22,7 @@ export interface Landmark {
   ashesProgress?: number; // 0-1, how much ashes remain (shrinking over time)
   isBonfire?: boolean; // If it's completely destroyed and just a bonfire
   fireworksActive?: boolean; // If fireworks should be displayed
-  restAreaType?: 'center' | 'teepee' | 'east' | 'west'; // Type of rest area
+  restAreaType?: RestAreaType; // Type of rest area
   pieces?: {
     // Man pieces
     head?: boolean;
@@ -38,22 +40,6 @@ export interface Landmark {
   };
 }
 
-/**
- * Get landmarks for a specific world with building progress based on current time
- */
-export function getWorldLandmarks(worldId: string, gameTime?: GameTime): Landmark[] {
-  switch (worldId) {
-    case 'playa':
-      return getPlayaLandmarks(gameTime);
-    case 'camp':
-      return getCampLandmarks();
-    case 'danceStage':
-      return getDanceStageLandmarks();
-    default:
-      return [];
-  }
-}
-
 /**
  * Calculate spawn multiplier based on day of week
  * Items become more populated as the week goes on, then clear out Sat-Mon
@@ -110,327 +96,150 @@ function getBuildingProgress(day: number, structure: 'man' | 'temple'): { progre
   }
 }
 
+interface BurnTimeline {
+  isBurning: boolean;
+  destructionProgress: number; // 0-1
+  ashesProgress: number; // 0-1
+  fireworksActive: boolean;
+}
+
+const UNBURNED: BurnTimeline = { isBurning: false, destructionProgress: 0, ashesProgress: 0, fireworksActive: false };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
 /**
- * Playa landmarks - The Man, Temple, and trash fence with building progress
+ * The Man's burn: fireworks from 8 AM on Day 8, a growing fire from noon
+ * that takes him apart piece by piece, then a bonfire; ashes all of Day 9
  */
-function getPlayaLandmarks(gameTime?: GameTime): Landmark[] {
-  const landmarks: Landmark[] = [];
-  const day = gameTime?.day || 1;
-  const hour = gameTime?.hour ?? 0;
-  
-  // Debug logging
-  
-  // The Man - center of the playa (3x larger)
-  const manStatus = getBuildingProgress(day, 'man');
-  
-  // New timeline: Day 7 hands down, Day 8 full sequence, Day 9 ashes
-  let manIsBurningAllDay = false;
-  let manDestructionProgress = 0;
-  let manAshesProgress = 0;
-  let fireworksActive = false;
-  
-  if (day === 7 && gameTime && gameTime.hour >= 12) {
-    // Day 7: Hands down (last 12 hours)
-    manIsBurningAllDay = false;
-    manDestructionProgress = 0;
-    manAshesProgress = 0;
-    fireworksActive = false;
-    // console.log(`🔥 Day 7: Man hands down - Hour: ${gameTime.hour}`);
-  } else if (day === 8 && gameTime) {
-    // Day 8: Full timeline
-    if (gameTime.hour < 8) {
-      // Before 8 AM: Hands up, no burning
-      manIsBurningAllDay = false;
-      manDestructionProgress = 0;
-      manAshesProgress = 0;
-      fireworksActive = false;
-    } else if (gameTime.hour < 12) {
-      // 8 AM - 12 PM: Fireworks start
-      manIsBurningAllDay = false;
-      manDestructionProgress = 0;
-      manAshesProgress = 0;
-      fireworksActive = true;
-    } else if (gameTime.hour < 15) {
-      // 12 PM - 3 PM: Man starts burning with smaller fire that grows
-      manIsBurningAllDay = true;
-      const burnHours = gameTime.hour - 12;
-      manDestructionProgress = Math.max(0, Math.min(0.3, burnHours / 3 * 0.3)); // Small fire, 0-30% over 3 hours
-      manAshesProgress = 0;
-      fireworksActive = true;
-    } else if (gameTime.hour < 17) {
-      // 3 PM - 5 PM: Phase 1 - Arms and head start falling
-      manIsBurningAllDay = true;
-      const phase1Hours = gameTime.hour - 15;
-      manDestructionProgress = Math.max(0.3, Math.min(0.6, 0.3 + (phase1Hours / 2 * 0.3))); // 30% to 60% over 2 hours
-      manAshesProgress = 0;
-      fireworksActive = true;
-    } else if (gameTime.hour < 19) {
-      // 5 PM - 7 PM: Phase 2 - Legs fall, torso starts to collapse
-      manIsBurningAllDay = true;
-      const phase2Hours = gameTime.hour - 17;
-      manDestructionProgress = Math.max(0.6, Math.min(0.85, 0.6 + (phase2Hours / 2 * 0.25))); // 60% to 85% over 2 hours
-      manAshesProgress = 0;
-      fireworksActive = true;
-    } else if (gameTime.hour < 20) {
-      // 7 PM - 8 PM: Phase 3 - Final collapse, torso falls
-      manIsBurningAllDay = true;
-      const phase3Hours = gameTime.hour - 19;
-      manDestructionProgress = Math.max(0.85, Math.min(1, 0.85 + (phase3Hours / 1 * 0.15))); // 85% to 100% over 1 hour
-      manAshesProgress = 0;
-      fireworksActive = true;
-    } else {
-      // 8 PM onwards: Bonfire stage
-      manIsBurningAllDay = true;
-      manDestructionProgress = 1.0;
-      manAshesProgress = 0;
-      fireworksActive = true;
-    }
-    let phase = '';
-    if (gameTime.hour < 8) phase = 'Hands Up';
-    else if (gameTime.hour < 12) phase = 'Fireworks';
-    else if (gameTime.hour < 15) phase = 'Small Fire';
-    else if (gameTime.hour < 17) phase = 'Phase 1 - Arms/Head';
-    else if (gameTime.hour < 19) phase = 'Phase 2 - Legs/Torso';
-    else if (gameTime.hour < 20) phase = 'Phase 3 - Final Collapse';
-    else phase = 'Bonfire';
-    
-    // console.log(`🔥 Day 8 Man Timeline - Hour: ${gameTime.hour}, Phase: ${phase}, Destruction: ${(manDestructionProgress * 100).toFixed(1)}%`);
-  } else if (day === 9 && gameTime) {
-    // Day 9: Ashes stage
-    manIsBurningAllDay = true;
-    manDestructionProgress = 1.0;
-    
-    // Ashes start on Day 9 and progress throughout the day
-    const hoursIntoAshes = gameTime.hour;
-    manAshesProgress = Math.max(0, Math.min(1, hoursIntoAshes / 24)); // 0 to 1 over 24 hours
-    fireworksActive = false;
-    
-    // console.log(`🔥 Day 9 Man Ashes - Hour: ${gameTime.hour}, Ashes: ${(manAshesProgress * 100).toFixed(1)}%`);
+function getManTimeline(day: number, gameTime?: GameTime): BurnTimeline {
+  if (!gameTime) return UNBURNED;
+  const hour = gameTime.hour;
+  const burning = (destructionProgress: number): BurnTimeline => ({ isBurning: true, destructionProgress, ashesProgress: 0, fireworksActive: true });
+
+  if (day === 8) {
+    if (hour < 8) return UNBURNED; // Hands up, no burning
+    if (hour < 12) return { ...UNBURNED, fireworksActive: true };
+    if (hour < 15) return burning(clamp((hour - 12) / 3 * 0.3, 0, 0.3)); // Small fire, 0-30% over 3 hours
+    if (hour < 17) return burning(clamp(0.3 + (hour - 15) / 2 * 0.3, 0.3, 0.6)); // Arms and head fall
+    if (hour < 19) return burning(clamp(0.6 + (hour - 17) / 2 * 0.25, 0.6, 0.85)); // Legs fall, torso collapses
+    if (hour < 20) return burning(clamp(0.85 + (hour - 19) * 0.15, 0.85, 1)); // Final collapse
+    return burning(1.0); // Bonfire
   }
-  
-  // Debug logging for destruction progress (disabled to prevent spam)
-  // if (manIsBurningAllDay && gameTime) {
-  //   console.log(`🔥 Man pieces destroyed:`, {
-  //     head: manDestructionProgress > 0.1,
-  //     leftArm: manDestructionProgress > 0.3,
-  //     rightArm: manDestructionProgress > 0.5,
-  //     leftLeg: manDestructionProgress > 0.7,
-  //     rightLeg: manDestructionProgress > 0.9,
-  //     torso: manDestructionProgress > 1.0
-  //   });
-  // }
-  
-  landmarks.push({
-    id: 'the-man',
-    type: 'man',
-    position: createVec2(2000, 1500), // Center of enlarged 4000x3000 playa
-    size: 180, // 3x larger (original was 60)
-    color: manIsBurningAllDay ? '#ff0000' : manStatus.isBurned ? '#444444' : '#ff6b35',
-    description: manAshesProgress > 0 ? 'The Man - now just ashes' : 
-                 manDestructionProgress >= 1.0 ? 'The Man - now just a bonfire' : 
-                 day === 7 && gameTime && gameTime.hour >= 12 ? 'The Man - hands down, final day' : 
-                 day === 8 && gameTime && gameTime.hour < 8 ? 'The Man - hands raised, ready to burn!' : 
-                 day === 8 && gameTime && gameTime.hour >= 8 && gameTime.hour < 12 ? 'The Man - fireworks celebration!' : 
-                 day === 8 && gameTime && gameTime.hour >= 12 && gameTime.hour < 15 ? 'The Man - small fire starting!' : 
-                 day === 8 && gameTime && gameTime.hour >= 15 && gameTime.hour < 17 ? 'The Man - arms and head falling!' : 
-                 day === 8 && gameTime && gameTime.hour >= 17 && gameTime.hour < 19 ? 'The Man - legs falling, torso collapsing!' : 
-                 day === 8 && gameTime && gameTime.hour >= 19 && gameTime.hour < 20 ? 'The Man - final collapse!' : 
-                 manIsBurningAllDay ? 'The Man is burning!' : 
-                 manStatus.isBurned ? 'The Man has burned' : 
-                 'The Man - the center of Burning Man',
-    buildingProgress: manStatus.progress,
-    isBurning: manIsBurningAllDay,
-    isBurned: manStatus.isBurned,
-    handsUp: manStatus.handsUp,
-    destructionProgress: manDestructionProgress,
-    ashesProgress: manAshesProgress, // New property for ashes stage
-    isBonfire: manDestructionProgress >= 1.0, // New property for bonfire stage
-    fireworksActive: fireworksActive, // New property for fireworks
-    pieces: {
-      head: manDestructionProgress > 0.1,
-      leftArm: manDestructionProgress > 0.3,
-      rightArm: manDestructionProgress > 0.5,
-      leftLeg: manDestructionProgress > 0.7,
-      rightLeg: manDestructionProgress > 0.9,
-      torso: manDestructionProgress > 1.0
-    }
-  });
-  
-  // The Temple - 6x further away from The Man (twice as far as before)
-  const templeStatus = getBuildingProgress(day, 'temple');
-  // Burn all day on Day 9 (Sunday)
-  const templeIsBurningAllDay = day === 9;
-  
-  // Debug logging for Temple burning
-  if (templeIsBurningAllDay) {
-    // console.log(`🔥 Temple is burning on Day ${day}!`);
+
+  if (day === 9) {
+    return { isBurning: true, destructionProgress: 1.0, ashesProgress: clamp(hour / 24, 0, 1), fireworksActive: false };
   }
-  // Calculate destruction progress for The Temple (pieces fall off over time)
-  // Use current time for dynamic destruction that progresses throughout the day
-  let templeDestructionProgress = 0;
-  let templeAshesProgress = 0;
-  if (templeIsBurningAllDay && gameTime) {
-    // Start at 30% at 6 AM, progress to 100% by 6 PM (12 hours)
-    const hoursIntoBurn = gameTime.hour - 6; // Start burning at 6 AM
-    const burnProgress = Math.max(0, Math.min(1, hoursIntoBurn / 12)); // 0 to 1 over 12 hours
-    templeDestructionProgress = 0.3 + (burnProgress * 0.7); // 30% to 100%
-    
-    // Ashes stage: starts after 6 PM and continues for 6 hours (until midnight)
-    if (gameTime.hour >= 18) { // 6 PM or later
-      const hoursIntoAshes = gameTime.hour - 18;
-      templeAshesProgress = Math.max(0, Math.min(1, hoursIntoAshes / 6)); // 0 to 1 over 6 hours
-    }
+  return UNBURNED;
+}
+
+/**
+ * What the player reads about The Man at this point in the week
+ */
+function describeMan(baseDescription: string, day: number, timeline: BurnTimeline, isBurned: boolean, gameTime?: GameTime): string {
+  const hour = gameTime?.hour;
+  if (timeline.ashesProgress > 0) return 'The Man - now just ashes';
+  if (timeline.destructionProgress >= 1.0) return 'The Man - now just a bonfire';
+  if (hour !== undefined && day === 7 && hour >= 12) return 'The Man - hands down, final day';
+  if (hour !== undefined && day === 8) {
+    if (hour < 8) return 'The Man - hands raised, ready to burn!';
+    if (hour < 12) return 'The Man - fireworks celebration!';
+    if (hour < 15) return 'The Man - small fire starting!';
+    if (hour < 17) return 'The Man - arms and head falling!';
+    if (hour < 19) return 'The Man - legs falling, torso collapsing!';
+    if (hour < 20) return 'The Man - final collapse!';
   }
-  
-  landmarks.push({
-    id: 'the-temple',
-    type: 'temple',
-    position: createVec2(2000, 600), // Much further north from the center
-    size: 120, // Larger size for more detail
-    color: templeIsBurningAllDay ? '#ff0000' : templeStatus.isBurned ? '#444444' : '#8b4513',
-    description: templeDestructionProgress >= 1.0 ? 'The Temple - now just a bonfire' : templeIsBurningAllDay ? 'The Temple is burning!' : templeStatus.isBurned ? 'The Temple has burned' : 'The Temple - a place of reflection and remembrance',
-    buildingProgress: templeStatus.progress,
-    isBurning: templeIsBurningAllDay,
-    isBurned: templeStatus.isBurned,
-    destructionProgress: templeDestructionProgress,
-    isBonfire: templeDestructionProgress >= 1.0, // New property for bonfire stage
-    pieces: {
-      roof: templeDestructionProgress > 0.2,
-      leftWall: templeDestructionProgress > 0.4,
-      rightWall: templeDestructionProgress > 0.6,
-      backWall: templeDestructionProgress > 0.8,
-      pillars: templeDestructionProgress > 1.0
-    }
-  });
-  
-  // Trash fence - perimeter circle around everything
-  landmarks.push({
-    id: 'trash-fence',
-    type: 'trashFence',
-    position: createVec2(2000, 1500), // Center
-    size: 1400, // Larger radius for bigger world
-    color: '#2c3e50', // Dark gray
-    description: 'Trash fence - the perimeter of the event'
-  });
-  
-  // Your camp on the playa - inside the fence, halfway from The Man toward the left
-  landmarks.push({
-    id: 'playa-camp',
-    type: 'camp',
-    position: createVec2(1200, 1500), // Halfway from center (2000,1500) toward left
-    size: 100, // Will be drawn as a rectangle
-    color: '#27ae60', // Green
-    description: 'Your camp on the playa - walk here to return to main camp'
-  });
-  
-  // Hell Station - gas can spawning area at 10pm (northwest) near trash fence
-  landmarks.push({
-    id: 'hell-station',
-    type: 'camp', // Changed from 'artCar' to prevent portal warping
-    position: createVec2(1000, 600), // 10pm position (northwest) near trash fence
-    size: 80,
-    color: '#ff6b35', // Orange-red
-    description: 'Hell Station - buy gas for art cars (40 coins, 20 karma)'
-  });
-  
-  // Center Camp - below The Man
-  landmarks.push({
-    id: 'center-camp',
-    type: 'camp',
-    position: createVec2(2000, 1800), // Below The Man (2000, 1500)
-    size: 100,
-    color: '#3498db', // Blue
-    description: 'Center Camp - buy ice or tea (10 coins each, 5 karma)'
-  });
-  
-  // Art Car 1 - "The Disco Bus"
-  landmarks.push({
-    id: 'art-car-1',
-    type: 'artCar',
-    position: createVec2(1600, 1200), // Northwest area
-    size: 60,
-    color: '#f06', // Pink
-    description: 'The Disco Bus - needs fuel to keep the party going'
-  });
+  if (timeline.isBurning) return 'The Man is burning!';
+  if (isBurned) return 'The Man has burned';
+  return baseDescription;
+}
 
-  // Art Car 2 - "The Fire Dragon"
-  landmarks.push({
-    id: 'art-car-2',
-    type: 'artCar',
-    position: createVec2(2400, 2000), // Southeast area
-    size: 60,
-    color: '#9b59b6', // Purple
-    description: 'The Fire Dragon - cruising the playa with flames'
-  });
+/**
+ * The Man as built, burning or burned at this point in the week
+ */
+function withManTimeline(landmark: Landmark, gameTime?: GameTime): Landmark {
+  const day = gameTime?.day || 1;
+  const status = getBuildingProgress(day, 'man');
+  const timeline = getManTimeline(day, gameTime);
+  const destruction = timeline.destructionProgress;
 
-  // Rest Areas - 4 locations for enhanced energy recovery
-  
-  // Center Camp Rest Area (existing center camp now doubles as rest area)
-  landmarks.push({
-    id: 'center-camp-rest',
-    type: 'restArea',
-    position: createVec2(2000, 1800), // Same as Center Camp
-    size: 120,
-    color: '#3498db', // Blue
-    description: 'Center Camp - rest here for 2x energy recovery',
-    restAreaType: 'center'
-  });
+  return {
+    ...landmark,
+    color: timeline.isBurning ? '#ff0000' : status.isBurned ? '#444444' : landmark.color,
+    description: describeMan(landmark.description, day, timeline, status.isBurned, gameTime),
+    buildingProgress: status.progress,
+    isBurning: timeline.isBurning,
+    isBurned: status.isBurned,
+    handsUp: status.handsUp,
+    destructionProgress: destruction,
+    ashesProgress: timeline.ashesProgress,
+    isBonfire: destruction >= 1.0,
+    fireworksActive: timeline.fireworksActive,
+    pieces: {
+      head: destruction > 0.1,
+      leftArm: destruction > 0.3,
+      rightArm: destruction > 0.5,
+      leftLeg: destruction > 0.7,
+      rightLeg: destruction > 0.9,
+      torso: destruction > 1.0,
+    },
+  };
+}
 
-  // Teepee in Deep Playa (far north)
-  landmarks.push({
-    id: 'deep-playa-teepee',
-    type: 'restArea',
-    position: createVec2(2000, 400), // Far north, deep playa
-    size: 100,
-    color: '#8b4513', // Brown
-    description: 'Deep Playa Teepee - rest here for 2x energy recovery',
-    restAreaType: 'teepee'
-  });
+/**
+ * The Temple as built, burning or burned; it burns all of Day 9,
+ * losing pieces from 6 AM until it is a bonfire by 6 PM
+ */
+function withTempleTimeline(landmark: Landmark, gameTime?: GameTime): Landmark {
+  const day = gameTime?.day || 1;
+  const status = getBuildingProgress(day, 'temple');
+  const isBurning = day === 9;
+  const destruction = isBurning && gameTime ? 0.3 + clamp((gameTime.hour - 6) / 12, 0, 1) * 0.7 : 0;
 
-  // East Rest Area (right side of playa)
-  landmarks.push({
-    id: 'east-rest-area',
-    type: 'restArea',
-    position: createVec2(3200, 1500), // Far right (east)
-    size: 100,
-    color: '#27ae60', // Green
-    description: 'East Rest Area - rest here for 2x energy recovery',
-    restAreaType: 'east'
-  });
+  return {
+    ...landmark,
+    color: isBurning ? '#ff0000' : status.isBurned ? '#444444' : landmark.color,
+    description: destruction >= 1.0 ? 'The Temple - now just a bonfire'
+      : isBurning ? 'The Temple is burning!'
+      : status.isBurned ? 'The Temple has burned'
+      : landmark.description,
+    buildingProgress: status.progress,
+    isBurning,
+    isBurned: status.isBurned,
+    destructionProgress: destruction,
+    isBonfire: destruction >= 1.0,
+    pieces: {
+      roof: destruction > 0.2,
+      leftWall: destruction > 0.4,
+      rightWall: destruction > 0.6,
+      backWall: destruction > 0.8,
+      pillars: destruction > 1.0,
+    },
+  };
+}
 
-  // West Rest Area (left side of playa)
-  landmarks.push({
-    id: 'west-rest-area',
-    type: 'restArea',
-    position: createVec2(800, 1500), // Far left (west)
-    size: 100,
-    color: '#e74c3c', // Red
-    description: 'West Rest Area - rest here for 2x energy recovery',
-    restAreaType: 'west'
-  });
-  
-  return landmarks;
+function toLandmark(definition: LandmarkDefinition, gameTime?: GameTime): Landmark {
+  const landmark: Landmark = { ...definition, position: createVec2(definition.position.x, definition.position.y) };
+  if (landmark.type === 'man') return withManTimeline(landmark, gameTime);
+  if (landmark.type === 'temple') return withTempleTimeline(landmark, gameTime);
+  return landmark;
 }
 
-/**
- * Camp landmarks
- */
-function getCampLandmarks(): Landmark[] {
-  return []; // No landmarks in camp - just tents and boundary
+function restAreaToLandmark(restArea: RestAreaDefinition): Landmark {
+  return { ...restArea, type: 'restArea', position: createVec2(restArea.position.x, restArea.position.y) };
 }
 
 /**
- * Dance stage landmarks
+ * Landmarks and rest areas from a world's definition, with The Man and
+ * The Temple built or burned according to the game time
  */
-function getDanceStageLandmarks(): Landmark[] {
+export function getWorldLandmarks(worldId: string, gameTime?: GameTime): Landmark[] {
+  const definition = getWorldDefinition(worldId);
+  if (!definition) return [];
+
   return [
-    {
-      id: 'main-stage',
-      type: 'artCar',
-      position: createVec2(600, 400), // Center of dance stage
-      size: 50,
-      color: '#9b59b6', // Purple
-      description: 'Main dance stage with pulsing lights'
-    }
+    ...definition.landmarks.map(landmark => toLandmark(landmark, gameTime)),
+    ...definition.restAreas.map(restAreaToLandmark),
   ];
 }
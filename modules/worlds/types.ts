@@ -3,6 +3,7 @@
  */
 
 import type { Vec2 } from '../core';
+import type { EntityStore } from '../ecs';
 
 /**
  * World boundary for transitions
@@ -35,6 +36,60 @@ export interface WorldConfig {
   description?: string;
 }
 
+export type LandmarkType = 'man' | 'temple' | 'trashFence' | 'artCar' | 'camp' | 'restArea' | 'workbench' | 'jobBoard';
+
+export type RestAreaType = 'center' | 'teepee' | 'east' | 'west';
+
+/**
+ * Landmark placed by a world definition. 'man' and 'temple' landmarks
+ * get their build and burn state from the game time.
+ */
+export interface LandmarkDefinition {
+  id: string;
+  type: LandmarkType;
+  position: Vec2;
+  size: number;
+  color: string;
+  description: string;
+}
+
+/**
+ * Spot where resting recovers energy faster
+ */
+export interface RestAreaDefinition {
+  id: string;
+  restAreaType: RestAreaType;
+  position: Vec2;
+  size: number;
+  color: string;
+  description: string;
+}
+
+/**
+ * How much a world spawns at the week's peak. Collectible counts are scaled by
+ * density and the day's spawn multiplier; coins scale the configured coin count.
+ */
+export interface SpawnTable {
+  density: number;
+  coins: number;
+  water: number;
+  food: number;
+  drugs: number;
+  bikes: number;
+  lightBulbs: number;
+  batteries: number;
+  moop: number;
+}
+
+/**
+ * A world as designers write it in a *.world.json file
+ */
+export interface WorldDefinition extends WorldConfig {
+  landmarks: LandmarkDefinition[];
+  restAreas: RestAreaDefinition[];
+  spawnTable: SpawnTable;
+}
+
 /**
  * World-specific state (items, NPCs, events, etc.)
  */
@@ -43,6 +98,7 @@ export interface WorldState {
   items: WorldItem[];
   npcs: WorldNPC[];
   events: WorldEvent[];
+  entities?: EntityStore; // Entities left in the world while the player is elsewhere
   lastVisited: number; // timestamp
   isLoaded: boolean;
 }
@@ -0,0 +1,140 @@
+/**
+ * World definitions - validates designer-written JSON into WorldDefinitions
+ */
+
+import type { LandmarkDefinition, RestAreaDefinition, SpawnTable, WorldBoundary, WorldDefinition } from './types';
+import type { Json } from '../../shared/definitions';
+import { DefinitionError, DefinitionReader, isObject } from '../../shared/definitions';
+
+const BOUNDARY_SIDES = ['left', 'right', 'top', 'bottom', 'area'];
+const LANDMARK_TYPES = ['man', 'temple', 'trashFence', 'artCar', 'camp', 'restArea', 'workbench', 'jobBoard'];
+const REST_AREA_TYPES = ['center', 'teepee', 'east', 'west'];
+
+/**
+ * Peak spawn counts used for anything a definition leaves out
+ */
+export const DEFAULT_SPAWN_TABLE: SpawnTable = {
+  density: 1,
+  coins: 1,
+  water: 8,
+  food: 10,
+  drugs: 5,
+  bikes: 3.33,
+  lightBulbs: 4,
+  batteries: 2,
+  moop: 120,
+};
+
+/**
+ * A malformed world definition
+ */
+export class WorldDefinitionError extends DefinitionError {
+  constructor(source: string, issues: string[]) {
+    super('world', source, issues);
+    this.name = 'WorldDefinitionError';
+  }
+}
+
+function readBoundary(reader: DefinitionReader, raw: Json, path: string): WorldBoundary {
+  const boundary: WorldBoundary = {
+    side: reader.oneOf(raw.side, BOUNDARY_SIDES, `${path}.side`),
+    exitWorldId: reader.string(raw.exitWorldId, `${path}.exitWorldId`),
+    exitPosition: reader.vec2(raw.exitPosition, `${path}.exitPosition`),
+  };
+  if (raw.triggerDistance !== undefined) boundary.triggerDistance = reader.number(raw.triggerDistance, `${path}.triggerDistance`, 0);
+  if (raw.useRelativePositioning !== undefined) boundary.useRelativePositioning = raw.useRelativePositioning === true;
+
+  if (boundary.side === 'area') {
+    boundary.areaPosition = reader.vec2(raw.areaPosition, `${path}.areaPosition`);
+    boundary.areaWidth = reader.number(raw.areaWidth, `${path}.areaWidth`, 1);
+    boundary.areaHeight = reader.number(raw.areaHeight, `${path}.areaHeight`, 1);
+  }
+  return boundary;
+}
+
+function readLandmark(reader: DefinitionReader, raw: Json, path: string): LandmarkDefinition {
+  return {
+    id: reader.string(raw.id, `${path}.id`),
+    type: reader.oneOf(raw.type, LANDMARK_TYPES, `${path}.type`),
+    position: reader.vec2(raw.position, `${path}.position`),
+    size: reader.number(raw.size, `${path}.size`, 1),
+    color: reader.string(raw.color, `${path}.color`),
+    description: reader.string(raw.description, `${path}.description`),
+  };
+}
+
+function readRestArea(reader: DefinitionReader, raw: Json, path: string): RestAreaDefinition {
+  return {
+    id: reader.string(raw.id, `${path}.id`),
+    restAreaType: reader.oneOf(raw.restAreaType, REST_AREA_TYPES, `${path}.restAreaType`),
+    position: reader.vec2(raw.position, `${path}.position`),
+    size: reader.number(raw.size, `${path}.size`, 1),
+    color: reader.string(raw.color, `${path}.color`),
+    description: reader.string(raw.description, `${path}.description`),
+  };
+}
+
+/**
+ * Fill a partial spawn table from the defaults
+ */
+function readSpawnTable(reader: DefinitionReader, raw: unknown): SpawnTable {
+  if (raw === undefined) return { ...DEFAULT_SPAWN_TABLE };
+  if (!isObject(raw)) {
+    reader.issues.push('spawnTable must be an object');
+    return { ...DEFAULT_SPAWN_TABLE };
+  }
+
+  const table = { ...DEFAULT_SPAWN_TABLE };
+  (Object.keys(DEFAULT_SPAWN_TABLE) as (keyof SpawnTable)[]).forEach(key => {
+    if (raw[key] !== undefined) table[key] = reader.number(raw[key], `spawnTable.${key}`, 0);
+  });
+  return table;
+}
+
+/**
+ * Report ids used more than once within one list
+ */
+function checkUniqueIds(reader: DefinitionReader, entries: { id: string }[], path: string): void {
+  const seen = new Set<string>();
+  entries.forEach(({ id }) => {
+    if (seen.has(id)) reader.issues.push(`${path} has duplicate id "${id}"`);
+    seen.add(id);
+  });
+}
+
+/**
+ * Validate parsed JSON into a world definition.
+ * Throws WorldDefinitionError listing every problem found.
+ */
+export function parseWorldDefinition(raw: unknown, source: string = 'world definition'): WorldDefinition {
+  if (!isObject(raw)) {
+    throw new WorldDefinitionError(source, ['definition must be a JSON object']);
+  }
+
+  const reader = new DefinitionReader();
+  const definition: WorldDefinition = {
+    id: reader.string(raw.id, 'id'),
+    name: reader.string(raw.name, 'name'),
+    width: reader.number(raw.width, 'width', 1),
+    height: reader.number(raw.height, 'height', 1),
+    backgroundColor: reader.string(raw.backgroundColor, 'backgroundColor'),
+    timeScale: reader.number(raw.timeScale, 'timeScale', 0),
+    spawnPosition: reader.vec2(raw.spawnPosition, 'spawnPosition'),
+    boundaries: reader.list(raw.boundaries, 'boundaries', (entry, path) => readBoundary(reader, entry, path)),
+    landmarks: reader.list(raw.landmarks, 'landmarks', (entry, path) => readLandmark(reader, entry, path)),
+    restAreas: reader.list(raw.restAreas, 'restAreas', (entry, path) => readRestArea(reader, entry, path)),
+    spawnTable: readSpawnTable(reader, raw.spawnTable),
+  };
+  if (raw.description !== undefined) definition.description = reader.string(raw.description, 'description');
+
+  checkUniqueIds(reader, [...definition.landmarks, ...definition.restAreas], 'landmarks and restAreas');
+  const { width, height, spawnPosition } = definition;
+  if (spawnPosition.x < 0 || spawnPosition.x > width || spawnPosition.y < 0 || spawnPosition.y > height) {
+    reader.issues.push('spawnPosition must lie inside the world');
+  }
+
+  if (reader.issues.length > 0) {
+    throw new WorldDefinitionError(typeof raw.id === 'string' ? `"${raw.id}"` : source, reader.issues);
+  }
+  return definition;
+}
@@ -1,18 +1,28 @@
 /**
  * World registry system - manages world configurations
  */
+/// <reference types="vite/client" />
 
-import type { WorldConfig } from './types';
-import { createVec2 } from '../core';
+import type { SpawnTable, WorldConfig, WorldDefinition } from './types';
+import { parseWorldDefinition, WorldDefinitionError, DEFAULT_SPAWN_TABLE } from './worldDefinition';
+
+/**
+ * Every *.world.json file in ./definitions, keyed by path; drop a file in to add a world
+ */
+const BUNDLED_DEFINITIONS: Record<string, unknown> = import.meta.glob('./definitions/*.world.json', {
+  eager: true,
+  import: 'default',
+});
 
 /**
  * Registry of all available worlds
  */
 class WorldRegistry {
   private worlds: Map<string, WorldConfig> = new Map();
+  private definitions: Map<string, WorldDefinition> = new Map();
 
   constructor() {
-    this.initializeDefaultWorlds();
+    this.loadDefinitions(BUNDLED_DEFINITIONS);
   }
 
   /**
@@ -20,6 +30,7 @@ class WorldRegistry {
    */
   registerWorld(config: WorldConfig): void {
     this.worlds.set(config.id, config);
+    this.definitions.delete(config.id);
   }
 
   /**
@@ -29,6 +40,13 @@ class WorldRegistry {
     return this.worlds.get(worldId);
   }
 
+  /**
+   * Get the full definition of a world registered from JSON
+   */
+  getDefinition(worldId: string): WorldDefinition | undefined {
+    return this.definitions.get(worldId);
+  }
+
   /**
    * Get all registered world IDs
    */
@@ -44,106 +62,27 @@ class WorldRegistry {
   }
 
   /**
-   * Initialize default worlds (Camp, Playa, Dance Stage)
+   * Validate a batch of parsed JSON definitions, keyed by where they came from,
+   * and register them. Nothing is registered if any definition is invalid.
    */
-  private initializeDefaultWorlds(): void {
-    // Camp World - 1 second = 1 minute
-    this.registerWorld({
-      id: 'camp',
-      name: 'Camp',
-      width: 1600,
-      height: 1200,
-      backgroundColor: '#f5deb3', // Beige
-      timeScale: 1.0, // Normal time speed
-      spawnPosition: createVec2(800, 600),
-      boundaries: [
-        {
-          side: 'left',
-          exitWorldId: 'playa',
-          exitPosition: createVec2(1200, 1500), // Camp → Playa near our camp
-          triggerDistance: 50,
-          useRelativePositioning: true // Enable relative positioning
-        },
-        {
-          side: 'right',
-          exitWorldId: 'playa',
-          exitPosition: createVec2(1200, 1500), // Camp → Playa near our camp
-          triggerDistance: 50,
-          useRelativePositioning: true
-        },
-        {
-          side: 'top',
-          exitWorldId: 'playa',
-          exitPosition: createVec2(1200, 1500), // Camp → Playa near our camp
-          triggerDistance: 50,
-          useRelativePositioning: true
-        },
-        {
-          side: 'bottom',
-          exitWorldId: 'playa',
-          exitPosition: createVec2(1200, 1500), // Camp → Playa near our camp
-          triggerDistance: 50,
-          useRelativePositioning: true
-        }
-      ],
-      description: 'Your home base at Burning Man'
-    });
+  loadDefinitions(sources: Record<string, unknown>): WorldDefinition[] {
+    const definitions = Object.entries(sources).map(([source, raw]) => parseWorldDefinition(raw, source));
+    const knownIds = new Set([...this.worlds.keys(), ...definitions.map(definition => definition.id)]);
 
-    // Playa World - 1 second = 1 hour
-    this.registerWorld({
-      id: 'playa',
-      name: 'The Playa',
-      width: 4000,
-      height: 3000,
-      backgroundColor: '#f5deb3', // Beige like camp
-      timeScale: 1.0, // Normal time speed
-      spawnPosition: createVec2(2000, 1500),
-      boundaries: [
-        {
-          side: 'right',
-          exitWorldId: 'camp',
-          exitPosition: createVec2(100, 600), // Exit on left side of camp
-          triggerDistance: 50
-        },
-        {
-          side: 'left',
-          exitWorldId: 'danceStage',
-          exitPosition: createVec2(1400, 400), // Exit on right side of dance stage
-          triggerDistance: 50
-        },
-        {
-          side: 'area',
-          exitWorldId: 'camp',
-          exitPosition: createVec2(800, 600), // Base position (center of main camp)
-          areaPosition: createVec2(1200, 1500), // Match new playa camp position
-          areaWidth: 100, // 50% smaller
-          areaHeight: 75, // 50% smaller
-          triggerDistance: 0, // Instant trigger when entering area
-          useRelativePositioning: true // Enable relative positioning for return to camp
-        }
-      ],
-      description: 'The vast open playa of Burning Man'
+    definitions.forEach(definition => {
+      const unknownExits = definition.boundaries
+        .map(boundary => boundary.exitWorldId)
+        .filter(exitWorldId => !knownIds.has(exitWorldId));
+      if (unknownExits.length > 0) {
+        throw new WorldDefinitionError(`"${definition.id}"`, unknownExits.map(id => `boundary exits to unknown world "${id}"`));
+      }
     });
 
-    // Dance Stage World - 1 second = 30 seconds
-    this.registerWorld({
-      id: 'danceStage',
-      name: 'Dance Stage',
-      width: 1200,
-      height: 800,
-      backgroundColor: '#1a1a2e', // Dark purple/blue
-      timeScale: 1.0, // Normal time speed
-      spawnPosition: createVec2(600, 400),
-      boundaries: [
-        {
-          side: 'right',
-          exitWorldId: 'playa',
-          exitPosition: createVec2(100, 400), // Exit on left side of playa
-          triggerDistance: 50
-        }
-      ],
-      description: 'The main dance stage with pulsing lights'
+    definitions.forEach(definition => {
+      this.worlds.set(definition.id, definition);
+      this.definitions.set(definition.id, definition);
     });
+    return definitions;
   }
 }
 
@@ -168,3 +107,22 @@ export function hasWorld(worldId: string): boolean {
 export function registerWorld(config: WorldConfig): void {
   worldRegistry.registerWorld(config);
 }
+
+export function getWorldDefinition(worldId: string): WorldDefinition | undefined {
+  return worldRegistry.getDefinition(worldId);
+}
+
+/**
+ * Register world definitions loaded at runtime (e.g. fetched JSON).
+ * Throws WorldDefinitionError when any of them is invalid.
+ */
+export function loadWorldDefinitions(sources: Record<string, unknown>): WorldDefinition[] {
+  return worldRegistry.loadDefinitions(sources);
+}
+
+/**
+ * Spawn table for a world; worlds registered in code use the defaults
+ */
+export function getWorldSpawnTable(worldId: string): SpawnTable {
+  return worldRegistry.getDefinition(worldId)?.spawnTable ?? DEFAULT_SPAWN_TABLE;
+}
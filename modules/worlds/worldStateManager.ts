@@ -4,6 +4,7 @@
 
 import type { WorldState, WorldItem, WorldNPC, WorldEvent } from './types';
 import type { Storage } from '../../shared/ports';
+import { getAllWorldIds } from './worldRegistry';
 
 /**
  * Manages world-specific state persistence
@@ -123,28 +124,30 @@ export class WorldStateManager {
   }
 
   /**
-   * Save all world states to storage
+   * Save the state of every registered world; worlds without state lose any stored copy
    */
   async saveAllWorldStates(): Promise<void> {
-    const savePromises = Array.from(this.worldStates.entries()).map(([worldId, state]) => {
+    const savePromises = getAllWorldIds().map(worldId => {
       const storageKey = `${this.storagePrefix}${worldId}`;
-      return this.storage.save(storageKey, JSON.stringify(state));
+      const state = this.worldStates.get(worldId);
+      return state ? this.storage.save(storageKey, JSON.stringify(state)) : this.storage.remove(storageKey);
     });
     await Promise.all(savePromises);
   }
 
   /**
-   * Load all world states from storage
+   * Replace the state of every registered world with its stored copy
    */
   async loadAllWorldStates(): Promise<void> {
-    const worldIds = ['camp', 'playa', 'danceStage']; // Default worlds
-    const loadPromises = worldIds.map(async (worldId) => {
+    const loadPromises = getAllWorldIds().map(async (worldId) => {
       const storageKey = `${this.storagePrefix}${worldId}`;
       try {
         const savedData = await this.storage.load(storageKey);
         if (savedData && typeof savedData === 'string') {
           const worldState = JSON.parse(savedData) as WorldState;
           this.worldStates.set(worldId, worldState);
+        } else {
+          this.worldStates.delete(worldId);
         }
       } catch (error) {
         console.warn(`Failed to load world state for ${worldId}:`, error);
@@ -155,6 +158,20 @@ export class WorldStateManager {
     await Promise.all(loadPromises);
   }
 
+  /**
+   * Copies of every world's state, for writing into a save slot
+   */
+  getAllWorldStates(): Record<string, WorldState> {
+    return structuredClone(Object.fromEntries(this.worldStates));
+  }
+
+  /**
+   * Replace every world's state with the ones read from a save slot
+   */
+  replaceAllWorldStates(states: Record<string, WorldState>): void {
+    this.worldStates = new Map(Object.entries(structuredClone(states)));
+  }
+
   /**
    * Create empty world state
    */
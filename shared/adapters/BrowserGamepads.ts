@@ -0,0 +1,12 @@
+/**
+ * Browser implementation of Gamepad port
+ */
+
+import type { GamepadPort, GamepadState } from '../ports/Gamepad';
+
+export class BrowserGamepads implements GamepadPort {
+  getGamepads(): GamepadState[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+}
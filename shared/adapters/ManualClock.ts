@@ -0,0 +1,53 @@
+/**
+ * Manually advanced clock implementation
+ * Time only moves when advanced, so simulations and replays see identical timestamps
+ */
+
+import type { Clock } from '../ports/Clock';
+
+export class ManualClock implements Clock {
+  private time: number;
+  private nextFrameId: number = 1;
+  private frameCallbacks: Map<number, (time: number) => void> = new Map();
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move time forward by the given milliseconds
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  /**
+   * Jump to an absolute time in milliseconds
+   */
+  setTime(time: number): void {
+    this.time = time;
+  }
+
+  requestAnimationFrame(callback: (time: number) => void): number {
+    const id = this.nextFrameId++;
+    this.frameCallbacks.set(id, callback);
+    return id;
+  }
+
+  cancelAnimationFrame(id: number): void {
+    this.frameCallbacks.delete(id);
+  }
+
+  /**
+   * Run pending animation frame callbacks at the current time
+   */
+  flushFrames(): void {
+    const callbacks = Array.from(this.frameCallbacks.values());
+    this.frameCallbacks.clear();
+    callbacks.forEach(callback => callback(this.time));
+  }
+}
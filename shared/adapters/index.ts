@@ -3,6 +3,8 @@
  */
 
 export { BrowserClock } from './BrowserClock';
+export { BrowserGamepads } from './BrowserGamepads';
+export { ManualClock } from './ManualClock';
 export { SeededRng } from './SeededRng';
 export { LocalStorage } from './LocalStorage';
 export { InMemoryStorage } from './InMemoryStorage';
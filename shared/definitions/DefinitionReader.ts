@@ -0,0 +1,97 @@
+/**
+ * Reading designer-written JSON definitions, collecting every problem instead of stopping at the first
+ */
+
+export type Json = Record<string, unknown>;
+
+export type FieldType = 'string' | 'number' | 'object';
+
+export function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Raised when a definition is malformed; lists every problem found
+ */
+export class DefinitionError extends Error {
+  readonly issues: string[];
+
+  constructor(format: string, source: string, issues: string[]) {
+    super(`Invalid ${format} definition ${source}: ${issues.join('; ')}`);
+    this.name = 'DefinitionError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Collects problems while reading one definition; each read returns a
+ * placeholder value after recording an issue so reading can carry on
+ */
+export class DefinitionReader {
+  readonly issues: string[] = [];
+
+  string(value: unknown, path: string): string {
+    if (typeof value === 'string' && value.length > 0) return value;
+    this.issues.push(`${path} must be a non-empty string`);
+    return '';
+  }
+
+  number(value: unknown, path: string, min?: number): number {
+    if (typeof value === 'number' && Number.isFinite(value) && (min === undefined || value >= min)) return value;
+    this.issues.push(min === undefined ? `${path} must be a number` : `${path} must be a number >= ${min}`);
+    return min ?? 0;
+  }
+
+  oneOf<T extends string>(value: unknown, allowed: string[], path: string): T {
+    if (typeof value === 'string' && allowed.includes(value)) return value as T;
+    this.issues.push(`${path} must be one of ${allowed.join(', ')}`);
+    return allowed[0] as T;
+  }
+
+  vec2(value: unknown, path: string): { x: number; y: number } {
+    if (isObject(value)) {
+      return { x: this.number(value.x, `${path}.x`), y: this.number(value.y, `${path}.y`) };
+    }
+    this.issues.push(`${path} must be an {x, y} position`);
+    return { x: 0, y: 0 };
+  }
+
+  /**
+   * Read an optional array, reporting entries that are not objects
+   */
+  list<T>(value: unknown, path: string, read: (entry: Json, entryPath: string) => T): T[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array`);
+      return [];
+    }
+    return value.flatMap((entry, index) => {
+      if (isObject(entry)) return [read(entry, `${path}[${index}]`)];
+      this.issues.push(`${path}[${index}] must be an object`);
+      return [];
+    });
+  }
+
+  /**
+   * Read a list of tagged entries, checking each has a known kind
+   * and the fields that kind needs
+   */
+  kinded<T>(value: unknown, fields: Record<string, Record<string, FieldType>>, path: string): T[] {
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array`);
+      return [];
+    }
+    return value.flatMap((entry, index) => {
+      const entryPath = `${path}[${index}]`;
+      if (!isObject(entry) || typeof entry.kind !== 'string' || !fields[entry.kind]) {
+        this.issues.push(`${entryPath}.kind must be one of ${Object.keys(fields).join(', ')}`);
+        return [];
+      }
+      const missing = Object.entries(fields[entry.kind]).filter(([field, type]) =>
+        type === 'object' ? !isObject(entry[field]) : typeof entry[field] !== type
+      );
+      missing.forEach(([field, type]) => this.issues.push(`${entryPath}.${field} must be a ${type}`));
+      return missing.length === 0 ? [entry as T] : [];
+    });
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Shared definitions - reading and validating designer-written JSON
+ */
+
+export { DefinitionReader, DefinitionError, isObject } from './DefinitionReader';
+export type { Json, FieldType } from './DefinitionReader';
@@ -0,0 +1,19 @@
+/**
+ * Gamepad port - reads connected controllers the way the browser Gamepad API reports them
+ */
+
+/**
+ * One controller, laid out in the API's standard mapping: axes 0/1 are the
+ * left stick, buttons 12-15 the d-pad (up, down, left, right)
+ */
+export interface GamepadState {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+export interface GamepadPort {
+  /**
+   * Controllers connected right now
+   */
+  getGamepads(): GamepadState[];
+}
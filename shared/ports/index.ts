@@ -6,3 +6,4 @@ export type { Clock } from './Clock';
 export type { Rng } from './Rng';
 export type { Storage } from './Storage';
 export type { AudioPort, SoundEffect } from './Audio';
+export type { GamepadPort, GamepadState } from './Gamepad';
@@ -8,6 +8,11 @@ export function consumeFuel(car: ArtCar, dtSec: number): ArtCar {
   return { ...car, fuel };
 }
 
+export function refuelArtCar(car: ArtCar, amount: number = FUEL_REFILL_AMOUNT): { fuelAdded: number; car: ArtCar } {
+  const add = Math.min(amount, car.fuelMax - car.fuel);
+  return { fuelAdded: add, car: { ...car, fuel: car.fuel + add } };
+}
+
 function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
   return Math.hypot(a.x - b.x, a.y - b.y);
 }
@@ -23,8 +28,7 @@ export function deliverGasToArtCar(
   if (!within) {
     return { delivered: false, fuelAdded: 0, karmaGained: 0, player, car };
   }
-  const add = Math.min(FUEL_REFILL_AMOUNT, car.fuelMax - car.fuel);
-  const updatedCar: ArtCar = { ...car, fuel: car.fuel + add };
+  const { fuelAdded: add, car: updatedCar } = refuelArtCar(car);
   const updatedPlayer: Player = { ...player, holding: null, karma: player.karma + KARMA_FOR_DELIVERY };
   return { delivered: true, fuelAdded: add, karmaGained: KARMA_FOR_DELIVERY, player: updatedPlayer, car: updatedCar };
 }
@@ -41,9 +45,8 @@ export function checkArtCarGasCanCollision(
     const dist = distance(car.pos, can.pos);
     if (dist <= carRadius) {
       // Art car collided with gas can - refuel
-      const add = Math.min(FUEL_REFILL_AMOUNT, car.fuelMax - car.fuel);
-      const updatedCar: ArtCar = { ...car, fuel: car.fuel + add };
-      return { collided: true, canId: can.id, fuelAdded: add, car: updatedCar };
+      const { fuelAdded, car: updatedCar } = refuelArtCar(car);
+      return { collided: true, canId: can.id, fuelAdded, car: updatedCar };
     }
   }
   
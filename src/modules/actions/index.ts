@@ -1,4 +1,3 @@
 export * from './pickup';
 export * from './mount';
-
-
+export * from './fuel';
@@ -7,7 +7,7 @@ function distance(a: { x: number; y: number }, b: { x: number; y: number }): num
 export function decideArtCarState(
   car: ArtCar,
   context: { cans: GasCan[]; station: HellStation; player: Player }
-): 'patrol' | 'seekFuel' | 'refueling' | 'idle' {
+): ArtCar['state'] {
   if (car.fuel <= car.fuelLowThreshold) {
     return 'seekFuel';
   }
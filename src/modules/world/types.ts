@@ -31,11 +31,12 @@ export interface ArtCar {
   fuel: number;
   fuelMax: number;
   fuelLowThreshold: number;
-  state: 'patrol' | 'seekFuel' | 'refueling' | 'idle';
+  state: 'patrol' | 'seekFuel' | 'refueling' | 'idle' | 'following' | 'parading';
   platformAabb: { x: number; y: number; w: number; h: number };
   holder?: EntityId;
   path?: { x: number; y: number }[];
-  design: 'classic' | 'fire' | 'speedy' | 'heavy' | 'compact';
+  blackboard?: { timers: Record<string, number>; [key: string]: unknown };
+  design: 'classic' | 'fire' | 'speedy' | 'heavy' | 'compact' | 'alien' | 'davinci' | 'octopus';
   size: number;
   speed: number;
 }
@@ -0,0 +1,87 @@
+// @vitest-environment node
+/**
+ * Unit tests for achievement rules, streaks and progress
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createAchievementProgress,
+  findUnlockedAchievements,
+  getAchievementLog,
+  recordAchievementEvent,
+  updateAchievementProgress,
+  type AchievementSnapshot,
+} from '../../modules/achievements';
+import { createInitialGameState } from '../../modules/simulation';
+import { SeededRng } from '../../shared/adapters';
+
+function createSnapshot(): AchievementSnapshot {
+  const { player, time } = createInitialGameState({ playerSize: 32, seed: 7, coinCount: 10 }, new SeededRng(7), 0);
+  return { player, time, awardsUnlocked: 0 };
+}
+
+function unlockedIds(progress = createAchievementProgress(), snapshot = createSnapshot(), unlocked = new Set<string>()): string[] {
+  return findUnlockedAchievements(progress, snapshot, unlocked).map(definition => definition.id);
+}
+
+describe('Counter rules', () => {
+  it('should unlock when events add up to the target', () => {
+    const progress = createAchievementProgress();
+    const snapshot = createSnapshot();
+    for (let i = 0; i < 49; i++) recordAchievementEvent(progress, { kind: 'moopCollected' });
+    expect(unlockedIds(progress, snapshot)).toContain('first-moop');
+    expect(unlockedIds(progress, snapshot)).not.toContain('moop-collector');
+
+    recordAchievementEvent(progress, { kind: 'moopCollected' });
+    expect(unlockedIds(progress, snapshot, new Set(['first-moop']))).toContain('moop-collector');
+  });
+
+  it('should count one event towards several counters', () => {
+    const progress = createAchievementProgress();
+    recordAchievementEvent(progress, { kind: 'gifted', quantity: 10, karma: 60 });
+    expect(progress.counters).toEqual({ itemsGifted: 10, karmaGifted: 60 });
+    expect(unlockedIds(progress)).toEqual(expect.arrayContaining(['gifter-10', 'karma-gifter-50']));
+  });
+});
+
+describe('Streak and sequence rules', () => {
+  it('should start a streak over when its condition stops holding', () => {
+    const progress = createAchievementProgress();
+    const snapshot = createSnapshot();
+    snapshot.player.stats.mood = 90;
+    updateAchievementProgress(progress, snapshot, 4 * 60, new Set());
+    snapshot.player.stats.mood = 50;
+    updateAchievementProgress(progress, snapshot, 1, new Set());
+    snapshot.player.stats.mood = 90;
+    updateAchievementProgress(progress, snapshot, 2 * 60, new Set());
+
+    expect(unlockedIds(progress, snapshot)).not.toContain('mood-streak-5min');
+    updateAchievementProgress(progress, snapshot, 3 * 60, new Set());
+    expect(unlockedIds(progress, snapshot)).toContain('mood-streak-5min');
+  });
+
+  it('should need sequence steps in order', () => {
+    const progress = createAchievementProgress();
+    const snapshot = createSnapshot();
+    snapshot.player.stats.mood = 90;
+    updateAchievementProgress(progress, snapshot, 1, new Set());
+    expect(progress.steps['mood-bounce']).toBeUndefined();
+
+    snapshot.player.stats.mood = 10;
+    updateAchievementProgress(progress, snapshot, 1, new Set());
+    snapshot.player.stats.mood = 85;
+    updateAchievementProgress(progress, snapshot, 1, new Set());
+    expect(unlockedIds(progress, snapshot)).toContain('mood-bounce');
+  });
+});
+
+describe('getAchievementLog', () => {
+  it('should label progress and list unlocked achievements last', () => {
+    const progress = createAchievementProgress();
+    for (let i = 0; i < 32; i++) recordAchievementEvent(progress, { kind: 'moopCollected' });
+
+    const log = getAchievementLog(progress, createSnapshot(), new Set(['first-moop']));
+    expect(log.find(view => view.definition.id === 'moop-collector')?.label).toBe('32/50 moop');
+    expect(log[log.length - 1]).toMatchObject({ unlocked: true, label: '1/1 moop' });
+  });
+});
@@ -0,0 +1,111 @@
+// @vitest-environment node
+/**
+ * Unit tests for behavior tree nodes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  sequence,
+  selector,
+  parallel,
+  inverter,
+  succeeder,
+  guard,
+  cooldown,
+  condition,
+  action,
+  wait,
+  createBlackboard,
+  type BehaviorContext,
+  type BehaviorNode,
+  type NodeStatus,
+} from '../../modules/behavior';
+
+function createContext(now: number = 0): BehaviorContext {
+  return { blackboard: createBlackboard(), now };
+}
+
+function fixed(status: NodeStatus, log: string[] = []): BehaviorNode {
+  return action(status, () => {
+    log.push(status);
+    return status;
+  });
+}
+
+describe('Composites', () => {
+  it('should stop a sequence at the first child that does not succeed', () => {
+    const log: string[] = [];
+    const tree = sequence('steps', fixed('success', log), fixed('running', log), fixed('failure', log));
+
+    expect(tree.tick(createContext())).toBe('running');
+    expect(log).toEqual(['success', 'running']);
+  });
+
+  it('should stop a selector at the first child that does not fail', () => {
+    const log: string[] = [];
+    const tree = selector('options', fixed('failure', log), fixed('success', log), fixed('running', log));
+
+    expect(tree.tick(createContext())).toBe('success');
+    expect(log).toEqual(['failure', 'success']);
+    expect(selector('none', fixed('failure')).tick(createContext())).toBe('failure');
+  });
+
+  it('should let a higher-priority branch take over a running one', () => {
+    let hungry = false;
+    const tree = selector('agent',
+      sequence('eat', condition('hungry', () => hungry), fixed('success')),
+      fixed('running'),
+    );
+
+    expect(tree.tick(createContext())).toBe('running');
+    hungry = true;
+    expect(tree.tick(createContext())).toBe('success');
+  });
+
+  it('should settle a parallel node by its success threshold', () => {
+    expect(parallel('both', 2, fixed('success'), fixed('success')).tick(createContext())).toBe('success');
+    expect(parallel('both', 2, fixed('success'), fixed('running')).tick(createContext())).toBe('running');
+    expect(parallel('both', 2, fixed('success'), fixed('failure')).tick(createContext())).toBe('failure');
+  });
+});
+
+describe('Decorators', () => {
+  it('should invert finished results and pass running through', () => {
+    expect(inverter(fixed('success')).tick(createContext())).toBe('failure');
+    expect(inverter(fixed('failure')).tick(createContext())).toBe('success');
+    expect(inverter(fixed('running')).tick(createContext())).toBe('running');
+    expect(succeeder(fixed('failure')).tick(createContext())).toBe('success');
+  });
+
+  it('should only tick a guarded child while its predicate holds', () => {
+    const log: string[] = [];
+    const tree = guard<BehaviorContext>('after noon', context => context.now >= 12, fixed('running', log));
+
+    expect(tree.tick(createContext(8))).toBe('failure');
+    expect(tree.tick(createContext(12))).toBe('running');
+    expect(log).toEqual(['running']);
+  });
+
+  it('should keep cooldown timers in the blackboard', () => {
+    const tree = cooldown('honk', 1000, fixed('success'));
+    const context = createContext(100);
+
+    expect(tree.tick(context)).toBe('success');
+    expect(context.blackboard.timers).toEqual({ honk: 100 });
+    expect(tree.tick({ ...context, now: 900 })).toBe('failure');
+    expect(tree.tick({ ...context, now: 1100 })).toBe('success');
+    expect(tree.tick(createContext(900))).toBe('success'); // Another agent's blackboard
+  });
+});
+
+describe('Leaves', () => {
+  it('should run a wait until its deadline and then reset', () => {
+    const tree = wait('nap', 500);
+    const context = createContext(0);
+
+    expect(tree.tick(context)).toBe('running');
+    expect(tree.tick({ ...context, now: 499 })).toBe('running');
+    expect(tree.tick({ ...context, now: 500 })).toBe('success');
+    expect(context.blackboard.timers).toEqual({});
+  });
+});
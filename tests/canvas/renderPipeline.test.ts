@@ -0,0 +1,175 @@
+// @vitest-environment node
+/**
+ * Render pass pipeline: z-order, toggles, reordering, profiling and the built-in scene passes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RenderPipeline, StormEffects, createScenePasses, getLightEffectBulbs, type FrameContext, type RenderPass, type ScenePainter } from '../../ui/canvas/passes';
+import { createCamera } from '../../modules/camera';
+import { createInitialGameState } from '../../modules/simulation';
+import { SeededRng } from '../../shared/adapters';
+
+/**
+ * A 2D context that records the drawing calls made on it and keeps whatever is assigned to it
+ */
+function createRecordingContext(calls: string[] = []): CanvasRenderingContext2D {
+  const gradient = { addColorStop: () => {} };
+  const state: Record<string, unknown> = { canvas: { width: 800, height: 600 } };
+  return new Proxy(state, {
+    get: (target, name: string) => name in target ? target[name] : () => {
+      calls.push(`ctx.${name}`);
+      return name === 'measureText' ? { width: 0 } : gradient;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+function createFrame(overrides: Partial<FrameContext> = {}): FrameContext {
+  return {
+    ctx: createRecordingContext(),
+    gameState: createInitialGameState({ playerSize: 32, seed: 7, coinCount: 0 }, new SeededRng(7), 0),
+    camera: createCamera({ viewportWidth: 800, viewportHeight: 600, zoom: 1, followSpeed: 5, worldBounds: { minX: 0, minY: 0, maxX: 1600, maxY: 1200 } }),
+    worldId: 'camp',
+    hud: {},
+    visibilityRadius: 100,
+    isVisible: () => true,
+    ...overrides,
+  };
+}
+
+/**
+ * A painter that records which drawing calls each pass made
+ */
+function createRecordingPainter(calls: string[]): ScenePainter {
+  return new Proxy({} as ScenePainter, {
+    get: (_target, name: string) => (...args: unknown[]) => {
+      calls.push(name);
+      return args[0];
+    },
+  });
+}
+
+describe('RenderPipeline', () => {
+  let drawn: string[];
+  let pipeline: RenderPipeline;
+  const pass = (id: string, zOrder: number): RenderPass => ({ id, zOrder, render: () => drawn.push(id) });
+
+  beforeEach(() => {
+    drawn = [];
+    pipeline = new RenderPipeline();
+  });
+
+  it('draws passes by z-order, keeping registration order for ties', () => {
+    pipeline.register(pass('hud', 700));
+    pipeline.register(pass('background', 0));
+    pipeline.register(pass('sparkles', 700));
+
+    pipeline.render(createFrame());
+    expect(drawn).toEqual(['background', 'hud', 'sparkles']);
+  });
+
+  it('skips disabled passes and moves reordered ones', () => {
+    pipeline.register(pass('background', 0));
+    pipeline.register(pass('weather', 400));
+    pipeline.register(pass('hud', 700));
+
+    pipeline.setEnabled('weather', false);
+    pipeline.setZOrder('background', 800);
+    pipeline.render(createFrame());
+
+    expect(drawn).toEqual(['hud', 'background']);
+    expect(pipeline.isEnabled('weather')).toBe(false);
+    expect(() => pipeline.setZOrder('missing', 1)).toThrow('Unknown render pass: missing');
+  });
+
+  it('replaces a pass registered again under the same id', () => {
+    pipeline.register(pass('hud', 700));
+    pipeline.register({ id: 'hud', zOrder: 700, render: () => drawn.push('new hud') });
+    pipeline.unregister('background');
+
+    pipeline.render(createFrame());
+    expect(drawn).toEqual(['new hud']);
+  });
+
+  it('times each pass while profiling', () => {
+    let time = 0;
+    pipeline = new RenderPipeline(() => time);
+    pipeline.register({ id: 'slow', zOrder: 0, render: () => { time += 10; } });
+    pipeline.register({ id: 'fast', zOrder: 1, render: () => { time += 2; } });
+
+    pipeline.render(createFrame());
+    expect(pipeline.getTimings()).toEqual([]);
+
+    pipeline.setProfiling(true);
+    pipeline.render(createFrame());
+    pipeline.render(createFrame());
+    expect(pipeline.getTimings()).toEqual([
+      { id: 'slow', lastMs: 10, averageMs: 10 },
+      { id: 'fast', lastMs: 2, averageMs: 2 },
+    ]);
+  });
+});
+
+describe('createScenePasses', () => {
+  let calls: string[];
+  let pipeline: RenderPipeline;
+
+  beforeEach(() => {
+    calls = [];
+    pipeline = new RenderPipeline();
+    createScenePasses(createRecordingPainter(calls)).forEach(scenePass => pipeline.register(scenePass));
+  });
+
+  it('registers the built-in passes back to front', () => {
+    expect(pipeline.getPasses().map(scenePass => scenePass.id)).toEqual([
+      'background', 'groundDecals', 'landmarks', 'entities', 'weather', 'drugEffects', 'lighting', 'hud', 'overlays',
+    ]);
+  });
+
+  it('only draws the playa static layer and crowd on the playa', () => {
+    pipeline.render(createFrame({ worldId: 'camp' }));
+    expect(calls).not.toContain('renderPlayaStaticLayer');
+    expect(calls).not.toContain('renderNPCs');
+    expect(calls).toContain('renderCampEffects');
+
+    calls.length = 0;
+    pipeline.render(createFrame({ worldId: 'playa' }));
+    expect(calls.slice(0, 3)).toEqual(['clear', 'preparePlayaCrowd', 'renderPlayaStaticLayer']);
+    expect(calls).not.toContain('renderCampEffects');
+    expect(calls).toContain('renderNPCs');
+  });
+
+  it('leaves out items the player cannot see', () => {
+    const collectible = { id: 'water-1', type: 'water', position: { x: 0, y: 0 }, value: 1, collected: false };
+    pipeline.render(createFrame({ collectibles: [collectible], isVisible: () => false }));
+    expect(calls).not.toContain('renderCollectible');
+
+    calls.length = 0;
+    pipeline.render(createFrame({ collectibles: [collectible] }));
+    expect(calls).toContain('renderCollectible');
+  });
+
+  it('draws the HUD after the player and fog', () => {
+    pipeline.setEnabled('overlays', false);
+    pipeline.render(createFrame({ ctx: createRecordingContext(calls) }));
+    // The fog of war is the first gradient drawn on the screen
+    expect(calls.indexOf('renderPlayer')).toBeLessThan(calls.indexOf('ctx.createRadialGradient'));
+    expect(calls.indexOf('ctx.createRadialGradient')).toBeLessThan(calls.indexOf('renderHudControls'));
+    expect(calls).not.toContain('renderNotifications');
+  });
+
+  it('only rains during a thunderstorm', () => {
+    const storm = new StormEffects();
+    const frame = createFrame({ ctx: createRecordingContext(calls) });
+    storm.render(frame);
+    expect(calls).not.toContain('ctx.stroke');
+
+    Object.assign(frame.gameState.weather, { type: 'thunderstorm', intensity: 1, duration: 60 });
+    storm.render(frame);
+    expect(calls).toContain('ctx.stroke');
+  });
+
+  it('counts active light effects as bulbs of their colour', () => {
+    const glow = (type: 'red' | 'blue') => ({ type, startTime: 0, duration: 60 });
+    expect(getLightEffectBulbs([glow('red'), glow('blue'), glow('red')])).toEqual(new Map([['Light Bulb Red', 2], ['Light Bulb Blue', 1]]));
+  });
+});
@@ -0,0 +1,111 @@
+// @vitest-environment node
+/**
+ * Static layer cache: chunks painted once, composited through the camera and rebuilt on landmark changes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StaticLayerCache, getChunkScale, getStaticLandmarksKey, isStaticLandmark, type StaticLayerPainter } from '../../ui/canvas/passes';
+import { createCamera, setCameraPosition, setCameraZoom } from '../../modules/camera';
+import type { Landmark } from '../../modules/worlds';
+
+function createFakeCanvas(width: number, height: number): HTMLCanvasElement {
+  const ctx = { translate: () => {} };
+  return { width, height, getContext: () => ctx } as unknown as HTMLCanvasElement;
+}
+
+const man = (overrides: Partial<Landmark> = {}): Landmark => ({
+  id: 'the-man', type: 'man', position: { x: 2000, y: 1500 }, size: 180, color: '#ff6b35', description: 'The Man', buildingProgress: 0.5, ...overrides,
+});
+
+describe('StaticLayerCache', () => {
+  let cache: StaticLayerCache;
+  let painted: Array<{ x: number; y: number; zoom: number }>;
+  let drawn: number[][];
+  let screen: CanvasRenderingContext2D;
+  const paint: StaticLayerPainter = (_ctx, chunkCamera) => {
+    painted.push({ x: chunkCamera.viewport.x, y: chunkCamera.viewport.y, zoom: chunkCamera.zoom });
+  };
+  const camera = createCamera({ viewportWidth: 800, viewportHeight: 600, zoom: 1, followSpeed: 5 });
+
+  beforeEach(() => {
+    cache = new StaticLayerCache({ minX: 0, minY: 0, maxX: 4000, maxY: 4000 }, { chunkSize: 512, padding: 64, maxChunks: 6, createCanvas: createFakeCanvas });
+    painted = [];
+    drawn = [];
+    screen = { drawImage: (_image: unknown, ...rect: number[]) => drawn.push(rect) } as unknown as CanvasRenderingContext2D;
+    setCameraZoom(camera, 1);
+    setCameraPosition(camera, { x: 1000, y: 1000 });
+  });
+
+  it('paints the chunks under the camera once and reuses them', () => {
+    cache.render(screen, camera, '', paint);
+    // Viewport 600..1400 x 700..1300 covers chunk columns 1-2 and rows 1-2
+    expect(painted).toEqual([
+      { x: 448, y: 448, zoom: 1 },
+      { x: 960, y: 448, zoom: 1 },
+      { x: 448, y: 960, zoom: 1 },
+      { x: 960, y: 960, zoom: 1 },
+    ]);
+    expect(drawn[0]).toEqual([512 - 600, 512 - 700, 512, 512]);
+
+    cache.render(screen, camera, '', paint);
+    expect(painted).toHaveLength(4);
+    expect(drawn).toHaveLength(8);
+  });
+
+  it('skips chunks outside the layer bounds', () => {
+    setCameraPosition(camera, { x: 0, y: 0 });
+    cache.render(screen, camera, '', paint);
+    expect(painted).toEqual([{ x: -64, y: -64, zoom: 1 }]);
+  });
+
+  it('repaints when the key changes or zoom crosses a power of two', () => {
+    cache.render(screen, camera, 'day 2', paint);
+    cache.render(screen, camera, 'day 3', paint);
+    expect(painted).toHaveLength(8);
+
+    setCameraZoom(camera, 1.5);
+    cache.render(screen, camera, 'day 3', paint);
+    expect(painted[painted.length - 1].zoom).toBe(2);
+    expect(getChunkScale(1.5)).toBe(2);
+    expect(getChunkScale(0.6)).toBe(1);
+    expect(getChunkScale(0.01)).toBe(0.25);
+  });
+
+  it('drops the least recently drawn chunks past the limit', () => {
+    cache.render(screen, camera, '', paint);
+    setCameraPosition(camera, { x: 3000, y: 3000 });
+    cache.render(screen, camera, '', paint);
+    expect(cache.getChunkCount()).toBe(6);
+
+    // The chunks drawn first were dropped; the view drawn last stays cached
+    setCameraPosition(camera, { x: 1000, y: 1000 });
+    painted = [];
+    cache.render(screen, camera, '', paint);
+    expect(painted.slice(0, 2).map(chunk => chunk.y)).toEqual([448, 448]);
+    painted = [];
+    cache.render(screen, camera, '', paint);
+    expect(painted).toEqual([]);
+
+    cache.invalidate();
+    expect(cache.getChunkCount()).toBe(0);
+  });
+});
+
+describe('static landmarks', () => {
+  it('caches the Man and Temple only until they start to burn', () => {
+    expect(isStaticLandmark(man())).toBe(true);
+    expect(isStaticLandmark(man({ isBurned: true, buildingProgress: 0 }))).toBe(true);
+    expect(isStaticLandmark(man({ fireworksActive: true }))).toBe(false);
+    expect(isStaticLandmark(man({ isBurning: true }))).toBe(false);
+    expect(isStaticLandmark(man({ ashesProgress: 0.4 }))).toBe(false);
+    expect(isStaticLandmark({ ...man(), id: 'trash-fence', type: 'trashFence' })).toBe(false);
+  });
+
+  it('keys the cache on building progress and burn phase', () => {
+    const key = getStaticLandmarksKey([man()]);
+    expect(getStaticLandmarksKey([man()])).toBe(key);
+    expect(getStaticLandmarksKey([man({ buildingProgress: 0.7 })])).not.toBe(key);
+    expect(getStaticLandmarksKey([man({ handsUp: true })])).not.toBe(key);
+    expect(getStaticLandmarksKey([man({ isBurning: true })])).toBe('');
+  });
+});
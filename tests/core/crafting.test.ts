@@ -0,0 +1,93 @@
+// @vitest-environment node
+/**
+ * Unit tests for recipe discovery and timed workbench crafting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCraftingState,
+  createEmptyInventory,
+  addItemToInventory,
+  getMissingIngredients,
+  getRecipeStatuses,
+  getCampRecipes,
+  getUnfoundBlueprints,
+  learnRecipe,
+  startCraftingJob,
+  finishCraftingJob,
+  CRAFTING_RECIPES,
+} from '../../modules/core';
+import type { ItemType, PlayerInventory } from '../../modules/core';
+
+function inventoryWith(items: Partial<Record<ItemType, number>>): PlayerInventory {
+  const inventory = createEmptyInventory();
+  Object.entries(items).forEach(([item, quantity]) => addItemToInventory(inventory, item as ItemType, quantity!));
+  return inventory;
+}
+
+describe('Recipe discovery', () => {
+  it('should start out knowing only the starter recipes', () => {
+    expect(createCraftingState().known).toEqual(['glitter-rope', 'cape']);
+  });
+
+  it('should teach each camp recipe once', () => {
+    const crafting = createCraftingState();
+    expect(getCampRecipes(crafting, 'hell-station').map(recipe => recipe.id)).toEqual(['led-strip']);
+
+    expect(learnRecipe(crafting, 'led-strip')).toBe(true);
+    expect(learnRecipe(crafting, 'led-strip')).toBe(false);
+    expect(getCampRecipes(crafting, 'hell-station')).toEqual([]);
+  });
+
+  it('should list blueprints until they are found', () => {
+    const crafting = createCraftingState();
+    expect(getUnfoundBlueprints(crafting).map(recipe => recipe.id)).toEqual(['totem', 'costume']);
+
+    learnRecipe(crafting, 'totem');
+    expect(getUnfoundBlueprints(crafting).map(recipe => recipe.id)).toEqual(['costume']);
+  });
+});
+
+describe('Crafting panel statuses', () => {
+  it('should point missing intermediate items at their own recipe', () => {
+    const missing = getMissingIngredients(inventoryWith({ 'LED Strip': 1 }), CRAFTING_RECIPES.totem);
+    expect(missing).toEqual([{ item: 'Glitter Rope', quantity: 1, recipeId: 'glitter-rope' }]);
+  });
+
+  it('should show every known recipe with what it lacks', () => {
+    const statuses = getRecipeStatuses(inventoryWith({ 'Rope': 1, 'Glitter': 1 }), createCraftingState());
+
+    expect(statuses.map(status => [status.recipe.id, status.craftable])).toEqual([['glitter-rope', true], ['cape', false]]);
+    expect(statuses[1].missing).toEqual([
+      { item: 'Clothing', quantity: 1 },
+      { item: 'Zip Tie', quantity: 1 },
+      { item: 'Glitter', quantity: 1 },
+    ]);
+  });
+});
+
+describe('Workbench jobs', () => {
+  it('should use up ingredients at the start and hand over the item when time is up', () => {
+    const crafting = createCraftingState();
+    const inventory = inventoryWith({ 'Rope': 1, 'Glitter': 1 });
+
+    expect(startCraftingJob(crafting, { inventory, equipment: {} }, 'glitter-rope', 100)).toEqual({ success: true });
+    expect(inventory.items.has('Rope')).toBe(false);
+    expect(finishCraftingJob(crafting, inventory, 119)).toBeNull();
+
+    expect(finishCraftingJob(crafting, inventory, 120)?.id).toBe('glitter-rope');
+    expect(inventory.items.get('Glitter Rope')).toBe(1);
+    expect(crafting.job).toBeNull();
+  });
+
+  it('should refuse unknown recipes, a busy bench and missing ingredients', () => {
+    const crafting = createCraftingState();
+    const player = { inventory: inventoryWith({ 'Rope': 2, 'Glitter': 2 }), equipment: {} };
+
+    expect(startCraftingJob(crafting, player, 'totem', 0).reason).toBe('unknown-recipe');
+    expect(startCraftingJob(crafting, player, 'cape', 0).reason).toBe('missing-ingredients');
+    startCraftingJob(crafting, player, 'glitter-rope', 0);
+    expect(startCraftingJob(crafting, player, 'glitter-rope', 0).reason).toBe('busy');
+    expect(player.inventory.items.get('Rope')).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+// @vitest-environment node
+/**
+ * Unit tests for drug interactions, tolerance and comedowns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDrugEffect,
+  takeDrugDose,
+  updateDrugEffects,
+  calculateDrugDrain,
+  getEffectiveDrugEffects,
+  getDoseIntensity,
+  recoverTolerance,
+  isComingDown,
+  DRUG_DEFINITIONS,
+  MAX_DRUG_TOLERANCE,
+  MINUTES_PER_DAY,
+} from '../../modules/core';
+import type { DrugType, PlayerDrugs } from '../../modules/core';
+
+function withDrugs(...types: DrugType[]): PlayerDrugs {
+  return { active: types.map(type => createDrugEffect(type)), maxStack: 5, tolerance: {}, comedowns: [] };
+}
+
+describe('Drug interactions', () => {
+  it('should drain energy while alcohol and ketamine are both active', () => {
+    const drain = calculateDrugDrain(withDrugs('alcohol', 'ketamine'), 2);
+    expect(drain.energy).toBeCloseTo(DRUG_DEFINITIONS.alcohol.interactions!.ketamine!.perSecond!.energy! * 2);
+  });
+
+  it('should not drain anything for drugs that do not interact', () => {
+    expect(calculateDrugDrain(withDrugs('alcohol', 'shrooms'), 1)).toEqual({});
+  });
+
+  it('should cancel weed slowing the player while caffeine is active', () => {
+    const [weed, caffeine] = getEffectiveDrugEffects(withDrugs('weed', 'caffeine'));
+
+    expect(weed.effects.speed).toBeUndefined();
+    expect(weed.effects.mood).toBe(DRUG_DEFINITIONS.weed.effects!.mood);
+    expect(caffeine.effects.speed).toBe(DRUG_DEFINITIONS.caffeine.effects!.speed);
+    expect(getEffectiveDrugEffects(withDrugs('weed'))[0].effects.speed).toBe(DRUG_DEFINITIONS.weed.effects!.speed);
+  });
+});
+
+describe('Drug tolerance', () => {
+  it('should weaken repeat doses up to the maximum tolerance', () => {
+    let drugs = withDrugs();
+    const intensities: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      const dose = takeDrugDose(drugs, 'mdma');
+      intensities.push(dose.effect.intensity);
+      drugs = dose.drugs;
+    }
+
+    expect(intensities[0]).toBe(1);
+    expect(intensities[1]).toBeCloseTo(1 - DRUG_DEFINITIONS.mdma.tolerance!.buildup);
+    expect(drugs.tolerance?.mdma).toBe(MAX_DRUG_TOLERANCE);
+  });
+
+  it('should recover with game time, not real time', () => {
+    const drugs = takeDrugDose(withDrugs(), 'caffeine').drugs;
+    const { recoveryPerDay, buildup } = DRUG_DEFINITIONS.caffeine.tolerance!;
+
+    expect(updateDrugEffects(drugs, 600).tolerance).toEqual(drugs.tolerance);
+    expect(recoverTolerance(drugs.tolerance, MINUTES_PER_DAY / 10)?.caffeine).toBeCloseTo(buildup - recoveryPerDay / 10);
+  });
+
+  it('should be back to baseline five game days after maxing out', () => {
+    let drugs = withDrugs();
+    (Object.keys(DRUG_DEFINITIONS) as DrugType[]).forEach(type => {
+      for (let dose = 0; dose < 10; dose++) drugs = takeDrugDose(drugs, type).drugs;
+    });
+    expect(getDoseIntensity(drugs, 'mdma')).toBeCloseTo(1 - MAX_DRUG_TOLERANCE);
+
+    expect(recoverTolerance(drugs.tolerance, 5 * MINUTES_PER_DAY)).toEqual({});
+    expect(recoverTolerance(drugs.tolerance, 4 * MINUTES_PER_DAY)).toHaveProperty('mdma');
+  });
+});
+
+describe('Drug comedowns', () => {
+  it('should start a comedown when a drug wears off', () => {
+    const drugs = updateDrugEffects(withDrugs('cocaine'), DRUG_DEFINITIONS.cocaine.duration!);
+
+    expect(drugs.active).toEqual([]);
+    expect(isComingDown(drugs, 'cocaine')).toBe(true);
+    expect(calculateDrugDrain(drugs, 1)).toEqual(DRUG_DEFINITIONS.cocaine.comedown!.perSecond);
+  });
+
+  it('should end the comedown after its duration', () => {
+    const comingDown = updateDrugEffects(withDrugs('cocaine'), DRUG_DEFINITIONS.cocaine.duration!);
+    const sober = updateDrugEffects(comingDown, DRUG_DEFINITIONS.cocaine.comedown!.duration);
+
+    expect(isComingDown(sober, 'cocaine')).toBe(false);
+  });
+
+  it('should skip drugs without a comedown', () => {
+    const drugs = updateDrugEffects(withDrugs('shrooms'), DRUG_DEFINITIONS.shrooms.duration!);
+    expect(drugs.comedowns).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+// @vitest-environment node
+/**
+ * Unit tests for equipment slots, worn modifiers and set bonuses
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  equipItem,
+  unequipItem,
+  isEquipped,
+  getEquippedItems,
+  getActiveSets,
+  getEquipmentModifiers,
+  EQUIPMENT_SETS,
+  ITEM_DEFINITIONS,
+} from '../../modules/core';
+import { createInitialGameState } from '../../modules/simulation';
+import { SeededRng } from '../../shared/adapters';
+import type { ItemType, Player } from '../../modules/core';
+
+function createPlayer(...items: ItemType[]): Player {
+  const { player } = createInitialGameState({ playerSize: 32, seed: 1, coinCount: 0 }, new SeededRng(1), 0);
+  player.inventory.items.clear();
+  items.forEach(item => player.inventory.items.set(item, 1));
+  return player;
+}
+
+describe('Equipment slots', () => {
+  it('should equip owned items into their own slots', () => {
+    const player = createPlayer('Cape', 'Boots', 'Totem');
+
+    expect(equipItem(player, 'Cape')).toBe(true);
+    expect(equipItem(player, 'Boots')).toBe(true);
+    expect(equipItem(player, 'Totem')).toBe(true);
+    expect(player.equipment).toEqual({ back: 'Cape', feet: 'Boots', held: 'Totem' });
+    expect(getEquippedItems(player.equipment).map(({ slot }) => slot)).toEqual(['feet', 'back', 'held']);
+  });
+
+  it('should replace only the item in the same slot', () => {
+    const player = createPlayer('Furry Hat', 'Cat Head', 'Cape');
+    equipItem(player, 'Furry Hat');
+    equipItem(player, 'Cape');
+    equipItem(player, 'Cat Head');
+
+    expect(player.equipment).toEqual({ head: 'Cat Head', back: 'Cape' });
+    expect(unequipItem(player, 'head')).toBe('Cat Head');
+    expect(isEquipped(player, 'Cat Head')).toBe(false);
+  });
+
+  it('should refuse items that are not owned or not wearable', () => {
+    const player = createPlayer('Water');
+
+    expect(equipItem(player, 'Cape')).toBe(false);
+    expect(equipItem(player, 'Water')).toBe(false);
+    expect(player.equipment).toEqual({});
+  });
+});
+
+describe('Equipment modifiers', () => {
+  it('should combine worn speed and mood modifiers', () => {
+    const player = createPlayer('Cape', 'Totem');
+    equipItem(player, 'Cape');
+    equipItem(player, 'Totem');
+
+    expect(getEquipmentModifiers(player)).toEqual({
+      speed: ITEM_DEFINITIONS.Cape.worn!.speed,
+      mood: ITEM_DEFINITIONS.Totem.worn!.mood,
+    });
+  });
+
+  it('should add a set bonus once every piece is worn', () => {
+    const pieces = EQUIPMENT_SETS['fire-dancer'].pieces;
+    const player = createPlayer(...pieces);
+    equipItem(player, pieces[0]);
+    expect(getActiveSets(player)).toEqual([]);
+
+    equipItem(player, pieces[1]);
+    expect(getActiveSets(player).map(set => set.id)).toEqual(['fire-dancer']);
+    expect(getEquipmentModifiers(player).mood).toBeCloseTo(
+      ITEM_DEFINITIONS['Fire Spinning'].worn!.mood! + EQUIPMENT_SETS['fire-dancer'].bonus.mood!
+    );
+  });
+});
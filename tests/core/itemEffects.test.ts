@@ -0,0 +1,93 @@
+// @vitest-environment node
+/**
+ * Unit tests for the item effect pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  useItem,
+  runItemEffects,
+  getItemUseEffects,
+  updateItemEffects,
+  getItemBuffMultiplier,
+  applyItemBuffsToDecay,
+  createCraftingState,
+  DEFAULT_DECAY_CONFIG,
+} from '../../modules/core';
+import { createInitialGameState } from '../../modules/simulation';
+import { SeededRng } from '../../shared/adapters';
+import type { ItemType, Player } from '../../modules/core';
+
+function createPlayer(...items: ItemType[]): Player {
+  const { player } = createInitialGameState({ playerSize: 32, seed: 1, coinCount: 0 }, new SeededRng(1), 0);
+  player.inventory.items.clear();
+  items.forEach(item => player.inventory.items.set(item, (player.inventory.items.get(item) ?? 0) + 1));
+  player.stats = { ...player.stats, thirst: 50, mood: 50, lightBattery: 50 };
+  return player;
+}
+
+describe('Item effect pipeline', () => {
+  it('should apply plain stat effects and report what changed', () => {
+    const player = createPlayer('Water');
+    const result = useItem(player, createCraftingState(), 'Water', 0);
+
+    expect(result.success).toBe(true);
+    expect(result.statChange).toMatchObject({ thirst: -35, mood: 3 });
+    expect(player.stats.thirst).toBe(15);
+    expect(player.inventory.items.has('Water')).toBe(false);
+  });
+
+  it('should fail without the item', () => {
+    const player = createPlayer();
+    expect(useItem(player, createCraftingState(), 'Water', 0).success).toBe(false);
+  });
+
+  it('should charge the battery from light bulbs and batteries', () => {
+    const player = createPlayer('Light Bulb Red', 'Battery');
+
+    useItem(player, createCraftingState(), 'Light Bulb Red', 0);
+    expect(player.stats.lightBattery).toBe(30);
+    expect(useItem(player, createCraftingState(), 'Battery', 0).statChange.lightBattery).toBe(70);
+    expect(player.stats.lightBattery).toBe(100);
+  });
+
+  it('should ask the caller to place spawned world objects', () => {
+    expect(useItem(createPlayer('Swamp Cooler'), createCraftingState(), 'Swamp Cooler', 0).spawned).toEqual(['swamp-cooler']);
+  });
+
+  it('should learn recipes once', () => {
+    const crafting = createCraftingState();
+    const unlock = [{ kind: 'unlockRecipe' as const, recipeId: 'totem' }];
+
+    expect(runItemEffects(createPlayer(), crafting, 'Trinket', unlock, 0).learned).toEqual(['totem']);
+    expect(runItemEffects(createPlayer(), crafting, 'Trinket', unlock, 0).learned).toEqual([]);
+  });
+});
+
+describe('Timed item effects', () => {
+  it('should tick over-time effects and start a light effect from a glow stick', () => {
+    const player = createPlayer('Glow Stick');
+    useItem(player, createCraftingState(), 'Glow Stick', 1000);
+    const mood = player.stats.mood;
+
+    expect(player.lightEffects).toEqual([{ type: 'green', startTime: 1000, duration: 120 }]);
+    updateItemEffects(player, 10, 11000);
+    expect(player.stats.mood).toBeCloseTo(mood + 0.5);
+
+    updateItemEffects(player, 200, 211000);
+    expect(player.itemEffects).toEqual([]);
+    expect(player.lightEffects).toEqual([]);
+  });
+
+  it('should slow thirst while a cooler of ice buff lasts', () => {
+    const player = createPlayer('Cooler of Ice');
+    expect(getItemUseEffects('Cooler of Ice').map(effect => effect.kind)).toEqual(['stats', 'buff']);
+    useItem(player, createCraftingState(), 'Cooler of Ice', 0);
+
+    expect(getItemBuffMultiplier(player, 'thirst')).toBe(0.5);
+    expect(applyItemBuffsToDecay(DEFAULT_DECAY_CONFIG, player).thirstDecayPerSecond).toBe(DEFAULT_DECAY_CONFIG.thirstDecayPerSecond * 0.5);
+
+    updateItemEffects(player, 300, 300000);
+    expect(getItemBuffMultiplier(player, 'thirst')).toBe(1);
+  });
+});
@@ -8,6 +8,9 @@ import {
   addVec2,
   scaleVec2,
   getDirectionVector,
+  clampMovementVector,
+  combineDirections,
+  approachVelocity,
   calculateMovement,
   clampToBounds,
 } from '../../modules/core';
@@ -55,7 +58,7 @@ describe('Movement Logic', () => {
   describe('calculateMovement', () => {
     it('should calculate movement correctly for 1 second', () => {
       const startPos = createVec2(100, 100);
-      const input = { direction: 'right' as const, deltaTime: 1 };
+      const input = { direction: getDirectionVector('right'), deltaTime: 1 };
       const result = calculateMovement(startPos, input);
       
       // Movement speed is 200 pixels per second
@@ -65,7 +68,7 @@ describe('Movement Logic', () => {
 
     it('should calculate movement correctly for 0.5 seconds', () => {
       const startPos = createVec2(100, 100);
-      const input = { direction: 'up' as const, deltaTime: 0.5 };
+      const input = { direction: getDirectionVector('up'), deltaTime: 0.5 };
       const result = calculateMovement(startPos, input);
       
       // Movement speed is 200 pixels per second, 0.5 seconds = 100 pixels
@@ -75,11 +78,49 @@ describe('Movement Logic', () => {
 
     it('should handle zero delta time', () => {
       const startPos = createVec2(100, 100);
-      const input = { direction: 'left' as const, deltaTime: 0 };
+      const input = { direction: getDirectionVector('left'), deltaTime: 0 };
       const result = calculateMovement(startPos, input);
       
       expect(result).toEqual(startPos);
     });
+
+    it('should move diagonally at full speed and analog input at part speed', () => {
+      const diagonal = calculateMovement(createVec2(0, 0), { direction: combineDirections(['up', 'right']), deltaTime: 1 });
+      expect(Math.hypot(diagonal.x, diagonal.y)).toBeCloseTo(200);
+      expect(diagonal.x).toBeCloseTo(-diagonal.y);
+
+      const analog = calculateMovement(createVec2(0, 0), { direction: createVec2(0.5, 0), deltaTime: 1 });
+      expect(analog).toEqual({ x: 100, y: 0 });
+    });
+  });
+
+  describe('movement vectors', () => {
+    it('should combine held directions, cancelling opposites', () => {
+      const diagonal = combineDirections(['up', 'left']);
+      expect(diagonal.x).toBeCloseTo(-Math.SQRT1_2);
+      expect(diagonal.y).toBeCloseTo(-Math.SQRT1_2);
+      expect(combineDirections(['left', 'right'])).toEqual({ x: 0, y: 0 });
+      expect(combineDirections([])).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should cap movement at full speed but keep analog magnitude', () => {
+      const capped = clampMovementVector(createVec2(3, 4));
+      expect(capped.x).toBeCloseTo(0.6);
+      expect(capped.y).toBeCloseTo(0.8);
+      expect(clampMovementVector(createVec2(0.3, 0.4))).toEqual({ x: 0.3, y: 0.4 });
+      const clamped = clampMovementVector(createVec2(1, 1));
+      expect(clampMovementVector(clamped)).toEqual(clamped);
+    });
+
+    it('should accelerate and decelerate along the curve', () => {
+      const curve = { acceleration: 4, deceleration: 2 };
+      const speeding = approachVelocity(createVec2(0, 0), createVec2(1, 0), curve, 0.1);
+      expect(speeding.x).toBeCloseTo(0.4);
+      expect(approachVelocity(speeding, createVec2(1, 0), curve, 1)).toEqual({ x: 1, y: 0 });
+
+      const slowing = approachVelocity(createVec2(1, 0), createVec2(0, 0), curve, 0.25);
+      expect(slowing.x).toBeCloseTo(0.5);
+    });
   });
 
   describe('clampToBounds', () => {
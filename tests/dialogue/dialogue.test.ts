@@ -0,0 +1,102 @@
+// @vitest-environment node
+/**
+ * Unit tests for dialogue definitions and choice conditions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseDialogueDefinition,
+  DialogueDefinitionError,
+  getDialogueForSpeaker,
+  getDialogueChoices,
+  checkDialogueCondition,
+} from '../../modules/dialogue';
+import { createInitialGameState } from '../../modules/simulation';
+import { SeededRng } from '../../shared/adapters';
+import type { GameTime } from '../../modules/core';
+
+function createPlayer() {
+  return createInitialGameState({ playerSize: 32, seed: 7, coinCount: 10 }, new SeededRng(7), 0).player;
+}
+
+function at(day: number, hour: number): GameTime {
+  return { day, hour, minute: 0, totalMinutes: (day - 1) * 24 * 60 + hour * 60 };
+}
+
+describe('parseDialogueDefinition', () => {
+  const valid = {
+    id: 'test',
+    speaker: 'test-camp',
+    title: 'Test Camp',
+    color: '#fff',
+    start: 'start',
+    nodes: {
+      start: { text: 'Hello', choices: [{ text: 'More', next: 'more' }, { text: 'Bye' }] },
+      more: { text: 'That is all', choices: [{ text: 'Bye' }] },
+    },
+  };
+
+  it('should accept a well-formed definition', () => {
+    expect(parseDialogueDefinition(valid).nodes.more.text).toBe('That is all');
+  });
+
+  it('should list every problem found', () => {
+    const raw = {
+      ...valid,
+      title: '',
+      nodes: {
+        start: {
+          text: 'Hello',
+          choices: [
+            { text: 'Lost', next: 'nowhere' },
+            { text: 'Pay', actions: [{ kind: 'coins' }, { kind: 'teleport' }] },
+          ],
+        },
+      },
+    };
+
+    try {
+      parseDialogueDefinition(raw, 'test.dialogue.json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(DialogueDefinitionError);
+      expect((error as DialogueDefinitionError).issues).toEqual([
+        'nodes.start.choices[1].actions[0].amount must be a number',
+        'nodes.start.choices[1].actions[1].kind must be one of coins, karma, stats, giveItem, takeItem, quest, refuelArtCars, notify',
+        'title must be a non-empty string',
+        'nodes.start.choices[0].next points to unknown node "nowhere"',
+      ]);
+    }
+  });
+});
+
+describe('Dialogue conditions', () => {
+  it('should wrap hour windows past midnight', () => {
+    const player = createPlayer();
+    const lateNight = { kind: 'time', fromHour: 20, untilHour: 2 } as const;
+
+    expect(checkDialogueCondition(lateNight, player, at(3, 23))).toBe(true);
+    expect(checkDialogueCondition(lateNight, player, at(3, 1))).toBe(true);
+    expect(checkDialogueCondition(lateNight, player, at(3, 12))).toBe(false);
+  });
+
+  it('should check stats, karma and items', () => {
+    const player = createPlayer();
+    player.stats.coins = 30;
+    player.stats.karma = 0;
+
+    expect(checkDialogueCondition({ kind: 'stat', stat: 'coins', min: 40 }, player, at(1, 12))).toBe(false);
+    expect(checkDialogueCondition({ kind: 'karma', max: 10 }, player, at(1, 12))).toBe(true);
+    player.inventory.items.set('Gas Can', 1);
+    expect(checkDialogueCondition({ kind: 'item', item: 'Gas Can' }, player, at(1, 12))).toBe(true);
+  });
+
+  it('should show locked text for choices the player cannot pick', () => {
+    const player = createPlayer();
+    player.stats.coins = 0;
+    const hellStation = getDialogueForSpeaker('hell-station')!;
+    const [buyGas] = getDialogueChoices(hellStation, hellStation.start, player, at(1, 12));
+
+    expect(buyGas).toEqual({ index: 0, text: 'Buy Gas (need 40 coins)', available: false });
+  });
+});
@@ -0,0 +1,118 @@
+// @vitest-environment node
+/**
+ * Unit tests for the entity store and archetypes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createEntityStore,
+  spawnEntity,
+  despawnEntity,
+  getComponent,
+  setComponent,
+  removeComponent,
+  queryEntities,
+  queryKind,
+  spawnArchetype,
+  readArchetype,
+  writeArchetype,
+  listArchetype,
+  ART_CAR,
+  PORTOPOTTY,
+  type ArtCarEntity,
+} from '../../modules/ecs';
+
+function createCar(overrides: Partial<ArtCarEntity> = {}): ArtCarEntity {
+  return {
+    id: 'art-car-1',
+    pos: { x: 100, y: 200 },
+    vel: { x: 10, y: 0 },
+    fuel: 50,
+    fuelMax: 100,
+    fuelLowThreshold: 20,
+    state: 'patrol',
+    platformAabb: { x: 76, y: 188, w: 48, h: 24 },
+    design: 'fire',
+    size: 1.2,
+    speed: 1.3,
+    ...overrides,
+  };
+}
+
+describe('Entity store', () => {
+  it('should query entities by component in spawn order', () => {
+    const store = createEntityStore();
+    spawnEntity(store, 'b', 'marker', { position: { x: 1, y: 1 } });
+    spawnEntity(store, 'a', 'marker', { position: { x: 2, y: 2 }, velocity: { x: 0, y: 1 } });
+    spawnEntity(store, 'c', 'other', { velocity: { x: 1, y: 0 } });
+
+    expect(queryEntities(store, 'position')).toEqual(['b', 'a']);
+    expect(queryEntities(store, 'position', 'velocity')).toEqual(['a']);
+    expect(queryKind(store, 'marker')).toEqual(['b', 'a']);
+  });
+
+  it('should add, replace and remove single components', () => {
+    const store = createEntityStore();
+    spawnEntity(store, 'can', 'gasCan', { position: { x: 0, y: 0 } });
+
+    setComponent(store, 'can', 'carriable', { carried: true });
+    expect(getComponent(store, 'can', 'carriable')).toEqual({ carried: true });
+
+    removeComponent(store, 'can', 'carriable');
+    expect(queryEntities(store, 'carriable')).toEqual([]);
+  });
+
+  it('should forget every component of a despawned entity', () => {
+    const store = createEntityStore();
+    spawnEntity(store, 'coin-1', 'coin', { position: { x: 5, y: 5 }, collider: { radius: 12 } });
+    despawnEntity(store, 'coin-1');
+
+    expect(store).toEqual({ ids: [], kinds: {}, components: { position: {}, collider: {} } });
+  });
+
+  it('should reject a second entity with the same id', () => {
+    const store = createEntityStore();
+    spawnEntity(store, 'dup', 'marker', {});
+    expect(() => spawnEntity(store, 'dup', 'marker', {})).toThrow('Entity "dup" already exists');
+  });
+
+  it('should survive a JSON round trip', () => {
+    const store = createEntityStore();
+    spawnArchetype(store, ART_CAR, createCar());
+
+    expect(JSON.parse(JSON.stringify(store))).toEqual(store);
+  });
+});
+
+describe('Archetypes', () => {
+  it('should read back what was spawned', () => {
+    const store = createEntityStore();
+    const car = createCar({ holder: 'player', path: [{ x: 1, y: 2 }] });
+    spawnArchetype(store, ART_CAR, structuredClone(car));
+
+    expect(readArchetype(store, ART_CAR, car.id)).toEqual(car);
+    expect(readArchetype(store, PORTOPOTTY, car.id)).toBeUndefined();
+  });
+
+  it('should spread an entity across typed components', () => {
+    const store = createEntityStore();
+    spawnArchetype(store, ART_CAR, createCar());
+
+    expect(getComponent(store, 'art-car-1', 'fuel')).toEqual({ fuel: 50, fuelMax: 100, fuelLowThreshold: 20 });
+    expect(getComponent(store, 'art-car-1', 'renderable')).toEqual({ sprite: 'artCar', variant: 'fire', scale: 1.2 });
+    expect(getComponent(store, 'art-car-1', 'collider')?.radius).toBeCloseTo(36);
+  });
+
+  it('should write changed views back into their entities', () => {
+    const store = createEntityStore();
+    spawnArchetype(store, ART_CAR, createCar());
+
+    writeArchetype(store, ART_CAR, { ...createCar(), fuel: 5, state: 'seekFuel' });
+    writeArchetype(store, ART_CAR, createCar({ id: 'art-car-2' }));
+
+    expect(listArchetype(store, ART_CAR).map(car => [car.id, car.fuel, car.state])).toEqual([
+      ['art-car-1', 5, 'seekFuel'],
+      ['art-car-2', 50, 'patrol'],
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+// @vitest-environment node
+/**
+ * Unit tests for the entity spatial system
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSpatialIndex, getEntityCount, queryRadius, type SpatialIndex } from '../../modules/spatial';
+import {
+  createEntityStore,
+  getComponent,
+  spawnArchetype,
+  indexEntities,
+  syncEntityPosition,
+  queryEntitiesNear,
+  findCollectiblesNear,
+  markCollected,
+  COIN,
+  MOOP,
+  type EntityStore,
+} from '../../modules/ecs';
+
+describe('Spatial system', () => {
+  let store: EntityStore;
+  let index: SpatialIndex;
+
+  beforeEach(() => {
+    store = createEntityStore();
+    index = createSpatialIndex(1000, 1000, 100);
+    spawnArchetype(store, COIN, { id: 'coin-near', position: { x: 110, y: 100 }, value: 1, collected: false });
+    spawnArchetype(store, COIN, { id: 'coin-far', position: { x: 400, y: 400 }, value: 1, collected: false });
+    spawnArchetype(store, COIN, { id: 'coin-taken', position: { x: 100, y: 110 }, value: 1, collected: true });
+    spawnArchetype(store, MOOP, { id: 'moop-1', type: 'ziptie', position: { x: 90, y: 95 }, radius: 8, karmaReward: 5, collected: false });
+    indexEntities(index, store);
+  });
+
+  it('should index everything with a collider except collected pickups', () => {
+    expect(getEntityCount(index)).toBe(3);
+  });
+
+  it('should find pickups whose collider overlaps a circle', () => {
+    expect(findCollectiblesNear(index, store, { x: 100, y: 100 }, 16, 'coin')).toEqual(['coin-near']);
+    expect(findCollectiblesNear(index, store, { x: 100, y: 100 }, 16, 'moop')).toEqual(['moop-1']);
+    expect(findCollectiblesNear(index, store, { x: 700, y: 700 }, 16, 'coin')).toEqual([]);
+  });
+
+  it('should drop collected pickups from the index', () => {
+    markCollected(index, store, 'coin-near');
+
+    expect(getComponent(store, 'coin-near', 'collectible')?.collected).toBe(true);
+    expect(findCollectiblesNear(index, store, { x: 100, y: 100 }, 16, 'coin')).toEqual([]);
+  });
+
+  it('should follow entities that move', () => {
+    getComponent(store, 'coin-far', 'position')!.x = 120;
+    getComponent(store, 'coin-far', 'position')!.y = 120;
+    syncEntityPosition(index, store, 'coin-far');
+
+    expect(queryRadius(index, { x: 400, y: 400 }, 20).entities).toEqual([]);
+    expect(queryEntitiesNear(index, store, { x: 120, y: 120 }, 1, 'collectible')).toEqual(['coin-far']);
+  });
+
+  it('should only return entities with the requested components', () => {
+    expect(queryEntitiesNear(index, store, { x: 100, y: 100 }, 16).sort()).toEqual(['coin-near', 'moop-1']);
+    expect(queryEntitiesNear(index, store, { x: 100, y: 100 }, 16, 'velocity')).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+// @vitest-environment node
+/**
+ * Unit tests for the game event bus
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventBus } from '../../modules/events';
+
+describe('EventBus', () => {
+  it('should hand events only to subscribers of their type, in subscription order', () => {
+    const bus = new EventBus();
+    const log: string[] = [];
+    bus.subscribe('DayStarted', ({ day }) => log.push(`first ${day}`));
+    bus.subscribe('DayStarted', ({ day }) => log.push(`second ${day}`));
+    bus.subscribe('CoinCollected', ({ amount }) => log.push(`coin ${amount}`));
+
+    bus.publish({ type: 'DayStarted', day: 3 });
+
+    expect(log).toEqual(['first 3', 'second 3']);
+  });
+
+  it('should stop calling a handler once unsubscribed', () => {
+    const bus = new EventBus();
+    const days: number[] = [];
+    const handler = ({ day }: { day: number }) => days.push(day);
+    const unsubscribe = bus.subscribe('DayStarted', handler);
+
+    bus.publish({ type: 'DayStarted', day: 1 });
+    unsubscribe();
+    bus.publish({ type: 'DayStarted', day: 2 });
+    bus.subscribe('DayStarted', handler);
+    bus.unsubscribe('DayStarted', handler);
+    bus.publish({ type: 'DayStarted', day: 3 });
+
+    expect(days).toEqual([1]);
+  });
+
+  it('should deliver an event to everyone subscribed when it was published', () => {
+    const bus = new EventBus();
+    const log: string[] = [];
+    const late = () => log.push('late');
+    const unsubscribeSecond = bus.subscribe('DayStarted', () => log.push('second'));
+    bus.subscribe('DayStarted', () => {
+      log.push('first');
+      unsubscribeSecond();
+      bus.subscribe('DayStarted', late);
+    });
+
+    bus.publish({ type: 'DayStarted', day: 1 });
+    bus.publish({ type: 'DayStarted', day: 2 });
+
+    expect(log).toEqual(['second', 'first', 'first', 'late']);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Test helpers - shared fixtures for the test suites
+ */
+
+export { silentAudio, createWorldManager, createSimulation } from './simulation';
+export type { TestSimulationOptions } from './simulation';
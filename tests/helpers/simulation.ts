@@ -0,0 +1,43 @@
+/**
+ * Shared fixtures for tests that run a headless simulation
+ */
+
+import { Simulation, type SimulationConfig, type SimulationHooks } from '../../modules/simulation';
+import { WorldManager, WorldStateManager } from '../../modules/worlds';
+import { InMemoryStorage, ManualClock, SeededRng } from '../../shared/adapters';
+import type { AudioPort, Clock } from '../../shared/ports';
+
+export const silentAudio: AudioPort = {
+  loadSound: async () => {},
+  playSound: () => {},
+  stopSound: () => {},
+  setMasterVolume: () => {},
+  getMasterVolume: () => 0,
+  setMuted: () => {},
+  isMuted: () => true,
+  preloadGameSounds: async () => {},
+};
+
+/**
+ * A world manager starting at camp, persisting worlds to `storage`
+ */
+export function createWorldManager(storage: InMemoryStorage = new InMemoryStorage()): WorldManager {
+  return new WorldManager('camp', new WorldStateManager(storage));
+}
+
+export interface TestSimulationOptions {
+  config: SimulationConfig;
+  clock?: Clock;
+  rngSeed?: number;
+  storage?: InMemoryStorage;
+  hooks?: SimulationHooks;
+}
+
+/**
+ * A silent simulation at camp; the clock defaults to a manual one at 0
+ */
+export function createSimulation({ config, clock = new ManualClock(0), rngSeed = config.seed, storage, hooks }: TestSimulationOptions): { simulation: Simulation; worldManager: WorldManager } {
+  const worldManager = createWorldManager(storage);
+  const simulation = new Simulation({ clock, rng: new SeededRng(rngSeed), audio: silentAudio, worldManager }, config, hooks);
+  return { simulation, worldManager };
+}
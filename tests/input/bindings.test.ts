@@ -0,0 +1,55 @@
+// @vitest-environment node
+/**
+ * Key bindings: rebinding, conflict detection and persistence
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_KEY_BINDINGS,
+  bindKey,
+  unbindKey,
+  findBindingConflicts,
+  getActionsForKey,
+  formatActionKey,
+  parseKeyBindings,
+  loadKeyBindings,
+  saveKeyBindings,
+} from '../../modules/input';
+import { InMemoryStorage } from '../../shared/adapters';
+
+describe('key bindings', () => {
+  it('has no conflicts by default', () => {
+    expect(findBindingConflicts(DEFAULT_KEY_BINDINGS)).toEqual([]);
+  });
+
+  it('rebinds an action and reports a key bound twice', () => {
+    const rebound = bindKey(unbindKey(DEFAULT_KEY_BINDINGS, 'Rest', 'r'), 'Rest', 'Q');
+
+    expect(rebound.Rest).toEqual(['q']);
+    expect(formatActionKey(rebound, 'Rest')).toBe('Q');
+    expect(getActionsForKey(rebound, 'r')).toEqual([]);
+    expect(DEFAULT_KEY_BINDINGS.Rest).toEqual(['r']);
+
+    const clashing = bindKey(rebound, 'Gift', 'q');
+    expect(findBindingConflicts(clashing)).toEqual([{ key: 'q', actions: ['Rest', 'Gift'] }]);
+  });
+
+  it('fills actions missing from stored bindings with the defaults', () => {
+    const parsed = parseKeyBindings({ Pause: ['F1'], Mute: 'm', Unknown: ['x'] });
+
+    expect(parsed.Pause).toEqual(['f1']);
+    expect(parsed.Mute).toEqual(DEFAULT_KEY_BINDINGS.Mute);
+    expect(parsed.MoveUp).toEqual(DEFAULT_KEY_BINDINGS.MoveUp);
+    expect(parseKeyBindings(null)).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  it('saves and loads bindings through storage', async () => {
+    const storage = new InMemoryStorage();
+    expect(await loadKeyBindings(storage)).toEqual(DEFAULT_KEY_BINDINGS);
+
+    const bindings = bindKey(DEFAULT_KEY_BINDINGS, 'Interact', 'e');
+    await saveKeyBindings(storage, bindings);
+
+    expect((await loadKeyBindings(storage)).Interact).toEqual([' ', 'e']);
+  });
+});
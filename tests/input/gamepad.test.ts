@@ -0,0 +1,47 @@
+// @vitest-environment node
+/**
+ * Gamepad movement: stick deadzone, analog magnitude and the d-pad
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GAMEPAD_DEADZONE, readGamepadMovement, readGamepadsMovement } from '../../modules/input';
+import type { GamepadPort, GamepadState } from '../../shared/ports';
+
+function createPad(axes: number[], pressedButtons: number[] = []): GamepadState {
+  const buttons = Array.from({ length: 16 }, (_, index) => {
+    const pressed = pressedButtons.includes(index);
+    return { pressed, value: pressed ? 1 : 0 };
+  });
+  return { axes, buttons };
+}
+
+function createPort(pads: GamepadState[]): GamepadPort {
+  return { getGamepads: () => pads };
+}
+
+describe('gamepad movement', () => {
+  it('ignores stick drift inside the deadzone', () => {
+    expect(readGamepadMovement(createPad([GAMEPAD_DEADZONE / 2, -0.1]))).toEqual({ x: 0, y: 0 });
+  });
+
+  it('keeps analog magnitude, reaching full speed at the rim', () => {
+    const half = readGamepadMovement(createPad([0.6, 0]), 0.2);
+    expect(half.x).toBeCloseTo(0.5);
+    expect(half.y).toBe(0);
+
+    const rim = readGamepadMovement(createPad([1, 1]), 0.2);
+    expect(Math.hypot(rim.x, rim.y)).toBeCloseTo(1);
+  });
+
+  it('uses the d-pad over the stick', () => {
+    const movement = readGamepadMovement(createPad([0.9, 0], [12, 14]));
+    expect(movement.x).toBeCloseTo(-Math.SQRT1_2);
+    expect(movement.y).toBeCloseTo(-Math.SQRT1_2);
+  });
+
+  it('reads the first controller being steered', () => {
+    const port = createPort([createPad([0, 0]), createPad([0, 1])]);
+    expect(readGamepadsMovement(port)).toEqual({ x: 0, y: 1 });
+    expect(readGamepadsMovement(createPort([]))).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,67 @@
+// @vitest-environment node
+/**
+ * Touch controls: floating joystick, action buttons, taps and pinch zoom
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JOYSTICK_RADIUS, TouchControls, layoutTouchButtons } from '../../modules/input';
+
+describe('TouchControls', () => {
+  let controls: TouchControls;
+
+  beforeEach(() => {
+    controls = new TouchControls(800, 600);
+  });
+
+  it('steers with a joystick placed where the thumb lands on the left', () => {
+    controls.touchStart(1, { x: 100, y: 400 }, 0);
+    expect(controls.getMovement()).toEqual({ x: 0, y: 0 });
+
+    controls.touchMove(1, { x: 100 + JOYSTICK_RADIUS * 2, y: 400 });
+    expect(controls.getMovement()).toEqual({ x: 1, y: 0 });
+    expect(controls.getView().joystick?.knob).toEqual({ x: 100 + JOYSTICK_RADIUS, y: 400 });
+
+    controls.touchMove(1, { x: 100, y: 400 - JOYSTICK_RADIUS / 2 });
+    const partway = controls.getMovement();
+    expect(partway.x).toBe(0);
+    expect(partway.y).toBeGreaterThan(-1);
+    expect(partway.y).toBeLessThan(0);
+
+    controls.touchEnd(1, 1000);
+    expect(controls.getMovement()).toEqual({ x: 0, y: 0 });
+    expect(controls.getView().joystick).toBeNull();
+  });
+
+  it('presses a button action for one frame', () => {
+    const [interact] = layoutTouchButtons(800, 600);
+    controls.touchStart(1, interact.center, 0);
+
+    expect(controls.wasActionJustPressed('Interact')).toBe(true);
+    expect(controls.getView().held).toEqual(['Interact']);
+    controls.clearJustPressed();
+    expect(controls.wasActionJustPressed('Interact')).toBe(false);
+  });
+
+  it('reports quick touches that stay put as taps', () => {
+    controls.touchStart(1, { x: 600, y: 100 }, 0);
+    expect(controls.touchEnd(1, 100)).toEqual({ x: 600, y: 100 });
+
+    controls.touchStart(2, { x: 600, y: 100 }, 0);
+    controls.touchMove(2, { x: 650, y: 100 });
+    expect(controls.touchEnd(2, 100)).toBeNull();
+
+    controls.touchStart(3, { x: 600, y: 100 }, 0);
+    expect(controls.touchEnd(3, 1000)).toBeNull();
+  });
+
+  it('turns two fingers spreading apart into a zoom factor', () => {
+    controls.touchStart(1, { x: 300, y: 300 }, 0);
+    controls.touchStart(2, { x: 400, y: 300 }, 10);
+    controls.touchMove(2, { x: 500, y: 300 });
+
+    expect(controls.consumeZoomFactor()).toBeCloseTo(2);
+    expect(controls.consumeZoomFactor()).toBe(1);
+    expect(controls.getMovement()).toEqual({ x: 0, y: 0 });
+    expect(controls.touchEnd(1, 20)).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+// @vitest-environment node
+/**
+ * Unit tests for the per-world navigation cache
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { NavigationCache, createNavGrid, createWorldNavGrid, isWalkable, type NavGrid } from '../../modules/navigation';
+
+function createWalledGrid(): NavGrid {
+  return createNavGrid(
+    { width: 100, height: 100, cellSize: 10, clearance: 0 },
+    [{ kind: 'box', box: { x: 50, y: 0, w: 10, h: 90 } }]
+  );
+}
+
+describe('Navigation cache', () => {
+  it('should build each world grid once', () => {
+    const buildGrid = vi.fn((_worldId: string) => createWalledGrid());
+    const cache = new NavigationCache(buildGrid);
+
+    cache.findPath('camp', { x: 5, y: 5 }, { x: 95, y: 5 });
+    cache.findPath('camp', { x: 5, y: 5 }, { x: 95, y: 15 });
+    cache.getGrid('playa');
+
+    expect(buildGrid.mock.calls.map(([worldId]) => worldId)).toEqual(['camp', 'playa']);
+  });
+
+  it('should walk straight when nothing is in the way', () => {
+    const cache = new NavigationCache(createWalledGrid);
+    expect(cache.findPath('camp', { x: 5, y: 5 }, { x: 45, y: 45 })).toEqual([{ x: 45, y: 45 }]);
+  });
+
+  it('should end routes at the exact goal, even inside an obstacle', () => {
+    const cache = new NavigationCache(createWalledGrid);
+
+    const around = cache.findPath('camp', { x: 5, y: 5 }, { x: 93, y: 7 });
+    const into = cache.findPath('camp', { x: 5, y: 5 }, { x: 55, y: 5 });
+
+    expect(around.length).toBeGreaterThan(1);
+    expect(around.at(-1)).toEqual({ x: 93, y: 7 });
+    expect(into.at(-1)).toEqual({ x: 55, y: 5 });
+    expect(into.slice(0, -1).every(point => isWalkable(cache.getGrid('camp'), point))).toBe(true);
+  });
+
+  it('should hand out copies of cached paths', () => {
+    const cache = new NavigationCache(createWalledGrid);
+    const first = cache.findPath('camp', { x: 5, y: 5 }, { x: 95, y: 5 });
+    first.shift();
+
+    expect(cache.findPath('camp', { x: 5, y: 5 }, { x: 95, y: 5 })).not.toEqual(first);
+  });
+
+  it('should keep the playa Man, Temple and Hell Station out of bounds', () => {
+    const grid = createWorldNavGrid('playa');
+
+    expect(isWalkable(grid, { x: 2000, y: 1500 })).toBe(false); // The Man
+    expect(isWalkable(grid, { x: 2000, y: 600 })).toBe(false); // The Temple
+    expect(isWalkable(grid, { x: 200, y: 200 })).toBe(false); // Outside the trash fence
+    expect(isWalkable(grid, { x: 1600, y: 1200 })).toBe(true);
+  });
+});
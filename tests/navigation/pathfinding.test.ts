@@ -0,0 +1,90 @@
+// @vitest-environment node
+/**
+ * Unit tests for navigation grids and A* pathfinding
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createNavGrid,
+  worldToCell,
+  isWalkable,
+  hasLineOfSight,
+  findNearestWalkablePoint,
+  findGridPath,
+  smoothPath,
+  cellCenter,
+  type NavGrid,
+} from '../../modules/navigation';
+
+// 10x10 cells of 10px with a wall down column 5 that leaves a gap in the bottom row
+function createWalledGrid(): NavGrid {
+  return createNavGrid(
+    { width: 100, height: 100, cellSize: 10, clearance: 0 },
+    [{ kind: 'box', box: { x: 50, y: 0, w: 10, h: 90 } }]
+  );
+}
+
+describe('Navigation grid', () => {
+  it('should block cells inside obstacles and their clearance', () => {
+    const grid = createNavGrid(
+      { width: 200, height: 200, cellSize: 20, clearance: 15 },
+      [{ kind: 'circle', center: { x: 100, y: 100 }, radius: 20 }]
+    );
+
+    expect(isWalkable(grid, { x: 100, y: 100 })).toBe(false);
+    expect(isWalkable(grid, { x: 130, y: 110 })).toBe(false);
+    expect(isWalkable(grid, { x: 150, y: 110 })).toBe(true);
+    expect(isWalkable(grid, { x: -5, y: 10 })).toBe(false);
+  });
+
+  it('should only keep the inside of a boundary walkable', () => {
+    const grid = createNavGrid(
+      { width: 100, height: 100, cellSize: 10, clearance: 0 },
+      [{ kind: 'boundary', center: { x: 50, y: 50 }, radius: 40 }]
+    );
+
+    expect(isWalkable(grid, { x: 50, y: 50 })).toBe(true);
+    expect(isWalkable(grid, { x: 5, y: 5 })).toBe(false);
+    expect(findNearestWalkablePoint(grid, { x: 5, y: 5 })).toEqual({ x: 25, y: 25 });
+  });
+
+  it('should see past open ground but not through walls', () => {
+    const grid = createWalledGrid();
+
+    expect(hasLineOfSight(grid, { x: 5, y: 5 }, { x: 45, y: 85 })).toBe(true);
+    expect(hasLineOfSight(grid, { x: 5, y: 5 }, { x: 95, y: 5 })).toBe(false);
+  });
+});
+
+describe('A* pathfinding', () => {
+  it('should go through the gap in a wall', () => {
+    const grid = createWalledGrid();
+    const path = findGridPath(grid, worldToCell(grid, { x: 5, y: 5 }), worldToCell(grid, { x: 95, y: 5 }));
+
+    expect(path).not.toBeNull();
+    expect(path!.map(cell => cellCenter(grid, cell))).toContainEqual({ x: 55, y: 95 });
+    expect(path!.every(cell => grid.blocked[cell] === 0)).toBe(true);
+  });
+
+  it('should return null when the goal is walled off', () => {
+    const grid = createNavGrid(
+      { width: 100, height: 100, cellSize: 10, clearance: 0 },
+      [{ kind: 'box', box: { x: 50, y: 0, w: 10, h: 100 } }]
+    );
+
+    expect(findGridPath(grid, 0, 9)).toBeNull();
+  });
+
+  it('should smooth a path down to its corners', () => {
+    const grid = createWalledGrid();
+    const cells = findGridPath(grid, worldToCell(grid, { x: 5, y: 5 }), worldToCell(grid, { x: 95, y: 5 }))!;
+    const smoothed = smoothPath(grid, cells.map(cell => cellCenter(grid, cell)));
+
+    expect(smoothed.length).toBeLessThan(cells.length);
+    expect(smoothed[0]).toEqual({ x: 5, y: 5 });
+    expect(smoothed.at(-1)).toEqual({ x: 95, y: 5 });
+    for (let i = 1; i < smoothed.length; i++) {
+      expect(hasLineOfSight(grid, smoothed[i - 1], smoothed[i])).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+// @vitest-environment node
+/**
+ * Unit tests for quest progress, prerequisites and time windows
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createQuestState,
+  updateQuests,
+  recordQuestEvent,
+  getQuestStatus,
+  getQuestVisitTargets,
+  getQuestLog,
+  isQuestWindowOpen,
+} from '../../modules/quests';
+import type { GameTime } from '../../modules/core';
+
+function at(day: number, hour = 12): GameTime {
+  return { day, hour, minute: 0, totalMinutes: (day - 1) * 24 * 60 + hour * 60 };
+}
+
+describe('Quest availability', () => {
+  it('should start quests without prerequisites and hold back the rest', () => {
+    const quests = createQuestState();
+    const { started } = updateQuests(quests, at(1));
+
+    expect(started.map(quest => quest.id)).toContain('leave-no-trace');
+    expect(getQuestStatus(quests, 'clean-sweep')).toBe('locked');
+    expect(getQuestStatus(quests, 'witness-the-burn')).toBe('locked');
+  });
+
+  it('should open quest windows on GameTime', () => {
+    const burn = { from: { day: 8, hour: 18 }, until: { day: 9 } };
+
+    expect(isQuestWindowOpen(burn, at(8, 17))).toBe(false);
+    expect(isQuestWindowOpen(burn, at(8, 20))).toBe(true);
+    expect(isQuestWindowOpen(burn, at(9, 0))).toBe(false);
+  });
+
+  it('should fail active quests once their window closes', () => {
+    const quests = createQuestState();
+    updateQuests(quests, at(1));
+    const { failed } = updateQuests(quests, at(9, 0));
+
+    expect(failed.map(quest => quest.id)).toEqual(['temple-visit']);
+    expect(getQuestStatus(quests, 'temple-visit')).toBe('failed');
+  });
+});
+
+describe('Quest progress', () => {
+  it('should count events, complete the quest and unlock its follow-up', () => {
+    const quests = createQuestState();
+    updateQuests(quests, at(1));
+
+    const completed = Array.from({ length: 10 }, () => recordQuestEvent(quests, { kind: 'moopCollected' })).flat();
+    expect(completed.map(quest => quest.id)).toEqual(['leave-no-trace']);
+
+    updateQuests(quests, at(1));
+    expect(getQuestStatus(quests, 'clean-sweep')).toBe('active');
+  });
+
+  it('should only count gifts at different camps once each', () => {
+    const quests = createQuestState();
+    updateQuests(quests, at(1));
+
+    recordQuestEvent(quests, { kind: 'gifted', campId: 'center-camp' });
+    recordQuestEvent(quests, { kind: 'gifted', campId: 'center-camp' });
+    recordQuestEvent(quests, { kind: 'gifted', campId: 'hell-station' });
+
+    const entry = getQuestLog(quests).find(({ quest }) => quest.id === 'gifting-spirit')!;
+    expect(entry.objectives[0]).toMatchObject({ count: 2, target: 3, done: false });
+  });
+
+  it('should wait on landmarks for visit objectives until visited', () => {
+    const quests = createQuestState();
+    updateQuests(quests, at(1));
+    expect(getQuestVisitTargets(quests)).toEqual(['the-temple']);
+
+    expect(recordQuestEvent(quests, { kind: 'visited', landmarkId: 'the-temple' }).map(quest => quest.id)).toEqual(['temple-visit']);
+    expect(getQuestVisitTargets(quests)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+// @vitest-environment node
+/**
+ * Unit tests for gift tastes, relationship scores and reciprocation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRelationshipState,
+  getCampRecipient,
+  getCampMateRecipient,
+  getCrewRecipient,
+  getGiftRecipient,
+  getGiftTaste,
+  getFriends,
+  giveGift,
+} from '../../modules/relationships';
+
+describe('Gift tastes', () => {
+  it('should read tastes from the recipient preferences', () => {
+    const hellStation = getCampRecipient('hell-station')!;
+
+    expect(getGiftTaste(hellStation, 'Gas Can')).toBe('loved');
+    expect(getGiftTaste(hellStation, 'Beer')).toBe('liked');
+    expect(getGiftTaste(hellStation, 'Glitter')).toBe('disliked');
+    expect(getGiftTaste(hellStation, 'Boots')).toBe('neutral');
+  });
+
+  it('should resolve every kind of recipient from its id', () => {
+    expect(getGiftRecipient(getCrewRecipient('fire').id)?.name).toBe('Fire Dragon crew');
+    expect(getGiftRecipient(getCampMateRecipient('Wombat Wally').id)?.kind).toBe('campMate');
+    expect(getGiftRecipient('center-camp')?.kind).toBe('camp');
+    expect(getGiftRecipient('the-man')).toBeUndefined();
+  });
+});
+
+describe('giveGift', () => {
+  it('should raise the score and unlock each reward once, in order', () => {
+    const state = createRelationshipState();
+    const centerCamp = getCampRecipient('center-camp')!;
+
+    const first = giveGift(state, centerCamp, 'Cooler of Ice', 2);
+    expect(first).toMatchObject({ taste: 'loved', score: 30, scoreChange: 30 });
+    expect(first.reciprocations).toEqual([{ kind: 'returnGift', item: 'Cooler of Ice' }]);
+
+    const second = giveGift(state, centerCamp, 'Water', 3);
+    expect(second.score).toBe(54);
+    expect(second.reciprocations).toEqual([{ kind: 'bikeRumour' }]);
+    expect(giveGift(state, centerCamp, 'Beer', 1).reciprocations).toEqual([]);
+  });
+
+  it('should lower the score for disliked gifts without taking rewards back', () => {
+    const state = createRelationshipState();
+    const hellStation = getCampRecipient('hell-station')!;
+    giveGift(state, hellStation, 'Gas Can', 2);
+    const outcome = giveGift(state, hellStation, 'Plastic Bag', 1);
+
+    expect(outcome).toMatchObject({ taste: 'disliked', score: 25, scoreChange: -5 });
+    expect(state['hell-station']).toEqual({ score: 25, gifts: 3, rewardsGiven: 1 });
+  });
+});
+
+describe('getFriends', () => {
+  it('should list friends closest first with their invitations', () => {
+    const state = createRelationshipState();
+    giveGift(state, getCampMateRecipient('Wombat Wendy'), 'Trinket', 1);
+    giveGift(state, getCampRecipient('playa-camp')!, 'LED Strip', 4);
+
+    const friends = getFriends(state);
+    expect(friends.map(friend => friend.name)).toEqual(['Boom Boom Womb', 'Wombat Wendy']);
+    expect(friends[0]).toMatchObject({ level: 'Friend', gifts: 4 });
+    expect(friends[0].invitations.map(invitation => invitation.event)).toEqual(['Womb dance party']);
+  });
+});
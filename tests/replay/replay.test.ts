@@ -0,0 +1,74 @@
+// @vitest-environment node
+/**
+ * Unit tests for replay recording and playback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation, createInputSnapshot, type SimulationConfig } from '../../modules/simulation';
+import { ReplayRecorder, ReplayPlayer, encodeReplay, decodeReplay, type Replay } from '../../modules/replay';
+import { ManualClock, SeededRng } from '../../shared/adapters';
+import { combineDirections, type Vec2 } from '../../modules/core';
+import { createWorldManager, silentAudio } from '../helpers';
+
+const config: SimulationConfig = { playerSize: 32, seed: 1234, coinCount: 10 };
+
+/**
+ * Drive a live simulation the way GameLoop does, with uneven frame times
+ */
+function recordRun(frameCount: number): { simulation: Simulation; replay: Replay } {
+  const clock = new ManualClock(5000);
+  const recorder = new ReplayRecorder(config, clock.now());
+  const simulation = new Simulation(
+    { clock, rng: new SeededRng(99), audio: silentAudio, worldManager: createWorldManager() },
+    config,
+    { onCommand: command => recorder.recordCommand(command) }
+  );
+  const movements: (Vec2 | null)[] = [
+    combineDirections(['right']), combineDirections(['right', 'down']), { x: 0.3, y: -0.45 }, null, combineDirections(['left']), combineDirections(['up']),
+  ];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (frame === 40) simulation.toggleLights();
+    if (frame === 80) simulation.advanceHour();
+
+    const deltaTime = 0.016 + (frame % 7) * 0.0013;
+    const input = createInputSnapshot(movements[frame % movements.length], frame % 50 === 0 ? ['Rest'] : []);
+    clock.advance(deltaTime * 1000);
+    recorder.recordFrame(input, deltaTime);
+    simulation.step(input, deltaTime);
+  }
+
+  return { simulation, replay: recorder.getReplay() };
+}
+
+describe('Replay', () => {
+  it('should record one frame per tick and attach commands to the next tick', () => {
+    const { replay } = recordRun(100);
+    expect(replay.frames).toHaveLength(100);
+    expect(replay.frames[40].commands).toEqual([{ type: 'toggleLights' }]);
+    expect(replay.frames[80].commands).toEqual([{ type: 'advanceHour' }]);
+    expect(replay.frames[41].commands).toEqual([]);
+  });
+
+  it('should round-trip through the replay file format', () => {
+    const { replay } = recordRun(60);
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('should reject unknown replay versions', () => {
+    const { replay } = recordRun(1);
+    const file = encodeReplay({ ...replay, version: 99 });
+    expect(() => decodeReplay(file)).toThrow('Unsupported replay version');
+  });
+
+  it('should reproduce the recorded run exactly', () => {
+    const { simulation, replay } = recordRun(300);
+    const player = new ReplayPlayer(decodeReplay(encodeReplay(replay)), silentAudio, createWorldManager());
+
+    const replayedState = player.runToEnd();
+
+    expect(player.isFinished()).toBe(true);
+    expect(replayedState).toEqual(simulation.getState());
+    expect(replayedState.player.position).toEqual(simulation.getState().player.position);
+  });
+});
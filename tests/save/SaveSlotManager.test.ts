@@ -0,0 +1,75 @@
+// @vitest-environment node
+/**
+ * Unit tests for save slots and autosave rotation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveSlotManager, createSaveSlotMetadata, SaveError } from '../../modules/save';
+import { createInitialGameState } from '../../modules/simulation';
+import { InMemoryStorage, SeededRng } from '../../shared/adapters';
+import type { GameState } from '../../modules/core';
+
+function createGameState(day: number = 1): GameState {
+  const state = createInitialGameState({ playerSize: 32, seed: 3, coinCount: 10 }, new SeededRng(3), 0);
+  state.time.day = day;
+  state.time.hour = 14;
+  state.player.stats.coins = 25;
+  state.player.stats.karma = 40;
+  state.player.actualPlayTime = 600;
+  return state;
+}
+
+describe('SaveSlotManager', () => {
+  let storage: InMemoryStorage;
+  let slots: SaveSlotManager;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    slots = new SaveSlotManager(storage, { autosaveSlots: 3 });
+  });
+
+  it('should summarize a game state for the slot list', () => {
+    const metadata = createSaveSlotMetadata(createGameState(4), 'playa');
+    expect(metadata).toMatchObject({ day: 4, hour: 14, worldId: 'playa', coins: 25, karma: 40, playTimeSeconds: 600 });
+  });
+
+  it('should save, list and load a slot with its metadata', async () => {
+    const state = createGameState(2);
+    await slots.save('slot-1', state, createSaveSlotMetadata(state, 'camp'), 1000);
+
+    const listed = await slots.listSlots();
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ slotId: 'slot-1', kind: 'manual', savedAt: 1000 });
+    expect(listed[0].metadata?.day).toBe(2);
+
+    const loaded = await slots.load('slot-1');
+    expect(loaded?.gameState.player.inventory.items).toBeInstanceOf(Map);
+    expect(loaded?.metadata?.worldId).toBe('camp');
+  });
+
+  it('should return null for an empty slot', async () => {
+    expect(await slots.load('slot-2')).toBeNull();
+    expect(await slots.exists('slot-2')).toBe(false);
+  });
+
+  it('should ignore storage keys that are not save slots', async () => {
+    await storage.save('world_state_camp', '{}');
+    expect(await slots.listSlots()).toEqual([]);
+  });
+
+  it('should rotate autosaves, overwriting the oldest', async () => {
+    for (let day = 1; day <= 4; day++) {
+      const state = createGameState(day);
+      await slots.autosave(state, createSaveSlotMetadata(state, 'camp'), day * 1000);
+    }
+
+    const autosaves = await slots.listSlots();
+    expect(autosaves.map(slot => slot.slotId)).toEqual(['autosave-1', 'autosave-3', 'autosave-2']);
+    expect(autosaves.map(slot => slot.metadata?.day)).toEqual([4, 3, 2]);
+  });
+
+  it('should raise a SaveError for a corrupt slot', async () => {
+    await storage.save('save_slot-3', { schemaVersion: 2, savedAt: 0, gameState: null });
+    await expect(slots.load('slot-3')).rejects.toBeInstanceOf(SaveError);
+  });
+});
@@ -0,0 +1,182 @@
+// @vitest-environment node
+/**
+ * Unit tests for the versioned save codec
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeSave, decodeSave, SaveError, SAVE_SCHEMA_VERSION } from '../../modules/save';
+import { createInitialGameState } from '../../modules/simulation';
+import { listArchetype, COIN, GAS_CAN, PORTOPOTTY, WORLD_ITEM } from '../../modules/ecs';
+import { SeededRng } from '../../shared/adapters';
+import type { GameState } from '../../modules/core';
+
+function createGameState(): GameState {
+  const state = createInitialGameState({ playerSize: 32, seed: 7, coinCount: 10 }, new SeededRng(7), 1000);
+  state.player.achievements.add('first-steps');
+  state.player.inventory.items.set('Water', 5);
+  return state;
+}
+
+function expectSaveError(action: () => unknown, code: string): void {
+  try {
+    action();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SaveError);
+    expect((error as SaveError).code).toBe(code);
+    return;
+  }
+  throw new Error('Expected a SaveError');
+}
+
+describe('Save codec', () => {
+  it('should keep Sets and Maps through JSON', () => {
+    const state = createGameState();
+    const stored = JSON.parse(JSON.stringify(encodeSave(state, 123)));
+
+    const { gameState, savedAt } = decodeSave(stored);
+
+    expect(savedAt).toBe(123);
+    expect(gameState.player.achievements).toEqual(new Set(['first-steps']));
+    expect(gameState.player.inventory.items.get('Water')).toBe(5);
+    expect(gameState).toEqual(state);
+  });
+
+  it('should write the current schema version', () => {
+    expect(encodeSave(createGameState(), 0).schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+  });
+
+  it('should accept save files stored as JSON text', () => {
+    const text = JSON.stringify(encodeSave(createGameState(), 5));
+    expect(decodeSave(text).gameState.player.inventory.items.get('Water')).toBe(5);
+  });
+
+  it('should migrate 1.0.0 saves and fill missing player fields', () => {
+    const legacyState = JSON.parse(JSON.stringify(createGameState()));
+    delete legacyState.player.lightEffects;
+    delete legacyState.player.stats.bathroom;
+    const legacySave = { gameState: legacyState, timestamp: 42, version: '1.0.0' };
+
+    const { gameState, savedAt } = decodeSave(legacySave);
+
+    expect(savedAt).toBe(42);
+    expect(gameState.player.achievements).toBeInstanceOf(Set);
+    expect(gameState.player.inventory.items).toBeInstanceOf(Map);
+    expect(gameState.player.lightEffects).toEqual([]);
+    expect(gameState.player.stats.bathroom).toBe(0);
+    expect(gameState.player.position).toEqual(legacyState.player.position);
+  });
+
+  it('should move version 2 entity arrays into the entity store', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.entities;
+    const v2Save = {
+      schemaVersion: 2,
+      savedAt: 9,
+      gameState: {
+        ...gameState,
+        coins: [{ id: 'coin-1', position: { x: 5, y: 6 }, value: 2, collected: false }],
+        moop: [],
+        gasCans: [{ id: 'can-1', pos: { x: 7, y: 8 }, active: true }],
+        artCars: [],
+        portopotties: [{ id: 'porto-1', position: { x: 1, y: 1 }, aabb: { x: 1, y: 1, w: 120, h: 120 }, used: true, broken: true }],
+      },
+    };
+
+    const { gameState: migrated } = decodeSave(v2Save);
+
+    expect(listArchetype(migrated.entities, COIN)).toEqual(v2Save.gameState.coins);
+    expect(listArchetype(migrated.entities, GAS_CAN)).toEqual(v2Save.gameState.gasCans);
+    expect(listArchetype(migrated.entities, PORTOPOTTY)).toEqual(v2Save.gameState.portopotties);
+    expect(migrated).not.toHaveProperty('coins');
+  });
+
+  it('should give version 3 saves the starter recipes and an idle workbench', () => {
+    const { crafting, ...gameState } = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    const v3Save = { schemaVersion: 3, savedAt: 0, gameState };
+
+    expect(crafting).toBeDefined();
+    expect(decodeSave(v3Save).gameState.crafting).toEqual({ known: ['glitter-rope', 'cape'], job: null });
+  });
+
+  it('should give version 4 saves no running item effects', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.player.itemEffects;
+
+    expect(decodeSave({ schemaVersion: 4, savedAt: 0, gameState }).gameState.player.itemEffects).toEqual([]);
+  });
+
+  it('should move a version 5 equipped item into its slot', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.player.equipment;
+    gameState.player.equippedItem = 'Cape';
+
+    const { player } = decodeSave({ schemaVersion: 5, savedAt: 0, gameState }).gameState;
+    expect(player.equipment).toEqual({ back: 'Cape' });
+    expect(player).not.toHaveProperty('equippedItem');
+  });
+
+  it('should start version 6 saves with no quests', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.quests;
+
+    expect(decodeSave({ schemaVersion: 6, savedAt: 0, gameState }).gameState.quests).toEqual({ active: {}, completed: [], failed: [] });
+  });
+
+  it('should start version 7 saves with no relationships', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.relationships;
+
+    expect(decodeSave({ schemaVersion: 7, savedAt: 0, gameState }).gameState.relationships).toEqual({});
+  });
+
+  it('should start version 8 saves with an empty camp', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.camp;
+
+    expect(decodeSave({ schemaVersion: 8, savedAt: 0, gameState }).gameState.camp).toEqual({ stash: {}, moopSwept: 0 });
+  });
+
+  it('should move version 9 achievement totals off the player', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    delete gameState.achievementProgress;
+    Object.assign(gameState.player, { totalDistanceTraveled: 6500, totalItemsGifted: 12, totalKarmaGifted: 40, moodStreakHigh: 30 });
+
+    const { player, achievementProgress } = decodeSave({ schemaVersion: 9, savedAt: 0, gameState }).gameState;
+    expect(achievementProgress.counters).toMatchObject({ playaKm: 6.5, itemsGifted: 12, karmaGifted: 40 });
+    expect(player).not.toHaveProperty('moodStreakHigh');
+    expect(player).not.toHaveProperty('totalItemsGifted');
+  });
+
+  it('should start version 10 saves with no stored worlds', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    expect(decodeSave({ schemaVersion: 10, savedAt: 0, gameState }).worlds).toEqual({});
+  });
+
+  it('should move version 11 world items into the entity stores', () => {
+    const gameState = JSON.parse(JSON.stringify(encodeSave(createGameState(), 0).gameState));
+    const world = (worldId: string, items: unknown[], entities?: unknown) => ({ worldId, items, npcs: [], events: [], entities, lastVisited: 0, isLoaded: true });
+    const water = { id: 'water-1', type: 'water', position: { x: 5, y: 6 }, collected: false, data: { value: 1 } };
+    const bulb = { id: 'light-1', type: 'light-bulb', position: { x: 7, y: 8 }, collected: false, lightBulbType: 'Light Bulb Red', dropTime: 40 };
+    const worlds = { camp: world('camp', [water], gameState.entities), playa: world('playa', [bulb]) };
+
+    const decoded = decodeSave({ schemaVersion: 11, savedAt: 0, gameState, worlds });
+    const waterItem = { id: 'water-1', type: 'water', position: { x: 5, y: 6 }, value: 1, collected: false };
+    expect(listArchetype(decoded.gameState.entities, WORLD_ITEM)).toEqual([waterItem]);
+    expect(listArchetype(decoded.worlds.camp.entities!, WORLD_ITEM)).toEqual([waterItem]);
+    expect(listArchetype(decoded.worlds.playa.entities!, WORLD_ITEM)).toEqual([
+      { id: 'light-1', type: 'light-bulb', position: { x: 7, y: 8 }, value: 1, collected: false, lightBulbType: 'Light Bulb Red', dropTime: 40 },
+    ]);
+    expect(decoded.worlds.playa.items).toEqual([]);
+  });
+
+  it('should reject saves from a newer version', () => {
+    const save = { ...encodeSave(createGameState(), 0), schemaVersion: SAVE_SCHEMA_VERSION + 1 };
+    expectSaveError(() => decodeSave(save), 'too-new');
+  });
+
+  it('should reject corrupt saves', () => {
+    expectSaveError(() => decodeSave('{not json'), 'corrupt');
+    expectSaveError(() => decodeSave({ hello: 'world' }), 'corrupt');
+    expectSaveError(() => decodeSave({ schemaVersion: SAVE_SCHEMA_VERSION, savedAt: 0, gameState: {} }), 'corrupt');
+  });
+});
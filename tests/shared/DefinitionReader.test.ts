@@ -0,0 +1,54 @@
+// @vitest-environment node
+/**
+ * Unit tests for the shared definition reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DefinitionReader, DefinitionError, isObject } from '../../shared/definitions';
+
+describe('DefinitionReader', () => {
+  it('should keep reading past problems and report each one', () => {
+    const reader = new DefinitionReader();
+
+    expect(reader.string('', 'name')).toBe('');
+    expect(reader.number(-1, 'size', 0)).toBe(0);
+    expect(reader.oneOf('square', ['left', 'right'], 'side')).toBe('left');
+    expect(reader.vec2({ x: 3, y: 'up' }, 'position')).toEqual({ x: 3, y: 0 });
+
+    expect(reader.issues).toEqual([
+      'name must be a non-empty string',
+      'size must be a number >= 0',
+      'side must be one of left, right',
+      'position.y must be a number',
+    ]);
+  });
+
+  it('should skip list entries that are not objects', () => {
+    const reader = new DefinitionReader();
+    const ids = reader.list([{ id: 'a' }, 'b'], 'items', entry => entry.id);
+
+    expect(ids).toEqual(['a']);
+    expect(reader.issues).toEqual(['items[1] must be an object']);
+  });
+
+  it('should only keep tagged entries of a known kind with their fields', () => {
+    const reader = new DefinitionReader();
+    const fields = { coins: { amount: 'number' as const }, notify: { message: 'string' as const } };
+    const entries = reader.kinded([{ kind: 'coins', amount: 5 }, { kind: 'coins' }, { kind: 'dance' }], fields, 'actions');
+
+    expect(entries).toEqual([{ kind: 'coins', amount: 5 }]);
+    expect(reader.issues).toEqual(['actions[1].amount must be a number', 'actions[2].kind must be one of coins, notify']);
+  });
+
+  it('should name the format and source in the error', () => {
+    const error = new DefinitionError('world', '"camp"', ['width must be a number']);
+    expect(error.message).toBe('Invalid world definition "camp": width must be a number');
+    expect(error.issues).toEqual(['width must be a number']);
+  });
+
+  it('should not treat arrays or null as objects', () => {
+    expect(isObject({})).toBe(true);
+    expect(isObject([])).toBe(false);
+    expect(isObject(null)).toBe(false);
+  });
+});
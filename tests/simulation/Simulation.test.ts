@@ -0,0 +1,254 @@
+// @vitest-environment node
+/**
+ * Unit tests for the headless simulation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Simulation, createInputSnapshot, getEffectivePlayerSpeed, EMPTY_INPUT, CAMP_CENTER } from '../../modules/simulation';
+import { combineDirections, getDirectionVector } from '../../modules/core';
+import { indexEntity, readArchetype, spawnArchetype, ART_CAR, MOOP } from '../../modules/ecs';
+import { createArtCar } from '../../src/modules/entities';
+import { SeededRng } from '../../shared/adapters';
+import type { Clock } from '../../shared/ports';
+import { createSimulation } from '../helpers';
+
+function createFakeClock(): Clock {
+  let time = 0;
+  return {
+    now: () => (time += 16),
+    requestAnimationFrame: () => 0,
+    cancelAnimationFrame: () => {},
+  };
+}
+
+describe('Simulation', () => {
+  let simulation: Simulation;
+
+  beforeEach(() => {
+    ({ simulation } = createSimulation({ config: { playerSize: 32, seed: 42, coinCount: 10 }, clock: createFakeClock() }));
+  });
+
+  it('should start the player at camp center', () => {
+    expect(simulation.getState().player.position).toEqual(CAMP_CENTER);
+    expect(simulation.getCampMates().length).toBeGreaterThan(0);
+  });
+
+  it('should move the player in the input direction', () => {
+    const startX = simulation.getState().player.position.x;
+    simulation.step(createInputSnapshot(getDirectionVector('right')), 0.1);
+    expect(simulation.getState().player.position.x).toBeGreaterThan(startX);
+  });
+
+  it('should speed up into diagonal movement and coast to a stop', () => {
+    const { player } = simulation.getState();
+    const start = { ...player.position };
+    const upRight = createInputSnapshot(combineDirections(['up', 'right']));
+
+    simulation.step(upRight, 0.02);
+    const firstStep = player.position.x - start.x;
+    simulation.step(upRight, 0.02);
+    expect(player.position.x - start.x).toBeGreaterThan(2 * firstStep);
+    expect(player.position.x - start.x).toBeCloseTo(start.y - player.position.y);
+
+    const released = { ...player.position };
+    simulation.step(EMPTY_INPUT, 0.02);
+    expect(player.position.x).toBeGreaterThan(released.x);
+  });
+
+  it('should report the speed worn items give, as the HUD shows it', () => {
+    const state = simulation.getState();
+    const walking = getEffectivePlayerSpeed(state);
+    state.player.inventory.items.set('Cape', 1);
+    state.player.equipment.back = 'Cape';
+
+    expect(getEffectivePlayerSpeed(state)).toBeCloseTo(walking * 1.25);
+  });
+
+  it('should advance game time', () => {
+    const startMinutes = simulation.getState().time.totalMinutes;
+    for (let i = 0; i < 10; i++) {
+      simulation.step(EMPTY_INPUT, 0.1);
+    }
+    expect(simulation.getState().time.totalMinutes).toBeGreaterThan(startMinutes);
+  });
+
+  it('should build thirst and hunger over time', () => {
+    const { thirst, hunger } = simulation.getState().player.stats;
+    for (let i = 0; i < 100; i++) {
+      simulation.step(EMPTY_INPUT, 0.5);
+    }
+    expect(simulation.getState().player.stats.thirst).toBeGreaterThan(thirst);
+    expect(simulation.getState().player.stats.hunger).toBeGreaterThan(hunger);
+  });
+
+  it('should publish the start of each new day', () => {
+    const days: number[] = [];
+    simulation.getEvents().subscribe('DayStarted', ({ day }) => days.push(day));
+    Object.assign(simulation.getState().time, { day: 1, hour: 23, minute: 59, totalMinutes: 23 * 60 + 59 });
+
+    for (let i = 0; i < 20 && days.length === 0; i++) {
+      simulation.step(EMPTY_INPUT, 0.5);
+    }
+
+    expect(days).toEqual([2]);
+  });
+
+  it('should keep event subscriptions across a reset', () => {
+    const days: number[] = [];
+    simulation.getEvents().subscribe('DayStarted', ({ day }) => days.push(day));
+    simulation.reset();
+    simulation.advanceDay();
+    Object.assign(simulation.getState().time, { hour: 23, minute: 59, totalMinutes: 2 * 24 * 60 - 1 });
+
+    for (let i = 0; i < 20 && days.length === 0; i++) {
+      simulation.step(EMPTY_INPUT, 0.5);
+    }
+
+    expect(days).toEqual([3]);
+  });
+
+  it('should count gifts and show their karma in the HUD through events', () => {
+    const gifts: number[] = [];
+    simulation.getEvents().subscribe('GiftGiven', ({ quantity }) => gifts.push(quantity));
+    const { player } = simulation.getState();
+    const mate = simulation.getCampMates()[0];
+    player.position = { ...mate.position };
+    player.inventory.items.set('Water', 3);
+
+    simulation.giftItem(simulation.getGiftRecipients().find(recipient => recipient.kind === 'campMate')!.id, 'Water', 2);
+
+    expect(gifts).toEqual([2]);
+    expect(simulation.getRecentKarmaChange()).toBeGreaterThan(0);
+    expect(simulation.getState().achievementProgress.counters.itemsGifted).toBe(2);
+  });
+
+  it('should use the item in the quick slot whose action was pressed', () => {
+    const { inventory } = simulation.getState().player;
+    inventory.items.clear();
+    inventory.items.set('Taco', 2);
+    inventory.items.set('Water', 1);
+
+    simulation.step(createInputSnapshot(null, ['UseSlot2']), 0.016);
+
+    expect(inventory.items.get('Taco')).toBe(2);
+    expect(inventory.items.get('Water') ?? 0).toBe(0);
+  });
+
+  it('should only craft at the workbench, finishing after the recipe time', () => {
+    const { player } = simulation.getState();
+    player.inventory.items.set('Rope', 1);
+    player.inventory.items.set('Glitter', 1);
+    expect(simulation.craft('glitter-rope')).toEqual({ success: false, reason: 'no-workbench' });
+
+    player.position = { x: 1000, y: 450 };
+    expect(simulation.craft('glitter-rope')).toEqual({ success: true });
+    const { finishesAt } = simulation.getState().crafting.job!;
+    while (simulation.getState().time.totalMinutes < finishesAt) {
+      simulation.step(EMPTY_INPUT, 0.5);
+    }
+
+    expect(simulation.getState().crafting.job).toBeNull();
+    expect(player.inventory.items.get('Glitter Rope')).toBe(1);
+  });
+
+  it('should run a dialogue choice only when its conditions hold', () => {
+    const { player } = simulation.getState();
+    player.stats.coins = 10;
+    expect(simulation.chooseDialogue('hell-station', 'start', 0)).toEqual({ success: false, next: 'start' });
+
+    player.stats.coins = 50;
+    const karma = player.stats.karma;
+    expect(simulation.chooseDialogue('hell-station', 'start', 0)).toEqual({ success: true, next: null });
+    expect(player.stats.coins).toBe(10);
+    expect(player.stats.karma).toBe(karma + 20);
+  });
+
+  it('should fill up the art cars when the Hell Station crew offers a free fill-up', () => {
+    const { player, entities } = simulation.getState();
+    const car = { ...createArtCar(new SeededRng(3), { x: 500, y: 500 }), id: 'car-1' };
+    spawnArchetype(entities, ART_CAR, { ...car, fuel: 10 });
+    player.stats.karma = 250;
+
+    expect(simulation.chooseDialogue('hell-station', 'start', 2)).toEqual({ success: true, next: 'free-fill' });
+    expect(simulation.chooseDialogue('hell-station', 'free-fill', 0)).toEqual({ success: true, next: null });
+    expect(readArchetype(entities, ART_CAR, 'car-1')!.fuel).toBe(car.fuelMax);
+  });
+
+  it('should only gift to recipients in range and remember the relationship', () => {
+    const { player, relationships } = simulation.getState();
+    const [mate] = simulation.getCampMates();
+    player.inventory.items.set('Trinket', 2);
+    player.position = { x: mate.position.x + 500, y: mate.position.y };
+    expect(simulation.giftItem(`mate-${mate.name}`, 'Trinket', 1)).toBeNull();
+
+    player.position = { ...mate.position };
+    const recipient = simulation.getGiftRecipients().find(nearby => nearby.kind === 'campMate')!;
+    expect(simulation.giftItem(recipient.id, 'Trinket', 1)).not.toBeNull();
+    expect(relationships[recipient.id].gifts).toBe(1);
+    expect(player.inventory.items.get('Trinket')).toBe(1);
+  });
+
+  it('should unequip an item once the last one is gifted away', () => {
+    const { player } = simulation.getState();
+    player.inventory.items.set('Cape', 2);
+    player.equipment.back = 'Cape';
+    player.position = { ...simulation.getCampMates()[0].position };
+    const recipient = simulation.getGiftRecipients().find(nearby => nearby.kind === 'campMate')!;
+
+    simulation.giftItem(recipient.id, 'Cape', 1);
+    expect(player.equipment.back).toBe('Cape');
+    simulation.giftItem(recipient.id, 'Cape', 1);
+    expect(player.equipment.back).toBeUndefined();
+  });
+
+  it('should count moop with no inventory item, like blueprints, towards moop quests', () => {
+    // A clock that stands still keeps every step on a pickup frame
+    ({ simulation } = createSimulation({ config: { playerSize: 32, seed: 42, coinCount: 10 } }));
+    simulation.step(EMPTY_INPUT, 0.016);
+    const { player, quests, entities, achievementProgress } = simulation.getState();
+    const before = quests.active['leave-no-trace'][0].count;
+    spawnArchetype(entities, MOOP, { id: 'blueprint-1', type: 'blueprint', position: { ...player.position }, radius: 10, karmaReward: 5, collected: false });
+    indexEntity(simulation.getSpatialIndex(), entities, 'blueprint-1');
+
+    simulation.step(EMPTY_INPUT, 0.016);
+
+    expect(quests.active['leave-no-trace'][0].count).toBe(before + 1);
+    expect(achievementProgress.counters.moopCollected).toBe(before + 1);
+  });
+
+  it('should leave camp job results at the job board for the player', () => {
+    const { player, camp, time } = simulation.getState();
+    const [mate] = simulation.getCampMates();
+    Object.assign(time, { hour: 10, minute: 0, totalMinutes: 10 * 60 });
+    expect(simulation.assignCampJob(mate.id, 'fetchGas')).toBe(true);
+    mate.lastLivedMinute = time.totalMinutes - 120;
+
+    simulation.step(EMPTY_INPUT, 0.1);
+    expect(mate.activity).toBe('working');
+    expect(camp.stash['Gas Can']).toBe(1);
+
+    const gasCans = player.inventory.items.get('Gas Can') ?? 0;
+    player.position = { x: 600, y: 450 };
+    for (let i = 0; i < 5 && Object.keys(camp.stash).length > 0; i++) {
+      simulation.step(EMPTY_INPUT, 0.1);
+    }
+    expect(player.inventory.items.get('Gas Can')).toBe(gasCans + 1);
+    expect(camp.stash).toEqual({});
+  });
+
+  it('should time forced weather in game minutes, like the morning forecast', () => {
+    simulation.step(EMPTY_INPUT, 1);
+    const { time, weather } = simulation.getState();
+
+    simulation.setWeather('thunderstorm');
+    expect(weather.type).toBe('thunderstorm');
+    expect(weather.startTime).toBe(time.totalMinutes);
+  });
+
+  it('should not step after the game has ended', () => {
+    simulation.getState().gameEnded = true;
+    const position = { ...simulation.getState().player.position };
+    simulation.step(createInputSnapshot(getDirectionVector('right')), 0.1);
+    expect(simulation.getState().player.position).toEqual(position);
+  });
+});
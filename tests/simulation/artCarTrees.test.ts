@@ -0,0 +1,146 @@
+// @vitest-environment node
+/**
+ * Unit tests for the art car behavior trees
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getArtCarPersonality, tickArtCarTree, type ArtCarAgent } from '../../modules/simulation';
+import { createBlackboard } from '../../modules/behavior';
+import { getWorldLandmarks } from '../../modules/worlds';
+import { NavigationCache, createWorldNavGrid } from '../../modules/navigation';
+import { SeededRng } from '../../shared/adapters';
+import type { ArtCarDesign, ArtCarEntity } from '../../modules/ecs';
+
+const navigation = new NavigationCache(worldId => createWorldNavGrid(worldId));
+const STATION = { id: 'hell-station-main', aabb: { x: 800, y: 400, w: 400, h: 400 }, spawnIntervalMs: 4000, maxCans: 6, lastSpawnAt: 0 };
+
+function createAgent(design: ArtCarDesign, overrides: Partial<ArtCarEntity> = {}, now: number = 1000): ArtCarAgent {
+  const car: ArtCarEntity = {
+    id: `car-${design}`,
+    pos: { x: 1600, y: 1200 },
+    vel: { x: 0, y: 0 },
+    fuel: 200,
+    fuelMax: 300,
+    fuelLowThreshold: 30,
+    state: 'patrol',
+    platformAabb: { x: 1576, y: 1188, w: 48, h: 24 },
+    design,
+    size: 1,
+    speed: 1,
+    ...overrides,
+  };
+  return {
+    car,
+    blackboard: createBlackboard(),
+    now,
+    personality: getArtCarPersonality(design),
+    world: {
+      landmarks: getWorldLandmarks('playa'),
+      player: { pos: { x: 1700, y: 1200 }, mountedOn: null },
+      station: STATION,
+      cans: [{ id: 'can-1', pos: { x: 900, y: 500 }, active: false }],
+      queue: [],
+      burnNight: false,
+      rng: new SeededRng(3),
+      findPath: (from, to) => navigation.findPath('playa', from, to),
+      speedMultiplier: 1,
+    },
+  };
+}
+
+describe('Art car trees', () => {
+  it('should patrol toward a landmark from its personality', () => {
+    const agent = createAgent('compact');
+
+    expect(tickArtCarTree(agent)).toBe('running');
+
+    const target = agent.world.landmarks.find(landmark => landmark.id === agent.blackboard.patrolTarget);
+    expect(target?.type).toBe('camp');
+    expect(agent.car.state).toBe('patrol');
+    expect(Math.hypot(agent.car.vel.x, agent.car.vel.y)).toBeGreaterThan(0);
+  });
+
+  it('should pause on arriving at a camp', () => {
+    const agent = createAgent('classic', { pos: { x: 1200, y: 1500 } });
+    agent.blackboard.patrolTarget = 'playa-camp';
+
+    tickArtCarTree(agent);
+    tickArtCarTree(agent);
+
+    expect(agent.blackboard.timers.pause).toBe(1000 + getArtCarPersonality('classic').pauseMs);
+    expect(agent.car.state).toBe('idle');
+    expect(agent.car.vel).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should queue for fuel and stay queued until mostly full', () => {
+    const agent = createAgent('speedy', { fuel: 20 });
+    agent.world.queue = ['car-other'];
+
+    tickArtCarTree(agent);
+    expect(agent.blackboard.queuedAt).toBe(1000);
+    expect(agent.car.state).toBe('seekFuel');
+    expect(agent.car.vel.x).toBeLessThan(0); // Heading for its place in line below the station
+
+    agent.car.fuel = 100;
+    tickArtCarTree(agent);
+    expect(agent.car.state).toBe('seekFuel');
+
+    agent.car.fuel = 280;
+    tickArtCarTree(agent);
+    expect(agent.blackboard.queuedAt).toBeUndefined();
+    expect(agent.car.state).toBe('patrol');
+  });
+
+  it('should send the front of the queue to the nearest gas can', () => {
+    const agent = createAgent('classic', { fuel: 10, pos: { x: 900, y: 900 } });
+    agent.world.queue = ['car-classic', 'car-other'];
+
+    tickArtCarTree(agent);
+
+    expect(agent.car.path?.at(-1)).toEqual({ x: 900, y: 500 });
+    expect(agent.car.state).toBe('seekFuel');
+  });
+
+  it('should route around the Temple instead of through it', () => {
+    const agent = createAgent('alien', { pos: { x: 2000, y: 800 } });
+    agent.blackboard.patrolTarget = 'deep-playa-teepee';
+
+    tickArtCarTree(agent);
+
+    expect(agent.car.path!.length).toBeGreaterThan(1);
+    expect(agent.car.vel.x).not.toBe(0);
+  });
+
+  it('should follow the player when hailed and stop alongside', () => {
+    const agent = createAgent('classic');
+    agent.blackboard.hailedUntil = 5000;
+    agent.world.player.pos = { x: 1650, y: 1200 };
+
+    tickArtCarTree(agent);
+
+    expect(agent.car.state).toBe('following');
+    expect(agent.car.vel).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should ignore hails in personalities that never take riders', () => {
+    const agent = createAgent('heavy');
+    agent.blackboard.hailedUntil = 5000;
+
+    tickArtCarTree(agent);
+
+    expect(agent.car.state).toBe('patrol');
+  });
+
+  it('should parade on burn night depending on the design', () => {
+    const fire = createAgent('fire');
+    const alien = createAgent('alien');
+    fire.world.burnNight = true;
+    alien.world.burnNight = true;
+
+    tickArtCarTree(fire);
+    tickArtCarTree(alien);
+
+    expect(fire.car.state).toBe('parading');
+    expect(alien.car.state).toBe('patrol');
+  });
+});
@@ -0,0 +1,47 @@
+// @vitest-environment node
+/**
+ * Unit tests for camp mate schedules and needs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chooseCampMateActivity, getScheduledActivity, type CampMate } from '../../modules/simulation';
+
+function createMate(overrides: Partial<CampMate> = {}): CampMate {
+  return {
+    id: 'mate-1',
+    name: 'Wombat Wally',
+    position: { x: 0, y: 0 },
+    targetPosition: { x: 0, y: 0 },
+    color: '#8B4513',
+    speed: 30,
+    mood: 50,
+    needs: { thirst: 100, energy: 100 },
+    activity: 'wandering',
+    jobProgress: 0,
+    lastLivedMinute: 0,
+    ...overrides,
+  };
+}
+
+describe('getScheduledActivity', () => {
+  it('should sleep in the morning, shade at noon and party through midnight', () => {
+    expect(getScheduledActivity(5)).toBe('sleeping');
+    expect(getScheduledActivity(13)).toBe('shade');
+    expect(getScheduledActivity(23)).toBe('partying');
+    expect(getScheduledActivity(1)).toBe('partying');
+    expect(getScheduledActivity(10)).toBeUndefined();
+  });
+});
+
+describe('chooseCampMateActivity', () => {
+  it('should work a job outside the schedule and wander without one', () => {
+    expect(chooseCampMateActivity(createMate({ job: 'kitchen' }), 10)).toBe('working');
+    expect(chooseCampMateActivity(createMate(), 10)).toBe('wandering');
+    expect(chooseCampMateActivity(createMate({ job: 'kitchen' }), 13)).toBe('shade');
+  });
+
+  it('should put urgent needs before the schedule', () => {
+    expect(chooseCampMateActivity(createMate({ needs: { thirst: 10, energy: 100 } }), 23)).toBe('drinking');
+    expect(chooseCampMateActivity(createMate({ needs: { thirst: 10, energy: 5 } }), 13)).toBe('sleeping');
+  });
+});
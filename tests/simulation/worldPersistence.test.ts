@@ -0,0 +1,174 @@
+// @vitest-environment node
+/**
+ * Unit tests for per-world entity persistence
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Simulation, createInputSnapshot, type SimulationConfig } from '../../modules/simulation';
+import { WorldStateManager, registerWorld, type WorldManager } from '../../modules/worlds';
+import { InMemoryStorage, ManualClock } from '../../shared/adapters';
+import { SaveSlotManager, createSaveSlotMetadata } from '../../modules/save';
+import { createVec2, getDirectionVector, type Direction, type GameState } from '../../modules/core';
+import { getComponent, queryKind, readArchetype, spawnArchetype, ART_CAR, GAS_CAN, HELL_STATION, MOOP, PORTOPOTTY, WORLD_ITEM } from '../../modules/ecs';
+import { createSimulation } from '../helpers';
+
+const config: SimulationConfig = { playerSize: 32, seed: 77, coinCount: 10 };
+
+// Frame 1 skips the pickup and art car ticks, so entities only change when worlds do
+const CLOCK_START = 16;
+
+function startSimulation(storage: InMemoryStorage) {
+  return createSimulation({ config, clock: new ManualClock(CLOCK_START), rngSeed: 5, storage });
+}
+
+/**
+ * Stand at a spot and take one step, crossing a world boundary if it is there
+ */
+function stepFrom(simulation: Simulation, x: number, y: number, direction: Direction): void {
+  simulation.getState().player.position = createVec2(x, y);
+  simulation.step(createInputSnapshot(getDirectionVector(direction)), 0.05);
+}
+
+function goToPlaya(simulation: Simulation): void {
+  stepFrom(simulation, 45, 600, 'left');
+}
+
+function goToCamp(simulation: Simulation): void {
+  stepFrom(simulation, 1200, 1500, 'up');
+}
+
+function playaEntities(state: GameState) {
+  return structuredClone(state.entities);
+}
+
+function idsOf(state: GameState, kind: string): string[] {
+  return queryKind(state.entities, kind);
+}
+
+describe('World persistence', () => {
+  let storage: InMemoryStorage;
+  let simulation: Simulation;
+  let worldManager: WorldManager;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    ({ simulation, worldManager } = startSimulation(storage));
+  });
+
+  it('should keep playa fixtures out of camp until the playa is entered', () => {
+    const state = simulation.getState();
+    expect(idsOf(state, ART_CAR.kind)).toEqual([]);
+    expect(idsOf(state, PORTOPOTTY.kind)).toEqual([]);
+    expect(idsOf(state, HELL_STATION.kind)).toEqual([]);
+
+    goToPlaya(simulation);
+    expect(worldManager.getCurrentWorldId()).toBe('playa');
+    expect(idsOf(simulation.getState(), ART_CAR.kind)).toHaveLength(5);
+    expect(idsOf(simulation.getState(), PORTOPOTTY.kind)).toHaveLength(10);
+    expect(idsOf(simulation.getState(), MOOP.kind).length).toBeGreaterThan(0);
+  });
+
+  it('should restore exactly what was left behind when re-entering a world', () => {
+    goToPlaya(simulation);
+    const state = simulation.getState();
+    getComponent(state.entities, idsOf(state, MOOP.kind)[0], 'collectible')!.collected = true;
+    spawnArchetype(state.entities, GAS_CAN, { id: 'can-1', pos: { x: 900, y: 500 }, active: true });
+    getComponent(state.entities, idsOf(state, ART_CAR.kind)[0], 'fuel')!.fuel = 3;
+    const leftBehind = playaEntities(state);
+
+    goToCamp(simulation);
+    expect(worldManager.getCurrentWorldId()).toBe('camp');
+    expect(idsOf(simulation.getState(), ART_CAR.kind)).toEqual([]);
+    expect(idsOf(simulation.getState(), GAS_CAN.kind)).toEqual([]);
+
+    goToPlaya(simulation);
+    expect(worldManager.getCurrentWorldId()).toBe('playa');
+    expect(playaEntities(simulation.getState())).toEqual(leftBehind);
+  });
+
+  it('should leave camp mates behind unless they follow the Totem', () => {
+    const campMateIds = simulation.getCampMates().map(mate => mate.id);
+
+    goToPlaya(simulation);
+    expect(simulation.getCampMates()).toEqual([]);
+
+    goToCamp(simulation);
+    expect(simulation.getCampMates().map(mate => mate.id)).toEqual(campMateIds);
+
+    simulation.getState().player.equipment.held = 'Totem';
+    goToPlaya(simulation);
+    expect(simulation.getCampMates().map(mate => mate.id)).toEqual(expect.arrayContaining(campMateIds));
+  });
+
+  it('should carry the mounted bike into the next world', () => {
+    const { player, entities } = simulation.getState();
+    spawnArchetype(entities, WORLD_ITEM, { id: 'bike-1', type: 'bike', position: createVec2(45, 600), value: 1, collected: false });
+    player.isOnBike = true;
+    player.mountedBikeId = 'bike-1';
+
+    goToPlaya(simulation);
+    const state = simulation.getState();
+    expect(readArchetype(state.entities, WORLD_ITEM, 'bike-1')?.position).toEqual(state.player.position);
+    expect(queryKind(worldManager.getWorldStateManager().getWorldState('camp').entities!, WORLD_ITEM.kind)).not.toContain('bike-1');
+  });
+
+  it('should restore every world from a snapshot', () => {
+    goToPlaya(simulation);
+    const playa = playaEntities(simulation.getState());
+    goToCamp(simulation);
+    const savedState = structuredClone(simulation.getState());
+    const campMates = structuredClone(simulation.getCampMates());
+    const worlds = simulation.snapshotWorlds();
+
+    const reloaded = startSimulation(storage);
+    reloaded.worldManager.getWorldStateManager().replaceAllWorldStates(worlds);
+    reloaded.simulation.loadState(savedState);
+    expect(reloaded.simulation.getCampMates()).toEqual(campMates);
+
+    goToPlaya(reloaded.simulation);
+    expect(playaEntities(reloaded.simulation.getState())).toEqual(playa);
+  });
+
+  it('should load the worlds saved with a slot, not the ones saved last', async () => {
+    const slots = new SaveSlotManager(storage);
+    const save = (slotId: string) => slots.save(slotId, simulation.getState(), createSaveSlotMetadata(simulation.getState(), 'camp'), 0, simulation.snapshotWorlds());
+    goToPlaya(simulation);
+    const playaInA = playaEntities(simulation.getState());
+    goToCamp(simulation);
+    await save('a');
+
+    goToPlaya(simulation);
+    const moopId = idsOf(simulation.getState(), MOOP.kind)[0];
+    getComponent(simulation.getState().entities, moopId, 'collectible')!.collected = true;
+    goToCamp(simulation);
+    await save('b');
+
+    const loaded = (await slots.load('a'))!;
+    const reloaded = startSimulation(storage);
+    reloaded.worldManager.getWorldStateManager().replaceAllWorldStates(loaded.worlds);
+    reloaded.simulation.loadState(loaded.gameState);
+    goToPlaya(reloaded.simulation);
+    expect(playaEntities(reloaded.simulation.getState())).toEqual(playaInA);
+    expect(getComponent(reloaded.simulation.getState().entities, moopId, 'collectible')!.collected).toBe(false);
+  });
+
+  it('should persist every registered world', async () => {
+    registerWorld({
+      id: 'templeGrounds',
+      name: 'Temple Grounds',
+      width: 800,
+      height: 800,
+      backgroundColor: '#000000',
+      timeScale: 1.0,
+      boundaries: [],
+      spawnPosition: createVec2(400, 400),
+    });
+    const worldStateManager = worldManager.getWorldStateManager();
+    worldStateManager.addWorldItem('templeGrounds', { id: 'offering', type: 'food', position: createVec2(1, 2), collected: false });
+    await worldStateManager.saveAllWorldStates();
+
+    const reloaded = new WorldStateManager(storage);
+    await reloaded.loadAllWorldStates();
+    expect(reloaded.getWorldState('templeGrounds').items).toEqual(worldStateManager.getWorldState('templeGrounds').items);
+  });
+});
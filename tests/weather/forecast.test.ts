@@ -0,0 +1,66 @@
+// @vitest-environment node
+/**
+ * Unit tests for Markov weather and forecasts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { nextWeatherType, extendForecast, startWeatherDay, FORECAST_DAYS, WEATHER_TRANSITIONS } from '../../modules/weather';
+import { SeededRng } from '../../shared/adapters';
+import type { Weather, WeatherType } from '../../modules/core';
+
+function createWeather(): Weather {
+  return { type: 'clear', intensity: 0, duration: 0, startTime: 0, day: 1 };
+}
+
+describe('Weather forecast', () => {
+  it('should have transition rows that sum to one', () => {
+    Object.values(WEATHER_TRANSITIONS).forEach(row => {
+      expect(Object.values(row).reduce((sum, chance) => sum + chance, 0)).toBeCloseTo(1);
+    });
+  });
+
+  it('should only move to weather the transitions allow', () => {
+    const transitions = structuredClone(WEATHER_TRANSITIONS);
+    transitions.clear = { clear: 0, nice: 0, overcast: 0, thunderstorm: 1, duststorm: 0 };
+    const rng = new SeededRng(3);
+
+    for (let i = 0; i < 20; i++) {
+      expect(nextWeatherType('clear', rng, transitions)).toBe('thunderstorm');
+    }
+  });
+
+  it('should roll the same weather for the same seed', () => {
+    const roll = (seed: number): WeatherType[] => {
+      const rng = new SeededRng(seed);
+      const types: WeatherType[] = ['clear'];
+      for (let i = 0; i < 30; i++) types.push(nextWeatherType(types[types.length - 1], rng));
+      return types;
+    };
+
+    expect(roll(11)).toEqual(roll(11));
+  });
+
+  it('should keep known days and fill the forecast to its length', () => {
+    const forecast = extendForecast([{ day: 1, type: 'nice' }, { day: 2, type: 'overcast' }], 2, 'clear', new SeededRng(5));
+
+    expect(forecast).toHaveLength(FORECAST_DAYS);
+    expect(forecast.map(entry => entry.day)).toEqual([2, 3, 4]);
+    expect(forecast[0].type).toBe('overcast');
+  });
+
+  it('should make the forecast come true each morning', () => {
+    const rng = new SeededRng(9);
+    const weather = createWeather();
+    startWeatherDay(weather, 2, 0, rng);
+
+    for (let day = 3; day < 8; day++) {
+      const expected = weather.forecast![0];
+      startWeatherDay(weather, day, 0, rng);
+
+      expect(expected.day).toBe(day);
+      expect(weather.type).toBe(expected.type);
+      expect(weather.day).toBe(day);
+      expect(weather.forecast!.map(entry => entry.day)).toEqual([day + 1, day + 2, day + 3]);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+// @vitest-environment node
+/**
+ * Unit tests for weather effect profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getWeatherEffects, applyWeatherToDecay, WEATHER_PROFILES } from '../../modules/weather';
+import { DEFAULT_DECAY_CONFIG, DEFAULT_SPEED_CONFIG, calculateSpeedMultiplier } from '../../modules/core';
+import type { DustStorm, Weather, WeatherType } from '../../modules/core';
+
+function weather(type: WeatherType, intensity: number): Weather {
+  return { type, intensity, duration: 0, startTime: 0 };
+}
+
+const calm: DustStorm = { active: false, intensity: 0, duration: 0, startTime: 0 };
+
+describe('Weather effects', () => {
+  it('should leave everything untouched at zero intensity', () => {
+    expect(getWeatherEffects(weather('thunderstorm', 0), calm)).toEqual({
+      decay: { thirstDecayPerSecond: 1, energyDecayPerPixel: 1, moodDecayPerSecond: 1 },
+      playerSpeed: 1, visibility: 1, artCarSpeed: 1, moopSpawn: 1,
+    });
+  });
+
+  it('should apply the full profile at full intensity', () => {
+    const effects = getWeatherEffects(weather('thunderstorm', 1), calm);
+    const profile = WEATHER_PROFILES.thunderstorm;
+
+    expect(effects.playerSpeed).toBeCloseTo(profile.playerSpeed);
+    expect(effects.visibility).toBeCloseTo(profile.visibility);
+    expect(effects.artCarSpeed).toBeCloseTo(profile.artCarSpeed);
+    expect(effects.moopSpawn).toBeCloseTo(profile.moopSpawn);
+  });
+
+  it('should stack an active dust storm on the daily weather', () => {
+    const storm: DustStorm = { active: true, intensity: 0.8, duration: 30, startTime: 0 };
+    const clear = getWeatherEffects(weather('clear', 1), calm);
+    const stormy = getWeatherEffects(weather('clear', 1), storm);
+
+    expect(stormy.visibility).toBeLessThan(clear.visibility * 0.2);
+    expect(stormy.playerSpeed).toBeLessThan(clear.playerSpeed);
+  });
+
+  it('should scale decay rates it names and keep the rest', () => {
+    const decay = applyWeatherToDecay(DEFAULT_DECAY_CONFIG, getWeatherEffects(weather('duststorm', 1), calm));
+
+    expect(decay.thirstDecayPerSecond).toBeCloseTo(DEFAULT_DECAY_CONFIG.thirstDecayPerSecond * 1.4);
+    expect(decay.hungerDecayPerSecond).toBe(DEFAULT_DECAY_CONFIG.hungerDecayPerSecond);
+  });
+
+  it('should slow the player through the speed multiplier', () => {
+    const stats = { energy: 50, mood: 50, thirst: 50, hunger: 50, karma: 0, speed: 200, coins: 0, bathroom: 0, lightBattery: 100 };
+    const speed = getWeatherEffects(weather('thunderstorm', 1), calm).playerSpeed;
+
+    expect(calculateSpeedMultiplier(stats, undefined, speed)).toBeCloseTo(speed);
+    expect(calculateSpeedMultiplier({ ...stats, energy: 0 }, undefined, speed)).toBe(DEFAULT_SPEED_CONFIG.minSpeedMultiplier);
+  });
+});
@@ -0,0 +1,103 @@
+// @vitest-environment node
+/**
+ * Unit tests for JSON world definitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseWorldDefinition,
+  loadWorldDefinitions,
+  getWorld,
+  getWorldDefinition,
+  getWorldLandmarks,
+  getWorldSpawnTable,
+  hasWorld,
+  WorldDefinitionError,
+  DEFAULT_SPAWN_TABLE,
+} from '../../modules/worlds';
+
+function outpostDefinition(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'outpost',
+    name: 'Outpost Camp',
+    width: 900,
+    height: 700,
+    backgroundColor: '#d2b48c',
+    timeScale: 1,
+    spawnPosition: { x: 450, y: 350 },
+    boundaries: [{ side: 'left', exitWorldId: 'playa', exitPosition: { x: 3900, y: 1500 }, triggerDistance: 50 }],
+    landmarks: [{ id: 'outpost-bar', type: 'camp', position: { x: 450, y: 200 }, size: 80, color: '#aa3300', description: 'Outpost bar' }],
+    restAreas: [{ id: 'outpost-hammocks', restAreaType: 'east', position: { x: 700, y: 500 }, size: 90, color: '#27ae60', description: 'Hammocks' }],
+    spawnTable: { density: 2, moop: 40 },
+    ...overrides,
+  };
+}
+
+describe('World definitions', () => {
+  it('should register the bundled worlds from JSON', () => {
+    expect(getWorldDefinition('camp')?.boundaries).toHaveLength(4);
+    expect(getWorldSpawnTable('playa').density).toBe(4);
+
+    const playaIds = getWorldLandmarks('playa').map(landmark => landmark.id);
+    expect(playaIds).toContain('hell-station');
+    expect(playaIds).toContain('deep-playa-teepee');
+    expect(getWorldLandmarks('danceStage').map(landmark => landmark.id)).toEqual(['main-stage']);
+  });
+
+  it('should list every problem in a malformed definition', () => {
+    const raw = outpostDefinition({
+      width: -5,
+      spawnPosition: 'middle',
+      landmarks: [{ id: 'bar', type: 'saloon', position: { x: 1, y: 1 }, size: 10, color: '#fff', description: 'Bar' }],
+    });
+
+    try {
+      parseWorldDefinition(raw);
+      expect.fail('expected a WorldDefinitionError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorldDefinitionError);
+      expect((error as WorldDefinitionError).issues).toEqual([
+        'width must be a number >= 1',
+        'spawnPosition must be an {x, y} position',
+        'landmarks[0].type must be one of man, temple, trashFence, artCar, camp, restArea, workbench, jobBoard',
+      ]);
+    }
+  });
+
+  it('should fill spawn table gaps from the defaults', () => {
+    const definition = parseWorldDefinition(outpostDefinition());
+    expect(definition.spawnTable).toEqual({ ...DEFAULT_SPAWN_TABLE, density: 2, moop: 40 });
+  });
+
+  it('should reject a batch that exits to an unknown world without registering any of it', () => {
+    const sources = {
+      'outpost.world.json': outpostDefinition({ id: 'secondStage' }),
+      'broken.world.json': outpostDefinition({
+        id: 'broken',
+        boundaries: [{ side: 'right', exitWorldId: 'nowhere', exitPosition: { x: 0, y: 0 } }],
+      }),
+    };
+
+    expect(() => loadWorldDefinitions(sources)).toThrow('boundary exits to unknown world "nowhere"');
+    expect(hasWorld('secondStage')).toBe(false);
+  });
+
+  it('should register a new world and serve its landmarks', () => {
+    loadWorldDefinitions({ 'outpost.world.json': outpostDefinition() });
+
+    expect(getWorld('outpost')?.name).toBe('Outpost Camp');
+    expect(getWorldLandmarks('outpost')).toEqual([
+      { id: 'outpost-bar', type: 'camp', position: { x: 450, y: 200 }, size: 80, color: '#aa3300', description: 'Outpost bar' },
+      { id: 'outpost-hammocks', type: 'restArea', restAreaType: 'east', position: { x: 700, y: 500 }, size: 90, color: '#27ae60', description: 'Hammocks' },
+    ]);
+  });
+
+  it('should burn The Man from the game time', () => {
+    const man = getWorldLandmarks('playa', { day: 8, hour: 16, minute: 0, totalMinutes: 0 })
+      .find(landmark => landmark.id === 'the-man');
+
+    expect(man?.isBurning).toBe(true);
+    expect(man?.destructionProgress).toBeCloseTo(0.45);
+    expect(man?.description).toBe('The Man - arms and head falling!');
+  });
+});
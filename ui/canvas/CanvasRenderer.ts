@@ -2,17 +2,23 @@
  * Canvas rendering adapter for the game
  */
 
-import type { GameState, Vec2 } from '../../modules/core';
-import { calculateEffectiveSpeed, getInventoryItems, getNotificationSystem, formatGameTime, getTimeOfDayDescription, isOnDrug, isNightTime } from '../../modules/core';
+import type { EquipmentSlot, GameState, ItemType, Player, Vec2 } from '../../modules/core';
+import { getActiveSets, isEquipped, getInventoryItems, getNotificationSystem, formatGameTime, getTimeOfDayDescription, isOnDrug, isNightTime } from '../../modules/core';
 import { getUnifiedItemEmoji } from '../../modules/moop/types';
 import { renderArtCars } from '../../src/ui/canvas/renderArtCars';
-import type { SpatialIndex } from '../../modules/spatial';
 import type { Camera } from '../../modules/camera';
 import type { Landmark } from '../../modules/worlds';
 import type { MoopItem } from '../../modules/moop';
-import { queryRect } from '../../modules/spatial';
 import { worldToScreen, isWorldPositionVisible } from '../../modules/camera';
 import { getMoopEmoji } from '../../modules/moop';
+import type { EntityStore } from '../../modules/ecs';
+import { NavigationCache, createWorldNavGrid } from '../../modules/navigation';
+import { getWeatherEffects } from '../../modules/weather';
+import type { CampMate, CampMateActivity } from '../../modules/simulation';
+import { CAMP_JOBS } from '../../modules/simulation';
+import { RenderPipeline, StaticLayerCache, StormEffects, createScenePasses, drawRoundedRect, getDrugEmoji, getStaticLandmarksKey, isStaticLandmark } from './passes';
+import type { FrameContext, FrameInput, ScenePainter } from './passes';
+import { DEFAULT_KEY_BINDINGS, QUICK_SLOT_ACTIONS, formatActionKey, type InputAction, type KeyBindings } from '../../modules/input';
 
 export interface RenderConfig {
   canvasWidth: number;
@@ -20,12 +26,29 @@ export interface RenderConfig {
   playerSize: number;
 }
 
-export class CanvasRenderer {
+// Equipment slots drawn back to front
+const EQUIPMENT_LAYERS: EquipmentSlot[] = ['back', 'body', 'feet', 'head', 'hands', 'held'];
+
+// Camps are scattered up to here, past the trash fence
+const PLAYA_STATIC_BOUNDS = { minX: 0, minY: 0, maxX: 4000, maxY: 4000 };
+
+const CAMP_MATE_ACTIVITY_EMOJI: Record<CampMateActivity, string> = {
+  sleeping: '💤',
+  shade: '⛱️',
+  partying: '🎉',
+  working: '',
+  drinking: '💧',
+  wandering: '',
+  following: '',
+};
+
+export class CanvasRenderer implements ScenePainter {
   private ctx: CanvasRenderingContext2D;
   private config: RenderConfig;
   private canvas: HTMLCanvasElement;
   private muteButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
   private pauseButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
+  private achievementsButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
   private lightsButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
   private restButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
   private giftButtonBounds: { x: number; y: number; width: number; height: number } | null = null;
@@ -33,6 +56,9 @@ export class CanvasRenderer {
   private inventoryItemBounds: Array<{ x: number; y: number; width: number; height: number; itemType: string }> = [];
   private backgroundImage: HTMLImageElement | null = null;
   private backgroundImageLoaded: boolean = false;
+  private keyBindings: KeyBindings = DEFAULT_KEY_BINDINGS;
+  private pipeline = new RenderPipeline();
+  private playaStaticLayer = new StaticLayerCache(PLAYA_STATIC_BOUNDS);
   
   // Performance optimization: Math calculation caches
   private mathCache: {
@@ -56,8 +82,7 @@ export class CanvasRenderer {
     maxPoolSize: 100
   };
   // Thunderstorm effects
-  private rainDrops: Array<{ x: number; y: number; speed: number; color: string; size: number }> = [];
-  private lightningBolts: Array<{ branches: any[]; opacity: number; opacityDecay: number }> = [];
+  private storm = new StormEffects();
   
   // Fire effects system
   private fireParticles: Array<{ x: number; y: number; vx: number; vy: number; size: number; life: number; maxLife: number; frame: number }> = [];
@@ -70,8 +95,9 @@ export class CanvasRenderer {
   private smokeParticlePool: Array<{ x: number; y: number; vx: number; vy: number; size: number; life: number; maxLife: number; opacity: number }> = [];
   private lastLightSystemLogTime: number = 0; // For 1-second interval logging
   
-  // NPC system
-  private npcs: Array<{ x: number; y: number; vx: number; vy: number; color: string; size: number; walkCycle: number; targetX: number; targetY: number; wanderTimer: number }> = [];
+  // Playa crowd: decoration only, never saved or collided with, so it stays out of the entity store
+  private npcs: Array<{ x: number; y: number; vx: number; vy: number; color: string; size: number; walkCycle: number; targetX: number; targetY: number; wanderTimer: number; path: Vec2[] }> = [];
+  private npcNavigation: NavigationCache | null = null;
   private npcColors: string[] = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57', '#ff9ff3', '#54a0ff', '#5f27cd', '#00d2d3', '#ff9f43', '#10ac84', '#ee5a24'];
   
   // Camp system
@@ -101,6 +127,8 @@ export class CanvasRenderer {
 
     // Add click event listener
     this.setupMouseEvents();
+
+    createScenePasses(this, this.storm).forEach(pass => this.pipeline.register(pass));
   }
 
   /**
@@ -172,6 +200,7 @@ export class CanvasRenderer {
     this.backgroundImage = new Image();
     this.backgroundImage.onload = () => {
       this.backgroundImageLoaded = true;
+      this.playaStaticLayer.invalidate();
     };
     this.backgroundImage.onerror = (error) => {
       console.warn('❌ Failed to load background satellite image:', error);
@@ -251,6 +280,16 @@ export class CanvasRenderer {
         window.dispatchEvent(new CustomEvent('toggleMute'));
         return;
       }
+
+      // Check achievements button
+      if (this.achievementsButtonBounds &&
+          x >= this.achievementsButtonBounds.x &&
+          x <= this.achievementsButtonBounds.x + this.achievementsButtonBounds.width &&
+          y >= this.achievementsButtonBounds.y &&
+          y <= this.achievementsButtonBounds.y + this.achievementsButtonBounds.height) {
+        window.dispatchEvent(new CustomEvent('playerAction', { detail: { action: 'achievements' } }));
+        return;
+      }
       
       // Lights button click is now handled in the main handleCanvasClick method
 
@@ -352,21 +391,6 @@ export class CanvasRenderer {
   }
 
 
-  /**
-   * Calculate speed multiplier from active drug effects
-   */
-  private calculateDrugSpeedMultiplier(drugs: any): number {
-    let speedMultiplier = 1.0;
-    
-    for (const drug of drugs.active) {
-      if (drug.effects.speed) {
-        speedMultiplier += (drug.effects.speed * drug.intensity) / 100; // Convert percentage to multiplier
-      }
-    }
-    
-    return Math.max(0.1, speedMultiplier); // Minimum 10% speed
-  }
-
   /**
    * Draw wombat facial features
    */
@@ -562,7 +586,7 @@ export class CanvasRenderer {
   /**
    * Render a camp mate wombat (same design as player but different color)
    */
-  private renderCampMate(campMate: any, camera: Camera): void {
+  renderCampMate(campMate: any, camera: Camera): void {
     const { playerSize } = this.config;
     const halfSize = playerSize / 2;
 
@@ -597,6 +621,22 @@ export class CanvasRenderer {
 
     // Draw simple static facial features (no blinking or mood changes)
     this.drawStaticWombatFeatures(screenPos, screenSize, camera.zoom, campMate.color);
+    this.renderCampMateActivity(campMate, screenPos, screenSize);
+  }
+
+  /**
+   * Show what a camp mate is up to as a small emoji above its head
+   */
+  private renderCampMateActivity(campMate: CampMate, screenPos: Vec2, screenSize: number): void {
+    const emoji = campMate.activity === 'working' && campMate.job ? CAMP_JOBS[campMate.job].emoji : CAMP_MATE_ACTIVITY_EMOJI[campMate.activity];
+    if (!emoji) return;
+
+    this.ctx.save();
+    this.ctx.font = `${Math.round(screenSize * 0.5)}px Arial`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillText(emoji, screenPos.x, screenPos.y - screenSize * 0.6);
+    this.ctx.restore();
   }
 
   /**
@@ -890,7 +930,7 @@ export class CanvasRenderer {
         emoji = this.getFoodEmoji(subtype);
         break;
       case 'drug':
-        emoji = this.getDrugEmoji(subtype);
+        emoji = getDrugEmoji(subtype);
         break;
       case 'bike':
         emoji = '🚲';
@@ -927,6 +967,9 @@ export class CanvasRenderer {
       case 'battery':
         emoji = '🔋';
         break;
+      case 'swamp-cooler':
+        emoji = '❄️';
+        break;
       default:
         emoji = '📦';
     }
@@ -1008,35 +1051,6 @@ export class CanvasRenderer {
     return foodEmojis[subtype || ''] || '🍎';
   }
 
-  private getDrugEmoji(subtype?: string): string {
-    const drugEmojis: Record<string, string> = {
-      'molly': '💎', // Diamond for molly
-      'shrooms': '🍄',
-      'acid': '🌈', // Rainbow for LSD
-      'dmt': '💫',
-      'salvia': '🌿',
-      'whipits': '🎈',
-      'energy-drink': '🍼', // Glowing baby bottle for energy drink
-      'bike': '🚲',
-      'mystery-pill': '💊', // Pill emoji for mystery pill
-      'mystery-snowball': '❄️',
-      'cigarette': '🚬', // Cigarette or joint (random)
-      'joint': '🚬', // Cigarette or joint (random)
-      'vodka': '🥃', // Shot glass emoji for vodka
-      'mda': '💎', // Diamond for mda
-      '2c-i': '🧪',
-      'caffeine': '☕', // Coffee cup for caffeine
-      'alcohol': '🍺', // Beer emoji for alcohol
-      'mdma': '💎', // Diamond for mdma
-      'mushrooms': '🍄',
-      'weed': '🌿',
-      'cocaine': '⚪', // White circle for cocaine
-      'ketamine': '⚪', // White circle for ketamine
-      'cannabis': '🌿', // Plant for cannabis
-    };
-    return drugEmojis[subtype || ''] || '❓'; // Question mark fallback instead of pill
-  }
-
   private getHueRotation(color: string): number {
     // Convert hex color to hue rotation angle
     const colorMap: Record<string, number> = {
@@ -1052,159 +1066,6 @@ export class CanvasRenderer {
     return colorMap[color] || 0;
   }
 
-  /**
-   * Render light battery meter with SVG battery outline on left and segments on right
-   */
-  private renderLightBatteryMeter(x: number, y: number, batteryLevel: number, gameState: GameState): void {
-    
-    // Label (golden color to match other labels)
-    this.ctx.fillStyle = '#ffd23f';
-    this.ctx.font = 'bold 14px Arial';
-    this.ctx.textAlign = 'left';
-    this.ctx.fillText('🔋 Battery:', x, y + 12);
-    
-    const segmentY = y + 35; // More space between title and battery meter
-    
-    // Draw SVG-style battery outline on the left
-    const batteryOutlineX = x;
-    const batteryOutlineY = segmentY;
-    const batteryWidth = 25;
-    const batteryHeight = 18;
-
-    // Determine battery outline color based on level and lights
-    let outlineColor = '#666666'; // Default grey (no lights or battery)
-    if (gameState.player.lightsOn || batteryLevel > 0) {
-      if (batteryLevel > 60) {
-        outlineColor = '#27ae60'; // Green for high battery
-      } else if (batteryLevel > 30) {
-        outlineColor = '#f39c12'; // Yellow/Orange for medium battery
-      } else if (batteryLevel > 0) {
-        outlineColor = '#e74c3c'; // Red for low battery
-      }
-    }
-
-    // Main battery body
-    this.ctx.strokeStyle = outlineColor;
-    this.ctx.lineWidth = 2;
-    this.ctx.strokeRect(batteryOutlineX, batteryOutlineY, batteryWidth, batteryHeight);
-
-    // Battery terminal (right side)
-    this.ctx.fillStyle = outlineColor;
-    this.ctx.fillRect(batteryOutlineX + batteryWidth, batteryOutlineY + 4, 3, 10);
-    
-    // Battery fill based on level
-    const fillWidth = (batteryLevel / 100) * (batteryWidth - 4);
-    if (batteryLevel > 0) {
-      // Color based on battery level
-      if (batteryLevel > 60) {
-        this.ctx.fillStyle = '#27ae60'; // Green for high battery
-      } else if (batteryLevel > 30) {
-        this.ctx.fillStyle = '#f39c12'; // Orange for medium battery
-      } else {
-        this.ctx.fillStyle = '#e74c3c'; // Red for low battery
-      }
-      this.ctx.fillRect(batteryOutlineX + 2, batteryOutlineY + 2, fillWidth, batteryHeight - 4);
-    }
-    
-    // 10 thin tall segments on the right side
-    const segmentWidth = 8;
-    const segmentHeight = 18;
-    const segmentSpacing = 3;
-    const totalSegmentWidth = (segmentWidth * 10) + (segmentSpacing * 9);
-    const segmentStartX = x + 170 - totalSegmentWidth; // Align to the right
-    const segmentStartY = segmentY;
-    
-    for (let i = 0; i < 10; i++) {
-      const segmentX = segmentStartX + (i * (segmentWidth + segmentSpacing));
-      const segmentThreshold = (i + 1) * 10; // Each segment represents 10%
-      
-      // Draw segment background (dark outline)
-      this.ctx.fillStyle = '#2c3e50';
-      this.ctx.fillRect(segmentX, segmentStartY, segmentWidth, segmentHeight);
-      
-        if (batteryLevel >= segmentThreshold) {
-          // Full segment - color based on battery level
-          if (batteryLevel > 70) {
-            // Green for high battery (8-10 segments)
-            this.ctx.fillStyle = '#27ae60';
-          } else if (batteryLevel > 30) {
-            // Yellow/Orange for medium battery (4-7 segments)
-            this.ctx.fillStyle = '#f39c12';
-          } else {
-            // Red for low battery (1-3 segments)
-            this.ctx.fillStyle = '#e74c3c';
-          }
-          this.ctx.fillRect(segmentX + 1, segmentStartY + 1, segmentWidth - 2, segmentHeight - 2);
-        } else if (batteryLevel > i * 10) {
-          // Partial segment - color based on overall battery level
-          const fillLevel = (batteryLevel - (i * 10)) / 10;
-          let baseColor;
-          if (batteryLevel > 70) {
-            baseColor = { r: 39, g: 174, b: 96 }; // Green
-          } else if (batteryLevel > 30) {
-            baseColor = { r: 243, g: 156, b: 18 }; // Yellow/Orange
-          } else {
-            baseColor = { r: 231, g: 76, b: 60 }; // Red
-          }
-          const r = Math.floor(baseColor.r * fillLevel);
-          const g = Math.floor(baseColor.g * fillLevel);
-          const b = Math.floor(baseColor.b * fillLevel);
-          this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-          this.ctx.fillRect(segmentX + 1, segmentStartY + 1, segmentWidth - 2, segmentHeight - 2);
-        } else {
-          // Empty segment - dark gray fill
-          this.ctx.fillStyle = '#34495e';
-          this.ctx.fillRect(segmentX + 1, segmentStartY + 1, segmentWidth - 2, segmentHeight - 2);
-        }
-      
-      // Add subtle highlight on top edge for 3D effect
-      this.ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
-      this.ctx.fillRect(segmentX, segmentStartY, segmentWidth, 1);
-    }
-  }
-
-  /**
-   * Render a stat bar
-   */
-  renderStatBar(
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    value: number,
-    maxValue: number,
-    color: string,
-    label: string
-  ): void {
-    // Label on the left (golden text)
-    this.ctx.fillStyle = '#ffd23f';
-    this.ctx.font = 'bold 14px Arial';
-    this.ctx.textAlign = 'left';
-    this.ctx.fillText(label, x, y + 12);
-
-    // Bar position (below label with more spacing)
-    const barX = x;
-    const barWidth = width;
-    const barHeight = 8; // Thinner bars
-    const barY = y + 24; // More space below the label
-
-    // Background bar
-    this.ctx.fillStyle = '#34495e';
-    this.ctx.fillRect(barX, barY, barWidth, barHeight);
-
-    // Value bar
-    const percentage = Math.max(0, Math.min(1, value / maxValue));
-    const filledBarWidth = barWidth * percentage;
-    
-    this.ctx.fillStyle = color;
-    this.ctx.fillRect(barX, barY, filledBarWidth, barHeight);
-
-    // Border
-    this.ctx.strokeStyle = '#2c3e50';
-    this.ctx.lineWidth = 1;
-    this.ctx.strokeRect(barX, barY, barWidth, barHeight);
-  }
-
   /**
    * Render world bounds for debugging
    */
@@ -1227,203 +1088,23 @@ export class CanvasRenderer {
   }
 
   /**
-   * Draw a rounded rectangle
+   * Render the clickable HUD panels, recording their buttons for the click handlers
    */
-  private drawRoundedRect(x: number, y: number, width: number, height: number, radius: number): void {
-    this.ctx.beginPath();
-    this.ctx.moveTo(x + radius, y);
-    this.ctx.lineTo(x + width - radius, y);
-    this.ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
-    this.ctx.lineTo(x + width, y + height - radius);
-    this.ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
-    this.ctx.lineTo(x + radius, y + height);
-    this.ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
-    this.ctx.lineTo(x, y + radius);
-    this.ctx.quadraticCurveTo(x, y, x + radius, y);
-    this.ctx.closePath();
-  }
-
-  /**
-   * Render HUD text and bars
-   */
-  renderHUD(gameState: GameState, camera?: Camera, isMuted?: boolean, timeScale?: number, activeDrugs?: any[], coinChange?: number, karmaChange?: number, nearBike?: any, nearbyArtCar?: any, isOnArtCar?: boolean): void {
-    const canvasWidth = this.config.canvasWidth;
-    const canvasHeight = this.config.canvasHeight;
-    
-    // Inventory panel in top left (enhanced positioning)
-    this.renderInventoryPanel(15, 60, gameState.player.inventory);
-    
-    // Top info bar with day/time and action buttons
-    this.renderTopInfoBar(canvasWidth, gameState, isMuted || false, false); // TODO: Get actual pause state
-    
-    // Action panel in bottom left (pass inventory and totem state for conditional buttons)
+  renderHudControls({ gameState, hud }: FrameContext): void {
+    const { player } = gameState;
+    this.renderInventoryPanel(15, 60, player.inventory);
+    this.renderTopInfoBar(this.config.canvasWidth, gameState, hud.isMuted || false, false); // TODO: Get actual pause state
     this.renderActionPanel(
-      gameState.player.isResting,
-      isMuted || false,
+      player.isResting,
+      hud.isMuted || false,
       false,
-      gameState.player.lightsOn,
-      gameState.player.inventory,
-      gameState.player.equippedItem === 'Totem',
-      nearBike || false,
-      nearbyArtCar || false,
-      isOnArtCar || false
+      player.lightsOn,
+      player.inventory,
+      isEquipped(player, 'Totem'),
+      hud.nearBike || false,
+      hud.nearbyArtCar || false,
+      hud.isOnArtCar || false
     );
-    
-    // Stats panel in top right (enhanced design)
-    const statsPanelX = canvasWidth - 240;
-    const statsPanelY = 15;
-    const statsPanelWidth = 220;
-    const statsPanelHeight = 480; // Increased height for all stats including bathroom
-    
-    // Draw stats panel background with enhanced styling
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
-    this.drawRoundedRect(statsPanelX, statsPanelY, statsPanelWidth, statsPanelHeight, 12);
-    this.ctx.fill();
-    
-    // Draw golden border with subtle glow
-    this.ctx.strokeStyle = '#ffd23f';
-    this.ctx.lineWidth = 3;
-    this.drawRoundedRect(statsPanelX, statsPanelY, statsPanelWidth, statsPanelHeight, 12);
-    this.ctx.stroke();
-    
-    // Add subtle inner glow
-    this.ctx.strokeStyle = 'rgba(255, 210, 63, 0.3)';
-    this.ctx.lineWidth = 1;
-    this.drawRoundedRect(statsPanelX + 2, statsPanelY + 2, statsPanelWidth - 4, statsPanelHeight - 4, 10);
-    this.ctx.stroke();
-    
-    // No panel title - cleaner look
-    
-    // Stat bars with improved spacing and emojis (bars below labels)
-    let barY = statsPanelY + 20;
-    const barSpacing = 42; // More generous spacing between bars to account for increased label-to-bar spacing
-    
-    this.renderStatBar(statsPanelX + 20, barY, 180, 30, gameState.player.stats.mood, 100, '#9b59b6', '😊 Mood');
-    barY += barSpacing;
-    this.renderStatBar(statsPanelX + 20, barY, 180, 30, gameState.player.stats.energy, 100, '#f1c40f', '⚡ Energy');
-    barY += barSpacing;
-    this.renderStatBar(statsPanelX + 20, barY, 180, 30, gameState.player.stats.thirst, 100, '#3498db', '💧 Thirst');
-    barY += barSpacing;
-    this.renderStatBar(statsPanelX + 20, barY, 180, 30, gameState.player.stats.hunger, 100, '#e67e22', '🍔 Hunger');
-    barY += barSpacing;
-    this.renderStatBar(statsPanelX + 20, barY, 180, 30, gameState.player.stats.bathroom, 100, '#8b4513', '🚽 Bathroom');
-    
-    // Light battery meter with better spacing
-    barY += 45; // More space above battery
-    this.renderLightBatteryMeter(statsPanelX + 20, barY, gameState.player.stats.lightBattery, gameState);
-    
-    // Number stats section with better organization
-    barY += 70; // Even more space below battery
-    
-    // No metrics section header - cleaner look
-    
-    // Number stats with enhanced styling - yellow, larger, more spacing
-    this.ctx.fillStyle = '#ffd23f'; // Golden yellow color
-    this.ctx.font = 'bold 15px Arial'; // Larger font
-    
-    // Coins with change indicator
-    const coinsText = `💰 Coins: ${gameState.player.stats.coins}`;
-    // Draw main coins text using current font
-    this.ctx.fillText(coinsText, statsPanelX + 20, barY);
-    
-    // Add green change indicator if there's a recent change, positioned to the right of the main text
-    if (coinChange !== undefined && coinChange !== 0) {
-      // Measure width using the same font used for main text
-      const savedFont = this.ctx.font;
-      const mainFont = 'bold 15px Arial';
-      this.ctx.font = mainFont;
-      const textWidth = this.ctx.measureText(coinsText).width;
-      // Now set style for the change text
-      this.ctx.fillStyle = '#27ae60'; // Green color
-      this.ctx.font = 'bold 12px Arial';
-      const changeText = coinChange > 0 ? `(+${coinChange})` : `(${coinChange})`;
-      this.ctx.fillText(changeText, statsPanelX + 20 + textWidth + 6, barY);
-      this.ctx.font = savedFont;
-    }
-    
-    barY += 32; // Increased spacing
-    
-    // Karma with change indicator
-    this.ctx.fillStyle = '#ffd23f'; // Reset to golden yellow
-    this.ctx.font = 'bold 15px Arial';
-    const karmaText = `✨ Karma: ${Math.round(gameState.player.stats.karma)}`;
-    this.ctx.fillText(karmaText, statsPanelX + 20, barY);
-    
-    // Add green change indicator if there's a recent change
-    if (karmaChange !== undefined && karmaChange !== 0) {
-      const savedFont2 = this.ctx.font;
-      const mainFont2 = 'bold 15px Arial';
-      this.ctx.font = mainFont2;
-      const textWidth = this.ctx.measureText(karmaText).width;
-      this.ctx.fillStyle = '#27ae60'; // Green color
-      this.ctx.font = 'bold 12px Arial';
-      const changeText = karmaChange > 0 ? `(+${Math.round(karmaChange)})` : `(${Math.round(karmaChange)})`;
-      this.ctx.fillText(changeText, statsPanelX + 20 + textWidth + 6, barY);
-      this.ctx.font = savedFont2;
-    }
-    
-    barY += 32; // Increased spacing
-    
-    // Calculate and display effective speed including drug effects and bike
-    const drugSpeedMultiplier = this.calculateDrugSpeedMultiplier(gameState.player.drugs);
-    const bikeMultiplier = (gameState.player.isOnBike || gameState.player.mountedOn) ? 1.5 : 1.0;
-    const baseEffectiveSpeed = calculateEffectiveSpeed(gameState.player.stats.speed, gameState.player.stats);
-    const effectiveSpeed = baseEffectiveSpeed * drugSpeedMultiplier * bikeMultiplier;
-    this.ctx.fillText(`🏃 Speed: ${(effectiveSpeed / 100).toFixed(1)}x`, statsPanelX + 20, barY);
-    barY += 32; // Increased spacing
-    
-    if (timeScale !== undefined) {
-      this.ctx.fillText(`⏰ Time: ${timeScale.toFixed(1)}x`, statsPanelX + 20, barY);
-    }
-
-    // Active drugs info (enhanced display below stats panel)
-    if (activeDrugs && activeDrugs.length > 0) {
-      barY += 25;
-      
-      // Drug status panel background
-      const drugPanelY = barY;
-      const drugPanelHeight = activeDrugs.length * 25 + 15; // Increased for better padding
-      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
-      this.ctx.fillRect(statsPanelX, drugPanelY, statsPanelWidth, drugPanelHeight);
-      this.ctx.strokeStyle = '#e74c3c';
-      this.ctx.lineWidth = 2;
-      this.ctx.strokeRect(statsPanelX, drugPanelY, statsPanelWidth, drugPanelHeight);
-      
-      // Drug effects header
-      this.ctx.fillStyle = '#e74c3c';
-      this.ctx.font = 'bold 12px Arial';
-      this.ctx.textAlign = 'left';
-      this.ctx.fillText('Active Effects:', statsPanelX + 10, drugPanelY + 15);
-      
-      // Sort drugs by remaining time (longest first)
-      const sortedDrugs = [...activeDrugs].sort((a, b) => b.duration - a.duration);
-      
-      // Individual drug effects with vertical padding
-      sortedDrugs.forEach((drug, index) => {
-        const drugY = drugPanelY + 25 + (index * 25); // Increased from 18 to 25 for more padding
-        
-        // Format duration as seconds (since we're using 1 hour = 6 seconds scale)
-        const totalSeconds = Math.ceil(drug.duration);
-        const timeStr = `${totalSeconds}s`;
-        
-        // Get drug-specific emoji
-        const emoji = this.getDrugEmoji(drug.type);
-        
-        // Capitalize drug name properly
-        let capitalizedName = drug.type.charAt(0).toUpperCase() + drug.type.slice(1).replace('-', ' ');
-        
-        // Special case for DMT - make it all caps
-        if (drug.type === 'dmt') {
-          capitalizedName = 'DMT';
-        }
-        
-        // Drug emoji, name and time
-        this.ctx.fillStyle = '#f1c40f';
-        this.ctx.font = '11px Arial';
-        this.ctx.fillText(`${emoji} ${capitalizedName}: ${timeStr}`, statsPanelX + 10, drugY);
-      });
-    }
-    
   }
 
   /**
@@ -1510,12 +1191,12 @@ export class CanvasRenderer {
       
       // Enhanced item background with rounded corners - darker for better readability
       this.ctx.fillStyle = 'rgba(139, 92, 246, 0.7)';
-      this.drawRoundedRect(columnX + 8, itemY - 18, columnWidth - 16, 24, 6);
+      drawRoundedRect(this.ctx, columnX + 8, itemY - 18, columnWidth - 16, 24, 6);
       this.ctx.fill();
       
       this.ctx.strokeStyle = 'rgba(168, 85, 247, 0.9)';
       this.ctx.lineWidth = 1;
-      this.drawRoundedRect(columnX + 8, itemY - 18, columnWidth - 16, 24, 6);
+      drawRoundedRect(this.ctx, columnX + 8, itemY - 18, columnWidth - 16, 24, 6);
       this.ctx.stroke();
       
       // Get emoji for item using unified system
@@ -1525,7 +1206,9 @@ export class CanvasRenderer {
       this.ctx.fillStyle = '#f8f9fa';
       this.ctx.font = 'bold 13px Arial';
       this.ctx.textAlign = 'left';
-      const displayText = item.hotkey ? `${emoji} [${item.hotkey}] ${item.type}` : `${emoji} ${item.type}`;
+      const slot = QUICK_SLOT_ACTIONS[rawItems.indexOf(item)];
+      const slotKey = slot ? this.getKeyLabel(slot) : '';
+      const displayText = slotKey ? `${emoji} [${slotKey}] ${item.type}` : `${emoji} ${item.type}`;
       this.ctx.fillText(displayText, columnX + 15, itemY - 3);
       
       // Quantity with solid background
@@ -1543,30 +1226,81 @@ export class CanvasRenderer {
 
 
   /**
-   * Render equipped item effects (like totem spiral lasers)
+   * Render effects for every equipped slot, back to front, then any set bonus glow
    */
-  renderEquippedItemEffects(player: any, camera: Camera): void {
-    if (!player.equippedItem) return;
-    
-    switch (player.equippedItem) {
+  renderEquippedItemEffects(player: Player, camera: Camera): void {
+    EQUIPMENT_LAYERS.forEach(slot => {
+      const itemType = player.equipment[slot];
+      if (itemType) this.renderEquippedItem(itemType, player.position, camera);
+    });
+
+    if (getActiveSets(player).length > 0) {
+      this.renderSetBonusGlow(player.position, camera);
+    }
+  }
+
+  /**
+   * Render the effect for one equipped item (like totem spiral lasers)
+   */
+  private renderEquippedItem(itemType: ItemType, playerPos: Vec2, camera: Camera): void {
+    switch (itemType) {
+      case 'Furry Hat':
+      case 'Cat Head':
+        this.renderWornEmoji(itemType === 'Cat Head' ? '🐱' : '🎩', playerPos, camera, -22);
+        break;
+      case 'Boots':
+        this.renderWornEmoji('🥾', playerPos, camera, 16);
+        break;
       case 'Totem':
-        this.renderTotemSpiralLasers(player.position, camera);
+        this.renderTotemSpiralLasers(playerPos, camera);
         break;
       case 'Cape':
-        this.renderCapeTrail(player.position, camera);
+        this.renderCapeTrail(playerPos, camera);
         break;
       case 'POI':
-        this.renderPOILight(player.position, camera);
+        this.renderPOILight(playerPos, camera);
         break;
       case 'Fire Spinning':
-        this.renderFireSpinningEffect(player.position, camera);
+        this.renderFireSpinningEffect(playerPos, camera);
         break;
       case 'Costume':
-        this.renderCostumeEffect(player.position, camera);
+        this.renderCostumeEffect(playerPos, camera);
         break;
     }
   }
 
+  /**
+   * Draw a worn item as a small emoji above or below the player
+   */
+  private renderWornEmoji(emoji: string, playerPos: Vec2, camera: Camera, offsetY: number): void {
+    const screenPos = worldToScreen(playerPos, camera);
+
+    this.ctx.save();
+    this.ctx.font = '16px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(emoji, screenPos.x, screenPos.y + offsetY);
+    this.ctx.restore();
+  }
+
+  /**
+   * Render a pulsing golden ring while a full equipment set is worn
+   */
+  private renderSetBonusGlow(playerPos: Vec2, camera: Camera): void {
+    const screenPos = worldToScreen(playerPos, camera);
+    const pulse = Math.sin(Date.now() * 0.004);
+
+    this.ctx.save();
+    this.ctx.strokeStyle = `rgba(255, 215, 0, ${0.5 + pulse * 0.2})`;
+    this.ctx.lineWidth = 4;
+    this.ctx.shadowColor = '#FFD700';
+    this.ctx.shadowBlur = 15;
+    this.ctx.beginPath();
+    this.ctx.arc(screenPos.x, screenPos.y, 50 + pulse * 4, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
   /**
    * Render rainbow straight lines for totem (rayburst effect)
    */
@@ -1987,17 +1721,17 @@ export class CanvasRenderer {
     
     // Pause button
     const pauseX = x;
-    this.renderActionButton(pauseX, y, buttonSize, isPaused ? '▶' : '⏸', isPaused ? 'Resume' : 'Pause', 'P', isPaused ? '#e74c3c' : '#27ae60');
+    this.renderActionButton(pauseX, y, buttonSize, isPaused ? '▶' : '⏸', isPaused ? 'Resume' : 'Pause', this.getKeyLabel('Pause'), isPaused ? '#e74c3c' : '#27ae60');
     this.pauseButtonBounds = { x: pauseX, y: y, width: buttonSize, height: buttonSize + 25 };
     
     // Mute button
     const muteX = x + buttonWidth + buttonSpacing;
-    this.renderActionButton(muteX, y, buttonSize, isMuted ? '🔇' : '🔊', isMuted ? 'Unmute' : 'Mute', 'M', isMuted ? '#e74c3c' : '#27ae60');
+    this.renderActionButton(muteX, y, buttonSize, isMuted ? '🔇' : '🔊', isMuted ? 'Unmute' : 'Mute', this.getKeyLabel('Mute'), isMuted ? '#e74c3c' : '#27ae60');
     this.muteButtonBounds = { x: muteX, y: y, width: buttonSize, height: buttonSize + 25 };
     
     // Lights button
     const lightsX = x + (buttonWidth + buttonSpacing) * 2;
-    this.renderActionButton(lightsX, y, buttonSize, lightsOn ? '💡' : '🔦', lightsOn ? 'Lights On' : 'Lights Off', 'L', lightsOn ? '#ffffff' : '#95a5a6');
+    this.renderActionButton(lightsX, y, buttonSize, lightsOn ? '💡' : '🔦', lightsOn ? 'Lights On' : 'Lights Off', this.getKeyLabel('ToggleLights'), lightsOn ? '#ffffff' : '#95a5a6');
     this.lightsButtonBounds = { x: lightsX, y: y, width: buttonSize, height: buttonSize + 25 };
   }
 
@@ -2012,13 +1746,13 @@ export class CanvasRenderer {
 
     // Draw action panel background with rounded corners
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-    this.drawRoundedRect(panelX, panelY, panelWidth, panelHeight, 10);
+    drawRoundedRect(this.ctx, panelX, panelY, panelWidth, panelHeight, 10);
     this.ctx.fill();
     
     // Draw golden border
     this.ctx.strokeStyle = '#ffd23f';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(panelX, panelY, panelWidth, panelHeight, 10);
+    drawRoundedRect(this.ctx, panelX, panelY, panelWidth, panelHeight, 10);
     this.ctx.stroke();
 
     // Draw title
@@ -2061,7 +1795,7 @@ export class CanvasRenderer {
     this.ctx.fillStyle = isResting ? '#2ecc71' : '#ecf0f1';
     this.ctx.font = '12px Arial';
     this.ctx.textAlign = 'left';
-      this.ctx.fillText('😴 Rest [R]', panelX + 15, rowY + 20);
+      this.ctx.fillText(`😴 Rest${this.getKeyHint('Rest')}`, panelX + 15, rowY + 20);
     }
     
     // Gift (right half when available)
@@ -2075,7 +1809,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = '#27ae60';
       this.ctx.font = '12px Arial';
       this.ctx.textAlign = 'left';
-      this.ctx.fillText('🎁 Gift [G]', giftX + 5, rowY + 20);
+      this.ctx.fillText(`🎁 Gift${this.getKeyHint('Gift')}`, giftX + 5, rowY + 20);
       (this as any).giftRowButtonBounds = { x: giftX, y: rowY, width: halfW, height: rowH };
     } else {
       // If no gifts, expand Rest to full width
@@ -2087,7 +1821,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = isResting ? '#2ecc71' : '#ecf0f1';
       this.ctx.font = '12px Arial';
       this.ctx.textAlign = 'center';
-      this.ctx.fillText('😴 Rest [R]', panelX + 10 + (panelWidth - 20) / 2, rowY + 20);
+      this.ctx.fillText(`😴 Rest${this.getKeyHint('Rest')}`, panelX + 10 + (panelWidth - 20) / 2, rowY + 20);
       (this as any).giftRowButtonBounds = null;
     }
 
@@ -2132,7 +1866,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = lightsOn ? '#ffffff' : '#95a5a6';
       this.ctx.font = '11px Arial';
       this.ctx.textAlign = 'center';
-      this.ctx.fillText(`${lightsOn ? '💡' : '🔦'} ${lightsOn ? 'Lights On' : 'Lights Off'} [L]`, lightsButtonX + (panelWidth - 20) / 2, buttonY + 16);
+      this.ctx.fillText(`${lightsOn ? '💡' : '🔦'} ${lightsOn ? 'Lights On' : 'Lights Off'}${this.getKeyHint('ToggleLights')}`, lightsButtonX + (panelWidth - 20) / 2, buttonY + 16);
       // Bounds for click detection (only lights here; pause/mute handled on top bar)
       this.lightsButtonBounds = { x: lightsButtonX, y: buttonY, width: panelWidth - 20, height: buttonHeight };
     } else {
@@ -2160,7 +1894,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = on ? '#ffd23f' : '#ecf0f1';
       this.ctx.font = '12px Arial';
       this.ctx.textAlign = 'center';
-      this.ctx.fillText(`${on ? '🪩 Totem On' : '🪩 Totem Off'} [T]`, totemX + totemW / 2, totemY + 16);
+      this.ctx.fillText(`${on ? '🪩 Totem On' : '🪩 Totem Off'}${this.getKeyHint('ToggleTotem')}`, totemX + totemW / 2, totemY + 16);
       (this as any).totemButtonBounds = { x: totemX, y: totemY, width: totemW, height: totemH };
     } else {
       (this as any).totemButtonBounds = null;
@@ -2187,7 +1921,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = '#27ae60';
       this.ctx.font = '11px Arial';
       this.ctx.textAlign = 'center';
-      this.ctx.fillText('🚲 Mount Bike [Space]', bikeButtonX + bikeButtonWidth / 2, bikeButtonY + 16);
+      this.ctx.fillText(`🚲 Mount Bike${this.getKeyHint('Interact')}`, bikeButtonX + bikeButtonWidth / 2, bikeButtonY + 16);
       (this as any).bikeButtonBounds = { x: bikeButtonX, y: bikeButtonY, width: bikeButtonWidth, height: bikeButtonHeight };
     } else {
       (this as any).bikeButtonBounds = null;
@@ -2217,7 +1951,7 @@ export class CanvasRenderer {
       this.ctx.fillStyle = '#9b59b6';
       this.ctx.font = '11px Arial';
       this.ctx.textAlign = 'center';
-      const actionText = isOnArtCar ? '🚗 Dismount Art Car [Space]' : '🚗 Mount Art Car [Space]';
+      const actionText = `${isOnArtCar ? '🚗 Dismount Art Car' : '🚗 Mount Art Car'}${this.getKeyHint('Interact')}`;
       this.ctx.fillText(actionText, artCarButtonX + artCarButtonWidth / 2, artCarButtonY + 16);
       (this as any).artCarButtonBounds = { x: artCarButtonX, y: artCarButtonY, width: artCarButtonWidth, height: artCarButtonHeight };
     } else {
@@ -2427,13 +2161,13 @@ export class CanvasRenderer {
     
     // Draw info bar background with rounded corners
     this.ctx.fillStyle = 'rgba(139, 69, 19, 0.9)'; // Brown background like reference
-    this.drawRoundedRect(barX, barY, barWidth, barHeight, 8);
+    drawRoundedRect(this.ctx, barX, barY, barWidth, barHeight, 8);
     this.ctx.fill();
     
     // Draw orange border like reference
     this.ctx.strokeStyle = '#ff8c00';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(barX, barY, barWidth, barHeight, 8);
+    drawRoundedRect(this.ctx, barX, barY, barWidth, barHeight, 8);
     this.ctx.stroke();
     
     // Day and time info on the left
@@ -2459,12 +2193,14 @@ export class CanvasRenderer {
     // Get weather and time emoji
     const weatherEmoji = this.getWeatherEmoji(gameState.weather.type);
     const timeEmoji = this.getTimeEmoji(gameState.time.hour);
+    const forecast = (gameState.weather.forecast ?? []).map(entry => this.getWeatherEmoji(entry.type)).join(' ');
+    const forecastStr = forecast ? ` • Next: ${forecast}` : '';
     
     // Main day/time text (centered)
     this.ctx.fillStyle = '#ffd23f';
     this.ctx.font = 'bold 16px Arial';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText(`${dayStr} • ${timeStr} ${weatherEmoji} ${timeEmoji} • ${burnStr}`, barX + barWidth / 2, barY + 20);
+    this.ctx.fillText(`${dayStr} • ${timeStr} ${weatherEmoji} ${timeEmoji} • ${burnStr}${forecastStr}`, barX + barWidth / 2, barY + 20);
     
     // Status message below (centered)
     const statusMessage = this.getStatusMessage(gameState);
@@ -2485,7 +2221,7 @@ export class CanvasRenderer {
       grd.addColorStop(0, 'rgba(255,255,255,0.15)');
       grd.addColorStop(1, 'rgba(255,255,255,0.05)');
       this.ctx.fillStyle = grd;
-      this.drawRoundedRect(x, buttonsY, btnW, btnH, 6);
+      drawRoundedRect(this.ctx, x, buttonsY, btnW, btnH, 6);
       this.ctx.fill();
       this.ctx.strokeStyle = activeColor;
       this.ctx.lineWidth = 1.5;
@@ -2605,24 +2341,25 @@ export class CanvasRenderer {
     // Calculate total width needed for buttons and labels
     const pauseButtonWidth = 80; // Button + label
     const muteButtonWidth = 80; // Button + label
-    const totalWidth = pauseButtonWidth + muteButtonWidth + buttonSpacing;
+    const achievementsButtonWidth = 80; // Button + label
+    const totalWidth = pauseButtonWidth + muteButtonWidth + achievementsButtonWidth + buttonSpacing * 2;
     const barX = (canvasWidth - totalWidth) / 2; // Center the bar
     
     // Draw action bar background with rounded corners
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-    this.drawRoundedRect(barX, barY, totalWidth, barHeight, 8);
+    drawRoundedRect(this.ctx, barX, barY, totalWidth, barHeight, 8);
     this.ctx.fill();
     
     // Draw golden border
     this.ctx.strokeStyle = '#ffd23f';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(barX, barY, totalWidth, barHeight, 8);
+    drawRoundedRect(this.ctx, barX, barY, totalWidth, barHeight, 8);
     this.ctx.stroke();
     
     // Pause button
     const pauseX = barX + 5;
     const pauseY = barY + 5;
-    this.renderActionButton(pauseX, pauseY, buttonSize, isPaused ? '▶' : '⏸', isPaused ? 'Resume' : 'Pause', 'P', isPaused ? '#e74c3c' : '#27ae60');
+    this.renderActionButton(pauseX, pauseY, buttonSize, isPaused ? '▶' : '⏸', isPaused ? 'Resume' : 'Pause', this.getKeyLabel('Pause'), isPaused ? '#e74c3c' : '#27ae60');
     
     // Store pause button bounds for click detection (including labels)
     this.pauseButtonBounds = { x: pauseX, y: pauseY, width: buttonSize, height: buttonSize + 25 };
@@ -2630,10 +2367,34 @@ export class CanvasRenderer {
     // Mute button
     const muteX = barX + pauseButtonWidth + buttonSpacing;
     const muteY = barY + 5;
-    this.renderActionButton(muteX, muteY, buttonSize, isMuted ? '🔇' : '🔊', isMuted ? 'Unmute' : 'Mute', 'M', isMuted ? '#e74c3c' : '#27ae60');
+    this.renderActionButton(muteX, muteY, buttonSize, isMuted ? '🔇' : '🔊', isMuted ? 'Unmute' : 'Mute', this.getKeyLabel('Mute'), isMuted ? '#e74c3c' : '#27ae60');
     
     // Store mute button bounds for click detection (including labels)
     this.muteButtonBounds = { x: muteX, y: muteY, width: buttonSize, height: buttonSize + 25 };
+
+    // Achievements button
+    const achievementsX = muteX + muteButtonWidth + buttonSpacing;
+    this.renderActionButton(achievementsX, muteY, buttonSize, '🏆', 'Achievements', '', '#8b5cf6');
+    this.achievementsButtonBounds = { x: achievementsX, y: muteY, width: buttonSize, height: buttonSize + 25 };
+  }
+
+  /**
+   * Show the player's own keys in button labels and hints
+   */
+  setKeyBindings(bindings: KeyBindings): void {
+    this.keyBindings = bindings;
+  }
+
+  private getKeyLabel(action: InputAction): string {
+    return formatActionKey(this.keyBindings, action);
+  }
+
+  /**
+   * " [R]" after a button's text, or nothing when the action has no key
+   */
+  private getKeyHint(action: InputAction): string {
+    const label = this.getKeyLabel(action);
+    return label ? ` [${label}]` : '';
   }
 
   /**
@@ -2642,13 +2403,13 @@ export class CanvasRenderer {
   renderActionButton(x: number, y: number, size: number, icon: string, label: string, hotkey: string, color: string): void {
     // Button background with rounded corners
     this.ctx.fillStyle = color;
-    this.drawRoundedRect(x, y, size, size, 5);
+    drawRoundedRect(this.ctx, x, y, size, size, 5);
     this.ctx.fill();
     
     // Button border
     this.ctx.strokeStyle = '#ecf0f1';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(x, y, size, size, 5);
+    drawRoundedRect(this.ctx, x, y, size, size, 5);
     this.ctx.stroke();
     
     // Button icon
@@ -2665,6 +2426,7 @@ export class CanvasRenderer {
     this.ctx.fillText(label, x + size / 2, y + size + 12);
     
     // Hotkey label
+    if (!hotkey) return;
     this.ctx.fillStyle = '#ecf0f1';
     this.ctx.font = '9px Arial';
     this.ctx.textAlign = 'center';
@@ -2682,13 +2444,13 @@ export class CanvasRenderer {
     
     // Button background with rounded corners
     this.ctx.fillStyle = isPaused ? '#e74c3c' : '#27ae60';
-    this.drawRoundedRect(x, y, buttonSize, buttonSize, 5);
+    drawRoundedRect(this.ctx, x, y, buttonSize, buttonSize, 5);
     this.ctx.fill();
     
     // Button border
     this.ctx.strokeStyle = '#ecf0f1';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(x, y, buttonSize, buttonSize, 5);
+    drawRoundedRect(this.ctx, x, y, buttonSize, buttonSize, 5);
     this.ctx.stroke();
     
     // Pause/Play icon
@@ -2716,13 +2478,13 @@ export class CanvasRenderer {
     
     // Button background with rounded corners
     this.ctx.fillStyle = isMuted ? '#e74c3c' : '#27ae60';
-    this.drawRoundedRect(x, y, buttonSize, buttonSize, 5);
+    drawRoundedRect(this.ctx, x, y, buttonSize, buttonSize, 5);
     this.ctx.fill();
     
     // Button border
     this.ctx.strokeStyle = '#ecf0f1';
     this.ctx.lineWidth = 2;
-    this.drawRoundedRect(x, y, buttonSize, buttonSize, 5);
+    drawRoundedRect(this.ctx, x, y, buttonSize, buttonSize, 5);
     this.ctx.stroke();
     
     // Mute icon
@@ -3024,8 +2786,9 @@ export class CanvasRenderer {
   /**
    * Generate NPCs for the playa
    */
-  private generateNPCs(): void {
+  private generateNPCs(entities: EntityStore): void {
     if (this.npcs.length > 0) return; // Already generated
+    this.npcNavigation = new NavigationCache(worldId => createWorldNavGrid(worldId, entities));
     
     // Generate 200-300 NPCs scattered across the playa
     const npcCount = 250;
@@ -3040,7 +2803,8 @@ export class CanvasRenderer {
         walkCycle: Math.random() * Math.PI * 2,
         targetX: 0,
         targetY: 0,
-        wanderTimer: 0
+        wanderTimer: 0,
+        path: [] as Vec2[]
       };
       
       // Set initial target
@@ -3062,6 +2826,9 @@ export class CanvasRenderer {
     // Keep within playa bounds
     npc.targetX = Math.max(100, Math.min(3900, npc.targetX));
     npc.targetY = Math.max(100, Math.min(3900, npc.targetY));
+
+    // Walk around the Man, the Temple and camps rather than through them
+    npc.path = this.npcNavigation?.findPath('playa', { x: npc.x, y: npc.y }, { x: npc.targetX, y: npc.targetY }) ?? [];
     
     npc.wanderTimer = 60 + Math.random() * 120; // 1-3 seconds at 60fps
   }
@@ -3077,9 +2844,13 @@ export class CanvasRenderer {
         this.setNPCTarget(npc);
       }
       
-      // Move towards target
-      const dx = npc.targetX - npc.x;
-      const dy = npc.targetY - npc.y;
+      // Move towards the next waypoint, then the target
+      while (npc.path.length > 1 && Math.hypot(npc.path[0].x - npc.x, npc.path[0].y - npc.y) < 10) {
+        npc.path.shift();
+      }
+      const waypoint = npc.path[0] ?? { x: npc.targetX, y: npc.targetY };
+      const dx = waypoint.x - npc.x;
+      const dy = waypoint.y - npc.y;
       const distance = Math.sqrt(dx * dx + dy * dy);
       
       if (distance > 10) {
@@ -3103,7 +2874,7 @@ export class CanvasRenderer {
   /**
    * Render NPCs
    */
-  private renderNPCs(camera: Camera): void {
+  renderNPCs(camera: Camera): void {
     this.ctx.save();
     
     for (const npc of this.npcs) {
@@ -4392,10 +4163,69 @@ export class CanvasRenderer {
           // Draw rest areas with enhanced energy recovery
           this.renderRestArea(screenPos, landmark.size, landmark.restAreaType || 'center', landmark.color);
           break;
+
+        case 'workbench':
+          this.renderWorkbench(screenPos, landmark.size, landmark.color);
+          break;
+
+        case 'jobBoard':
+          this.renderJobBoard(screenPos, landmark.size, landmark.color);
+          break;
       }
     });
   }
 
+  /**
+   * Render the camp workbench: a plank table with a hammer on top
+   */
+  private renderWorkbench(pos: Vec2, size: number, color: string): void {
+    this.ctx.save();
+    const width = size;
+    const height = size * 0.5;
+
+    // Legs
+    this.ctx.fillStyle = '#5D4037';
+    this.ctx.fillRect(pos.x - width / 2 + 4, pos.y, 6, height * 0.8);
+    this.ctx.fillRect(pos.x + width / 2 - 10, pos.y, 6, height * 0.8);
+
+    // Table top
+    this.ctx.fillStyle = color;
+    this.ctx.strokeStyle = '#3E2723';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(pos.x - width / 2, pos.y - height / 2, width, height / 2);
+    this.ctx.strokeRect(pos.x - width / 2, pos.y - height / 2, width, height / 2);
+
+    this.ctx.font = `${Math.round(size * 0.4)}px Arial`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillText('🔨', pos.x, pos.y - height / 2);
+    this.ctx.restore();
+  }
+
+  /**
+   * Render the camp job board: a sign on a post with a clipboard
+   */
+  private renderJobBoard(pos: Vec2, size: number, color: string): void {
+    this.ctx.save();
+
+    // Post
+    this.ctx.fillStyle = '#5D4037';
+    this.ctx.fillRect(pos.x - 3, pos.y - size * 0.2, 6, size * 0.7);
+
+    // Board
+    this.ctx.fillStyle = color;
+    this.ctx.strokeStyle = '#3E2723';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(pos.x - size / 2, pos.y - size * 0.6, size, size * 0.45);
+    this.ctx.strokeRect(pos.x - size / 2, pos.y - size * 0.6, size, size * 0.45);
+
+    this.ctx.font = `${Math.round(size * 0.35)}px Arial`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText('📋', pos.x, pos.y - size * 0.375);
+    this.ctx.restore();
+  }
+
   /**
    * Render rest area with enhanced energy recovery
    */
@@ -4761,7 +4591,7 @@ export class CanvasRenderer {
   /**
    * Render Hell Station and Art Cars
    */
-  private renderHellStationAndArtCars(hellStation: any, gasCans: any[], artCars: any[], camera: Camera, playerPos: Vec2, visibilityRadius: number, portopotties: any[], mountedOn?: string): void {
+  renderHellStationAndArtCars(hellStation: any, gasCans: any[], artCars: any[], camera: Camera, playerPos: Vec2, visibilityRadius: number, portopotties: any[], mountedOn?: string): void {
     this.ctx.save();
     
     // Render Hell Station
@@ -5583,36 +5413,15 @@ export class CanvasRenderer {
   /**
    * Get visibility radius based on current conditions
    */
-  private getVisibilityRadius(gameState: GameState): number {
+  getVisibilityRadius(gameState: GameState): number {
     const isNight = isNightTime(gameState.time);
-    const hasDustStorm = gameState.dustStorm && gameState.dustStorm.active;
     const isMountedOnArtCar = gameState.player.mountedOn !== null;
-    const weather = gameState.weather;
     
-    let baseRadius: number;
+    // Better visibility at night with default player aura; daytime is still limited to create exploration challenge
+    let baseRadius = isNight ? 1200 : 1500;
     
-    if (hasDustStorm) {
-      // Very limited visibility during dust storm
-      baseRadius = 240 - (gameState.dustStorm.intensity * 120); // 120-240px (3x increase)
-    } else if (isNight) {
-      // Better visibility at night with default player aura
-      baseRadius = 1200; // Increased night visibility with brighter default aura
-    } else {
-      // Good visibility during day - still limited to create exploration challenge
-      baseRadius = 1500; // Increased daytime visibility radius for better gameplay
-    }
-    
-    // Apply weather effects
-    if (weather.type === 'thunderstorm') {
-      // Thunderstorms reduce visibility for atmospheric effect
-      baseRadius *= (0.4 + (1 - weather.intensity) * 0.2); // 40-60% of normal visibility during thunderstorms
-    } else if (weather.type === 'nice') {
-      // Nice weather improves visibility
-      baseRadius *= (1.2 + weather.intensity * 0.3); // 120-150% of normal visibility
-    } else if (weather.type === 'overcast') {
-      // Overcast weather slightly reduces visibility
-      baseRadius *= (0.8 + (1 - weather.intensity) * 0.2); // 80-100% of normal visibility
-    }
+    // Weather and dust storms scale how far the player can see
+    baseRadius *= getWeatherEffects(gameState.weather, gameState.dustStorm).visibility;
     
     // Light battery visibility boost (based on battery percentage)
     // Only apply if lights are turned on
@@ -5641,181 +5450,66 @@ export class CanvasRenderer {
   }
 
   /**
-   * Render the complete game state with spatial culling and camera
+   * Generate the playa's NPCs and camps on arrival and step them; drop them and their cached chunks elsewhere to save memory
    */
-  render(gameState: GameState, camera: Camera, spatialIndex?: SpatialIndex, backgroundColor?: string, landmarks?: Landmark[], _isMuted?: boolean, _timeScale?: number, _activeDrugs?: any[], currentWorldId?: string, collectibles?: any[], moop?: MoopItem[], campMates?: any[], coinChange?: number, karmaChange?: number, nearBike?: any, nearbyArtCar?: any, isOnArtCar?: boolean): void {
-    this.clear(backgroundColor);
-    
-    // Render background satellite image for playa world
-    if (currentWorldId === 'playa') {
-      this.renderBackgroundImage(camera);
-    }
-    
-    // Render special world effects
-    if (currentWorldId === 'playa') {
-      this.renderPlayaEffects(camera);
-    } else if (currentWorldId === 'camp') {
-      this.renderCampEffects(camera);
-    }
-    
-    // Render landmarks first (background elements)
-    if (landmarks) {
-      this.renderLandmarks(landmarks, camera);
-    }
-    
-    // Generate and render NPCs and camps for playa world
-    if (currentWorldId === 'playa') {
-      // Only generate once when entering playa world
-      if (this.npcs.length === 0) {
-        this.generateNPCs();
-      }
-      if (this.camps.length === 0) {
-        this.generateCamps();
-      }
-      
-      this.updateNPCs(16); // Approximate 60fps delta time
-      this.renderCamps(camera);
-      this.renderNPCs(camera);
-    } else {
-      // Clear NPCs and camps when not in playa world to save memory
+  preparePlayaCrowd(worldId: string, gameState: GameState): void {
+    if (worldId !== 'playa') {
       if (this.npcs.length > 0 || this.camps.length > 0) {
         this.npcs = [];
         this.camps = [];
+        this.playaStaticLayer.invalidate();
       }
+      return;
     }
-    
-    // Get visibility radius for fog of war
-    const visibilityRadius = this.getVisibilityRadius(gameState);
-    
-    // Render lighting and visibility effects (between background and objects)
-    this.renderLightingEffects(gameState, camera);
-    
-    // Render Hell Station and Art Cars (only on Playa)
-    if (currentWorldId === 'playa' && gameState.hellStation && gameState.gasCans && gameState.artCars) {
-      this.renderHellStationAndArtCars(gameState.hellStation, gameState.gasCans, gameState.artCars, camera, gameState.player.position, visibilityRadius, gameState.portopotties, gameState.player.mountedOn);
-    }
-    
-    // Render weather effects (rain, lightning, etc.) - but not fog of war yet
-    this.renderWeatherEffects(gameState, camera);
-    
-    // Render coins first (so player appears on top)
-    if (spatialIndex) {
-      // Use spatial culling with camera viewport
-      const visibleWorldBounds = {
-        minX: camera.viewport.x,
-        minY: camera.viewport.y,
-        maxX: camera.viewport.x + camera.viewport.width,
-        maxY: camera.viewport.y + camera.viewport.height,
-      };
-      
-      const visibleEntities = queryRect(
-        spatialIndex,
-        visibleWorldBounds.minX,
-        visibleWorldBounds.minY,
-        visibleWorldBounds.maxX,
-        visibleWorldBounds.maxY
-      );
-      
-      visibleEntities.entities.forEach((entity) => {
-        const coin = gameState.coins.find(c => c.id === entity.id);
-        if (coin && !coin.collected && this.isWithinVisibility(coin.position, gameState.player.position, visibilityRadius)) {
-          this.renderCoin(coin.position, coin.value, camera);
-        }
-      });
-    } else {
-      // Fallback to rendering all coins with camera culling
-      gameState.coins.forEach((coin) => {
-        if (!coin.collected && this.isWithinVisibility(coin.position, gameState.player.position, visibilityRadius)) {
-          this.renderCoin(coin.position, coin.value, camera);
-        }
-      });
-    }
-    
-    // Render collectibles (water, food, drugs)
-    if (collectibles) {
-      collectibles.forEach((collectible) => {
-        if (!collectible.collected && this.isWithinVisibility(collectible.position, gameState.player.position, visibilityRadius)) {
-          this.renderCollectible(collectible.position, collectible.type, collectible.data?.subtype, camera, collectible.id, (collectible as any)?.lightBulbType);
-        }
-      });
-    }
-    
-    // Render moop items
-    if (moop) {
-      let renderedMoopCount = 0;
-      moop.forEach((moopItem) => {
-        if (!moopItem.collected && this.isWithinVisibility(moopItem.position, gameState.player.position, visibilityRadius)) {
-          this.renderMoop(moopItem, camera);
-          renderedMoopCount++;
-        }
-      });
+    if (this.npcs.length === 0) {
+      this.generateNPCs(gameState.entities);
     }
-    
-    // Render colored light bulb effects BEFORE entities (so lights are behind playa objects/NPCs but above terrain)
-        if (gameState.player.lightsOn) {
-          const coloredLightBulbTypes = [
-            'Light Bulb Red', 'Light Bulb Green', 'Light Bulb Blue', 
-            'Light Bulb Orange', 'Light Bulb Purple', 'Light Bulb Rainbow',
-            // Fallback for lowercase versions
-            'Light Bulb red', 'Light Bulb green', 'Light Bulb blue',
-            'Light Bulb orange', 'Light Bulb purple', 'Light Bulb rainbow'
-          ];
-          
-          let hasAnyColoredLightBulbs = false;
-          let coloredBulbCount = 0;
-          for (const bulbType of coloredLightBulbTypes) {
-            const count = gameState.player.inventory.items.get(bulbType) || 0;
-            if (count > 0) {
-              hasAnyColoredLightBulbs = true;
-              coloredBulbCount += count;
-            }
-          }
-      // Light effects will be rendered later after fog of war
+    if (this.camps.length === 0) {
+      this.generateCamps();
+      this.playaStaticLayer.invalidate();
     }
+    this.updateNPCs(16); // Approximate 60fps delta time
+  }
 
-    // Render camp mates (in camp world or on playa)
-    if (campMates && (currentWorldId === 'camp' || currentWorldId === 'playa')) {
-      campMates.forEach((campMate) => {
-        if (this.isWithinVisibility(campMate.position, gameState.player.position, visibilityRadius)) {
-          this.renderCampMate(campMate, camera);
-        }
-      });
-    }
-    
-        // Render player
-        this.renderPlayer(gameState.player.position, camera, gameState.player.isResting, gameState.player.stats.mood, !!gameState.player.mountedOn);
-        
-        // Render equipped item effects
-        this.renderEquippedItemEffects(gameState.player, camera);
-        
-        // Render mounted art car on top of everything if player is mounted
-        if (gameState.player.mountedOn && gameState.artCars) {
-          const mountedCar = gameState.artCars.find(car => car.id === gameState.player.mountedOn);
-          if (mountedCar) {
-            this.renderMountedArtCarOnTop(mountedCar, camera);
-          }
-        }
-        
-        // Render drug effects
-        this.renderDrugEffects(gameState.player.position, camera, gameState.player.drugs, gameState.time);
-        
-    // Render fog of war for both day and night (weather effects with center hole cutout)
-        this.renderFogOfWar(gameState, camera);
-    
-    // Render lights AFTER objects but BEFORE background (30% opacity for clarity)
-    // Check if player has any light bulbs AND lights are turned on
-    const hasAnyLightBulbs = Array.from(gameState.player.inventory.items.entries()).some(([itemType, quantity]) => 
-      quantity > 0 && (itemType.includes('Light Bulb') || itemType === 'Battery')
-    );
-    if (hasAnyLightBulbs && gameState.player.lightsOn) {
-      this.renderPlayerColoredLightEffects(gameState.player.position, camera, gameState.player.inventory, gameState.player.isResting, gameState.time);
-    }
+  /**
+   * Draw the playa's unmoving layers (satellite image, tents, camps, the Man and Temple
+   * before they burn) from cached chunks, repainted when a landmark's state changes
+   */
+  renderPlayaStaticLayer(camera: Camera, landmarks: Landmark[] = []): void {
+    const staticLandmarks = landmarks.filter(isStaticLandmark);
+    this.playaStaticLayer.render(this.ctx, camera, getStaticLandmarksKey(staticLandmarks), (chunkCtx, chunkCamera) => {
+      const screenCtx = this.ctx;
+      this.ctx = chunkCtx;
+      try {
+        this.renderBackgroundImage(chunkCamera);
+        this.renderPlayaEffects(chunkCamera);
+        this.renderLandmarks(staticLandmarks, chunkCamera);
+        this.renderCamps(chunkCamera);
+      } finally {
+        this.ctx = screenCtx;
+      }
+    });
+  }
 
-        // Render HUD (canvas-based)
-        this.renderHUD(gameState, camera, _isMuted, _timeScale, _activeDrugs, coinChange, karmaChange, nearBike, nearbyArtCar, isOnArtCar);
+  /**
+   * The pass pipeline render() draws with, for toggling, reordering, profiling or adding passes
+   */
+  getPipeline(): RenderPipeline {
+    return this.pipeline;
+  }
 
-        // Render notifications last (top z-layer) in world space
-        this.renderNotifications(camera);
+  /**
+   * Render one frame by running every enabled pass in z-order
+   */
+  render(input: FrameInput): void {
+    const visibilityRadius = this.getVisibilityRadius(input.gameState);
+    const playerPos = input.gameState.player.position;
+    this.pipeline.render({
+      ...input,
+      ctx: this.ctx,
+      visibilityRadius,
+      isVisible: position => this.isWithinVisibility(position, playerPos, visibilityRadius),
+    });
   }
 
   /**
@@ -6808,205 +6502,6 @@ export class CanvasRenderer {
     this.ctx.fillRect(stationScreenPos.x - 50, stationScreenPos.y - 50, stationScreenSize.w + 100, stationScreenSize.h + 100);
   }
 
-  /**
-   * Render lighting effects including art car auras and dust storms
-   */
-  private renderLightingEffects(gameState: any, camera: Camera): void {
-    const canvasWidth = this.ctx.canvas.width;
-    const canvasHeight = this.ctx.canvas.height;
-    const playerScreenPos = worldToScreen(gameState.player.position, camera);
-    const time = Date.now() * 0.001;
-    
-    // Check if it's night time
-    const isNight = isNightTime(gameState.time);
-    
-    // Render dust storm first (if active)
-    if (gameState.dustStorm && gameState.dustStorm.active) {
-      this.renderDustStorm(gameState.dustStorm, camera);
-    }
-    
-    // Render art car auras at night (only for visible art cars or mounted car)
-    if (isNight && gameState.artCars) {
-      const visibilityRadius = this.getVisibilityRadius(gameState);
-      const visibleArtCars = gameState.artCars.filter(car => 
-        this.isWithinVisibility(car.pos, gameState.player.position, visibilityRadius) ||
-        car.id === gameState.player.mountedOn
-      );
-      this.renderArtCarAuras(visibleArtCars, camera);
-    }
-  }
-
-  /**
-   * Render dust storm white-out effect
-   */
-  private renderDustStorm(dustStorm: any, camera: Camera): void {
-    const canvasWidth = this.ctx.canvas.width;
-    const canvasHeight = this.ctx.canvas.height;
-    const time = Date.now() * 0.001;
-    
-    // Create dust storm overlay
-    const stormIntensity = dustStorm.intensity;
-    const baseOpacity = stormIntensity * 0.8;
-    
-    // Animated dust particles
-    for (let i = 0; i < 200; i++) {
-      const particleX = (Math.sin(time * 0.5 + i * 0.1) * canvasWidth * 0.5) + canvasWidth * 0.5;
-      const particleY = (Math.cos(time * 0.3 + i * 0.15) * canvasHeight * 0.5) + canvasHeight * 0.5;
-      const particleSize = 2 + Math.sin(time * 2 + i) * 1;
-      const particleOpacity = baseOpacity * (0.3 + Math.sin(time * 3 + i) * 0.2);
-      
-      this.ctx.fillStyle = `rgba(255, 255, 255, ${particleOpacity})`;
-      this.ctx.beginPath();
-      this.ctx.arc(particleX, particleY, particleSize, 0, Math.PI * 2);
-      this.ctx.fill();
-    }
-    
-    // Overall white-out overlay
-    const overlayOpacity = stormIntensity * 0.6;
-    this.ctx.fillStyle = `rgba(255, 255, 255, ${overlayOpacity})`;
-    this.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-    
-    // Wind effect lines
-    for (let i = 0; i < 50; i++) {
-      const lineX = (time * 100 + i * 20) % (canvasWidth + 100) - 50;
-      const lineY = canvasHeight * 0.2 + Math.sin(time * 2 + i) * canvasHeight * 0.1;
-      const lineLength = 50 + Math.sin(time * 3 + i) * 20;
-      const lineOpacity = baseOpacity * 0.3;
-      
-      this.ctx.strokeStyle = `rgba(255, 255, 255, ${lineOpacity})`;
-      this.ctx.lineWidth = 1;
-      this.ctx.beginPath();
-      this.ctx.moveTo(lineX, lineY);
-      this.ctx.lineTo(lineX + lineLength, lineY);
-      this.ctx.stroke();
-    }
-  }
-
-  /**
-   * Render fog of war with limited visibility at night
-   */
-  private renderFogOfWar(gameState: any, camera: Camera): void {
-    const playerScreenPos = worldToScreen(gameState.player.position, camera);
-    const canvasWidth = this.ctx.canvas.width;
-    const canvasHeight = this.ctx.canvas.height;
-    const isNight = isNightTime(gameState.time);
-    const weather = gameState.weather;
-    
-    
-    // Check if player has WHITE light bulbs for actual illumination (not colored ones)
-    // Only count if lights are turned on
-    const whiteLightBulbTypes = [
-      'Light Bulb', 'Light Bulb White', 'Light Bulb white'
-    ];
-    
-    let totalWhiteLightBulbs = 0;
-    if (gameState.player.lightsOn) {
-      for (const bulbType of whiteLightBulbTypes) {
-        const count = gameState.player.inventory.items.get(bulbType) || 0;
-        totalWhiteLightBulbs += count;
-      }
-    }
-    
-    // Create radial gradient for visibility around player
-    let visibilityRadius = this.getVisibilityRadius(gameState);
-    
-    // Enhance visibility radius if player has WHITE light bulbs (actual illumination)
-    if (totalWhiteLightBulbs > 0) {
-      const lightBoost = totalWhiteLightBulbs * 50; // 50px per white light bulb
-      visibilityRadius += lightBoost;
-    }
-    
-    const gradient = this.ctx.createRadialGradient(
-      playerScreenPos.x, playerScreenPos.y, 0,
-      playerScreenPos.x, playerScreenPos.y, visibilityRadius
-    );
-    
-    // Adjust gradient based on WHITE light bulb presence (actual illumination)
-    const hasWhiteLightBulbs = totalWhiteLightBulbs > 0;
-    
-    // Apply weather effects to fog
-    let weatherMultiplier = 1.0;
-    let weatherColor = 'rgba(0, 0, 0,';
-    
-    if (weather.type === 'thunderstorm') {
-      weatherMultiplier = 1.5 + weather.intensity * 0.8; // Much darker during thunderstorms
-      weatherColor = 'rgba(15, 15, 30,'; // Darker purple for storms
-    } else if (weather.type === 'nice') {
-      weatherMultiplier = 0.5 + (1 - weather.intensity) * 0.3; // Lighter during nice weather
-      weatherColor = 'rgba(0, 0, 0,'; // Normal dark fog
-    } else if (weather.type === 'overcast') {
-      weatherMultiplier = 0.8 + (1 - weather.intensity) * 0.4; // Slightly darker during overcast
-      weatherColor = 'rgba(30, 30, 30,'; // Slightly gray fog
-    }
-
-    if (isNight) {
-      if (hasWhiteLightBulbs) {
-        // Much brighter at night with WHITE light bulbs - almost like day
-        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');      // Completely clear center
-        gradient.addColorStop(0.5, `${weatherColor}${0.05 * weatherMultiplier})`); // Barely any darkening
-        gradient.addColorStop(0.8, `${weatherColor}${0.15 * weatherMultiplier})`); // Very light darkening
-        gradient.addColorStop(1, `${weatherColor}${0.3 * weatherMultiplier})`);    // Light edge
-      } else {
-        // Much darker fog of war at night without lights - very dark
-        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');      // Completely clear center - player always visible
-        gradient.addColorStop(0.3, `${weatherColor}${0.1 * weatherMultiplier})`); // Start darkening closer to player
-        gradient.addColorStop(0.6, `${weatherColor}${0.4 * weatherMultiplier})`); // Much darker
-        gradient.addColorStop(1, `${weatherColor}${0.7 * weatherMultiplier})`);    // Very dark at edge
-      }
-    } else {
-      if (hasWhiteLightBulbs) {
-        // Very bright during day with WHITE light bulbs - minimal fog
-        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');      // Completely clear center
-        gradient.addColorStop(0.6, `${weatherColor}${0.02 * weatherMultiplier})`); // Almost no darkening
-        gradient.addColorStop(0.9, `${weatherColor}${0.1 * weatherMultiplier})`);  // Very light darkening
-        gradient.addColorStop(1, `${weatherColor}${0.2 * weatherMultiplier})`);    // Light edge
-      } else {
-        // Moderate fog of war during day - clear center with dramatic circular aura
-        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');      // Completely clear center
-        gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0)');    // Keep center clear longer
-        gradient.addColorStop(0.7, `${weatherColor}${0.3 * weatherMultiplier})`);  // Start darkening
-        gradient.addColorStop(0.85, `${weatherColor}${0.6 * weatherMultiplier})`);  // Moderate darkening
-        gradient.addColorStop(1, `${weatherColor}${0.8 * weatherMultiplier})`);    // Dark edge
-      }
-    }
-    
-    // Fill entire screen with overlay (apply weather effects)
-    let baseOverlayOpacity: number;
-    let overlayColor: string;
-    
-    if (isNight) {
-      if (hasWhiteLightBulbs) {
-        baseOverlayOpacity = 0.4; // Moderately bright with lights
-      } else {
-        baseOverlayOpacity = 0.7; // Much darker without lights - very dark at night
-      }
-    } else {
-      if (hasWhiteLightBulbs) {
-        baseOverlayOpacity = 0.05; // Almost no overlay with lights during day
-      } else {
-        baseOverlayOpacity = 0.1; // Minimal overlay without lights during day
-      }
-    }
-    
-    // Apply weather effects to overlay
-    if (weather.type === 'thunderstorm') {
-      overlayColor = `rgba(20, 20, 40, 0.15)`; // Further reduced opacity to ensure lights remain visible
-    } else if (weather.type === 'nice') {
-      overlayColor = `rgba(0, 0, 0, ${baseOverlayOpacity * weatherMultiplier})`;
-    } else if (weather.type === 'overcast') {
-      overlayColor = `rgba(30, 30, 30, ${baseOverlayOpacity * weatherMultiplier})`;
-    } else {
-      overlayColor = `rgba(0, 0, 0, ${baseOverlayOpacity})`;
-    }
-    
-    this.ctx.fillStyle = overlayColor;
-    this.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-    
-    // Apply visibility gradient
-    this.ctx.fillStyle = gradient;
-    this.ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  }
-
   /**
    * Render colored light bulb with appropriate effects
    */
@@ -7191,212 +6686,10 @@ export class CanvasRenderer {
     this.ctx.restore();
   }
 
-  /**
-   * Render colored light effects around player based on their light bulb inventory
-   */
-  private renderPlayerColoredLightEffects(playerPos: Vec2, camera: Camera, inventory: any, isResting: boolean, gameTime?: any): void {
-    this.ctx.save();
-    const prevComposite = this.ctx.globalCompositeOperation;
-    this.ctx.globalCompositeOperation = 'screen';
-    
-    const screenPos = worldToScreen(playerPos, camera);
-    const time = Date.now() * 0.0005;
-    
-    // Get ALL light bulbs from inventory (including white bulbs)
-    const allLightBulbTypes = [
-      'Light Bulb', 'Light Bulb White', // White bulbs
-      'Light Bulb Red', 'Light Bulb Green', 'Light Bulb Blue', 
-      'Light Bulb Orange', 'Light Bulb Purple', 'Light Bulb Rainbow',
-      // Fallback for lowercase versions
-      'Light Bulb red', 'Light Bulb green', 'Light Bulb blue',
-      'Light Bulb orange', 'Light Bulb purple', 'Light Bulb rainbow'
-    ];
-    
-    let totalLightBulbs = 0;
-    const bulbCounts: { [key: string]: number } = {};
-    
-    // Count each type of light bulb
-    for (const bulbType of allLightBulbTypes) {
-      const count = inventory.items.get(bulbType) || 0;
-      if (count > 0) {
-        bulbCounts[bulbType] = count;
-        totalLightBulbs += count;
-      }
-    }
-    
-    if (totalLightBulbs === 0) {
-      this.ctx.globalCompositeOperation = prevComposite;
-      this.ctx.restore();
-      return;
-    }
-    
-    // Calculate time-based intensity multiplier
-    let timeIntensityMultiplier = 1.0;
-    if (gameTime) {
-      const hour = gameTime.hour;
-      if (hour >= 6 && hour < 8) {
-        // Dawn - gradually increasing
-        timeIntensityMultiplier = 0.5 + (hour - 6) * 0.25; // 0.5 to 1.0
-      } else if (hour >= 8 && hour < 18) {
-        // Day - still visible but reduced intensity
-        timeIntensityMultiplier = 0.6; // More visible during day
-      } else if (hour >= 18 && hour < 20) {
-        // Dusk - gradually increasing
-        timeIntensityMultiplier = 0.6 + (hour - 18) * 0.2; // 0.6 to 1.0
-      } else {
-        // Night - full intensity
-        timeIntensityMultiplier = 1.0;
-      }
-    }
-    
-    
-    // Calculate brightness multiplier based on total number of lights and time of day
-    const baseBrightnessMultiplier = Math.min(8.0, 1.0 + (totalLightBulbs * 0.6)); // Max 8x brightness, much more dramatic impact per light
-    const brightnessMultiplier = baseBrightnessMultiplier * timeIntensityMultiplier;
-    
-    // Create layered light effects based on bulb types
-    let layerIndex = 0;
-    for (const [bulbType, count] of Object.entries(bulbCounts)) {
-      if (count === 0) continue;
-      
-      // Each layer gets a different radius for proper stacking
-      // Additional lights only expand the radius, not the center opacity
-      const baseRadius = isResting ? 40 : 80;
-      const layerRadius = baseRadius + (layerIndex * (isResting ? 20 : 30));
-      
-      // Create gradient based on bulb type
-      const gradient = this.ctx.createRadialGradient(
-        screenPos.x, screenPos.y, 0,
-        screenPos.x, screenPos.y, layerRadius
-      );
-      
-      let color1, color2, color3;
-      switch (bulbType) {
-        case 'Light Bulb':
-        case 'Light Bulb White':
-          // Clear center with subtle white tint (center always clear, outer rings expand)
-          color1 = `rgba(255, 255, 255, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(240, 240, 240, ${Math.min(0.15, 0.05 + layerIndex * 0.02)})`; // Subtle, limited opacity
-          color3 = `rgba(220, 220, 220, ${Math.min(0.1, 0.03 + layerIndex * 0.01)})`; // Even more subtle
-          break;
-        case 'Light Bulb Red':
-          color1 = `rgba(255, 100, 100, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(255, 50, 50, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `rgba(255, 0, 0, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb Green':
-          color1 = `rgba(100, 255, 100, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(50, 255, 50, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `rgba(0, 255, 0, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb Blue':
-          color1 = `rgba(100, 100, 255, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(50, 50, 255, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `rgba(0, 0, 255, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb Orange':
-          color1 = `rgba(255, 165, 0, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(255, 140, 0, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `rgba(255, 100, 0, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb Purple':
-          color1 = `rgba(200, 100, 255, 0)`; // Center is ALWAYS completely clear
-          color2 = `rgba(150, 50, 200, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `rgba(100, 0, 150, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb Rainbow':
-        case 'Light Bulb rainbow':
-          // Clear center with subtle rainbow tint
-          const hue1 = (time * 40) % 360;
-          const hue2 = (hue1 + 60) % 360;
-          const hue3 = (hue2 + 60) % 360;
-          color1 = `hsla(${hue1}, 100%, 70%, 0)`; // Center is ALWAYS completely clear
-          color2 = `hsla(${hue2}, 100%, 60%, ${Math.min(0.12, 0.04 + layerIndex * 0.02)})`; // Limited opacity
-          color3 = `hsla(${hue3}, 100%, 50%, ${Math.min(0.08, 0.02 + layerIndex * 0.01)})`; // Limited opacity
-          break;
-        case 'Light Bulb red':
-          color1 = 'rgba(255, 100, 100, 0.3)';
-          color2 = 'rgba(255, 50, 50, 0.2)';
-          color3 = 'rgba(255, 0, 0, 0.1)';
-          break;
-        case 'Light Bulb green':
-          color1 = 'rgba(100, 255, 100, 0.3)';
-          color2 = 'rgba(50, 255, 50, 0.2)';
-          color3 = 'rgba(0, 255, 0, 0.1)';
-          break;
-        case 'Light Bulb blue':
-          color1 = 'rgba(100, 100, 255, 0.3)';
-          color2 = 'rgba(50, 50, 255, 0.2)';
-          color3 = 'rgba(0, 0, 255, 0.1)';
-          break;
-        case 'Light Bulb orange':
-          color1 = 'rgba(255, 165, 0, 0.3)';
-          color2 = 'rgba(255, 140, 0, 0.2)';
-          color3 = 'rgba(255, 100, 0, 0.1)';
-          break;
-        case 'Light Bulb purple':
-          color1 = 'rgba(200, 100, 255, 0.3)';
-          color2 = 'rgba(150, 50, 200, 0.2)';
-          color3 = 'rgba(100, 0, 150, 0.1)';
-          break;
-        default:
-          color1 = 'rgba(255, 255, 255, 0.4)';
-          color2 = 'rgba(255, 255, 255, 0.3)';
-          color3 = 'rgba(255, 255, 255, 0.2)';
-      }
-      
-      gradient.addColorStop(0, color1);
-      gradient.addColorStop(0.65, color2);
-      gradient.addColorStop(1, color3);
-      
-      // Draw light aura for this bulb type
-      this.ctx.fillStyle = gradient;
-      this.ctx.beginPath();
-      this.ctx.arc(screenPos.x, screenPos.y, layerRadius, 0, Math.PI * 2);
-      this.ctx.fill();
-      
-      // Add dramatic sparkles for each bulb of this type
-      for (let i = 0; i < count; i++) {
-        const angle = (time * 2 + i * (360 / count)) % 360;
-        const distance = 80 + Math.sin(time * 3 + i) * 20; // Larger distance and movement
-        const sparkleX = screenPos.x + Math.cos(angle * Math.PI / 180) * distance;
-        const sparkleY = screenPos.y + Math.sin(angle * Math.PI / 180) * distance;
-        
-        // Use appropriate sparkle color with subtle brightness (30% opacity)
-        if (bulbType === 'Light Bulb Rainbow' || bulbType === 'Light Bulb rainbow') {
-          const sparkleHue = ((time * 40) + i * 30) % 360;
-          this.ctx.fillStyle = `hsla(${sparkleHue}, 100%, 80%, 0.3)`; // 30% opacity for subtle effect
-        } else {
-          this.ctx.fillStyle = color1.replace(/[\d.]+\)/, '0.3)'); // 30% opacity
-        }
-        
-        // Larger, more dramatic sparkles
-        const sparkleSize = 4 + Math.sin(time * 4 + i) * 2; // Pulsing size
-        this.ctx.beginPath();
-        this.ctx.arc(sparkleX, sparkleY, sparkleSize, 0, Math.PI * 2);
-        this.ctx.fill();
-        
-        // Add subtle glow effect around sparkles (30% opacity)
-        this.ctx.shadowColor = this.ctx.fillStyle;
-        this.ctx.shadowBlur = 4; // Reduced glow
-        this.ctx.beginPath();
-        this.ctx.arc(sparkleX, sparkleY, sparkleSize * 0.5, 0, Math.PI * 2);
-        this.ctx.fill();
-        this.ctx.shadowBlur = 0;
-      }
-      
-      // Increment layer index for next bulb type
-      layerIndex++;
-    }
-    
-    this.ctx.globalCompositeOperation = prevComposite;
-    this.ctx.restore();
-  }
-
   /**
    * Render mounted art car on top of everything else
    */
-  private renderMountedArtCarOnTop(artCar: any, camera: Camera): void {
+  renderMountedArtCarOnTop(artCar: any, camera: Camera): void {
     this.ctx.save();
     
     // Render the art car with enhanced visibility
@@ -7411,7 +6704,7 @@ export class CanvasRenderer {
   /**
    * Render art car auras at night
    */
-  private renderArtCarAuras(artCars: any[], camera: Camera): void {
+  renderArtCarAuras(artCars: any[], camera: Camera): void {
     if (!artCars) return;
     
     const time = Date.now() * 0.001;
@@ -7490,291 +6783,11 @@ export class CanvasRenderer {
     }
   }
 
-  /**
-   * Render weather effects (rain, lightning, etc.)
-   */
-  renderWeatherEffects(gameState: any, camera: Camera): void {
-    const weather = gameState.weather;
-    if (!weather || weather.duration <= 0) return;
-
-    this.ctx.save();
-
-    if (weather.type === 'thunderstorm') {
-      this.renderThunderstormEffects(weather, camera);
-    }
-
-    this.ctx.restore();
-  }
-
-  /**
-   * Render thunderstorm effects (rain and lightning)
-   */
-  private renderThunderstormEffects(weather: any, camera: Camera): void {
-    const time = Date.now() * 0.001;
-    const canvasWidth = this.canvas.width;
-    const canvasHeight = this.canvas.height;
-    const intensity = weather.intensity;
-
-    // Update and render rain
-    this.updateAndRenderRain(intensity, time, canvasWidth, canvasHeight);
-
-    // Update and render lightning
-    this.updateAndRenderLightning(intensity, time, canvasWidth, canvasHeight);
-  }
-
   /**
    * Clear thunderstorm effects when weather changes
    */
   public clearThunderstormEffects(): void {
-    this.rainDrops = [];
-    this.lightningBolts = [];
-  }
-
-  /**
-   * Update and render rain effect with proper animation
-   */
-  private updateAndRenderRain(intensity: number, time: number, canvasWidth: number, canvasHeight: number): void {
-    // Add new rain drops
-    const newDrops = Math.floor(5 + intensity * 10); // 5-15 raindrops per frame based on intensity
-    for (let i = 0; i < newDrops; i++) {
-      const speed = Math.random() * 10;
-      const color = `rgb(${Math.floor(150 - speed * 8)}, ${Math.floor(150 - speed * 8)}, ${Math.floor(150 - speed * 8)})`;
-      
-      this.rainDrops.push({
-        x: Math.random() * canvasWidth,
-        y: -50,
-        speed: speed,
-        color: color,
-        size: Math.floor(Math.random() * 20 + 3)
-      });
-    }
-
-    // Update and render existing rain drops
-    this.ctx.lineWidth = 1;
-    for (let i = this.rainDrops.length - 1; i >= 0; i--) {
-      const rain = this.rainDrops[i];
-      
-      // Update position
-      rain.y += 15 + rain.speed;
-      
-      // Remove if off screen
-      if (rain.y > canvasHeight + 10) {
-        this.rainDrops.splice(i, 1);
-        continue;
-      }
-      
-      // Render rain drop
-      this.ctx.strokeStyle = rain.color;
-      this.ctx.beginPath();
-      this.ctx.moveTo(rain.x, rain.y);
-      this.ctx.lineTo(rain.x, rain.y + rain.size);
-      this.ctx.stroke();
-    }
-  }
-
-  /**
-   * Update and render lightning with proper branching system
-   */
-  private updateAndRenderLightning(intensity: number, time: number, canvasWidth: number, canvasHeight: number): void {
-    // Add new lightning bolts
-    const lightningChance = intensity * 0.15; // 0-15% chance per frame - more frequent lightning
-    if (Math.random() < lightningChance) {
-      this.lightningBolts.push({
-        branches: [this.createLightningBranch(canvasWidth, canvasHeight, intensity, 0)],
-        opacity: 1.0,
-        opacityDecay: 0.05 - (Math.random() / 30) // Slower decay - lightning lasts longer
-      });
-    }
-
-    // Update and render existing lightning bolts
-    for (let i = this.lightningBolts.length - 1; i >= 0; i--) {
-      const bolt = this.lightningBolts[i];
-      
-      // Set lightning color
-      this.ctx.strokeStyle = `rgba(255, 255, 255, ${bolt.opacity})`;
-      this.ctx.fillStyle = this.ctx.strokeStyle;
-      
-      // Render all branches
-      let allBranchesComplete = true;
-      for (const branch of bolt.branches) {
-        if (!this.renderLightningBranch(branch)) {
-          allBranchesComplete = false;
-        }
-      }
-      
-      // Fade out the bolt
-      if (allBranchesComplete) {
-        bolt.opacity -= bolt.opacityDecay;
-      }
-      
-      // Remove bolt when fully faded
-      if (bolt.opacity <= 0) {
-        this.lightningBolts.splice(i, 1);
-      }
-    }
-  }
-
-  /**
-   * Create a lightning branch
-   */
-  private createLightningBranch(canvasWidth: number, canvasHeight: number, intensity: number, depth: number = 0): any {
-    const startX = Math.random() * canvasWidth;
-    const startY = -50;
-    const chance = Math.max(1, 5 - depth); // Reduce chance with depth to prevent infinite recursion
-    
-    return {
-      path: [{
-        x: startX,
-        y: startY,
-        endX: (0.5 - Math.random()) * (canvasHeight / 10) + startX,
-        endY: (0.7 - Math.random()) * (canvasWidth / 20) + startY
-      }],
-      size: parseInt(chance.toString()) + parseInt((Math.random() * 10).toString()),
-      subBranches: [],
-      chance: chance,
-      canvasWidth: canvasWidth,
-      canvasHeight: canvasHeight,
-      depth: depth
-    };
-  }
-
-  /**
-   * Render a lightning branch and return true if complete
-   */
-  private renderLightningBranch(branch: any): boolean {
-    let ready = true;
-
-    if (branch.path.length < branch.size) {
-      for (let i = 0; i < 3; i++) {
-        const lastPoint = branch.path[branch.path.length - 1];
-        branch.path.push({
-          x: lastPoint.endX,
-          y: lastPoint.endY,
-          endX: (0.5 - Math.random()) * (branch.canvasHeight / 10) + lastPoint.endX,
-          endY: Math.random() * (branch.canvasWidth / 30) + lastPoint.endY
-        });
-
-        if (Math.random() < branch.chance / 10 && branch.depth < 3) { // Limit depth to 3 levels
-          branch.subBranches.push(this.createLightningBranch(branch.canvasWidth, branch.canvasHeight, branch.chance / 2, branch.depth + 1));
-        }
-      }
-      ready = false;
-    }
-
-    // Render the main path
-    for (let i = 0; i < branch.path.length; i++) {
-      const segment = branch.path[i];
-      this.ctx.lineWidth = branch.chance * 0.2;
-      this.ctx.beginPath();
-      this.ctx.moveTo(segment.x, segment.y);
-      this.ctx.lineTo(segment.endX, segment.endY);
-      this.ctx.stroke();
-    }
-
-    // Render sub-branches
-    for (let i = 0; i < branch.subBranches.length; i++) {
-      this.renderLightningBranch(branch.subBranches[i]);
-    }
-
-    return ready;
-  }
-
-  /**
-   * Render an advanced branching lightning bolt
-   */
-  private renderAdvancedLightningBolt(canvasWidth: number, canvasHeight: number, intensity: number): void {
-    const startX = Math.random() * canvasWidth;
-    const startY = -50;
-    
-    // Create lightning branch
-    const branch = new LightningBranch(this.ctx, intensity, startX, startY, canvasWidth, canvasHeight);
-    branch.process();
-  }
-}
-
-/**
- * Advanced lightning branch system adapted from the provided code
- */
-class LightningBranch {
-  private ctx: CanvasRenderingContext2D;
-  private intensity: number;
-  private startX: number;
-  private startY: number;
-  private canvasWidth: number;
-  private canvasHeight: number;
-  private path: Array<{x: number, y: number, endX: number, endY: number}>;
-  private size: number;
-  private subBranches: LightningBranch[];
-
-  constructor(ctx: CanvasRenderingContext2D, intensity: number, x: number, y: number, canvasWidth: number, canvasHeight: number) {
-    this.ctx = ctx;
-    this.intensity = intensity;
-    this.startX = x;
-    this.startY = y;
-    this.canvasWidth = canvasWidth;
-    this.canvasHeight = canvasHeight;
-    
-    // Initialize path with first segment
-    this.path = [{
-      x: x,
-      y: y,
-      endX: (0.5 - Math.random()) * (canvasHeight / 10) + x,
-      endY: (0.7 - Math.random()) * (canvasWidth / 20) + y
-    }];
-    
-    this.size = Math.floor(intensity * 10) + Math.floor(Math.random() * 10);
-    this.subBranches = [];
-  }
-
-  process(): boolean {
-    let ready = true;
-
-    // Continue building the lightning path
-    if (this.path.length < this.size) {
-      for (let i = 0; i < 3; i++) {
-        const lastSegment = this.path[this.path.length - 1];
-        this.path.push({
-          x: lastSegment.endX,
-          y: lastSegment.endY,
-          endX: (0.5 - Math.random()) * (this.canvasHeight / 10) + lastSegment.endX,
-          endY: Math.random() * (this.canvasWidth / 30) + lastSegment.endY
-        });
-
-        // Create sub-branches based on intensity
-        if (Math.random() < this.intensity / 10) {
-          const lastPoint = this.path[this.path.length - 1];
-          this.subBranches.push(new LightningBranch(
-            this.ctx, 
-            this.intensity / 2, 
-            lastPoint.x, 
-            lastPoint.y, 
-            this.canvasWidth, 
-            this.canvasHeight
-          ));
-        }
-      }
-      ready = false;
-    }
-
-    // Draw the lightning path
-    this.ctx.strokeStyle = `rgba(255, 255, 255, ${0.8 + this.intensity * 0.2})`;
-    this.ctx.lineWidth = this.intensity * 0.2 + 1;
-    this.ctx.lineCap = 'round';
-    this.ctx.lineJoin = 'round';
-
-    for (let i = 0; i < this.path.length; i++) {
-      this.ctx.beginPath();
-      this.ctx.moveTo(this.path[i].x, this.path[i].y);
-      this.ctx.lineTo(this.path[i].endX, this.path[i].endY);
-      this.ctx.stroke();
-    }
-
-    // Process sub-branches
-    for (let i = 0; i < this.subBranches.length; i++) {
-      this.subBranches[i].process();
-    }
-
-    return ready;
+    this.storm.clear();
   }
 }
 
@@ -1,8 +1,19 @@
 /**
- * Input handler for keyboard events
+ * Input handler for keyboard events, mapped to actions through key bindings,
+ * plus touch controls and gamepad sticks feeding the same actions and movement
  */
 
-import type { Direction } from '../../modules/core';
+import type { Direction, Vec2 } from '../../modules/core';
+import type { InputAction, KeyBindings, MovementAction, TouchControls } from '../../modules/input';
+import type { InputSnapshot } from '../../modules/simulation';
+import type { GamepadPort } from '../../shared/ports';
+import { combineDirections, getVectorLength } from '../../modules/core';
+import { createInputSnapshot } from '../../modules/simulation';
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, normalizeKey, readGamepadsMovement } from '../../modules/input';
+
+const MOVEMENT_DIRECTIONS: Array<[MovementAction, Direction]> = [
+  ['MoveUp', 'up'], ['MoveDown', 'down'], ['MoveLeft', 'left'], ['MoveRight', 'right'],
+];
 
 export interface InputState {
   keys: Set<string>;
@@ -14,15 +25,16 @@ export interface InputState {
 
 export class InputHandler {
   private inputState: InputState;
+  private bindings: KeyBindings = DEFAULT_KEY_BINDINGS;
 
-  constructor() {
+  constructor(private gamepads: GamepadPort | null = null, private touch: TouchControls | null = null) {
     this.inputState = { keys: new Set(), keyPressed: new Set(), mouseX: 0, mouseY: 0, mouseClicked: false };
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     document.addEventListener('keydown', (e) => {
-      const key = e.key.toLowerCase();
+      const key = normalizeKey(e.key);
       if (!this.inputState.keys.has(key)) {
         // Key was just pressed (not already held)
         this.inputState.keyPressed.add(key);
@@ -31,7 +43,7 @@ export class InputHandler {
     });
 
     document.addEventListener('keyup', (e) => {
-      const key = e.key.toLowerCase();
+      const key = normalizeKey(e.key);
       this.inputState.keys.delete(key);
       this.inputState.keyPressed.delete(key);
     });
@@ -43,87 +55,58 @@ export class InputHandler {
     });
 
     // Track mouse clicks
-    document.addEventListener('mousedown', (e) => {
+    document.addEventListener('mousedown', () => {
       this.inputState.mouseClicked = true;
     });
   }
 
-  /**
-   * Get current movement direction based on pressed keys
-   */
-  getMovementDirection(): Direction | null {
-    const { keys } = this.inputState;
-
-    // Prioritize diagonal movement
-    if (keys.has('w') && keys.has('a')) return 'up';
-    if (keys.has('w') && keys.has('d')) return 'up';
-    if (keys.has('s') && keys.has('a')) return 'down';
-    if (keys.has('s') && keys.has('d')) return 'down';
-
-    // Single key movement
-    if (keys.has('w') || keys.has('arrowup')) return 'up';
-    if (keys.has('s') || keys.has('arrowdown')) return 'down';
-    if (keys.has('a') || keys.has('arrowleft')) return 'left';
-    if (keys.has('d') || keys.has('arrowright')) return 'right';
-
-    return null;
+  getBindings(): KeyBindings {
+    return this.bindings;
   }
 
-  /**
-   * Check if a specific key is pressed
-   */
-  isKeyPressed(key: string): boolean {
-    return this.inputState.keys.has(key.toLowerCase());
+  setBindings(bindings: KeyBindings): void {
+    this.bindings = bindings;
   }
 
   /**
-   * Get all currently pressed keys
+   * Check if any key bound to an action is held
    */
-  getPressedKeys(): string[] {
-    return Array.from(this.inputState.keys);
+  isActionHeld(action: InputAction): boolean {
+    return this.bindings[action].some(key => this.inputState.keys.has(key));
   }
 
   /**
-   * Check if rest key (E) was just pressed
+   * Check if a key bound to an action, or its touch button, was just pressed
    */
-  isRestKeyPressed(): boolean {
-    return this.inputState.keyPressed.has('r');
-  }
-
-  /** Gift key (G) */
-  isGiftKeyPressed(): boolean {
-    return this.inputState.keyPressed.has('g');
-  }
-
-  /** Totem toggle key (T) */
-  isTotemTogglePressed(): boolean {
-    return this.inputState.keyPressed.has('t');
-  }
-
-  /** Lights toggle key (L) */
-  isLightsKeyPressed(): boolean {
-    return this.inputState.keyPressed.has('l');
+  wasActionJustPressed(action: InputAction): boolean {
+    return this.bindings[action].some(key => this.inputState.keyPressed.has(key)) || !!this.touch?.wasActionJustPressed(action);
   }
 
   /**
-   * Check if mute key (M) was just pressed
+   * Movement from the held movement actions, diagonals included; when no
+   * movement key is held, from the touch joystick, then a gamepad stick
    */
-  isMuteKeyPressed(): boolean {
-    return this.inputState.keyPressed.has('m');
+  getMovementVector(): Vec2 {
+    const held = MOVEMENT_DIRECTIONS.filter(([action]) => this.isActionHeld(action)).map(([, direction]) => direction);
+    const keyboard = combineDirections(held);
+    if (getVectorLength(keyboard) > 0) return keyboard;
+    const touch = this.touch?.getMovement();
+    if (touch && getVectorLength(touch) > 0) return touch;
+    return this.gamepads ? readGamepadsMovement(this.gamepads) : keyboard;
   }
 
   /**
-   * Check if escape key (ESC) was just pressed
+   * Check if a specific key is pressed
    */
-  isEscapeKeyPressed(): boolean {
-    return this.inputState.keyPressed.has('escape');
+  isKeyPressed(key: string): boolean {
+    return this.inputState.keys.has(key.toLowerCase());
   }
 
   /**
-   * Check if spacebar was just pressed
+   * Get all currently pressed keys
    */
-  isSpaceKeyPressed(): boolean {
-    return this.inputState.keyPressed.has(' ');
+  getPressedKeys(): string[] {
+    return Array.from(this.inputState.keys);
   }
 
   /**
@@ -141,10 +124,21 @@ export class InputHandler {
   }
 
   /**
-   * Clear the keyPressed set - call this at the end of each frame
+   * Snapshot of this frame's input for the simulation
+   */
+  getSnapshot(): InputSnapshot {
+    return createInputSnapshot(
+      this.getMovementVector(),
+      INPUT_ACTIONS.filter(action => this.wasActionJustPressed(action))
+    );
+  }
+
+  /**
+   * Clear this frame's key and touch button presses - call this at the end of each frame
    */
   clearKeyPressed(): void {
     this.inputState.keyPressed.clear();
+    this.touch?.clearJustPressed();
   }
 
   /**
@@ -0,0 +1,53 @@
+/**
+ * Feeds canvas touch events into TouchControls; taps are replayed as clicks so
+ * HUD buttons and the inventory panel work the same as with a mouse
+ */
+
+import type { Vec2 } from '../../modules/core';
+import { TouchControls } from '../../modules/input';
+
+export class TouchInput {
+  readonly controls: TouchControls;
+
+  constructor(private canvas: HTMLCanvasElement) {
+    this.controls = new TouchControls(canvas.width, canvas.height);
+    // Stop the browser scrolling and zooming the page instead of the game
+    canvas.style.touchAction = 'none';
+    canvas.addEventListener('touchstart', this.handleTouchStart, { passive: false });
+    canvas.addEventListener('touchmove', this.handleTouchMove, { passive: false });
+    canvas.addEventListener('touchend', this.handleTouchEnd, { passive: false });
+    canvas.addEventListener('touchcancel', this.handleTouchEnd, { passive: false });
+  }
+
+  private handleTouchStart = (e: TouchEvent): void => {
+    e.preventDefault();
+    this.controls.resize(this.canvas.width, this.canvas.height);
+    Array.from(e.changedTouches).forEach(touch => this.controls.touchStart(touch.identifier, this.toCanvas(touch), e.timeStamp));
+  };
+
+  private handleTouchMove = (e: TouchEvent): void => {
+    e.preventDefault();
+    Array.from(e.changedTouches).forEach(touch => this.controls.touchMove(touch.identifier, this.toCanvas(touch)));
+  };
+
+  private handleTouchEnd = (e: TouchEvent): void => {
+    e.preventDefault();
+    Array.from(e.changedTouches).forEach(touch => {
+      const tap = this.controls.touchEnd(touch.identifier, e.type === 'touchcancel' ? Infinity : e.timeStamp);
+      if (tap) {
+        this.canvas.dispatchEvent(new MouseEvent('click', { clientX: touch.clientX, clientY: touch.clientY, bubbles: true }));
+      }
+    });
+  };
+
+  /**
+   * Canvas pixels under a touch, allowing for the canvas being scaled to fit the screen
+   */
+  private toCanvas(touch: Touch): Vec2 {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: (touch.clientX - rect.left) * (this.canvas.width / rect.width),
+      y: (touch.clientY - rect.top) * (this.canvas.height / rect.height),
+    };
+  }
+}
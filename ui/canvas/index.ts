@@ -1,7 +1,11 @@
 /**
- * Canvas UI adapter - Rendering and input handling
+ * Canvas UI adapter - Rendering through a render pass pipeline and input handling (keyboard, gamepad and touch)
  */
 
 export { CanvasRenderer, type RenderConfig } from './CanvasRenderer';
 export { InputHandler, type InputState } from './InputHandler';
 
+export { TouchInput } from './TouchInput';
+export { renderTouchControls } from './renderTouchControls';
+export { RenderPipeline, createScenePasses, SCENE_PASS_Z_ORDER, StormEffects, StaticLayerCache, getChunkScale, getStaticLandmarksKey, isStaticLandmark } from './passes';
+export type { BuiltInRenderPassId, FrameContext, FrameInput, HudFrameState, RenderPass, RenderPassTiming, ScenePainter, StaticLayerBounds, StaticLayerOptions, StaticLayerPainter } from './passes';
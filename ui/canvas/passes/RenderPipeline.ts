@@ -0,0 +1,102 @@
+/**
+ * Runs registered render passes in z-order, with per-pass toggles and timings
+ */
+
+import type { FrameContext, RenderPass, RenderPassTiming } from './types';
+
+const TIMING_SMOOTHING = 0.1; // weight of the newest frame in the average
+
+export class RenderPipeline {
+  private passes: RenderPass[] = [];
+  private disabled = new Set<string>();
+  private timings = new Map<string, RenderPassTiming>();
+  private profiling = false;
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  /**
+   * Add a pass, replacing any pass registered under the same id
+   */
+  register(pass: RenderPass): void {
+    const index = this.passes.findIndex(existing => existing.id === pass.id);
+    if (index >= 0) {
+      this.passes[index] = pass;
+    } else {
+      this.passes.push(pass);
+    }
+  }
+
+  unregister(id: string): void {
+    this.passes = this.passes.filter(pass => pass.id !== id);
+    this.timings.delete(id);
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    if (enabled) {
+      this.disabled.delete(id);
+    } else {
+      this.disabled.add(id);
+    }
+  }
+
+  isEnabled(id: string): boolean {
+    return !this.disabled.has(id);
+  }
+
+  /**
+   * Move a pass to another place in the draw order
+   */
+  setZOrder(id: string, zOrder: number): void {
+    const pass = this.passes.find(existing => existing.id === id);
+    if (!pass) {
+      throw new Error(`Unknown render pass: ${id}`);
+    }
+    this.register({ ...pass, zOrder });
+  }
+
+  /**
+   * Passes in draw order; equal z-orders draw in the order they were registered
+   */
+  getPasses(): RenderPass[] {
+    return this.passes
+      .map((pass, index) => ({ pass, index }))
+      .sort((a, b) => a.pass.zOrder - b.pass.zOrder || a.index - b.index)
+      .map(({ pass }) => pass);
+  }
+
+  setProfiling(enabled: boolean): void {
+    this.profiling = enabled;
+    if (!enabled) this.timings.clear();
+  }
+
+  /**
+   * Timings of the passes drawn while profiling, in draw order
+   */
+  getTimings(): RenderPassTiming[] {
+    return this.getPasses().flatMap(pass => {
+      const timing = this.timings.get(pass.id);
+      return timing ? [{ ...timing }] : [];
+    });
+  }
+
+  /**
+   * Draw a frame; each pass starts from the canvas state the frame started with
+   */
+  render(frame: FrameContext): void {
+    this.getPasses()
+      .filter(pass => this.isEnabled(pass.id))
+      .forEach(pass => {
+        const start = this.profiling ? this.now() : 0;
+        frame.ctx.save();
+        pass.render(frame);
+        frame.ctx.restore();
+        if (this.profiling) this.recordTiming(pass.id, this.now() - start);
+      });
+  }
+
+  private recordTiming(id: string, ms: number): void {
+    const previous = this.timings.get(id);
+    const averageMs = previous ? previous.averageMs + (ms - previous.averageMs) * TIMING_SMOOTHING : ms;
+    this.timings.set(id, { id, lastMs: ms, averageMs });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Static world layers pre-rendered into offscreen chunks and composited through the camera
+ */
+
+import type { Camera } from '../../../modules/camera';
+import type { Landmark } from '../../../modules/worlds';
+import { worldToScreen } from '../../../modules/camera';
+
+export interface StaticLayerBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface StaticLayerOptions {
+  chunkSize?: number; // world units per chunk side
+  padding?: number; // world units painted around a chunk so shapes straddling its edge are not cut off
+  maxChunks?: number; // least recently drawn chunks are dropped past this
+  createCanvas?: (width: number, height: number) => HTMLCanvasElement;
+}
+
+/**
+ * Draws a layer's shapes into a chunk; the chunk camera maps world positions onto the chunk canvas
+ */
+export type StaticLayerPainter = (ctx: CanvasRenderingContext2D, chunkCamera: Camera) => void;
+
+const MIN_CHUNK_SCALE = 0.25;
+const MAX_CHUNK_SCALE = 2;
+
+/**
+ * Pixels per world unit for chunks drawn at this zoom: the next power of two up,
+ * so pinch zooming only rebuilds chunks when it crosses one
+ */
+export function getChunkScale(zoom: number): number {
+  return Math.min(MAX_CHUNK_SCALE, Math.max(MIN_CHUNK_SCALE, 2 ** Math.ceil(Math.log2(zoom))));
+}
+
+/**
+ * The Man and Temple hold still until they catch fire; fireworks, flames, bonfires and ashes animate
+ */
+export function isStaticLandmark(landmark: Landmark): boolean {
+  return (landmark.type === 'man' || landmark.type === 'temple') &&
+    !landmark.isBurning &&
+    !landmark.fireworksActive &&
+    !landmark.isBonfire &&
+    !(landmark.destructionProgress && landmark.destructionProgress > 0) &&
+    !(landmark.ashesProgress && landmark.ashesProgress > 0);
+}
+
+/**
+ * Changes whenever a static landmark would be drawn differently (building progress, burn phase)
+ */
+export function getStaticLandmarksKey(landmarks: Landmark[]): string {
+  return landmarks
+    .filter(isStaticLandmark)
+    .map(landmark => [landmark.id, landmark.buildingProgress ?? 0, !!landmark.handsUp, !!landmark.isBurned, JSON.stringify(landmark.pieces ?? {})].join(':'))
+    .join('|');
+}
+
+function createChunkCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export class StaticLayerCache {
+  private chunks = new Map<string, HTMLCanvasElement>(); // oldest drawn first
+  private key: string | null = null;
+  private scale = 1;
+  private chunkSize: number;
+  private padding: number;
+  private maxChunks: number;
+  private createCanvas: (width: number, height: number) => HTMLCanvasElement;
+
+  constructor(private bounds: StaticLayerBounds, options: StaticLayerOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 512;
+    this.padding = options.padding ?? 256;
+    this.maxChunks = options.maxChunks ?? 32;
+    this.createCanvas = options.createCanvas ?? createChunkCanvas;
+  }
+
+  /**
+   * Drop every chunk so the next frame paints the layer afresh
+   */
+  invalidate(): void {
+    this.chunks.clear();
+    this.key = null;
+  }
+
+  getChunkCount(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Composite the chunks under the camera, painting any that are missing; a new key rebuilds them all
+   */
+  render(ctx: CanvasRenderingContext2D, camera: Camera, key: string, paint: StaticLayerPainter): void {
+    const scale = getChunkScale(camera.zoom);
+    if (key !== this.key || scale !== this.scale) {
+      this.invalidate();
+      this.key = key;
+      this.scale = scale;
+    }
+
+    const { minX, minY, maxX, maxY } = this.bounds;
+    const size = this.chunkSize;
+    const left = Math.max(camera.viewport.x, minX);
+    const top = Math.max(camera.viewport.y, minY);
+    const right = Math.min(camera.viewport.x + camera.viewport.width / camera.zoom, maxX);
+    const bottom = Math.min(camera.viewport.y + camera.viewport.height / camera.zoom, maxY);
+
+    for (let row = Math.floor((top - minY) / size); minY + row * size < bottom; row++) {
+      for (let col = Math.floor((left - minX) / size); minX + col * size < right; col++) {
+        const origin = { x: minX + col * size, y: minY + row * size };
+        const chunk = this.getChunk(col, row, origin, paint);
+        // Round both edges so neighbouring chunks meet without hairline seams
+        const topLeft = worldToScreen(origin, camera);
+        const bottomRight = worldToScreen({ x: origin.x + size, y: origin.y + size }, camera);
+        const x = Math.round(topLeft.x);
+        const y = Math.round(topLeft.y);
+        ctx.drawImage(chunk, x, y, Math.round(bottomRight.x) - x, Math.round(bottomRight.y) - y);
+      }
+    }
+  }
+
+  private getChunk(col: number, row: number, origin: { x: number; y: number }, paint: StaticLayerPainter): HTMLCanvasElement {
+    const id = `${col},${row}`;
+    const cached = this.chunks.get(id);
+    if (cached) {
+      this.chunks.delete(id);
+      this.chunks.set(id, cached);
+      return cached;
+    }
+
+    const pixels = Math.ceil(this.chunkSize * this.scale);
+    const chunk = this.createCanvas(pixels, pixels);
+    const chunkCtx = chunk.getContext('2d');
+    if (chunkCtx) {
+      const padded = this.chunkSize + this.padding * 2;
+      chunkCtx.translate(-this.padding * this.scale, -this.padding * this.scale);
+      paint(chunkCtx, {
+        position: origin,
+        zoom: this.scale,
+        viewport: { x: origin.x - this.padding, y: origin.y - this.padding, width: padded, height: padded },
+        followSpeed: 0,
+      });
+    }
+
+    this.chunks.set(id, chunk);
+    while (this.chunks.size > this.maxChunks) {
+      const oldest = this.chunks.keys().next().value as string;
+      this.chunks.delete(oldest);
+    }
+    return chunk;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * HUD meters - labelled stat bars and the segmented light battery meter
+ */
+
+type Rgb = [number, number, number];
+
+const BATTERY_HIGH: Rgb = [39, 174, 96];
+const BATTERY_MEDIUM: Rgb = [243, 156, 18];
+const BATTERY_LOW: Rgb = [231, 76, 60];
+const BATTERY_SEGMENTS = 10;
+
+function toRgb([r, g, b]: Rgb, scale: number = 1): string {
+  return `rgb(${Math.floor(r * scale)}, ${Math.floor(g * scale)}, ${Math.floor(b * scale)})`;
+}
+
+/**
+ * Green above `highAbove`, orange above 30, red below
+ */
+function getBatteryRgb(level: number, highAbove: number): Rgb {
+  return level > highAbove ? BATTERY_HIGH : level > 30 ? BATTERY_MEDIUM : BATTERY_LOW;
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, label: string, x: number, y: number): void {
+  ctx.fillStyle = '#ffd23f';
+  ctx.font = 'bold 14px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(label, x, y + 12);
+}
+
+/**
+ * A golden label with a thin bar filled to value / maxValue below it
+ */
+export function renderStatBar(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, value: number, maxValue: number, color: string, label: string): void {
+  drawLabel(ctx, label, x, y);
+
+  const barY = y + 24;
+  const barHeight = 8;
+  ctx.fillStyle = '#34495e';
+  ctx.fillRect(x, barY, width, barHeight);
+
+  ctx.fillStyle = color;
+  ctx.fillRect(x, barY, width * Math.max(0, Math.min(1, value / maxValue)), barHeight);
+
+  ctx.strokeStyle = '#2c3e50';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x, barY, width, barHeight);
+}
+
+/**
+ * Battery outline on the left, grey when empty, filled to the charge level
+ */
+function renderBatteryOutline(ctx: CanvasRenderingContext2D, x: number, y: number, level: number): void {
+  const width = 25;
+  const height = 18;
+  const color = level > 0 ? toRgb(getBatteryRgb(level, 60)) : '#666666';
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+  ctx.fillStyle = color;
+  ctx.fillRect(x + width, y + 4, 3, 10); // Terminal
+
+  if (level > 0) {
+    ctx.fillRect(x + 2, y + 2, (level / 100) * (width - 4), height - 4);
+  }
+}
+
+/**
+ * Ten segments of 10% each; the one being drained is shaded by how full it still is
+ */
+function renderBatterySegments(ctx: CanvasRenderingContext2D, rightX: number, y: number, level: number): void {
+  const width = 8;
+  const height = 18;
+  const spacing = 3;
+  const startX = rightX - (width * BATTERY_SEGMENTS + spacing * (BATTERY_SEGMENTS - 1));
+  const rgb = getBatteryRgb(level, 70);
+
+  for (let i = 0; i < BATTERY_SEGMENTS; i++) {
+    const segmentX = startX + i * (width + spacing);
+    ctx.fillStyle = '#2c3e50';
+    ctx.fillRect(segmentX, y, width, height);
+
+    const fill = Math.min(1, (level - i * 10) / 10);
+    ctx.fillStyle = fill >= 1 ? toRgb(rgb) : fill > 0 ? toRgb(rgb, fill) : '#34495e';
+    ctx.fillRect(segmentX + 1, y + 1, width - 2, height - 2);
+
+    // Highlight along the top edge for a 3D look
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.fillRect(segmentX, y, width, 1);
+  }
+}
+
+/**
+ * The light battery: label, outline and segments
+ */
+export function renderLightBatteryMeter(ctx: CanvasRenderingContext2D, x: number, y: number, level: number): void {
+  drawLabel(ctx, '🔋 Battery:', x, y);
+  renderBatteryOutline(ctx, x, y + 35, level);
+  renderBatterySegments(ctx, x + 170, y + 35, level);
+}
@@ -0,0 +1,190 @@
+/**
+ * HUD pass - the stats panel, active drug timers and quest log drawn over the scene
+ */
+
+import type { GameState, QuestState } from '../../../modules/core';
+import { getQuestLog } from '../../../modules/quests';
+import { getEffectivePlayerSpeed } from '../../../modules/simulation';
+import { renderLightBatteryMeter, renderStatBar } from './hudMeters';
+import { drawRoundedRect } from './shapes';
+import type { FrameContext, HudFrameState } from './types';
+
+const STATS_PANEL = { width: 220, height: 480, top: 15, rightMargin: 240 };
+
+const DRUG_EMOJIS: Record<string, string> = {
+  'molly': '💎',
+  'shrooms': '🍄',
+  'acid': '🌈',
+  'dmt': '💫',
+  'salvia': '🌿',
+  'whipits': '🎈',
+  'energy-drink': '🍼',
+  'bike': '🚲',
+  'mystery-pill': '💊',
+  'mystery-snowball': '❄️',
+  'cigarette': '🚬',
+  'joint': '🚬',
+  'vodka': '🥃',
+  'mda': '💎',
+  '2c-i': '🧪',
+  'caffeine': '☕',
+  'alcohol': '🍺',
+  'mdma': '💎',
+  'mushrooms': '🍄',
+  'weed': '🌿',
+  'cocaine': '⚪',
+  'ketamine': '⚪',
+  'cannabis': '🌿',
+};
+
+/**
+ * Emoji for a drug type, or a question mark for unknown ones
+ */
+export function getDrugEmoji(drugType?: string): string {
+  return DRUG_EMOJIS[drugType || ''] || '❓';
+}
+
+/**
+ * Golden text with a smaller green "(+n)" after it when the value just changed
+ */
+function renderValueWithChange(ctx: CanvasRenderingContext2D, text: string, change: number | undefined, x: number, y: number): void {
+  ctx.fillStyle = '#ffd23f';
+  ctx.font = 'bold 15px Arial';
+  ctx.fillText(text, x, y);
+  if (change === undefined || change === 0) return;
+
+  const textWidth = ctx.measureText(text).width;
+  const rounded = Math.round(change);
+  ctx.fillStyle = '#27ae60';
+  ctx.font = 'bold 12px Arial';
+  ctx.fillText(rounded > 0 ? `(+${rounded})` : `(${rounded})`, x + textWidth + 6, y);
+  ctx.font = 'bold 15px Arial';
+}
+
+/**
+ * Coins, karma, effective speed and time scale, returning where the next line goes
+ */
+function renderNumberStats(ctx: CanvasRenderingContext2D, gameState: GameState, hud: HudFrameState, x: number, y: number): number {
+  const { player } = gameState;
+  renderValueWithChange(ctx, `💰 Coins: ${player.stats.coins}`, hud.coinChange, x, y);
+  y += 32;
+  renderValueWithChange(ctx, `✨ Karma: ${Math.round(player.stats.karma)}`, hud.karmaChange, x, y);
+  y += 32;
+
+  ctx.fillStyle = '#ffd23f';
+  ctx.fillText(`🏃 Speed: ${(getEffectivePlayerSpeed(gameState) / 100).toFixed(1)}x`, x, y);
+  y += 32;
+
+  if (hud.timeScale !== undefined) {
+    ctx.fillText(`⏰ Time: ${hud.timeScale.toFixed(1)}x`, x, y);
+  }
+  return y;
+}
+
+/**
+ * Active drugs with their remaining seconds, longest first
+ */
+function renderActiveDrugs(ctx: CanvasRenderingContext2D, activeDrugs: any[], x: number, y: number, width: number): void {
+  const height = activeDrugs.length * 25 + 15;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeStyle = '#e74c3c';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+
+  ctx.fillStyle = '#e74c3c';
+  ctx.font = 'bold 12px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText('Active Effects:', x + 10, y + 15);
+
+  ctx.fillStyle = '#f1c40f';
+  ctx.font = '11px Arial';
+  [...activeDrugs].sort((a, b) => b.duration - a.duration).forEach((drug, index) => {
+    const name = drug.type === 'dmt' ? 'DMT' : drug.type.charAt(0).toUpperCase() + drug.type.slice(1).replace('-', ' ');
+    ctx.fillText(`${getDrugEmoji(drug.type)} ${name}: ${Math.ceil(drug.duration)}s`, x + 10, y + 25 + index * 25);
+  });
+}
+
+/**
+ * The stats panel in the top right: need bars, battery, numbers and active drugs below it
+ */
+export function renderStatsPanel({ ctx, gameState, hud }: FrameContext): void {
+  const { stats } = gameState.player;
+  const { width, height, top } = STATS_PANEL;
+  const x = ctx.canvas.width - STATS_PANEL.rightMargin;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+  drawRoundedRect(ctx, x, top, width, height, 12);
+  ctx.fill();
+  ctx.strokeStyle = '#ffd23f';
+  ctx.lineWidth = 3;
+  drawRoundedRect(ctx, x, top, width, height, 12);
+  ctx.stroke();
+  ctx.strokeStyle = 'rgba(255, 210, 63, 0.3)';
+  ctx.lineWidth = 1;
+  drawRoundedRect(ctx, x + 2, top + 2, width - 4, height - 4, 10);
+  ctx.stroke();
+
+  const bars: Array<[number, string, string]> = [
+    [stats.mood, '#9b59b6', '😊 Mood'],
+    [stats.energy, '#f1c40f', '⚡ Energy'],
+    [stats.thirst, '#3498db', '💧 Thirst'],
+    [stats.hunger, '#e67e22', '🍔 Hunger'],
+    [stats.bathroom, '#8b4513', '🚽 Bathroom'],
+  ];
+  bars.forEach(([value, color, label], index) => renderStatBar(ctx, x + 20, top + 20 + index * 42, 180, value, 100, color, label));
+
+  const batteryY = top + 20 + (bars.length - 1) * 42 + 45;
+  renderLightBatteryMeter(ctx, x + 20, batteryY, stats.lightBattery);
+  const lastLineY = renderNumberStats(ctx, gameState, hud, x + 20, batteryY + 70);
+
+  if (hud.activeDrugs && hud.activeDrugs.length > 0) {
+    renderActiveDrugs(ctx, hud.activeDrugs, x, lastLineY + 25, width);
+  }
+  renderQuestLog(ctx, gameState.quests, x, width);
+}
+
+/**
+ * The quest log in the bottom right: active quests with objective progress, then the most recent finished ones
+ */
+function renderQuestLog(ctx: CanvasRenderingContext2D, quests: QuestState, x: number, width: number): void {
+  const entries = getQuestLog(quests).slice(0, 4);
+  if (entries.length === 0) return;
+
+  const lineHeight = 16;
+  const height = 30 + entries.reduce((total, entry) => total + lineHeight * (entry.status === 'active' ? 1 + entry.objectives.length : 1) + 6, 0);
+  let y = ctx.canvas.height - height - 15;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+  drawRoundedRect(ctx, x, y, width, height, 12);
+  ctx.fill();
+  ctx.strokeStyle = '#d7a86e';
+  ctx.lineWidth = 2;
+  drawRoundedRect(ctx, x, y, width, height, 12);
+  ctx.stroke();
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#d7a86e';
+  ctx.font = 'bold 14px Arial';
+  y += 22;
+  ctx.fillText('📜 Quests', x + 12, y);
+
+  entries.forEach(({ quest, status, objectives }) => {
+    y += lineHeight + 6;
+    const icon = status === 'completed' ? '✅' : status === 'failed' ? '❌' : '•';
+    ctx.fillStyle = status === 'active' ? '#ffd23f' : '#95a5a6';
+    ctx.font = 'bold 12px Arial';
+    ctx.fillText(`${icon} ${quest.title}`, x + 12, y);
+    if (status !== 'active') return;
+
+    ctx.font = '11px Arial';
+    objectives.forEach(objective => {
+      y += lineHeight;
+      ctx.fillStyle = objective.done ? '#27ae60' : '#ecf0f1';
+      const progress = objective.target > 1 ? ` ${objective.count}/${objective.target}` : '';
+      ctx.fillText(`${objective.done ? '✓' : '○'} ${objective.label}${progress}`, x + 24, y);
+    });
+  });
+  ctx.restore();
+}
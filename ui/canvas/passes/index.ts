@@ -0,0 +1,13 @@
+/**
+ * Render passes public API
+ */
+
+export { RenderPipeline } from './RenderPipeline';
+export { createScenePasses, SCENE_PASS_Z_ORDER } from './scenePasses';
+export { StaticLayerCache, getChunkScale, getStaticLandmarksKey, isStaticLandmark } from './StaticLayerCache';
+export { StormEffects } from './weatherPass';
+export { getLightEffectBulbs } from './playerLights';
+export { getDrugEmoji } from './hudPass';
+export { drawRoundedRect } from './shapes';
+export type { StaticLayerBounds, StaticLayerOptions, StaticLayerPainter } from './StaticLayerCache';
+export type { BuiltInRenderPassId, FrameContext, FrameInput, HudFrameState, RenderPass, RenderPassTiming, ScenePainter } from './types';
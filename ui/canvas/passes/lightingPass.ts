@@ -0,0 +1,94 @@
+/**
+ * Lighting pass - fog of war around the player, then the player's own lights shining through it
+ */
+
+import type { Weather } from '../../../modules/core';
+import { isNightTime } from '../../../modules/core';
+import { worldToScreen } from '../../../modules/camera';
+import { getLightEffectBulbs, renderPlayerLights } from './playerLights';
+import type { FrameContext } from './types';
+
+// Only white bulbs actually light up the fog; coloured ones are decoration
+const WHITE_LIGHT_BULBS = ['Light Bulb', 'Light Bulb White', 'Light Bulb white'];
+const VISIBILITY_PER_WHITE_BULB = 50;
+
+/**
+ * Gradient stops as [offset, darkness] from the player out to the visibility radius
+ */
+const FOG_STOPS: Record<'night' | 'day', Record<'lit' | 'dark', Array<[number, number]>>> = {
+  night: {
+    lit: [[0, 0], [0.5, 0.05], [0.8, 0.15], [1, 0.3]],
+    dark: [[0, 0], [0.3, 0.1], [0.6, 0.4], [1, 0.7]],
+  },
+  day: {
+    lit: [[0, 0], [0.6, 0.02], [0.9, 0.1], [1, 0.2]],
+    dark: [[0, 0], [0.5, 0], [0.7, 0.3], [0.85, 0.6], [1, 0.8]],
+  },
+};
+
+// Darkness over the whole screen before the clear circle around the player
+const FOG_OVERLAY: Record<'night' | 'day', Record<'lit' | 'dark', number>> = {
+  night: { lit: 0.4, dark: 0.7 },
+  day: { lit: 0.05, dark: 0.1 },
+};
+
+/**
+ * How much darker the fog gets in this weather, and its tint
+ */
+function getFogTint(weather: Weather): { multiplier: number; color: string } {
+  switch (weather.type) {
+    case 'thunderstorm':
+      return { multiplier: 1.5 + weather.intensity * 0.8, color: 'rgba(15, 15, 30,' };
+    case 'nice':
+      return { multiplier: 0.5 + (1 - weather.intensity) * 0.3, color: 'rgba(0, 0, 0,' };
+    case 'overcast':
+      return { multiplier: 0.8 + (1 - weather.intensity) * 0.4, color: 'rgba(30, 30, 30,' };
+    default:
+      return { multiplier: 1, color: 'rgba(0, 0, 0,' };
+  }
+}
+
+/**
+ * Darken the screen outside the player's visibility radius, widened by white bulbs while the lights are on
+ */
+export function renderFogOfWar({ ctx, gameState, camera, visibilityRadius }: FrameContext): void {
+  const { player, weather } = gameState;
+  const items: ReadonlyMap<string, number> = player.inventory.items;
+  const whiteBulbs = player.lightsOn ? WHITE_LIGHT_BULBS.reduce((total, bulb) => total + (items.get(bulb) || 0), 0) : 0;
+  const period = isNightTime(gameState.time) ? 'night' : 'day';
+  const lighting = whiteBulbs > 0 ? 'lit' : 'dark';
+  const tint = getFogTint(weather);
+
+  const playerScreenPos = worldToScreen(player.position, camera);
+  const radius = visibilityRadius + whiteBulbs * VISIBILITY_PER_WHITE_BULB;
+  const gradient = ctx.createRadialGradient(playerScreenPos.x, playerScreenPos.y, 0, playerScreenPos.x, playerScreenPos.y, radius);
+  FOG_STOPS[period][lighting].forEach(([offset, darkness]) => {
+    gradient.addColorStop(offset, darkness === 0 ? 'rgba(0, 0, 0, 0)' : `${tint.color}${darkness * tint.multiplier})`);
+  });
+
+  // Storm overlays stay light so the player's lights remain visible
+  const overlayOpacity = FOG_OVERLAY[period][lighting];
+  ctx.fillStyle = weather.type === 'thunderstorm' ? 'rgba(20, 20, 40, 0.15)' : `${tint.color} ${overlayOpacity * tint.multiplier})`;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+/**
+ * Fog of war, then carried bulbs while the lights are on and glow sticks whether or not they are
+ */
+export function renderLighting(frame: FrameContext): void {
+  const { player } = frame.gameState;
+  renderFogOfWar(frame);
+
+  const hasAnyLightBulbs = Array.from(player.inventory.items.entries()).some(([itemType, quantity]) =>
+    quantity > 0 && (itemType.includes('Light Bulb') || itemType === 'Battery')
+  );
+  if (hasAnyLightBulbs && player.lightsOn) {
+    renderPlayerLights(frame, player.inventory.items);
+  }
+  if (player.lightEffects.length > 0) {
+    renderPlayerLights(frame, getLightEffectBulbs(player.lightEffects));
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Player lights - a coloured aura and sparkles for each kind of light bulb around the player
+ */
+
+import type { Player } from '../../../modules/core';
+import { worldToScreen } from '../../../modules/camera';
+import type { FrameContext } from './types';
+
+// Bulbs that glow, in the order their layers stack outwards; lowercase names are legacy items
+const LIGHT_BULB_TYPES = [
+  'Light Bulb', 'Light Bulb White',
+  'Light Bulb Red', 'Light Bulb Green', 'Light Bulb Blue',
+  'Light Bulb Orange', 'Light Bulb Purple', 'Light Bulb Rainbow',
+  'Light Bulb red', 'Light Bulb green', 'Light Bulb blue',
+  'Light Bulb orange', 'Light Bulb purple', 'Light Bulb rainbow'
+];
+
+// Inner, middle and outer colour of each bulb's aura
+const BULB_RGB: Record<string, [string, string, string]> = {
+  white: ['255, 255, 255', '240, 240, 240', '220, 220, 220'],
+  red: ['255, 100, 100', '255, 50, 50', '255, 0, 0'],
+  green: ['100, 255, 100', '50, 255, 50', '0, 255, 0'],
+  blue: ['100, 100, 255', '50, 50, 255', '0, 0, 255'],
+  orange: ['255, 165, 0', '255, 140, 0', '255, 100, 0'],
+  purple: ['200, 100, 255', '150, 50, 200', '100, 0, 150'],
+};
+
+type GlowColors = [string, string, string];
+
+function isRainbow(bulbType: string): boolean {
+  return bulbType.toLowerCase() === 'light bulb rainbow';
+}
+
+/**
+ * Gradient colours for one bulb layer. The centre always stays clear and outer layers
+ * get a little more opaque; legacy lowercase bulbs use fixed, stronger colours.
+ */
+function getBulbGlow(bulbType: string, layerIndex: number, time: number): GlowColors {
+  const isWhite = bulbType === 'Light Bulb' || bulbType === 'Light Bulb White';
+  const middleAlpha = Math.min(isWhite ? 0.15 : 0.12, (isWhite ? 0.05 : 0.04) + layerIndex * 0.02);
+  const outerAlpha = Math.min(isWhite ? 0.1 : 0.08, (isWhite ? 0.03 : 0.02) + layerIndex * 0.01);
+
+  if (isRainbow(bulbType)) {
+    const hue = (time * 40) % 360;
+    return [`hsla(${hue}, 100%, 70%, 0)`, `hsla(${(hue + 60) % 360}, 100%, 60%, ${middleAlpha})`, `hsla(${(hue + 120) % 360}, 100%, 50%, ${outerAlpha})`];
+  }
+
+  const colorName = isWhite ? 'White' : bulbType.slice('Light Bulb '.length);
+  const [inner, middle, outer] = BULB_RGB[colorName.toLowerCase()];
+  if (colorName[0] === colorName[0].toLowerCase()) {
+    return [`rgba(${inner}, 0.3)`, `rgba(${middle}, 0.2)`, `rgba(${outer}, 0.1)`];
+  }
+  return [`rgba(${inner}, 0)`, `rgba(${middle}, ${middleAlpha})`, `rgba(${outer}, ${outerAlpha})`];
+}
+
+/**
+ * Pulsing sparkles circling the player, one per bulb of a kind
+ */
+function renderSparkles(ctx: CanvasRenderingContext2D, center: { x: number; y: number }, bulbType: string, innerColor: string, count: number, time: number): void {
+  for (let i = 0; i < count; i++) {
+    const angle = (time * 2 + i * (360 / count)) % 360;
+    const distance = 80 + Math.sin(time * 3 + i) * 20;
+    const sparkleX = center.x + Math.cos(angle * Math.PI / 180) * distance;
+    const sparkleY = center.y + Math.sin(angle * Math.PI / 180) * distance;
+
+    ctx.fillStyle = isRainbow(bulbType)
+      ? `hsla(${((time * 40) + i * 30) % 360}, 100%, 80%, 0.3)`
+      : innerColor.replace(/[\d.]+\)/, '0.3)');
+
+    const sparkleSize = 4 + Math.sin(time * 4 + i) * 2;
+    ctx.beginPath();
+    ctx.arc(sparkleX, sparkleY, sparkleSize, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Soft glow around each sparkle
+    ctx.shadowColor = ctx.fillStyle;
+    ctx.shadowBlur = 4;
+    ctx.beginPath();
+    ctx.arc(sparkleX, sparkleY, sparkleSize * 0.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  }
+}
+
+/**
+ * Count active light effects as bulbs so they render like carried lights
+ */
+export function getLightEffectBulbs(lightEffects: Player['lightEffects']): Map<string, number> {
+  const items = new Map<string, number>();
+  lightEffects.forEach(({ type }) => {
+    const bulb = `Light Bulb ${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+    items.set(bulb, (items.get(bulb) ?? 0) + 1);
+  });
+  return items;
+}
+
+/**
+ * Layer a coloured aura around the player for each kind of bulb in `bulbs`,
+ * each kind one ring further out, shrinking while the player rests
+ */
+export function renderPlayerLights({ ctx, gameState, camera }: FrameContext, bulbs: ReadonlyMap<string, number>): void {
+  const kinds = LIGHT_BULB_TYPES.filter(bulbType => (bulbs.get(bulbType) ?? 0) > 0);
+  if (kinds.length === 0) return;
+
+  const { position, isResting } = gameState.player;
+  const screenPos = worldToScreen(position, camera);
+  const time = Date.now() * 0.0005;
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+
+  kinds.forEach((bulbType, layerIndex) => {
+    const layerRadius = (isResting ? 40 : 80) + layerIndex * (isResting ? 20 : 30);
+    const [inner, middle, outer] = getBulbGlow(bulbType, layerIndex, time);
+    const gradient = ctx.createRadialGradient(screenPos.x, screenPos.y, 0, screenPos.x, screenPos.y, layerRadius);
+    gradient.addColorStop(0, inner);
+    gradient.addColorStop(0.65, middle);
+    gradient.addColorStop(1, outer);
+
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(screenPos.x, screenPos.y, layerRadius, 0, Math.PI * 2);
+    ctx.fill();
+    renderSparkles(ctx, screenPos, bulbType, inner, bulbs.get(bulbType)!, time);
+  });
+
+  ctx.restore();
+}
@@ -0,0 +1,138 @@
+/**
+ * The built-in passes that draw a world frame, back to front
+ */
+
+import { isNightTime } from '../../../modules/core';
+import { listArchetype, readArchetype, ART_CAR, COIN, GAS_CAN, HELL_STATION, PORTOPOTTY } from '../../../modules/ecs';
+import { queryRect } from '../../../modules/spatial';
+import { isStaticLandmark } from './StaticLayerCache';
+import { StormEffects, renderDustStorm } from './weatherPass';
+import { renderLighting } from './lightingPass';
+import { renderStatsPanel } from './hudPass';
+import type { FrameContext, RenderPass, ScenePainter } from './types';
+
+export const SCENE_PASS_Z_ORDER = {
+  background: 0,
+  groundDecals: 100,
+  landmarks: 200,
+  entities: 300,
+  weather: 400,
+  drugEffects: 500,
+  lighting: 600,
+  hud: 700,
+  overlays: 800,
+} as const;
+
+/**
+ * Coins inside the camera viewport, using the spatial index when there is one
+ */
+function renderCoins(painter: ScenePainter, frame: FrameContext): void {
+  const { gameState, camera, spatialIndex } = frame;
+  const coins = spatialIndex
+    ? queryRect(
+        spatialIndex,
+        camera.viewport.x,
+        camera.viewport.y,
+        camera.viewport.x + camera.viewport.width,
+        camera.viewport.y + camera.viewport.height
+      ).entities.map(entity => readArchetype(gameState.entities, COIN, entity.id))
+    : listArchetype(gameState.entities, COIN);
+
+  coins.forEach(coin => {
+    if (coin && !coin.collected && frame.isVisible(coin.position)) {
+      painter.renderCoin(coin.position, coin.value, camera);
+    }
+  });
+}
+
+/**
+ * World objects the player can see, then the player and anything they ride
+ */
+function renderEntities(painter: ScenePainter, frame: FrameContext): void {
+  const { gameState, camera, worldId } = frame;
+  const { entities, player } = gameState;
+
+  if (worldId === 'playa') painter.renderNPCs(camera);
+  if (gameState.dustStorm.active) renderDustStorm(frame, gameState.dustStorm);
+  if (isNightTime(gameState.time)) {
+    painter.renderArtCarAuras(listArchetype(entities, ART_CAR).filter(car => frame.isVisible(car.pos) || car.id === player.mountedOn), camera);
+  }
+
+  const hellStation = listArchetype(entities, HELL_STATION)[0];
+  if (worldId === 'playa' && hellStation) {
+    painter.renderHellStationAndArtCars(hellStation, listArchetype(entities, GAS_CAN), listArchetype(entities, ART_CAR), camera, player.position, frame.visibilityRadius, listArchetype(entities, PORTOPOTTY), player.mountedOn ?? undefined);
+  }
+
+  renderCoins(painter, frame);
+  frame.collectibles?.forEach(collectible => {
+    if (!collectible.collected && frame.isVisible(collectible.position)) {
+      painter.renderCollectible(collectible.position, collectible.type, collectible.subtype, camera, collectible.id, collectible.lightBulbType);
+    }
+  });
+  frame.moop?.forEach(moopItem => {
+    if (!moopItem.collected && frame.isVisible(moopItem.position)) {
+      painter.renderMoop(moopItem, camera);
+    }
+  });
+  if (worldId === 'camp' || worldId === 'playa') {
+    frame.campMates?.forEach(campMate => {
+      if (frame.isVisible(campMate.position)) painter.renderCampMate(campMate, camera);
+    });
+  }
+
+  painter.renderPlayer(player.position, camera, player.isResting, player.stats.mood, !!player.mountedOn);
+  painter.renderEquippedItemEffects(player, camera);
+  const mountedCar = player.mountedOn ? readArchetype(entities, ART_CAR, player.mountedOn) : undefined;
+  if (mountedCar) painter.renderMountedArtCarOnTop(mountedCar, camera);
+}
+
+/**
+ * The built-in passes; weather, lighting and the HUD panels draw themselves and the rest go through the painter
+ */
+export function createScenePasses(painter: ScenePainter, storm: StormEffects = new StormEffects()): RenderPass[] {
+  const z = SCENE_PASS_Z_ORDER;
+  return [
+    {
+      id: 'background',
+      zOrder: z.background,
+      render: frame => {
+        painter.clear(frame.backgroundColor);
+        painter.preparePlayaCrowd(frame.worldId, frame.gameState);
+        // The satellite image, tents, camps and idle Man and Temple come from cached chunks
+        if (frame.worldId === 'playa') painter.renderPlayaStaticLayer(frame.camera, frame.landmarks);
+      },
+    },
+    {
+      id: 'groundDecals',
+      zOrder: z.groundDecals,
+      render: frame => {
+        if (frame.worldId === 'camp') painter.renderCampEffects(frame.camera);
+      },
+    },
+    {
+      id: 'landmarks',
+      zOrder: z.landmarks,
+      render: ({ worldId, landmarks, camera }) => {
+        if (!landmarks) return;
+        painter.renderLandmarks(worldId === 'playa' ? landmarks.filter(landmark => !isStaticLandmark(landmark)) : landmarks, camera);
+      },
+    },
+    { id: 'entities', zOrder: z.entities, render: frame => renderEntities(painter, frame) },
+    { id: 'weather', zOrder: z.weather, render: frame => storm.render(frame) },
+    {
+      id: 'drugEffects',
+      zOrder: z.drugEffects,
+      render: ({ gameState, camera }) => painter.renderDrugEffects(gameState.player.position, camera, gameState.player.drugs, gameState.time),
+    },
+    { id: 'lighting', zOrder: z.lighting, render: renderLighting },
+    {
+      id: 'hud',
+      zOrder: z.hud,
+      render: frame => {
+        painter.renderHudControls(frame);
+        renderStatsPanel(frame);
+      },
+    },
+    { id: 'overlays', zOrder: z.overlays, render: frame => painter.renderNotifications(frame.camera) },
+  ];
+}
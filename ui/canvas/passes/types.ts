@@ -0,0 +1,104 @@
+/**
+ * Render pass types - one frame's data and the passes that draw it in z-order
+ */
+
+import type { GameState, Player, Vec2 } from '../../../modules/core';
+import type { Camera } from '../../../modules/camera';
+import type { SpatialIndex } from '../../../modules/spatial';
+import type { Landmark } from '../../../modules/worlds';
+import type { MoopItem } from '../../../modules/moop';
+import type { CampMate } from '../../../modules/simulation';
+import type { WorldItemEntity } from '../../../modules/ecs';
+
+/**
+ * The built-in passes; other passes may use any id of their own
+ */
+export type BuiltInRenderPassId =
+  | 'background'
+  | 'groundDecals'
+  | 'landmarks'
+  | 'entities'
+  | 'weather'
+  | 'drugEffects'
+  | 'lighting'
+  | 'hud'
+  | 'overlays';
+
+/**
+ * Values only the HUD reads
+ */
+export interface HudFrameState {
+  isMuted?: boolean;
+  timeScale?: number;
+  activeDrugs?: any[];
+  coinChange?: number;
+  karmaChange?: number;
+  nearBike?: any;
+  nearbyArtCar?: any;
+  isOnArtCar?: boolean;
+}
+
+/**
+ * Everything the game hands the renderer for one frame
+ */
+export interface FrameInput {
+  gameState: GameState;
+  camera: Camera;
+  worldId: string;
+  spatialIndex?: SpatialIndex;
+  backgroundColor?: string;
+  landmarks?: Landmark[];
+  collectibles?: WorldItemEntity[];
+  moop?: MoopItem[];
+  campMates?: CampMate[];
+  hud: HudFrameState;
+}
+
+/**
+ * The frame as every pass sees it: the input plus values worked out once per frame
+ */
+export interface FrameContext extends FrameInput {
+  ctx: CanvasRenderingContext2D;
+  visibilityRadius: number;
+  isVisible(position: Vec2): boolean; // inside the fog of war
+}
+
+export interface RenderPass {
+  id: BuiltInRenderPassId | (string & {});
+  zOrder: number; // lower draws first
+  render(frame: FrameContext): void;
+}
+
+/**
+ * How long a pass took, with a smoothed average for profiling overlays
+ */
+export interface RenderPassTiming {
+  id: string;
+  lastMs: number;
+  averageMs: number;
+}
+
+/**
+ * The drawing operations the built-in passes call on the renderer
+ */
+export interface ScenePainter {
+  clear(backgroundColor?: string): void;
+  preparePlayaCrowd(worldId: string, gameState: GameState): void;
+  renderPlayaStaticLayer(camera: Camera, landmarks?: Landmark[]): void;
+  renderCampEffects(camera: Camera): void;
+  renderLandmarks(landmarks: Landmark[], camera: Camera): void;
+  renderNPCs(camera: Camera): void;
+  getVisibilityRadius(gameState: GameState): number;
+  renderArtCarAuras(artCars: any[], camera: Camera): void;
+  renderHellStationAndArtCars(hellStation: any, gasCans: any[], artCars: any[], camera: Camera, playerPos: Vec2, visibilityRadius: number, portopotties: any[], mountedOn?: string): void;
+  renderCoin(position: Vec2, value: number, camera: Camera): void;
+  renderCollectible(position: Vec2, type: string, subtype: string | undefined, camera: Camera, id?: string, lightBulbType?: string): void;
+  renderMoop(moop: MoopItem, camera: Camera): void;
+  renderCampMate(campMate: CampMate, camera: Camera): void;
+  renderPlayer(position: Vec2, camera: Camera, isResting?: boolean, mood?: number, isMounted?: boolean): void;
+  renderEquippedItemEffects(player: Player, camera: Camera): void;
+  renderMountedArtCarOnTop(artCar: any, camera: Camera): void;
+  renderDrugEffects(playerPos: Vec2, camera: Camera, drugs: any, gameTime: any): void;
+  renderHudControls(frame: FrameContext): void; // inventory, top bar and action panel, which own their click areas
+  renderNotifications(camera: Camera): void;
+}
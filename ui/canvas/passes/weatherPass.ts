@@ -0,0 +1,199 @@
+/**
+ * Weather pass - thunderstorm rain and lightning over the world, and the dust storm white-out
+ */
+
+import type { DustStorm } from '../../../modules/core';
+import type { FrameContext } from './types';
+
+interface RainDrop {
+  x: number;
+  y: number;
+  speed: number;
+  color: string;
+  size: number;
+}
+
+interface LightningSegment {
+  x: number;
+  y: number;
+  endX: number;
+  endY: number;
+}
+
+interface LightningBranch {
+  path: LightningSegment[];
+  size: number;
+  subBranches: LightningBranch[];
+  chance: number;
+  canvasWidth: number;
+  canvasHeight: number;
+  depth: number;
+}
+
+interface LightningBolt {
+  branches: LightningBranch[];
+  opacity: number;
+  opacityDecay: number;
+}
+
+function createLightningBranch(canvasWidth: number, canvasHeight: number, depth: number = 0): LightningBranch {
+  const startX = Math.random() * canvasWidth;
+  const startY = -50;
+  const chance = Math.max(1, 5 - depth); // Reduce chance with depth to prevent infinite recursion
+
+  return {
+    path: [{
+      x: startX,
+      y: startY,
+      endX: (0.5 - Math.random()) * (canvasHeight / 10) + startX,
+      endY: (0.7 - Math.random()) * (canvasWidth / 20) + startY
+    }],
+    size: chance + Math.floor(Math.random() * 10),
+    subBranches: [],
+    chance,
+    canvasWidth,
+    canvasHeight,
+    depth
+  };
+}
+
+/**
+ * Grow a lightning branch a few segments and draw it, returning true once it is fully grown
+ */
+function renderLightningBranch(ctx: CanvasRenderingContext2D, branch: LightningBranch): boolean {
+  let ready = true;
+
+  if (branch.path.length < branch.size) {
+    for (let i = 0; i < 3; i++) {
+      const lastPoint = branch.path[branch.path.length - 1];
+      branch.path.push({
+        x: lastPoint.endX,
+        y: lastPoint.endY,
+        endX: (0.5 - Math.random()) * (branch.canvasHeight / 10) + lastPoint.endX,
+        endY: Math.random() * (branch.canvasWidth / 30) + lastPoint.endY
+      });
+
+      if (Math.random() < branch.chance / 10 && branch.depth < 3) { // Limit depth to 3 levels
+        branch.subBranches.push(createLightningBranch(branch.canvasWidth, branch.canvasHeight, branch.depth + 1));
+      }
+    }
+    ready = false;
+  }
+
+  branch.path.forEach(segment => {
+    ctx.lineWidth = branch.chance * 0.2;
+    ctx.beginPath();
+    ctx.moveTo(segment.x, segment.y);
+    ctx.lineTo(segment.endX, segment.endY);
+    ctx.stroke();
+  });
+  branch.subBranches.forEach(subBranch => renderLightningBranch(ctx, subBranch));
+
+  return ready;
+}
+
+/**
+ * Rain and lightning that persist from frame to frame while a thunderstorm lasts
+ */
+export class StormEffects {
+  private rainDrops: RainDrop[] = [];
+  private lightningBolts: LightningBolt[] = [];
+
+  /**
+   * Draw the current weather over the world
+   */
+  render({ ctx, gameState }: FrameContext): void {
+    const weather = gameState.weather;
+    if (!weather || weather.duration <= 0 || weather.type !== 'thunderstorm') return;
+
+    ctx.save();
+    this.updateAndRenderRain(ctx, weather.intensity);
+    this.updateAndRenderLightning(ctx, weather.intensity);
+    ctx.restore();
+  }
+
+  /**
+   * Clear thunderstorm effects when weather changes
+   */
+  clear(): void {
+    this.rainDrops = [];
+    this.lightningBolts = [];
+  }
+
+  private updateAndRenderRain(ctx: CanvasRenderingContext2D, intensity: number): void {
+    const { width, height } = ctx.canvas;
+    const newDrops = Math.floor(5 + intensity * 10); // 5-15 raindrops per frame based on intensity
+    for (let i = 0; i < newDrops; i++) {
+      const speed = Math.random() * 10;
+      const shade = Math.floor(150 - speed * 8);
+      this.rainDrops.push({ x: Math.random() * width, y: -50, speed, color: `rgb(${shade}, ${shade}, ${shade})`, size: Math.floor(Math.random() * 20 + 3) });
+    }
+
+    ctx.lineWidth = 1;
+    this.rainDrops = this.rainDrops.filter(rain => {
+      rain.y += 15 + rain.speed;
+      if (rain.y > height + 10) return false;
+
+      ctx.strokeStyle = rain.color;
+      ctx.beginPath();
+      ctx.moveTo(rain.x, rain.y);
+      ctx.lineTo(rain.x, rain.y + rain.size);
+      ctx.stroke();
+      return true;
+    });
+  }
+
+  private updateAndRenderLightning(ctx: CanvasRenderingContext2D, intensity: number): void {
+    const lightningChance = intensity * 0.15; // 0-15% chance per frame
+    if (Math.random() < lightningChance) {
+      this.lightningBolts.push({
+        branches: [createLightningBranch(ctx.canvas.width, ctx.canvas.height)],
+        opacity: 1.0,
+        opacityDecay: 0.05 - (Math.random() / 30) // Slow decay so lightning lingers
+      });
+    }
+
+    this.lightningBolts = this.lightningBolts.filter(bolt => {
+      ctx.strokeStyle = `rgba(255, 255, 255, ${bolt.opacity})`;
+      ctx.fillStyle = ctx.strokeStyle;
+
+      const grown = bolt.branches.map(branch => renderLightningBranch(ctx, branch)).every(Boolean);
+      if (grown) bolt.opacity -= bolt.opacityDecay;
+      return bolt.opacity > 0;
+    });
+  }
+}
+
+/**
+ * Dust storm white-out: drifting particles, a white overlay and wind lines
+ */
+export function renderDustStorm({ ctx }: FrameContext, dustStorm: DustStorm): void {
+  const { width, height } = ctx.canvas;
+  const time = Date.now() * 0.001;
+  const baseOpacity = dustStorm.intensity * 0.8;
+
+  for (let i = 0; i < 200; i++) {
+    const particleX = (Math.sin(time * 0.5 + i * 0.1) * width * 0.5) + width * 0.5;
+    const particleY = (Math.cos(time * 0.3 + i * 0.15) * height * 0.5) + height * 0.5;
+    const particleSize = 2 + Math.sin(time * 2 + i) * 1;
+    ctx.fillStyle = `rgba(255, 255, 255, ${baseOpacity * (0.3 + Math.sin(time * 3 + i) * 0.2)})`;
+    ctx.beginPath();
+    ctx.arc(particleX, particleY, particleSize, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = `rgba(255, 255, 255, ${dustStorm.intensity * 0.6})`;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = `rgba(255, 255, 255, ${baseOpacity * 0.3})`;
+  ctx.lineWidth = 1;
+  for (let i = 0; i < 50; i++) {
+    const lineX = (time * 100 + i * 20) % (width + 100) - 50;
+    const lineY = height * 0.2 + Math.sin(time * 2 + i) * height * 0.1;
+    const lineLength = 50 + Math.sin(time * 3 + i) * 20;
+    ctx.beginPath();
+    ctx.moveTo(lineX, lineY);
+    ctx.lineTo(lineX + lineLength, lineY);
+    ctx.stroke();
+  }
+}
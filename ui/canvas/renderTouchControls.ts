@@ -0,0 +1,44 @@
+/**
+ * Draws the touch overlay: the joystick under the player's thumb and the action buttons
+ */
+
+import type { TouchControlsView } from '../../modules/input';
+
+export function renderTouchControls(ctx: CanvasRenderingContext2D, view: TouchControlsView): void {
+  ctx.save();
+
+  if (view.joystick) {
+    const { origin, knob, radius } = view.joystick;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(origin.x, origin.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = 'rgba(255, 210, 63, 0.8)';
+    ctx.beginPath();
+    ctx.arc(knob.x, knob.y, radius * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.font = 'bold 11px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  view.buttons.forEach(button => {
+    const held = view.held.includes(button.action);
+    ctx.fillStyle = held ? 'rgba(255, 210, 63, 0.85)' : 'rgba(0, 0, 0, 0.55)';
+    ctx.strokeStyle = '#ffd23f';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(button.center.x, button.center.y, button.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = held ? '#000' : '#fff';
+    ctx.fillText(button.label, button.center.x, button.center.y, button.radius * 1.8);
+  });
+
+  ctx.restore();
+}
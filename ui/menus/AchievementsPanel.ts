@@ -0,0 +1,108 @@
+/**
+ * Achievements panel listing every achievement and award with its progress
+ */
+
+import type { AchievementView } from '../../modules/achievements';
+
+export class AchievementsPanel {
+  private overlay: HTMLElement | null = null;
+
+  constructor(private getAchievements: () => AchievementView[]) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  show(): void {
+    if (this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 10000;
+      font-family: 'Courier New', monospace;
+      color: #fff;
+    `;
+    this.overlay.addEventListener('click', e => {
+      if (e.target === this.overlay) this.hide();
+    });
+
+    const box = document.createElement('div');
+    box.style.cssText = `
+      background: #1e1e2f;
+      border: 2px solid #ffd700;
+      border-radius: 14px;
+      width: 560px;
+      max-width: 90vw;
+      max-height: 80vh;
+      overflow-y: auto;
+      padding: 20px;
+    `;
+
+    const achievements = this.getAchievements();
+    const title = document.createElement('h2');
+    title.textContent = `🏆 Achievements (${achievements.filter(view => view.unlocked).length}/${achievements.length})`;
+    title.style.cssText = 'margin: 0 0 12px 0; color: #ffd23f;';
+    box.appendChild(title);
+
+    achievements.forEach(view => box.appendChild(this.createRow(view)));
+
+    const closeButton = document.createElement('button');
+    closeButton.textContent = 'Close';
+    closeButton.style.cssText = 'margin-top: 12px; background: #e74c3c; color: #fff; border: none; padding: 8px 12px; border-radius: 8px; cursor: pointer;';
+    closeButton.addEventListener('click', () => this.hide());
+    box.appendChild(closeButton);
+
+    this.overlay.appendChild(box);
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private createRow({ definition, unlocked, count, target, label }: AchievementView): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `background: rgba(45, 45, 68, 0.85); border: 1px solid ${unlocked ? '#ffd700' : '#555'}; border-radius: 10px; padding: 10px; margin-bottom: 8px;${unlocked ? '' : ' opacity: .8;'}`;
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; justify-content: space-between; font-weight: bold;';
+    header.textContent = `${definition.emoji} ${definition.name}${definition.category === 'award' ? ' 🎖️' : ''}`;
+    const progress = document.createElement('span');
+    progress.textContent = unlocked ? '✅' : label;
+    progress.style.cssText = 'color: #2ecc71;';
+    header.appendChild(progress);
+    row.appendChild(header);
+
+    const bar = document.createElement('div');
+    bar.style.cssText = 'height: 6px; background: #34495e; border-radius: 3px; margin: 6px 0;';
+    const fill = document.createElement('div');
+    fill.style.cssText = `height: 100%; width: ${(count / target) * 100}%; background: #ffd700; border-radius: 3px;`;
+    bar.appendChild(fill);
+    row.appendChild(bar);
+
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 12px; opacity: .85;';
+    details.textContent = definition.description;
+    row.appendChild(details);
+    return row;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Camp job board panel: how each camp mate is doing and which job they work
+ */
+
+import type { CampJob, CampMate } from '../../modules/simulation';
+import { CAMP_JOBS } from '../../modules/simulation';
+
+/**
+ * What the panel can ask the game to do
+ */
+export interface CampJobsPanelActions {
+  getCampMates(): CampMate[];
+  assignJob(campMateId: string, job: CampJob | null): void;
+  onClose(): void;
+}
+
+const BUTTON_STYLE = `
+  border: none;
+  color: white;
+  padding: 4px 8px;
+  border-radius: 6px;
+  font-size: 12px;
+  cursor: pointer;
+`;
+
+/**
+ * "💧 64 ⚡ 80"
+ */
+export function formatCampMateNeeds({ needs }: CampMate): string {
+  return `💧 ${Math.round(needs.thirst)} ⚡ ${Math.round(needs.energy)}`;
+}
+
+export class CampJobsPanel {
+  private overlay: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private renderedKey = '';
+
+  constructor(private actions: CampJobsPanelActions) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Open the panel at the side of the screen so the player can still see camp
+   */
+  show(): void {
+    if (this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 80px;
+      right: 20px;
+      width: min(460px, 92vw);
+      max-height: 75vh;
+      overflow-y: auto;
+      background: linear-gradient(135deg, #4e342e, #795548);
+      border: 2px solid #c49a6c;
+      border-radius: 15px;
+      padding: 20px;
+      z-index: 10000;
+      font-family: system-ui, -apple-system, sans-serif;
+      color: white;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = '📋 Camp Job Board';
+    title.style.cssText = 'margin: 0 0 12px 0; color: #c49a6c;';
+    this.overlay.appendChild(title);
+
+    this.list = document.createElement('div');
+    this.overlay.appendChild(this.list);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = BUTTON_STYLE + 'background: #e74c3c; margin-top: 10px; padding: 6px 14px;';
+    closeBtn.addEventListener('click', () => this.hide());
+    this.overlay.appendChild(closeBtn);
+
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.refresh();
+  }
+
+  /**
+   * Close the panel
+   */
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+    this.list = null;
+    this.renderedKey = '';
+    this.actions.onClose();
+  }
+
+  /**
+   * Redraw the rows when a camp mate's job, activity or needs changed
+   */
+  refresh(): void {
+    if (!this.list) return;
+
+    const campMates = this.actions.getCampMates();
+    const key = JSON.stringify(campMates.map(mate => [mate.id, mate.job, mate.activity, formatCampMateNeeds(mate)]));
+    if (key === this.renderedKey) return;
+    this.renderedKey = key;
+
+    this.list.innerHTML = '';
+    campMates.forEach(mate => this.list?.appendChild(this.createRow(mate)));
+    if (campMates.length === 0) {
+      this.list.textContent = 'Nobody is in camp right now';
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private createRow(mate: CampMate): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'background: rgba(255, 255, 255, 0.08); border-radius: 8px; padding: 10px 12px; margin-bottom: 8px;';
+
+    const info = document.createElement('div');
+    info.innerHTML = `<div style="font-weight: bold;">${mate.name} <span style="opacity: .7; font-size: 12px;">${mate.activity}</span></div>
+      <div style="opacity: .85; font-size: 13px;">${formatCampMateNeeds(mate)}</div>`;
+    row.appendChild(info);
+
+    const buttons = document.createElement('div');
+    buttons.style.cssText = 'display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px;';
+    const jobs: Array<CampJob | null> = [...(Object.keys(CAMP_JOBS) as CampJob[]), null];
+    jobs.forEach(job => {
+      const button = document.createElement('button');
+      button.textContent = job ? `${CAMP_JOBS[job].emoji} ${CAMP_JOBS[job].label}` : 'Off duty';
+      button.title = job ? CAMP_JOBS[job].description : 'No job';
+      const selected = (mate.job ?? null) === job;
+      button.style.cssText = BUTTON_STYLE + `background: ${selected ? '#27ae60' : '#5d4037'};`;
+      button.addEventListener('click', () => {
+        this.actions.assignJob(mate.id, job);
+        this.refresh();
+      });
+      buttons.appendChild(button);
+    });
+    row.appendChild(buttons);
+
+    return row;
+  }
+}
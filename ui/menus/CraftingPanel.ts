@@ -0,0 +1,185 @@
+/**
+ * Workbench crafting panel listing known recipes and what each is missing
+ */
+
+import type { CraftFailure, CraftingRecipe, CraftResult, MissingIngredient, RecipeStatus } from '../../modules/core';
+
+/**
+ * The recipe on the workbench and how long it has left
+ */
+export interface CraftingJobView {
+  recipe: CraftingRecipe;
+  minutesLeft: number;
+}
+
+/**
+ * What the panel can ask the game to do
+ */
+export interface CraftingPanelActions {
+  getStatuses(): RecipeStatus[];
+  getJob(): CraftingJobView | null;
+  craft(recipeId: string): CraftResult;
+  onClose(): void;
+}
+
+const FAILURE_MESSAGES: Record<CraftFailure, string> = {
+  'unknown-recipe': "You don't know that recipe yet",
+  'busy': 'The workbench is busy - wait for the current job',
+  'missing-ingredients': 'Missing ingredients',
+  'no-workbench': 'Walk up to the workbench to craft',
+};
+
+const BUTTON_STYLE = `
+  border: none;
+  color: white;
+  padding: 6px 14px;
+  border-radius: 8px;
+  font-weight: bold;
+  cursor: pointer;
+`;
+
+/**
+ * "2× Rope, 1× Glitter Rope (craftable)"
+ */
+export function formatMissingIngredients(missing: MissingIngredient[]): string {
+  return missing
+    .map(({ item, quantity, recipeId }) => `${quantity}× ${item}${recipeId ? ' (craftable)' : ''}`)
+    .join(', ');
+}
+
+export class CraftingPanel {
+  private overlay: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private renderedKey = '';
+
+  constructor(private actions: CraftingPanelActions) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Open the panel at the side of the screen so the player can still see the playa
+   */
+  show(): void {
+    if (this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 80px;
+      right: 20px;
+      width: min(420px, 92vw);
+      max-height: 75vh;
+      overflow-y: auto;
+      background: linear-gradient(135deg, #3e2723, #5d4037);
+      border: 2px solid #d7a86e;
+      border-radius: 15px;
+      padding: 20px;
+      z-index: 10000;
+      font-family: system-ui, -apple-system, sans-serif;
+      color: white;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = '🔨 Workbench';
+    title.style.cssText = 'margin: 0 0 12px 0; color: #d7a86e;';
+    this.overlay.appendChild(title);
+
+    this.list = document.createElement('div');
+    this.overlay.appendChild(this.list);
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'min-height: 1.2em; margin-top: 10px; color: #ffd93d;';
+    this.overlay.appendChild(this.status);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = BUTTON_STYLE + 'background: #e74c3c; margin-top: 10px;';
+    closeBtn.addEventListener('click', () => this.hide());
+    this.overlay.appendChild(closeBtn);
+
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.refresh();
+  }
+
+  /**
+   * Close the panel
+   */
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+    this.list = null;
+    this.status = null;
+    this.renderedKey = '';
+    this.actions.onClose();
+  }
+
+  /**
+   * Redraw the recipe list when the inventory, known recipes or job have changed
+   */
+  refresh(): void {
+    if (!this.list) return;
+
+    const statuses = this.actions.getStatuses();
+    const job = this.actions.getJob();
+    const key = JSON.stringify([statuses.map(s => [s.recipe.id, s.missing]), job && [job.recipe.id, Math.ceil(job.minutesLeft)]]);
+    if (key === this.renderedKey) return;
+    this.renderedKey = key;
+
+    this.list.innerHTML = '';
+    if (job) {
+      const progress = document.createElement('div');
+      progress.style.cssText = 'margin-bottom: 10px; color: #ffd93d;';
+      progress.textContent = `⏳ ${job.recipe.result} ready in ${Math.ceil(job.minutesLeft)} min`;
+      this.list.appendChild(progress);
+    }
+    statuses.forEach(status => this.list?.appendChild(this.createRow(status, job !== null)));
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private createRow({ recipe, missing, craftable }: RecipeStatus, busy: boolean): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 10px;
+      background: rgba(255, 255, 255, 0.08);
+      border-radius: 8px;
+      padding: 10px 12px;
+      margin-bottom: 8px;
+    `;
+
+    const ingredients = recipe.ingredients.map(({ item, quantity }) => `${quantity}× ${item}`).join(', ');
+    const info = document.createElement('div');
+    info.innerHTML = `<div style="font-weight: bold;">${recipe.result} <span style="opacity: .6; font-size: 12px;">${recipe.minutes} min</span></div>
+      <div style="opacity: .85; font-size: 13px;">${ingredients}</div>
+      ${craftable ? '' : `<div style="color: #ff8a80; font-size: 12px;">Missing: ${formatMissingIngredients(missing)}</div>`}`;
+    row.appendChild(info);
+
+    const button = document.createElement('button');
+    button.textContent = 'Craft';
+    button.disabled = !craftable || busy;
+    button.style.cssText = BUTTON_STYLE + `background: ${button.disabled ? '#7f8c8d' : '#27ae60'};`;
+    button.addEventListener('click', () => this.craft(recipe.id));
+    row.appendChild(button);
+
+    return row;
+  }
+
+  private craft(recipeId: string): void {
+    const result = this.actions.craft(recipeId);
+    if (this.status) this.status.textContent = result.success ? '' : FAILURE_MESSAGES[result.reason ?? 'missing-ingredients'];
+    this.refresh();
+  }
+}
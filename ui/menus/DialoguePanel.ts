@@ -0,0 +1,145 @@
+/**
+ * Dialogue panel - shows any camp or NPC conversation one node at a time
+ */
+
+import type { DialogueChoiceResult, DialogueChoiceView, DialogueDefinition } from '../../modules/dialogue';
+
+/**
+ * What the panel can ask the game to do
+ */
+export interface DialoguePanelActions {
+  getChoices(dialogue: DialogueDefinition, nodeId: string): DialogueChoiceView[];
+  choose(dialogue: DialogueDefinition, nodeId: string, choiceIndex: number): DialogueChoiceResult;
+  onClose(): void;
+}
+
+const BUTTON_STYLE = `
+  border: none;
+  color: white;
+  padding: 12px 24px;
+  border-radius: 8px;
+  font-size: 16px;
+  font-weight: bold;
+  cursor: pointer;
+`;
+
+export class DialoguePanel {
+  private overlay: HTMLElement | null = null;
+  private box: HTMLElement | null = null;
+  private dialogue: DialogueDefinition | null = null;
+
+  constructor(private actions: DialoguePanelActions) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Open a conversation at its start node, with an optional note under the first line
+   */
+  show(dialogue: DialogueDefinition, note?: string): void {
+    if (this.overlay) return;
+    this.dialogue = dialogue;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.7);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 10000;
+      font-family: system-ui, -apple-system, sans-serif;
+    `;
+    this.overlay.addEventListener('click', e => {
+      if (e.target === this.overlay) this.hide();
+    });
+
+    this.box = document.createElement('div');
+    this.box.style.cssText = `
+      background: linear-gradient(135deg, #2c3e50, #34495e);
+      border: 3px solid ${dialogue.color};
+      border-radius: 15px;
+      padding: 30px;
+      max-width: 500px;
+      text-align: center;
+      box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5);
+    `;
+    this.overlay.appendChild(this.box);
+
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.renderNode(dialogue.start, note);
+  }
+
+  /**
+   * Close the conversation
+   */
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+    this.box = null;
+    this.dialogue = null;
+    this.actions.onClose();
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private renderNode(nodeId: string, note?: string): void {
+    const dialogue = this.dialogue;
+    const node = dialogue?.nodes[nodeId];
+    if (!this.box || !dialogue || !node) return;
+
+    this.box.innerHTML = '';
+    const title = document.createElement('h2');
+    title.textContent = dialogue.title;
+    title.style.cssText = `color: ${dialogue.color}; margin: 0 0 20px 0; font-size: 24px;`;
+    this.box.appendChild(title);
+
+    const text = document.createElement('p');
+    text.textContent = node.text;
+    text.style.cssText = 'color: #ecf0f1; margin: 0 0 20px 0; font-size: 16px;';
+    this.box.appendChild(text);
+
+    if (note) {
+      const noteLine = document.createElement('p');
+      noteLine.textContent = note;
+      noteLine.style.cssText = 'color: #2ecc71; margin: 0 0 20px 0; font-size: 14px;';
+      this.box.appendChild(noteLine);
+    }
+
+    const choices = document.createElement('div');
+    choices.style.cssText = 'display: flex; flex-wrap: wrap; gap: 15px; justify-content: center;';
+    this.actions.getChoices(dialogue, nodeId).forEach(choice => choices.appendChild(this.createChoiceButton(nodeId, choice)));
+    this.box.appendChild(choices);
+  }
+
+  private createChoiceButton(nodeId: string, { index, text, available }: DialogueChoiceView): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.disabled = !available;
+    button.style.cssText = BUTTON_STYLE + `background: ${available ? 'linear-gradient(135deg, #27ae60, #2ecc71)' : '#7f8c8d'};`;
+    button.addEventListener('click', () => this.choose(nodeId, index));
+    return button;
+  }
+
+  private choose(nodeId: string, choiceIndex: number): void {
+    if (!this.dialogue) return;
+    const result = this.actions.choose(this.dialogue, nodeId, choiceIndex);
+    if (result.success && result.next === null) {
+      this.hide();
+    } else {
+      this.renderNode(result.next ?? nodeId);
+    }
+  }
+}
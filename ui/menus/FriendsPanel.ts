@@ -0,0 +1,128 @@
+/**
+ * Friends panel listing everyone the player has gifted to and what they were invited to
+ */
+
+import type { FriendView, GiftRecipientKind } from '../../modules/relationships';
+
+const KIND_EMOJI: Record<GiftRecipientKind, string> = {
+  camp: '🏕️',
+  wanderer: '🚐',
+  campMate: '🐾',
+};
+
+/**
+ * "Sunrise yoga at Center Camp, day 5 06:00"
+ */
+export function formatInvitation({ event, where, day, hour }: FriendView['invitations'][number]): string {
+  return `${event} at ${where}, day ${day} ${String(hour).padStart(2, '0')}:00`;
+}
+
+export class FriendsPanel {
+  private overlay: HTMLElement | null = null;
+
+  constructor(private getFriends: () => FriendView[]) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  show(): void {
+    if (this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.6);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 10000;
+      font-family: 'Courier New', monospace;
+      color: #fff;
+    `;
+    this.overlay.addEventListener('click', e => {
+      if (e.target === this.overlay) this.hide();
+    });
+
+    const box = document.createElement('div');
+    box.style.cssText = `
+      background: #1e1e2f;
+      border: 2px solid #8b5cf6;
+      border-radius: 14px;
+      width: 560px;
+      max-width: 90vw;
+      max-height: 80vh;
+      overflow-y: auto;
+      padding: 20px;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = '👥 Friends';
+    title.style.cssText = 'margin: 0 0 12px 0; color: #ffd23f;';
+    box.appendChild(title);
+
+    const friends = this.getFriends();
+    friends.forEach(friend => box.appendChild(this.createRow(friend)));
+    if (friends.length === 0) {
+      const empty = document.createElement('div');
+      empty.textContent = 'No friends yet - give someone a gift';
+      empty.style.cssText = 'opacity: .7; padding: 6px;';
+      box.appendChild(empty);
+    }
+
+    const closeButton = document.createElement('button');
+    closeButton.textContent = 'Close';
+    closeButton.style.cssText = 'margin-top: 12px; background: #e74c3c; color: #fff; border: none; padding: 8px 12px; border-radius: 8px; cursor: pointer;';
+    closeButton.addEventListener('click', () => this.hide());
+    box.appendChild(closeButton);
+
+    this.overlay.appendChild(box);
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private createRow(friend: FriendView): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'background: rgba(45, 45, 68, 0.85); border: 1px solid #8b5cf6; border-radius: 10px; padding: 10px; margin-bottom: 8px;';
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; justify-content: space-between; font-weight: bold;';
+    header.textContent = `${KIND_EMOJI[friend.kind]} ${friend.name}`;
+    const level = document.createElement('span');
+    level.textContent = `${friend.level} (${friend.score})`;
+    level.style.cssText = 'color: #2ecc71;';
+    header.appendChild(level);
+    row.appendChild(header);
+
+    const bar = document.createElement('div');
+    bar.style.cssText = 'height: 6px; background: #34495e; border-radius: 3px; margin: 6px 0;';
+    const fill = document.createElement('div');
+    fill.style.cssText = `height: 100%; width: ${friend.score}%; background: #8b5cf6; border-radius: 3px;`;
+    bar.appendChild(fill);
+    row.appendChild(bar);
+
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 12px; opacity: .85;';
+    const invitations = friend.invitations.map(formatInvitation);
+    details.textContent = `🎁 ${friend.gifts} gifts${invitations.length > 0 ? ` • 💌 ${invitations.join('; ')}` : ''}`;
+    row.appendChild(details);
+    return row;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Controls panel for rebinding the keys behind each action
+ */
+
+import {
+  DEFAULT_KEY_BINDINGS,
+  INPUT_ACTIONS,
+  INPUT_ACTION_LABELS,
+  bindKey,
+  findBindingConflicts,
+  formatKey,
+  unbindKey,
+  type BindingConflict,
+  type InputAction,
+  type KeyBindings,
+} from '../../modules/input';
+
+/**
+ * What the panel can ask the game to do
+ */
+export interface KeyBindingsPanelActions {
+  getBindings(): KeyBindings;
+  saveBindings(bindings: KeyBindings): Promise<void>;
+  onClose(): void;
+}
+
+const BUTTON_STYLE = `
+  border: none;
+  color: white;
+  padding: 4px 10px;
+  margin: 2px 4px 2px 0;
+  border-radius: 6px;
+  font-weight: bold;
+  cursor: pointer;
+`;
+
+/**
+ * "Space is bound to Rest and Mount / dismount"
+ */
+export function formatBindingConflict(conflict: BindingConflict): string {
+  const actions = conflict.actions.map(action => INPUT_ACTION_LABELS[action]);
+  return `${formatKey(conflict.key)} is bound to ${actions.join(' and ')}`;
+}
+
+export class KeyBindingsPanel {
+  private overlay: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private saveButton: HTMLButtonElement | null = null;
+  private draft: KeyBindings = DEFAULT_KEY_BINDINGS;
+  private capturing: InputAction | null = null; // the action waiting for its next key
+
+  constructor(private actions: KeyBindingsPanelActions) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Open the panel on a copy of the current bindings
+   */
+  show(): void {
+    if (this.overlay) return;
+    this.draft = this.actions.getBindings();
+    this.capturing = null;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.8);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 10001;
+      font-family: system-ui, -apple-system, sans-serif;
+      color: white;
+    `;
+
+    const box = document.createElement('div');
+    box.style.cssText = `
+      background: linear-gradient(135deg, #1a1a2e, #16213e);
+      border: 2px solid #4ecdc4;
+      border-radius: 15px;
+      padding: 24px;
+      width: min(560px, 92vw);
+      max-height: 85vh;
+      overflow-y: auto;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = '⌨️ Controls';
+    title.style.cssText = 'margin: 0 0 16px 0; color: #4ecdc4;';
+    box.appendChild(title);
+
+    this.list = document.createElement('div');
+    box.appendChild(this.list);
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'min-height: 1.2em; margin-top: 12px; color: #ff6b6b;';
+    box.appendChild(this.status);
+
+    const footer = document.createElement('div');
+    footer.style.cssText = 'margin-top: 12px;';
+    this.saveButton = this.createButton('Save', '#27ae60', () => void this.save());
+    footer.appendChild(this.saveButton);
+    footer.appendChild(this.createButton('Reset to defaults', '#8e44ad', () => this.update(DEFAULT_KEY_BINDINGS)));
+    footer.appendChild(this.createButton('Close', '#e74c3c', () => this.hide()));
+    box.appendChild(footer);
+
+    this.overlay.appendChild(box);
+    document.body.appendChild(this.overlay);
+    // Capture phase, so keys pressed here never reach the game or the menu underneath
+    window.addEventListener('keydown', this.handleKeyDown, true);
+
+    this.render();
+  }
+
+  /**
+   * Close the panel, dropping unsaved changes
+   */
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown, true);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+    this.list = null;
+    this.status = null;
+    this.saveButton = null;
+    this.actions.onClose();
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const action = this.capturing;
+    if (action === null) {
+      if (e.key === 'Escape') this.hide();
+      return;
+    }
+    this.capturing = null;
+    // Escape cancels a capture rather than binding itself; Reset to defaults restores it for Menu
+    this.update(e.key === 'Escape' ? this.draft : bindKey(this.draft, action, e.key));
+  };
+
+  private update(bindings: KeyBindings): void {
+    this.draft = bindings;
+    this.render();
+  }
+
+  /**
+   * Redraw every action's keys, marking conflicts and blocking Save while any remain
+   */
+  private render(): void {
+    if (!this.list || !this.status || !this.saveButton) return;
+
+    const conflicts = findBindingConflicts(this.draft);
+    const conflictKeys = new Set(conflicts.map(conflict => conflict.key));
+
+    this.list.innerHTML = '';
+    INPUT_ACTIONS.forEach(action => this.list?.appendChild(this.createRow(action, conflictKeys)));
+
+    this.status.textContent = conflicts.map(formatBindingConflict).join(' · ');
+    this.saveButton.disabled = conflicts.length > 0;
+    this.saveButton.style.opacity = conflicts.length > 0 ? '0.5' : '1';
+  }
+
+  private createRow(action: InputAction, conflictKeys: Set<string>): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 10px;
+      background: rgba(255, 255, 255, 0.08);
+      border-radius: 8px;
+      padding: 6px 12px;
+      margin-bottom: 6px;
+    `;
+
+    const label = document.createElement('div');
+    label.textContent = INPUT_ACTION_LABELS[action];
+    row.appendChild(label);
+
+    const keys = document.createElement('div');
+    keys.style.cssText = 'text-align: right;';
+    this.draft[action].forEach(key => {
+      const color = conflictKeys.has(key) ? '#e74c3c' : '#34495e';
+      keys.appendChild(this.createButton(`${formatKey(key)} ✕`, color, () => this.update(unbindKey(this.draft, action, key))));
+    });
+    const waiting = this.capturing === action;
+    keys.appendChild(this.createButton(waiting ? 'Press a key…' : '+', waiting ? '#f39c12' : '#3498db', () => {
+      this.capturing = action;
+      this.render();
+    }));
+    row.appendChild(keys);
+
+    return row;
+  }
+
+  private createButton(text: string, color: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.cssText = BUTTON_STYLE + `background: ${color};`;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.actions.saveBindings(this.draft);
+      this.hide();
+    } catch (error) {
+      if (this.status) this.status.textContent = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * In-game load/save menu listing every save slot
+ */
+
+import type { SaveSlotInfo, SaveSlotMetadata } from '../../modules/save';
+
+/**
+ * What the menu can ask the game to do
+ */
+export interface SaveSlotMenuActions {
+  listSlots(): Promise<SaveSlotInfo[]>;
+  save(slotId: string): Promise<void>;
+  load(slotId: string): Promise<void>;
+  openControls(): void;
+  onClose(): void;
+}
+
+const MANUAL_SLOT_IDS = ['slot-1', 'slot-2', 'slot-3'];
+
+const BUTTON_STYLE = `
+  border: none;
+  color: white;
+  padding: 6px 14px;
+  margin-left: 6px;
+  border-radius: 8px;
+  font-weight: bold;
+  cursor: pointer;
+`;
+
+/**
+ * Format seconds of play as "1h 05m"
+ */
+export function formatPlayTime(seconds: number): string {
+  const totalMinutes = Math.floor(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+}
+
+/**
+ * One-line summary of a slot for the menu
+ */
+export function formatSlotSummary(metadata: SaveSlotMetadata): string {
+  const hour = `${metadata.hour.toString().padStart(2, '0')}:00`;
+  const archetype = metadata.archetype ?? 'Undecided';
+  return `Day ${metadata.day}, ${hour} · ${metadata.worldId} · 🪙 ${metadata.coins} · ✨ ${Math.round(metadata.karma)} · ⏱️ ${formatPlayTime(metadata.playTimeSeconds)} · ${archetype}`;
+}
+
+export class SaveSlotMenu {
+  private overlay: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+
+  constructor(private actions: SaveSlotMenuActions) {}
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Open the menu and list the slots
+   */
+  show(): void {
+    if (this.overlay) return;
+
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.8);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 10000;
+      font-family: system-ui, -apple-system, sans-serif;
+      color: white;
+    `;
+
+    const box = document.createElement('div');
+    box.style.cssText = `
+      background: linear-gradient(135deg, #1a1a2e, #16213e);
+      border: 2px solid #4ecdc4;
+      border-radius: 15px;
+      padding: 24px;
+      width: min(640px, 92vw);
+      max-height: 85vh;
+      overflow-y: auto;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = '💾 Save & Load';
+    title.style.cssText = 'margin: 0 0 16px 0; color: #4ecdc4;';
+    box.appendChild(title);
+
+    this.list = document.createElement('div');
+    box.appendChild(this.list);
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'min-height: 1.2em; margin-top: 12px; color: #ffd93d;';
+    box.appendChild(this.status);
+
+    const controlsBtn = this.createButton('⌨️ Controls', '#3498db', () => this.actions.openControls());
+    controlsBtn.style.marginTop = '12px';
+    box.appendChild(controlsBtn);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = 'Close';
+    closeBtn.style.cssText = BUTTON_STYLE + 'background: #e74c3c; margin-top: 12px;';
+    closeBtn.addEventListener('click', () => this.hide());
+    box.appendChild(closeBtn);
+
+    this.overlay.appendChild(box);
+    document.body.appendChild(this.overlay);
+    window.addEventListener('keydown', this.handleKeyDown);
+
+    void this.refresh();
+  }
+
+  /**
+   * Close the menu and let the game resume
+   */
+  hide(): void {
+    if (!this.overlay) return;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    document.body.removeChild(this.overlay);
+    this.overlay = null;
+    this.list = null;
+    this.status = null;
+    this.actions.onClose();
+  }
+
+  toggle(): void {
+    if (this.isOpen()) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private setStatus(message: string): void {
+    if (this.status) this.status.textContent = message;
+  }
+
+  /**
+   * Redraw the slot list from storage
+   */
+  private async refresh(): Promise<void> {
+    const slots = await this.actions.listSlots();
+    if (!this.list) return;
+
+    this.list.innerHTML = '';
+    const byId = new Map(slots.map(slot => [slot.slotId, slot]));
+
+    MANUAL_SLOT_IDS.forEach((slotId, index) => {
+      this.list?.appendChild(this.createRow(`Slot ${index + 1}`, slotId, byId.get(slotId), true));
+    });
+
+    slots
+      .filter(slot => slot.kind === 'autosave')
+      .forEach(slot => this.list?.appendChild(this.createRow(`Autosave ${slot.slotId.split('-').pop()}`, slot.slotId, slot, false)));
+  }
+
+  private createRow(label: string, slotId: string, slot: SaveSlotInfo | undefined, canSave: boolean): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 10px;
+      background: rgba(255, 255, 255, 0.08);
+      border-radius: 8px;
+      padding: 10px 12px;
+      margin-bottom: 8px;
+    `;
+
+    const info = document.createElement('div');
+    const summary = slot?.metadata ? formatSlotSummary(slot.metadata) : slot ? 'Saved game' : 'Empty';
+    const savedAt = slot ? new Date(slot.savedAt).toLocaleString() : '';
+    info.innerHTML = `<div style="font-weight: bold;">${label}</div>
+      <div style="opacity: .85; font-size: 13px;">${summary}</div>
+      <div style="opacity: .6; font-size: 12px;">${savedAt}</div>`;
+    row.appendChild(info);
+
+    const buttons = document.createElement('div');
+    buttons.style.cssText = 'white-space: nowrap;';
+    if (canSave) {
+      buttons.appendChild(this.createButton('Save', '#27ae60', () => this.run(() => this.actions.save(slotId), `Saved to ${label}`)));
+    }
+    if (slot) {
+      buttons.appendChild(this.createButton('Load', '#3498db', () => this.run(() => this.actions.load(slotId), null)));
+    }
+    row.appendChild(buttons);
+
+    return row;
+  }
+
+  private createButton(text: string, color: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.cssText = BUTTON_STYLE + `background: ${color};`;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Run a save or load, reporting failures (such as corrupt saves) in the menu
+   */
+  private async run(action: () => Promise<void>, successMessage: string | null): Promise<void> {
+    try {
+      await action();
+      if (successMessage === null) {
+        this.hide();
+        return;
+      }
+      this.setStatus(successMessage);
+      await this.refresh();
+    } catch (error) {
+      this.setStatus(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
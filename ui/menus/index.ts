@@ -0,0 +1,11 @@
+/**
+ * DOM menus - overlays the game opens on top of the canvas
+ */
+
+export { SaveSlotMenu, formatPlayTime, formatSlotSummary, type SaveSlotMenuActions } from './SaveSlotMenu';
+export { CraftingPanel, formatMissingIngredients, type CraftingPanelActions, type CraftingJobView } from './CraftingPanel';
+export { DialoguePanel, type DialoguePanelActions } from './DialoguePanel';
+export { FriendsPanel, formatInvitation } from './FriendsPanel';
+export { CampJobsPanel, formatCampMateNeeds, type CampJobsPanelActions } from './CampJobsPanel';
+export { AchievementsPanel } from './AchievementsPanel';
+export { KeyBindingsPanel, formatBindingConflict, type KeyBindingsPanelActions } from './KeyBindingsPanel';